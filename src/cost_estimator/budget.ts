@@ -0,0 +1,270 @@
+import type { CostEstimationResult, TableTokenEstimate } from "./estimate.js";
+import { computeCostBreakdown } from "./pricing.js";
+import type { ModelPricingEntry } from "./pricing.js";
+import type { ChunkPartial } from "./thread_pool.js";
+
+// ---------------------------------------------------------------------------
+// Types
+// ---------------------------------------------------------------------------
+
+/** "each": every priced model must fit; "cheapest": only the cheapest paid model is checked. */
+export type BudgetBasis = "each" | "cheapest";
+
+export const BUDGET_BASES: BudgetBasis[] = ["each", "cheapest"];
+
+export type BudgetOptions = {
+  /** Max cost of the whole run, in USD. Key: model name, or "*" for every model. */
+  totalUsd: Record<string, number>;
+  /** Max cost of any one table, in USD. Same keys. */
+  tableUsd: Record<string, number>;
+  basis: BudgetBasis;
+  /** Stop dispatching tables and chunks once the running cost is over a total budget. */
+  abortOnExceed: boolean;
+};
+
+export type BudgetViolation = {
+  scope: "total" | "table";
+  model: string;
+  /** "schema.table"; present for table budgets. */
+  table?: string;
+  costUsd: number;
+  limitUsd: number;
+};
+
+export type BudgetCheck = {
+  options: BudgetOptions;
+  /** Models the budgets were checked against. */
+  checkedModels: string[];
+  violations: BudgetViolation[];
+  /** The run was stopped early; every cost is then a lower bound. */
+  aborted: boolean;
+  /** Incremental mode: the cost of the changed rows is checked, not the full run. */
+  changesOnly: boolean;
+};
+
+/** Exit code of a run that is over budget; 1 stays "the run failed". */
+export const BUDGET_EXCEEDED_EXIT_CODE = 3;
+
+/** Tokens of a table or of one of its chunks. */
+type TokenTotals = {
+  tokenCount: number;
+  tokenCountByModel: Record<string, number>;
+  delta?: { tokenCount: number; tokenCountByModel: Record<string, number> };
+};
+
+// ---------------------------------------------------------------------------
+// Checking
+// ---------------------------------------------------------------------------
+
+export function hasBudget(options: BudgetOptions | null | undefined): options is BudgetOptions {
+  return (
+    !!options &&
+    (Object.keys(options.totalUsd).length > 0 || Object.keys(options.tableUsd).length > 0)
+  );
+}
+
+/**
+ * Check the run's costs against the budgets. Costs are what would be paid:
+ * volume tiers and discounts applied, standard (not batch) prices. Table
+ * costs price each table on its own, so tiers start over per table.
+ */
+export function checkBudget(
+  result: Pick<CostEstimationResult, "tables" | "pricingEntries" | "delta">,
+  options: BudgetOptions,
+  aborted = false,
+): BudgetCheck {
+  const changesOnly = result.delta !== undefined;
+  const totals = new Map<string, number>();
+  for (const entry of result.pricingEntries) {
+    const tokens = result.tables.reduce(
+      (sum, table) => sum + tableTokens(table, entry.model, changesOnly),
+      0,
+    );
+    totals.set(entry.model, costOf(entry, tokens));
+  }
+
+  const checked = checkedEntries(result.pricingEntries, totals, options);
+  const violations: BudgetViolation[] = [];
+  for (const entry of checked) {
+    const totalLimit = limitFor(options.totalUsd, entry.model);
+    const totalCost = totals.get(entry.model) ?? 0;
+    if (totalLimit !== null && totalCost > totalLimit) {
+      violations.push({
+        scope: "total",
+        model: entry.model,
+        costUsd: totalCost,
+        limitUsd: totalLimit,
+      });
+    }
+
+    const tableLimit = limitFor(options.tableUsd, entry.model);
+    if (tableLimit === null) continue;
+    const overTables: BudgetViolation[] = [];
+    for (const table of result.tables) {
+      const cost = costOf(entry, tableTokens(table, entry.model, changesOnly));
+      if (cost > tableLimit) {
+        overTables.push({
+          scope: "table",
+          model: entry.model,
+          table: `${table.schema}.${table.table}`,
+          costUsd: cost,
+          limitUsd: tableLimit,
+        });
+      }
+    }
+    violations.push(...overTables.sort((a, b) => b.costUsd - a.costUsd));
+  }
+
+  return {
+    options,
+    checkedModels: checked.map((entry) => entry.model),
+    violations,
+    aborted,
+    changesOnly,
+  };
+}
+
+// ---------------------------------------------------------------------------
+// BudgetTracker
+// ---------------------------------------------------------------------------
+
+/**
+ * Running cost of a run in progress, for the early abort. Chunks count as
+ * they finish; a finished table replaces its chunks with the table's final
+ * (extrapolated) totals.
+ */
+export class BudgetTracker {
+  private readonly entries: ModelPricingEntry[];
+  private readonly options: BudgetOptions;
+  private readonly changesOnly: boolean;
+  /** Tokens per model. */
+  private readonly completed = new Map<string, number>();
+  /** Tokens per model of the finished chunks of unfinished tables. Key: "schema.table" */
+  private readonly inProgress = new Map<string, Map<string, number>>();
+
+  constructor(entries: ModelPricingEntry[], options: BudgetOptions, changesOnly: boolean) {
+    this.entries = entries;
+    this.options = options;
+    this.changesOnly = changesOnly;
+  }
+
+  /**
+   * `scale` projects a chunk's counted tokens to the whole chunk: a sampled
+   * chunk counts only the sampled rows, so it is `1 / fraction` there.
+   */
+  addChunk(tableKey: string, partial: ChunkPartial, scale = 1): void {
+    const tokens = this.inProgress.get(tableKey) ?? new Map<string, number>();
+    for (const entry of this.entries) {
+      const chunkTokens = tableTokens(partial, entry.model, this.changesOnly) * scale;
+      tokens.set(entry.model, (tokens.get(entry.model) ?? 0) + chunkTokens);
+    }
+    this.inProgress.set(tableKey, tokens);
+  }
+
+  addTable(table: Pick<TableTokenEstimate, "schema" | "table"> & TokenTotals): void {
+    this.inProgress.delete(`${table.schema}.${table.table}`);
+    for (const entry of this.entries) {
+      const tokens = tableTokens(table, entry.model, this.changesOnly);
+      this.completed.set(entry.model, (this.completed.get(entry.model) ?? 0) + tokens);
+    }
+  }
+
+  /** True once the running cost of a checked model is over its total budget. */
+  isOverBudget(): boolean {
+    const totals = new Map<string, number>();
+    for (const entry of this.entries) {
+      let tokens = this.completed.get(entry.model) ?? 0;
+      for (const chunkTokens of this.inProgress.values()) {
+        tokens += chunkTokens.get(entry.model) ?? 0;
+      }
+      totals.set(entry.model, costOf(entry, tokens));
+    }
+    return checkedEntries(this.entries, totals, this.options).some((entry) => {
+      const limit = limitFor(this.options.totalUsd, entry.model);
+      return limit !== null && (totals.get(entry.model) ?? 0) > limit;
+    });
+  }
+}
+
+// ---------------------------------------------------------------------------
+// Configuration
+// ---------------------------------------------------------------------------
+
+/**
+ * Read budgets from the environment: BUDGET_TOTAL_USD and BUDGET_TABLE_USD
+ * ("50" for every model, or "model=50,..."), BUDGET_BASIS and BUDGET_ABORT.
+ */
+export function parseBudgetOptionsFromEnv(env: NodeJS.ProcessEnv = process.env): BudgetOptions {
+  const basis = env.BUDGET_BASIS?.trim().toLowerCase();
+  if (basis && !BUDGET_BASES.includes(basis as BudgetBasis)) {
+    throw new Error(`Unknown budget basis "${env.BUDGET_BASIS}". Use: ${BUDGET_BASES.join(", ")}.`);
+  }
+
+  return {
+    totalUsd: parseModelAmounts("BUDGET_TOTAL_USD", env.BUDGET_TOTAL_USD ?? ""),
+    tableUsd: parseModelAmounts("BUDGET_TABLE_USD", env.BUDGET_TABLE_USD ?? ""),
+    basis: (basis as BudgetBasis | undefined) || "each",
+    abortOnExceed: env.BUDGET_ABORT === "true",
+  };
+}
+
+function parseModelAmounts(name: string, value: string): Record<string, number> {
+  const amounts: Record<string, number> = {};
+  for (const raw of value.split(",")) {
+    const item = raw.trim();
+    if (!item) continue;
+    const separator = item.lastIndexOf("=");
+    const model = separator >= 0 ? item.slice(0, separator).trim() : "*";
+    const amount = Number.parseFloat(separator >= 0 ? item.slice(separator + 1) : item);
+    if (!model || !Number.isFinite(amount) || amount < 0) {
+      throw new Error(`Invalid ${name} entry "${item}". Use 50 or model=50.`);
+    }
+    amounts[model] = amount;
+  }
+  return amounts;
+}
+
+// ---------------------------------------------------------------------------
+// Private helpers
+// ---------------------------------------------------------------------------
+
+function limitFor(limits: Record<string, number>, model: string): number | null {
+  return limits[model] ?? limits["*"] ?? null;
+}
+
+function costOf(entry: ModelPricingEntry, tokens: number): number {
+  return computeCostBreakdown(entry, tokens).discounted;
+}
+
+function tableTokens(
+  table: TokenTotals,
+  model: string,
+  changesOnly: boolean,
+): number {
+  if (changesOnly) {
+    return table.delta ? (table.delta.tokenCountByModel[model] ?? table.delta.tokenCount) : 0;
+  }
+  return table.tokenCountByModel[model] ?? table.tokenCount;
+}
+
+/**
+ * Every entry, or only the cheapest paid one. Free (local) models would
+ * always be the cheapest, so they never count as the cheapest.
+ */
+function checkedEntries(
+  entries: ModelPricingEntry[],
+  totals: Map<string, number>,
+  options: BudgetOptions,
+): ModelPricingEntry[] {
+  if (options.basis === "each") {
+    return entries;
+  }
+  const paid = entries.filter((entry) => entry.pricePerMillion > 0);
+  if (paid.length === 0) {
+    return [];
+  }
+  const cheapest = paid.reduce((best, entry) =>
+    (totals.get(entry.model) ?? 0) < (totals.get(best.model) ?? 0) ? entry : best,
+  );
+  return [cheapest];
+}
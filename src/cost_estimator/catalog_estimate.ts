@@ -0,0 +1,383 @@
+import {
+  closePostgresPool,
+  createPostgresPool,
+  discoverTables,
+  fetchColumnStatistics,
+} from "./db/postgres.js";
+import { selectPageContentColumns } from "./db/transform.js";
+import type { ColumnStatistics, RelationKind, TableInfo, TextColumnsMode } from "./db/types.js";
+import {
+  computeCostBreakdown,
+  computeTieredCost,
+  getPricing,
+  toMaxInputTokensMap,
+} from "./pricing.js";
+import type { ModelCostBreakdown, ModelPricingEntry } from "./pricing.js";
+import { buildModelTokenizers, createTokenCounter, REFERENCE_TOKENIZER } from "./tokenizers.js";
+import type { TokenCounter, TokenizerSpec } from "./tokenizers.js";
+import { simulateSplit, summarizeChunking } from "./chunking.js";
+import type { ModelChunkingStats, SplitterOptions } from "./chunking.js";
+import { defaultVectorStorageOptions, estimateVectorStorage } from "./storage.js";
+import type { VectorStorageOptions } from "./storage.js";
+import { defaultThroughputOptions, projectEmbeddingDuration } from "./throughput.js";
+import { checkBudget, hasBudget } from "./budget.js";
+import type { BudgetOptions } from "./budget.js";
+import type { ThroughputOptions } from "./throughput.js";
+import type { ColumnTokenStats } from "./estimate_worker.js";
+import type { ProgressFileWriter } from "./progress_file.js";
+import type { CostEstimationResult, TableTokenEstimate } from "./estimate.js";
+
+// ---------------------------------------------------------------------------
+// Types
+// ---------------------------------------------------------------------------
+
+/** Marks a result estimated from planner statistics instead of rows. */
+export type CatalogApproximation = {
+  method: "catalog";
+  /** Tables without reltuples or column statistics (views, never analyzed); counted as empty. */
+  tablesWithoutStats: string[];
+};
+
+/** Average document of a table, from its column statistics. */
+type AverageRow = {
+  referenceTokens: number;
+  characters: number;
+  /** Key: tokenizer id */
+  tokensByTokenizer: Record<string, number>;
+  /** Per row on average, not per row with a value. Key: column name */
+  columnTokens: Record<string, ColumnTokenStats>;
+};
+
+// Used for columns whose statistics carry no sample values
+const DEFAULT_CHARACTERS_PER_TOKEN = 4;
+const WHOLE_ROW_COLUMN = "(whole row)";
+
+// ---------------------------------------------------------------------------
+// Estimation
+// ---------------------------------------------------------------------------
+
+/**
+ * Estimate tokens and cost from pg_class.reltuples and pg_stats alone,
+ * without reading a single row. Each table's average document is rebuilt
+ * from the columns `selectPageContentColumns` would embed: the label, the
+ * average width of a value, and the token density of the most common values
+ * and histogram bounds. Accuracy depends on how recent ANALYZE is, and
+ * chunking is simulated on the average document only.
+ */
+export async function estimateCostFromCatalog(params: {
+  sourceDbUrl: string;
+  /** Schema names or patterns (globs, `/regex/`). */
+  sourceSchemas: string[];
+  tableAllowlist: string[];
+  tableBlocklist?: string[];
+  /** Kinds of relation to read. Default: tables and partitioned tables */
+  relationKinds?: RelationKind[];
+  /** Row keys of relations without a primary key ("view.column" entries). */
+  viewKeyColumns?: string[];
+  textColumnsMode: TextColumnsMode;
+  excludedColumns: string[];
+  /** Simulate splitting each row's document; omit for one document per row. */
+  splitter?: SplitterOptions | null;
+  /** Vector type and index parameters for the pgvector size estimate. */
+  storage?: VectorStorageOptions;
+  /** Provider rate limits for the embedding time projection. */
+  throughput?: ThroughputOptions;
+  /** Cost limits to check the estimate against; there is nothing to stop early. */
+  budget?: BudgetOptions;
+  progressWriter?: ProgressFileWriter;
+  pricingEntries?: ModelPricingEntry[];
+}): Promise<CostEstimationResult & { approximate: CatalogApproximation }> {
+  const pool = createPostgresPool(params.sourceDbUrl);
+
+  try {
+    const tableInfos = await discoverTables({
+      pool,
+      sourceSchemas: params.sourceSchemas,
+      tableAllowlist: params.tableAllowlist,
+      tableBlocklist: params.tableBlocklist,
+      updatedAtCandidates: [],
+      relationKinds: params.relationKinds ?? ["table", "partitioned"],
+      viewKeyColumns: params.viewKeyColumns ?? [],
+    });
+    const columnStatistics = await fetchColumnStatistics({ pool, tableInfos });
+
+    const entries = params.pricingEntries ?? await getPricing();
+    const modelTokenizers = buildModelTokenizers(entries);
+    const maxInputTokens = toMaxInputTokensMap(entries);
+    const counter = createTokenCounter([REFERENCE_TOKENIZER, ...Object.values(modelTokenizers)]);
+    const excludedColumns = new Set(
+      params.excludedColumns.map((column) => column.toLowerCase()),
+    );
+    const splitter = params.splitter ?? null;
+
+    const tables: TableTokenEstimate[] = [];
+    const tablesWithoutStats: string[] = [];
+    for (const tableInfo of tableInfos) {
+      const key = `${tableInfo.schema}.${tableInfo.table}`;
+      const statistics = columnStatistics.get(key);
+      const rowCount = tableInfo.stats.estimatedRows;
+      if (rowCount === null || (!statistics && rowCount > 0)) {
+        tablesWithoutStats.push(key);
+      }
+      if (rowCount === null || !statistics) {
+        tables.push(emptyEstimate(tableInfo));
+        continue;
+      }
+
+      const averageRow = estimateAverageRow({
+        tableInfo,
+        statistics,
+        textColumnsMode: params.textColumnsMode,
+        excludedColumns,
+        counter,
+        modelTokenizers,
+      });
+      tables.push(
+        scaleAverageRow({
+          tableInfo,
+          rowCount,
+          averageRow,
+          modelTokenizers,
+          maxInputTokens,
+          splitter,
+        }),
+      );
+    }
+
+    const approximate: CatalogApproximation = { method: "catalog", tablesWithoutStats };
+    const progressWriter = params.progressWriter;
+    if (progressWriter) {
+      progressWriter.setTotalTables(tables.length);
+      progressWriter.setApproximate(approximate);
+      await progressWriter.initialize();
+      for (const table of tables) {
+        progressWriter.addCompletedTable(table);
+      }
+      await progressWriter.finalize();
+    }
+
+    const totalTokens = tables.reduce((sum, t) => sum + t.tokenCount, 0);
+
+    const totalTokensByModel: Record<string, number> = {};
+    const costByModel: Record<string, number> = {};
+    const costBreakdownByModel: Record<string, ModelCostBreakdown> = {};
+    for (const entry of entries) {
+      const modelTokens = tables.reduce(
+        (sum, t) => sum + (t.tokenCountByModel[entry.model] ?? t.tokenCount),
+        0,
+      );
+      totalTokensByModel[entry.model] = modelTokens;
+      costByModel[entry.model] = computeTieredCost(entry, modelTokens);
+      costBreakdownByModel[entry.model] = computeCostBreakdown(entry, modelTokens);
+    }
+
+    return {
+      tables,
+      totalTokens,
+      totalTokensByModel,
+      costByModel,
+      costBreakdownByModel,
+      pricingEntries: entries,
+      chunking: summarizeChunking(tables, splitter, maxInputTokens),
+      storage: estimateVectorStorage(
+        tables,
+        entries,
+        params.storage ?? defaultVectorStorageOptions(),
+      ),
+      duration: projectEmbeddingDuration(
+        tables,
+        entries,
+        totalTokensByModel,
+        params.throughput ?? defaultThroughputOptions(),
+      ),
+      budget: hasBudget(params.budget)
+        ? checkBudget({ tables, pricingEntries: entries }, params.budget)
+        : undefined,
+      approximate,
+    };
+  } finally {
+    await closePostgresPool(pool);
+  }
+}
+
+function emptyEstimate(tableInfo: TableInfo): TableTokenEstimate {
+  return {
+    schema: tableInfo.schema,
+    table: tableInfo.table,
+    rowCount: 0,
+    tokenCount: 0,
+    tokenCountByModel: {},
+    chunkingByModel: {},
+    columnTokens: {},
+  };
+}
+
+/**
+ * Tokens of the average document. A column adds its `"column: "` line to the
+ * rows where it is not null, and lines are joined by one newline token each.
+ * Without any selected column rows are embedded as JSON, which is
+ * approximated from every column under "(whole row)".
+ */
+function estimateAverageRow(params: {
+  tableInfo: TableInfo;
+  statistics: Record<string, ColumnStatistics>;
+  textColumnsMode: TextColumnsMode;
+  excludedColumns: Set<string>;
+  counter: TokenCounter;
+  modelTokenizers: Record<string, TokenizerSpec>;
+}): AverageRow {
+  const { tableInfo, statistics, counter } = params;
+  const selectedColumns = selectPageContentColumns({
+    tableInfo,
+    textColumnsMode: params.textColumnsMode,
+    excludedColumns: params.excludedColumns,
+  });
+  const wholeRow = selectedColumns.length === 0;
+  const columns = wholeRow
+    ? tableInfo.columns.map((column) => column.columnName)
+    : selectedColumns;
+
+  const row: AverageRow = {
+    referenceTokens: 0,
+    characters: 0,
+    tokensByTokenizer: {},
+    columnTokens: {},
+  };
+  let expectedLines = 0;
+
+  for (const columnName of columns) {
+    const columnStats = statistics[columnName];
+    if (!columnStats) continue;
+    const presence = 1 - columnStats.nullFraction;
+    if (presence <= 0) continue;
+
+    const label = `${columnName}: `;
+    const labelTokens = counter.count(label);
+    const density = measureTokenDensity(columnStats.sampleValues, counter, params.modelTokenizers);
+    // avg_width counts the 1-byte header of short variable-length values
+    const valueCharacters = Math.max(columnStats.averageWidth - 1, density.averageLength);
+
+    const referenceTokens = labelTokens.reference + valueCharacters * density.reference;
+    row.referenceTokens += presence * referenceTokens;
+    row.characters += presence * (label.length + valueCharacters);
+    for (const [id, tokens] of Object.entries(labelTokens.byTokenizer)) {
+      row.tokensByTokenizer[id] =
+        (row.tokensByTokenizer[id] ?? 0) +
+        presence * (tokens + valueCharacters * (density.byTokenizer[id] ?? density.reference));
+    }
+    expectedLines += presence;
+
+    const columnKey = wholeRow ? WHOLE_ROW_COLUMN : columnName;
+    const columnTokens = (row.columnTokens[columnKey] ??= {
+      rowCount: 0,
+      tokenCount: 0,
+      labelTokenCount: 0,
+    });
+    columnTokens.rowCount = wholeRow ? 1 : presence;
+    columnTokens.tokenCount += presence * referenceTokens;
+    columnTokens.labelTokenCount += presence * labelTokens.reference;
+  }
+
+  const newlines = Math.max(0, expectedLines - 1);
+  row.referenceTokens += newlines;
+  row.characters += newlines;
+  for (const id of Object.keys(row.tokensByTokenizer)) {
+    row.tokensByTokenizer[id] += newlines;
+  }
+  return row;
+}
+
+/**
+ * Tokens per character of a column's sample values, per tokenizer. Samples
+ * skip values too wide for the statistics, so only their density is used,
+ * not their length, unless the stored width underrates the text form
+ * (uuids, timestamps, booleans).
+ */
+function measureTokenDensity(
+  sampleValues: string[],
+  counter: TokenCounter,
+  modelTokenizers: Record<string, TokenizerSpec>,
+): { reference: number; byTokenizer: Record<string, number>; averageLength: number } {
+  let characters = 0;
+  let reference = 0;
+  const byTokenizer: Record<string, number> = {};
+  for (const value of sampleValues) {
+    if (value.length === 0) continue;
+    const counts = counter.count(value);
+    characters += value.length;
+    reference += counts.reference;
+    for (const [id, tokens] of Object.entries(counts.byTokenizer)) {
+      byTokenizer[id] = (byTokenizer[id] ?? 0) + tokens;
+    }
+  }
+
+  if (characters === 0) {
+    const fallback: Record<string, number> = {};
+    for (const spec of Object.values(modelTokenizers)) {
+      fallback[spec.id] =
+        (spec.kind === "approximate" ? spec.tokensPerReferenceToken : 1) /
+        DEFAULT_CHARACTERS_PER_TOKEN;
+    }
+    return { reference: 1 / DEFAULT_CHARACTERS_PER_TOKEN, byTokenizer: fallback, averageLength: 0 };
+  }
+
+  for (const id of Object.keys(byTokenizer)) {
+    byTokenizer[id] /= characters;
+  }
+  return {
+    reference: reference / characters,
+    byTokenizer,
+    averageLength: characters / sampleValues.filter((value) => value.length > 0).length,
+  };
+}
+
+/** Multiply the average document by the table's row count, model by model. */
+function scaleAverageRow(params: {
+  tableInfo: TableInfo;
+  rowCount: number;
+  averageRow: AverageRow;
+  modelTokenizers: Record<string, TokenizerSpec>;
+  maxInputTokens: Record<string, number>;
+  splitter: SplitterOptions | null;
+}): TableTokenEstimate {
+  const { tableInfo, rowCount, averageRow, splitter } = params;
+
+  const tokenCountByModel: Record<string, number> = {};
+  const chunkingByModel: Record<string, ModelChunkingStats> = {};
+  for (const [model, spec] of Object.entries(params.modelTokenizers)) {
+    const modelTokens = averageRow.tokensByTokenizer[spec.id] ?? averageRow.referenceTokens;
+    const split = simulateSplit({
+      referenceTokens: averageRow.referenceTokens,
+      characters: averageRow.characters,
+      modelTokens,
+      maxInputTokens: params.maxInputTokens[model] ?? null,
+      splitter,
+    });
+    tokenCountByModel[model] = Math.round((modelTokens + split.overlapTokens) * rowCount);
+    chunkingByModel[model] = {
+      embeddingCalls: split.pieces * rowCount,
+      overlapTokens: Math.round(split.overlapTokens * rowCount),
+      rowsOverLimit: split.overLimit ? rowCount : 0,
+      truncatedRows: split.truncated ? rowCount : 0,
+    };
+  }
+
+  const columnTokens: Record<string, ColumnTokenStats> = {};
+  for (const [column, stats] of Object.entries(averageRow.columnTokens)) {
+    columnTokens[column] = {
+      rowCount: Math.round(stats.rowCount * rowCount),
+      tokenCount: Math.round(stats.tokenCount * rowCount),
+      labelTokenCount: Math.round(stats.labelTokenCount * rowCount),
+    };
+  }
+
+  return {
+    schema: tableInfo.schema,
+    table: tableInfo.table,
+    rowCount,
+    tokenCount: Math.round(averageRow.referenceTokens * rowCount),
+    tokenCountByModel,
+    chunkingByModel,
+    columnTokens,
+  };
+}
@@ -0,0 +1,287 @@
+import { mkdir, readFile, rename, rm, writeFile } from "node:fs/promises";
+import { dirname, join } from "node:path";
+import { sha256Hex, stableStringify } from "./db/hashing.js";
+import type { TableWatermark } from "./db/postgres.js";
+import type { ModelPricingEntry } from "./pricing.js";
+import type { SamplingOptions } from "./sampling.js";
+import type { SplitterOptions } from "./chunking.js";
+import type { ChunkPartial, TableTokenEstimate } from "./thread_pool.js";
+
+// ---------------------------------------------------------------------------
+// Types
+// ---------------------------------------------------------------------------
+
+const CHECKPOINT_VERSION = 1;
+
+/** Inputs that decide the outcome of a run; a resume must match all of them. */
+export type RunFingerprintInput = {
+  sourceDbUrl: string;
+  sourceSchemas: string[];
+  tableAllowlist: string[];
+  tableBlocklist: string[];
+  updatedAtCandidates: string[];
+  relationKinds: string[];
+  viewKeyColumns: string[];
+  partitionBreakdown: boolean;
+  textColumnsMode: string;
+  excludedColumns: string[];
+  largeTableThreshold: number;
+  chunkSize: number;
+  sampling: SamplingOptions | null;
+  splitter: SplitterOptions | null;
+  /** `updatedAt` of the incremental baseline; null for a full-only run. */
+  incrementalSince: string | null;
+  trackRowHashes: boolean;
+};
+
+/** Row count, PK boundaries and watermark a table was planned with. */
+export type TablePlan = {
+  rowCount: number;
+  pkBoundaries?: string[][];
+  watermark?: TableWatermark;
+};
+
+export type CheckpointData = {
+  version: number;
+  fingerprint: string;
+  status: "in_progress" | "completed";
+  createdAt: string;
+  updatedAt: string;
+  /** Pricing the run started with, so a resumed run prices identically. */
+  pricingEntries: ModelPricingEntry[];
+  /** Key: "schema.table" */
+  plan: Record<string, TablePlan>;
+  /**
+   * Key: "schema.table". In the file, row-hash manifests are kept apart (see
+   * `manifestDir`); `readCheckpoint` puts them back.
+   */
+  completedTables: Record<string, TableTokenEstimate>;
+  /** Chunks of tables that are not complete yet. Key: chunk id */
+  completedChunks: Record<string, ChunkPartial & { tableKey: string }>;
+};
+
+export type CheckpointFileConfig = {
+  filePath: string;
+  fingerprint: string;
+  pricingEntries: ModelPricingEntry[];
+  /** Checkpoint being resumed; its finished work is carried over. */
+  resumeFrom?: CheckpointData | null;
+};
+
+// ---------------------------------------------------------------------------
+// Public helpers
+// ---------------------------------------------------------------------------
+
+/**
+ * Hash of the run configuration. The connection URL is part of the hash
+ * (it never appears in the file in clear text); thread and batch settings
+ * are not, since they do not change the result.
+ */
+export function computeRunFingerprint(input: RunFingerprintInput): string {
+  return sha256Hex(
+    stableStringify({
+      ...input,
+      sourceSchemas: [...input.sourceSchemas].sort(),
+      tableAllowlist: [...input.tableAllowlist].sort(),
+      tableBlocklist: [...input.tableBlocklist].sort(),
+      relationKinds: [...input.relationKinds].sort(),
+      excludedColumns: [...input.excludedColumns].map((c) => c.toLowerCase()).sort(),
+    }),
+  );
+}
+
+/** Read a checkpoint file. Returns null when the file does not exist. */
+export async function readCheckpoint(filePath: string): Promise<CheckpointData | null> {
+  let raw: string;
+  try {
+    raw = await readFile(filePath, "utf-8");
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === "ENOENT") {
+      return null;
+    }
+    throw error;
+  }
+
+  const data = JSON.parse(raw) as CheckpointData;
+  if (data.version !== CHECKPOINT_VERSION || typeof data.fingerprint !== "string") {
+    throw new Error(`Unsupported checkpoint format in ${filePath}`);
+  }
+  for (const [key, table] of Object.entries(data.completedTables)) {
+    const rowHashes = await readManifest(tableManifestPath(filePath, key));
+    if (rowHashes) {
+      table.rowHashes = rowHashes;
+    }
+  }
+  for (const [chunkId, chunk] of Object.entries(data.completedChunks)) {
+    const rowHashes = await readManifest(chunkManifestPath(filePath, chunkId));
+    if (rowHashes) {
+      chunk.rowHashes = rowHashes;
+    }
+  }
+  return data;
+}
+
+// ---------------------------------------------------------------------------
+// Row-hash manifests
+// ---------------------------------------------------------------------------
+
+/**
+ * Manifests grow with the row count, so they live in one file per table (or
+ * per chunk, until its table completes) next to the checkpoint: a write per
+ * chunk then rewrites only the small progress state, not every manifest.
+ */
+function manifestDir(filePath: string): string {
+  return `${filePath}.manifests`;
+}
+
+function tableManifestPath(filePath: string, key: string): string {
+  return join(manifestDir(filePath), "tables", `${encodeURIComponent(key)}.json`);
+}
+
+function chunkManifestPath(filePath: string, chunkId: string): string {
+  return join(manifestDir(filePath), "chunks", `${encodeURIComponent(chunkId)}.json`);
+}
+
+async function readManifest(path: string): Promise<Record<string, string> | null> {
+  try {
+    return JSON.parse(await readFile(path, "utf-8")) as Record<string, string>;
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === "ENOENT") {
+      return null;
+    }
+    throw error;
+  }
+}
+
+async function writeManifest(path: string, rowHashes: Record<string, string>): Promise<void> {
+  await mkdir(dirname(path), { recursive: true });
+  const tempPath = `${path}.tmp`;
+  await writeFile(tempPath, JSON.stringify(rowHashes), "utf-8");
+  await rename(tempPath, path);
+}
+
+// ---------------------------------------------------------------------------
+// CheckpointFileWriter
+// ---------------------------------------------------------------------------
+
+export class CheckpointFileWriter {
+  private readonly filePath: string;
+  private readonly data: CheckpointData;
+  private writeQueue: Promise<void> = Promise.resolve();
+
+  constructor(config: CheckpointFileConfig) {
+    const now = new Date().toISOString();
+    const previous = config.resumeFrom;
+
+    this.filePath = config.filePath;
+    this.data = {
+      version: CHECKPOINT_VERSION,
+      fingerprint: config.fingerprint,
+      status: "in_progress",
+      createdAt: previous?.createdAt ?? now,
+      updatedAt: now,
+      pricingEntries: previous?.pricingEntries ?? config.pricingEntries,
+      plan: { ...(previous?.plan ?? {}) },
+      completedTables: {},
+      completedChunks: {},
+    };
+
+    // Manifests of another run would be read back into this one
+    if (!previous) {
+      this.enqueue(() => rm(manifestDir(this.filePath), { recursive: true, force: true }));
+    }
+    for (const [key, table] of Object.entries(previous?.completedTables ?? {})) {
+      this.data.completedTables[key] = this.withoutManifest(
+        table,
+        tableManifestPath(this.filePath, key),
+      );
+    }
+    for (const [chunkId, chunk] of Object.entries(previous?.completedChunks ?? {})) {
+      this.data.completedChunks[chunkId] = this.withoutManifest(
+        chunk,
+        chunkManifestPath(this.filePath, chunkId),
+      );
+    }
+  }
+
+  /** Record how each table was planned, so a resume rebuilds the same queue. */
+  setPlan(plan: Record<string, TablePlan>): void {
+    this.data.plan = { ...this.data.plan, ...plan };
+    this.enqueueWrite();
+  }
+
+  addCompletedChunk(tableKey: string, chunkId: string, partial: ChunkPartial): void {
+    this.data.completedChunks[chunkId] = this.withoutManifest(
+      { tableKey, ...partial },
+      chunkManifestPath(this.filePath, chunkId),
+    );
+    this.enqueueWrite();
+  }
+
+  /** Record a finished table; its chunk entries are no longer needed. */
+  addCompletedTable(result: TableTokenEstimate): void {
+    const key = `${result.schema}.${result.table}`;
+    this.data.completedTables[key] = this.withoutManifest(
+      result,
+      tableManifestPath(this.filePath, key),
+    );
+    const chunkIds: string[] = [];
+    for (const [chunkId, chunk] of Object.entries(this.data.completedChunks)) {
+      if (chunk.tableKey === key) {
+        chunkIds.push(chunkId);
+        delete this.data.completedChunks[chunkId];
+      }
+    }
+    this.enqueueWrite();
+    // Only once the checkpoint no longer lists the chunks
+    this.enqueue(async () => {
+      for (const chunkId of chunkIds) {
+        await rm(chunkManifestPath(this.filePath, chunkId), { force: true });
+      }
+    });
+  }
+
+  /** Mark the run as completed and flush a final snapshot. */
+  async finalize(): Promise<void> {
+    this.data.status = "completed";
+    this.enqueueWrite();
+    await this.writeQueue;
+  }
+
+  // -------------------------------------------------------------------------
+  // Private helpers
+  // -------------------------------------------------------------------------
+
+  /**
+   * The entry without its manifest, which is written to `manifestPath`
+   * first: the checkpoint never lists work whose manifest is not on disk.
+   */
+  private withoutManifest<T extends { rowHashes?: Record<string, string> }>(
+    entry: T,
+    manifestPath: string,
+  ): T {
+    const { rowHashes, ...rest } = entry;
+    if (rowHashes) {
+      this.enqueue(() => writeManifest(manifestPath, rowHashes));
+    }
+    return rest as T;
+  }
+
+  private enqueueWrite(): void {
+    this.enqueue(() => this.writeToFile());
+  }
+
+  private enqueue(task: () => Promise<void>): void {
+    this.writeQueue = this.writeQueue.then(task).catch((err) => {
+      console.error("[checkpoint-file] Failed to write:", (err as Error).message);
+    });
+  }
+
+  private async writeToFile(): Promise<void> {
+    this.data.updatedAt = new Date().toISOString();
+    // Write then rename, so an interrupted write never leaves a torn file
+    const tempPath = `${this.filePath}.tmp`;
+    await writeFile(tempPath, JSON.stringify(this.data, null, 2), "utf-8");
+    await rename(tempPath, this.filePath);
+  }
+}
@@ -0,0 +1,187 @@
+import { getReferenceEncoder } from "./tokenizers.js";
+
+// ---------------------------------------------------------------------------
+// Types
+// ---------------------------------------------------------------------------
+
+/** What the simulated text splitter measures chunk size and overlap in. */
+export type SplitterUnit = "tokens" | "characters";
+
+export type SplitterOptions = {
+  unit: SplitterUnit;
+  /** Maximum size of each piece. Tokens are counted with cl100k_base. */
+  chunkSize: number;
+  /** Size repeated at the start of each piece after the first; below chunkSize. */
+  chunkOverlap: number;
+};
+
+/** How a model's documents would be embedded once split and limited. */
+export type ModelChunkingStats = {
+  /** Pieces sent to the model (one input per piece). */
+  embeddingCalls: number;
+  /** Tokens embedded more than once because pieces overlap. */
+  overlapTokens: number;
+  /** Rows longer than the model's input limit as a whole. */
+  rowsOverLimit: number;
+  /** Rows with a piece that is still over the limit and would be truncated. */
+  truncatedRows: number;
+};
+
+export type ChunkingSummary = {
+  /** null = one document per row, no splitting. */
+  splitter: SplitterOptions | null;
+  /** Key: model name */
+  byModel: Record<string, ModelChunkingStats & { maxInputTokens: number | null }>;
+};
+
+// ---------------------------------------------------------------------------
+// Simulation
+// ---------------------------------------------------------------------------
+
+/**
+ * Split one document the way a sliding-window splitter would, without
+ * producing the pieces. Character-based pieces are assumed to have the
+ * document's average token density.
+ */
+export function simulateSplit(params: {
+  /** Tokens under the reference tokenizer, which the splitter counts with. */
+  referenceTokens: number;
+  characters: number;
+  /** Tokens under the model's own tokenizer. */
+  modelTokens: number;
+  maxInputTokens: number | null;
+  splitter: SplitterOptions | null;
+}): { pieces: number; overlapTokens: number; overLimit: boolean; truncated: boolean } {
+  const { referenceTokens, characters, modelTokens, maxInputTokens, splitter } = params;
+  const overLimit = maxInputTokens !== null && modelTokens > maxInputTokens;
+
+  if (!splitter) {
+    return { pieces: 1, overlapTokens: 0, overLimit, truncated: overLimit };
+  }
+
+  const length = splitter.unit === "tokens" ? referenceTokens : characters;
+  const modelTokensPerUnit = length > 0 ? modelTokens / length : 0;
+  const step = splitter.chunkSize - splitter.chunkOverlap;
+  const pieces =
+    length <= splitter.chunkSize ? 1 : 1 + Math.ceil((length - splitter.chunkSize) / step);
+  const largestPieceTokens = Math.min(length, splitter.chunkSize) * modelTokensPerUnit;
+
+  return {
+    pieces,
+    overlapTokens: (pieces - 1) * splitter.chunkOverlap * modelTokensPerUnit,
+    overLimit,
+    truncated: maxInputTokens !== null && largestPieceTokens > maxInputTokens,
+  };
+}
+
+/**
+ * Cut one document into the pieces `simulateSplit` counts: windows of
+ * `chunkSize` that repeat the last `chunkOverlap` of the previous piece.
+ * Token windows may cut a multi-byte character at a piece boundary.
+ */
+export function splitDocumentText(text: string, splitter: SplitterOptions | null): string[] {
+  if (!splitter) {
+    return [text];
+  }
+
+  const units: { length: number; slice: (start: number, end: number) => string } =
+    splitter.unit === "tokens"
+      ? (() => {
+          const encoder = getReferenceEncoder();
+          const tokens = encoder.encode(text);
+          return {
+            length: tokens.length,
+            slice: (start, end) => encoder.decode(tokens.slice(start, end)),
+          };
+        })()
+      : { length: text.length, slice: (start, end) => text.slice(start, end) };
+
+  if (units.length <= splitter.chunkSize) {
+    return [text];
+  }
+
+  const step = splitter.chunkSize - splitter.chunkOverlap;
+  const pieces: string[] = [];
+  for (let start = 0; ; start += step) {
+    const end = Math.min(units.length, start + splitter.chunkSize);
+    pieces.push(units.slice(start, end));
+    if (end === units.length) break;
+  }
+  return pieces;
+}
+
+export function emptyChunkingStats(): ModelChunkingStats {
+  return { embeddingCalls: 0, overlapTokens: 0, rowsOverLimit: 0, truncatedRows: 0 };
+}
+
+/** Add `source` into `target`, model by model. */
+export function addChunkingStats(
+  target: Record<string, ModelChunkingStats>,
+  source: Record<string, ModelChunkingStats>,
+): void {
+  for (const [model, stats] of Object.entries(source)) {
+    const total = (target[model] ??= emptyChunkingStats());
+    total.embeddingCalls += stats.embeddingCalls;
+    total.overlapTokens += stats.overlapTokens;
+    total.rowsOverLimit += stats.rowsOverLimit;
+    total.truncatedRows += stats.truncatedRows;
+  }
+}
+
+/** Extrapolate stats counted on a sample by the table's sampling factor. */
+export function scaleChunkingStats(
+  byModel: Record<string, ModelChunkingStats>,
+  scale: number,
+): Record<string, ModelChunkingStats> {
+  const scaled: Record<string, ModelChunkingStats> = {};
+  for (const [model, stats] of Object.entries(byModel)) {
+    scaled[model] = {
+      embeddingCalls: Math.round(stats.embeddingCalls * scale),
+      overlapTokens: Math.round(stats.overlapTokens * scale),
+      rowsOverLimit: Math.round(stats.rowsOverLimit * scale),
+      truncatedRows: Math.round(stats.truncatedRows * scale),
+    };
+  }
+  return scaled;
+}
+
+export function summarizeChunking(
+  tables: { chunkingByModel?: Record<string, ModelChunkingStats> }[],
+  splitter: SplitterOptions | null,
+  maxInputTokens: Record<string, number>,
+): ChunkingSummary {
+  const totals: Record<string, ModelChunkingStats> = {};
+  for (const table of tables) {
+    addChunkingStats(totals, table.chunkingByModel ?? {});
+  }
+
+  const byModel: ChunkingSummary["byModel"] = {};
+  for (const [model, stats] of Object.entries(totals)) {
+    byModel[model] = { ...stats, maxInputTokens: maxInputTokens[model] ?? null };
+  }
+  return { splitter, byModel };
+}
+
+/**
+ * Read splitter settings from the environment. Returns null (one document
+ * per row) unless SPLITTER_CHUNK_SIZE is a positive number.
+ */
+export function parseSplitterOptionsFromEnv(
+  env: NodeJS.ProcessEnv = process.env,
+): SplitterOptions | null {
+  const chunkSize = Number.parseInt(env.SPLITTER_CHUNK_SIZE ?? "", 10);
+  if (!Number.isFinite(chunkSize) || chunkSize <= 0) {
+    return null;
+  }
+
+  const chunkOverlap = Number.parseInt(env.SPLITTER_CHUNK_OVERLAP ?? "", 10);
+
+  return {
+    unit: env.SPLITTER_UNIT?.trim().toLowerCase() === "characters" ? "characters" : "tokens",
+    chunkSize,
+    chunkOverlap:
+      Number.isFinite(chunkOverlap) && chunkOverlap >= 0 && chunkOverlap < chunkSize
+        ? chunkOverlap
+        : 0,
+  };
+}
@@ -0,0 +1,557 @@
+import { cpus } from "node:os";
+import { RELATION_KINDS } from "./db/types.js";
+import type { RelationKind, TextColumnsMode } from "./db/types.js";
+import type { PricingFilter } from "./pricing.js";
+import { EMBEDDING_PROVIDERS } from "./providers/types.js";
+import { VECTOR_TYPES } from "./storage.js";
+import { BUDGET_BASES } from "./budget.js";
+
+// ---------------------------------------------------------------------------
+// Types
+// ---------------------------------------------------------------------------
+
+export type CliCommand = "estimate" | "embed" | "dashboard" | "pricing" | "compare";
+
+export const CLI_COMMANDS: CliCommand[] = ["estimate", "embed", "dashboard", "pricing", "compare"];
+
+/** Commands that take plain arguments after the command name. */
+const COMMANDS_WITH_ARGUMENTS: CliCommand[] = ["compare"];
+
+type FlagType = "string" | "int" | "number" | "boolean";
+
+type FlagSpec = {
+  name: string;
+  type: FlagType;
+  /** Environment variable the flag overrides; flags without one are read from the args only. */
+  env?: string;
+  choices?: string[];
+  aliases?: string[];
+  description: string;
+};
+
+export type ParsedCliArgs = {
+  command: CliCommand;
+  /** false with `--no-interactive`: missing values are an error instead of a prompt. */
+  interactive: boolean;
+  help: boolean;
+  /** Key: flag name without dashes. Boolean flags are "true". */
+  values: Record<string, string>;
+  /** Plain arguments after the command, e.g. the two files of `compare`. */
+  positionals: string[];
+};
+
+// ---------------------------------------------------------------------------
+// Flag definitions
+// ---------------------------------------------------------------------------
+
+const FLAG_SPECS: FlagSpec[] = [
+  // Database connection
+  { name: "db-url", type: "string", env: "SOURCE_DB_URL", description: "Full PostgreSQL URL" },
+  { name: "db-host", type: "string", env: "DB_HOST", description: "Database host" },
+  { name: "db-port", type: "int", env: "DB_PORT", description: "Database port (default 5432)" },
+  { name: "db-name", type: "string", env: "DB_NAME", description: "Database name" },
+  { name: "db-user", type: "string", env: "DB_USERNAME", description: "Database user" },
+  { name: "db-password", type: "string", env: "DB_PASSWORD", description: "Database password" },
+  // Table selection
+  {
+    name: "schema",
+    type: "string",
+    env: "SOURCE_SCHEMA",
+    aliases: ["schemas"],
+    description: "Comma-separated schemas or patterns (default public)",
+  },
+  {
+    name: "tables",
+    type: "string",
+    env: "SOURCE_TABLE_ALLOWLIST",
+    description: "Comma-separated tables or patterns (table, schema.table, tenant_*, /regex/), or *",
+  },
+  { name: "exclude-tables", type: "string", env: "SOURCE_TABLE_BLOCKLIST", description: "Comma-separated tables or patterns to skip" },
+  {
+    name: "relation-kinds",
+    type: "string",
+    env: "SOURCE_RELATION_KINDS",
+    description: `Comma-separated kinds to read: ${RELATION_KINDS.join(", ")} (default table,partitioned)`,
+  },
+  {
+    name: "view-keys",
+    type: "string",
+    env: "SOURCE_VIEW_KEYS",
+    description: "Row keys of relations without a primary key (view.column or schema.view.column)",
+  },
+  {
+    name: "partition-breakdown",
+    type: "boolean",
+    env: "PARTITION_BREAKDOWN",
+    description: "Report rows and tokens per partition of partitioned tables",
+  },
+  {
+    name: "updated-at-columns",
+    type: "string",
+    env: "SOURCE_UPDATED_AT_CANDIDATES",
+    description: "Candidate timestamp columns",
+  },
+  // Row-to-text conversion
+  {
+    name: "text-columns",
+    type: "string",
+    env: "TEXT_COLUMNS_MODE",
+    choices: ["auto", "all"],
+    description: "Text columns mode: auto or all",
+  },
+  { name: "exclude-columns", type: "string", env: "EXCLUDED_COLUMNS", description: "Comma-separated columns to exclude" },
+  { name: "batch-size", type: "int", env: "SOURCE_BATCH_SIZE", description: "Rows fetched per batch (default 1000)" },
+  // Sampling
+  { name: "sample-fraction", type: "number", env: "SAMPLING_FRACTION", description: "Fraction of rows read per large table (0-1)" },
+  {
+    name: "sample-method",
+    type: "string",
+    env: "SAMPLING_METHOD",
+    choices: ["bernoulli", "system"],
+    description: "TABLESAMPLE method: bernoulli or system",
+  },
+  { name: "sample-confidence", type: "number", env: "SAMPLING_CONFIDENCE", description: "Confidence level of the interval (default 0.95)" },
+  { name: "sample-min-rows", type: "int", env: "SAMPLING_MIN_ROWS", description: "Tables below this row count are read in full" },
+  { name: "sample-seed", type: "number", env: "SAMPLING_SEED", description: "REPEATABLE seed" },
+  // Document chunking
+  { name: "splitter-chunk-size", type: "int", env: "SPLITTER_CHUNK_SIZE", description: "Split documents into pieces of this size (0 = no split)" },
+  { name: "splitter-overlap", type: "int", env: "SPLITTER_CHUNK_OVERLAP", description: "Overlap between pieces" },
+  {
+    name: "splitter-unit",
+    type: "string",
+    env: "SPLITTER_UNIT",
+    choices: ["tokens", "characters"],
+    description: "Splitter unit: tokens or characters",
+  },
+  // pgvector storage
+  {
+    name: "vector-type",
+    type: "string",
+    env: "VECTOR_TYPE",
+    choices: VECTOR_TYPES,
+    description: `pgvector column type: ${VECTOR_TYPES.join(", ")} (default vector)`,
+  },
+  {
+    name: "vector-dimensions",
+    type: "string",
+    env: "VECTOR_DIMENSIONS",
+    description: "Vector dimension for every model (1024) or per model (model=1024,...)",
+  },
+  { name: "hnsw-m", type: "int", env: "HNSW_M", description: "HNSW m parameter (default 16)" },
+  { name: "ivfflat-lists", type: "int", env: "IVFFLAT_LISTS", description: "IVFFlat lists (default rows / 1000, √rows above 1M)" },
+  // Embedding time projection
+  {
+    name: "provider-rpm",
+    type: "string",
+    env: "PROVIDER_RPM",
+    description: "Requests per minute: 500, or openai=500,...; 0 = unlimited",
+  },
+  {
+    name: "provider-tpm",
+    type: "string",
+    env: "PROVIDER_TPM",
+    description: "Tokens per minute, same format; 0 = unlimited",
+  },
+  {
+    name: "provider-batch-size",
+    type: "string",
+    env: "PROVIDER_BATCH_SIZE",
+    description: "Inputs per embedding request, same format",
+  },
+  {
+    name: "provider-concurrency",
+    type: "string",
+    env: "PROVIDER_CONCURRENCY",
+    description: "Embedding requests in flight at once, same format",
+  },
+  {
+    name: "provider-latency",
+    type: "string",
+    env: "PROVIDER_LATENCY_MS",
+    description: "Round trip of one embedding request in ms, same format",
+  },
+  // Performance tuning
+  { name: "max-threads", type: "int", env: "MAX_THREADS", description: "Worker thread limit (default CPU cores - 1)" },
+  { name: "tables-per-batch", type: "int", env: "TABLES_PER_BATCH", description: "Work items per worker turn (default 3)" },
+  {
+    name: "large-table-threshold",
+    type: "int",
+    env: "LARGE_TABLE_THRESHOLD",
+    description: "Row count above which tables are chunked (default 50000)",
+  },
+  { name: "chunk-size", type: "int", env: "CHUNK_SIZE", description: "Rows per chunk of a large table (default 10000)" },
+  {
+    name: "snapshot-concurrency",
+    type: "int",
+    env: "SNAPSHOT_CONCURRENCY",
+    description: "Row count queries run at once while planning (default 4)",
+  },
+  // Pricing
+  { name: "pricing-providers", type: "string", env: "PRICING_PROVIDERS", description: "Comma-separated providers to price" },
+  { name: "pricing-models", type: "string", env: "PRICING_MODELS", description: "Comma-separated models to price" },
+  {
+    name: "pricing-overrides",
+    type: "string",
+    env: "PRICING_OVERRIDES_FILE",
+    description: "Negotiated prices, volume tiers and discounts (JSON or YAML)",
+  },
+  {
+    name: "pricing-source",
+    type: "string",
+    env: "PRICING_SOURCE",
+    description: "Pricing URL (LiteLLM format) or local file (default LiteLLM on GitHub)",
+  },
+  { name: "offline", type: "boolean", env: "PRICING_OFFLINE", description: "Never fetch prices; use the cache or the bundled fallback" },
+  { name: "pricing-cache-file", type: "string", env: "PRICING_CACHE_FILE", description: "Pricing cache path (default ~/.embedding-cli-pricing-cache.json)" },
+  { name: "pricing-cache-ttl", type: "number", env: "PRICING_CACHE_TTL_HOURS", description: "Hours a cached price list stays fresh (default 24)" },
+  // Budget guardrails
+  {
+    name: "budget-total",
+    type: "string",
+    env: "BUDGET_TOTAL_USD",
+    description: "Max cost of the run in USD: 50, or model=50,...",
+  },
+  {
+    name: "budget-table",
+    type: "string",
+    env: "BUDGET_TABLE_USD",
+    description: "Max cost of any one table in USD, same format",
+  },
+  {
+    name: "budget-basis",
+    type: "string",
+    env: "BUDGET_BASIS",
+    choices: BUDGET_BASES,
+    description: "Check every model (each) or only the cheapest paid one (cheapest)",
+  },
+  { name: "budget-abort", type: "boolean", env: "BUDGET_ABORT", description: "Stop reading once the running cost passes the total budget" },
+  // Embedding (embed command)
+  {
+    name: "provider",
+    type: "string",
+    env: "EMBED_PROVIDER",
+    choices: EMBEDDING_PROVIDERS,
+    description: `Embedding provider: ${EMBEDDING_PROVIDERS.join(", ")}`,
+  },
+  { name: "model", type: "string", env: "EMBED_MODEL", description: "Embedding model" },
+  { name: "base-url", type: "string", env: "EMBED_BASE_URL", description: "Provider API root (proxy, self-hosted or mock server)" },
+  { name: "embed-batch-size", type: "int", env: "EMBED_BATCH_SIZE", description: "Documents per embedding request (default 64)" },
+  { name: "max-retries", type: "int", env: "EMBED_MAX_RETRIES", description: "Retries of a failed request (default 5)" },
+  { name: "request-timeout", type: "int", env: "EMBED_TIMEOUT_MS", description: "Timeout per request attempt, in ms (default 60000)" },
+  { name: "rpm", type: "number", env: "EMBED_RPM", description: "Requests per minute limit" },
+  { name: "tpm", type: "number", env: "EMBED_TPM", description: "Tokens per minute limit" },
+  { name: "embed-concurrency", type: "int", env: "EMBED_CONCURRENCY", description: "Requests in flight at once (default 4)" },
+  { name: "budget", type: "number", env: "EMBED_BUDGET_USD", description: "Stop before spending more than this many USD" },
+  { name: "output-file", type: "string", env: "EMBED_OUTPUT_FILE", description: "JSON Lines file for the embeddings (default ./embeddings.jsonl)" },
+  // Config file
+  { name: "config", type: "string", env: "EMBEDDING_CONFIG_FILE", description: "Config file with named profiles (JSON or YAML)" },
+  { name: "profile", type: "string", env: "EMBEDDING_PROFILE", description: "Profile of the config file to use" },
+  // Run files and modes
+  { name: "resume", type: "boolean", description: "Resume the interrupted run from the checkpoint" },
+  { name: "incremental", type: "boolean", description: "Also estimate the rows changed since the previous run" },
+  { name: "quick", type: "boolean", description: "Estimate from pg_class and pg_stats only, reading no rows" },
+  { name: "row-hashes", type: "boolean", env: "INCREMENTAL_ROW_HASHES", description: "Keep a row-hash manifest per table" },
+  { name: "report", type: "string", env: "COST_REPORT_FORMATS", description: "Export formats: json, csv, markdown, html or all" },
+  { name: "report-path", type: "string", env: "COST_REPORT_PATH", description: "Report path without extension" },
+  {
+    name: "progress-file",
+    type: "string",
+    env: "COST_PROGRESS_FILE",
+    aliases: ["file"],
+    description: "Progress JSON file",
+  },
+  { name: "checkpoint-file", type: "string", env: "COST_CHECKPOINT_FILE", description: "Checkpoint file used by --resume" },
+  { name: "state-file", type: "string", env: "COST_STATE_FILE", description: "State file used by --incremental" },
+  { name: "history-dir", type: "string", env: "COST_HISTORY_DIR", description: "Run history directory (default ./cost_estimation_history)" },
+  { name: "history-max-runs", type: "int", env: "COST_HISTORY_MAX_RUNS", description: "Runs kept in the history; 0 keeps every run (default 200)" },
+  { name: "no-history", type: "boolean", env: "COST_HISTORY_DISABLED", description: "Do not archive the run in the history" },
+  // Dashboard
+  { name: "host", type: "string", env: "COST_DASHBOARD_HOST", description: "Dashboard host (default 127.0.0.1)" },
+  { name: "port", type: "int", env: "COST_DASHBOARD_PORT", description: "Dashboard port (default 4173)" },
+  { name: "dashboard-token", type: "string", env: "COST_DASHBOARD_TOKEN", description: "Require this token (Bearer header) or a one-time login link" },
+  { name: "cors-origins", type: "string", env: "COST_DASHBOARD_CORS_ORIGINS", description: "Origins allowed to call the dashboard API, comma-separated, or *" },
+  { name: "allowed-hosts", type: "string", env: "COST_DASHBOARD_ALLOWED_HOSTS", description: "Extra host names the dashboard answers to, comma-separated" },
+  { name: "allow-insecure-remote", type: "boolean", env: "COST_DASHBOARD_ALLOW_INSECURE_REMOTE", description: "Serve a non-loopback host without a token" },
+  { name: "redact-names", type: "boolean", env: "COST_DASHBOARD_REDACT_NAMES", description: "Serve schema, table and column names as pseudonyms" },
+  // General
+  { name: "json", type: "boolean", description: "pricing: print the entries as JSON" },
+  { name: "no-interactive", type: "boolean", description: "Fail on missing values instead of asking" },
+  { name: "help", type: "boolean", aliases: ["h"], description: "Show this help" },
+];
+
+// ---------------------------------------------------------------------------
+// Parsing
+// ---------------------------------------------------------------------------
+
+/**
+ * Parse `[command] [argument | --flag value | --flag=value | --switch]...`.
+ * The command defaults to `estimate`; only some commands take arguments.
+ * Unknown flags, bad numbers and values outside a flag's choices throw, so
+ * scripts fail before connecting to anything.
+ */
+export function parseCliArgs(argv: string[]): ParsedCliArgs {
+  let command: CliCommand | null = null;
+  const values: Record<string, string> = {};
+  const positionals: string[] = [];
+
+  for (let i = 0; i < argv.length; i++) {
+    const arg = argv[i];
+
+    if (!arg.startsWith("-")) {
+      if (command === null && (CLI_COMMANDS as string[]).includes(arg)) {
+        command = arg as CliCommand;
+        continue;
+      }
+      if (command !== null && COMMANDS_WITH_ARGUMENTS.includes(command)) {
+        positionals.push(arg);
+        continue;
+      }
+      throw new Error(
+        command === null
+          ? `Unknown command "${arg}". Use: ${CLI_COMMANDS.join(", ")}.`
+          : `Unexpected argument "${arg}".`,
+      );
+    }
+
+    const [rawName, inlineValue] = splitFlag(arg);
+    const spec = findFlagSpec(rawName);
+    if (!spec) {
+      throw new Error(`Unknown flag "${arg}". Run with --help to list the flags.`);
+    }
+
+    if (spec.type === "boolean") {
+      if (inlineValue !== undefined && inlineValue !== "true" && inlineValue !== "false") {
+        throw new Error(`--${spec.name} takes no value.`);
+      }
+      values[spec.name] = inlineValue ?? "true";
+      continue;
+    }
+
+    const value = inlineValue ?? argv[i + 1];
+    if (value === undefined || (inlineValue === undefined && value.startsWith("--"))) {
+      throw new Error(`--${spec.name} needs a value.`);
+    }
+    if (inlineValue === undefined) {
+      i++;
+    }
+    values[spec.name] = validateFlagValue(spec, value);
+  }
+
+  return {
+    command: command ?? "estimate",
+    interactive: values["no-interactive"] !== "true",
+    help: values.help === "true",
+    values,
+    positionals,
+  };
+}
+
+export function hasFlag(args: ParsedCliArgs, name: string): boolean {
+  return args.values[name] === "true";
+}
+
+/**
+ * The environment with every flag written over the variable it stands for,
+ * so the env-based parsers downstream see flags > env without changes.
+ */
+export function resolveCliEnv(
+  args: ParsedCliArgs,
+  env: NodeJS.ProcessEnv = process.env,
+): NodeJS.ProcessEnv {
+  const resolved: NodeJS.ProcessEnv = { ...env };
+  for (const spec of FLAG_SPECS) {
+    const value = args.values[spec.name];
+    if (spec.env && value !== undefined) {
+      resolved[spec.env] = value;
+    }
+  }
+  // Connection fields given as flags beat a URL that only comes from the env
+  const hasFieldFlags = ["db-host", "db-port", "db-name", "db-user", "db-password"].some(
+    (name) => args.values[name] !== undefined,
+  );
+  if (hasFieldFlags && args.values["db-url"] === undefined) {
+    delete resolved.SOURCE_DB_URL;
+  }
+  // The flag picks the schema whichever of the two variables was set
+  if (args.values.schema !== undefined) {
+    resolved.DB_SCHEMA = args.values.schema;
+  }
+  return resolved;
+}
+
+/** Flag name (and env var) to pass a missing value with, for error messages. */
+export function describeSetting(envName: string): string {
+  const spec = FLAG_SPECS.find((s) => s.env === envName);
+  return spec ? `--${spec.name} (${envName})` : envName;
+}
+
+export function formatCliHelp(programName: string): string {
+  const lines = [
+    `Usage: ${programName} [command] [flags]`,
+    "",
+    "Commands:",
+    "  estimate   Estimate embedding costs (default)",
+    "  embed      Embed the selected tables and write the vectors to a file",
+    "  dashboard  Serve the progress dashboard",
+    "  pricing    Print the embedding model prices in use",
+    "  compare    Compare two progress files or JSON reports: compare <before> <after>",
+    "",
+    "Flags (each overrides the environment variable in brackets):",
+  ];
+  for (const spec of FLAG_SPECS) {
+    const name = spec.type === "boolean" ? `--${spec.name}` : `--${spec.name} <value>`;
+    const env = spec.env ? ` [${spec.env}]` : "";
+    lines.push(`  ${name.padEnd(32)} ${spec.description}${env}`);
+  }
+  return lines.join("\n");
+}
+
+// ---------------------------------------------------------------------------
+// Environment helpers
+// ---------------------------------------------------------------------------
+
+/** Trim a value and drop one pair of surrounding quotes, as left by some .env editors. */
+export function stripQuotes(value: string | undefined): string | undefined {
+  if (!value) return undefined;
+  const trimmed = value.trim();
+  if (
+    (trimmed.startsWith('"') && trimmed.endsWith('"')) ||
+    (trimmed.startsWith("'") && trimmed.endsWith("'"))
+  ) {
+    return trimmed.slice(1, -1).trim();
+  }
+  return trimmed;
+}
+
+export function parseCommaSeparated(input: string | undefined): string[] {
+  if (!input) return [];
+  return input
+    .split(",")
+    .map((s) => s.trim())
+    .filter((s) => s.length > 0);
+}
+
+export function parsePositiveInt(value: string | undefined, fallback: number): number {
+  const parsed = Number.parseInt(value ?? "", 10);
+  if (!Number.isFinite(parsed) || parsed <= 0) {
+    return fallback;
+  }
+  return parsed;
+}
+
+/** Whether a variable holds a non-blank value. */
+export function isEnvSet(env: NodeJS.ProcessEnv, name: string): boolean {
+  return Boolean(stripQuotes(env[name]));
+}
+
+export function buildDbUrlFromParts(
+  host: string,
+  port: string,
+  dbName: string,
+  username: string,
+  password: string,
+): string {
+  return `postgres://${encodeURIComponent(username)}:${encodeURIComponent(
+    password,
+  )}@${host}:${port}/${encodeURIComponent(dbName)}`;
+}
+
+/** SOURCE_DB_URL, or a URL built from DB_HOST/DB_PORT/DB_NAME/DB_USERNAME/DB_PASSWORD. */
+export function resolveDbUrlFromEnv(env: NodeJS.ProcessEnv = process.env): string | undefined {
+  const url = stripQuotes(env.SOURCE_DB_URL);
+  if (url) {
+    return url;
+  }
+
+  const host = stripQuotes(env.DB_HOST);
+  const port = stripQuotes(env.DB_PORT) || "5432";
+  const dbName = stripQuotes(env.DB_NAME);
+  const username = stripQuotes(env.DB_USERNAME);
+  const password = stripQuotes(env.DB_PASSWORD);
+  if (!host || !dbName || !username || !password) return undefined;
+  return buildDbUrlFromParts(host, port, dbName, username, password);
+}
+
+/** Comma-separated schema names or patterns; `public` when unset. */
+export function resolveSchemasFromEnv(env: NodeJS.ProcessEnv = process.env): string[] {
+  const schemas = parseCommaSeparated(stripQuotes(env.SOURCE_SCHEMA) || stripQuotes(env.DB_SCHEMA));
+  return schemas.length > 0 ? schemas : ["public"];
+}
+
+/** Relation kinds to read; tables and partitioned tables when unset. */
+export function resolveRelationKindsFromEnv(env: NodeJS.ProcessEnv = process.env): RelationKind[] {
+  const kinds = parseCommaSeparated(stripQuotes(env.SOURCE_RELATION_KINDS)).map((kind) =>
+    kind.toLowerCase(),
+  );
+  if (kinds.length === 0) {
+    return ["table", "partitioned"];
+  }
+  const unknown = kinds.filter((kind) => !(RELATION_KINDS as string[]).includes(kind));
+  if (unknown.length > 0) {
+    throw new Error(
+      `Unknown relation kind(s) ${unknown.join(", ")}. Use: ${RELATION_KINDS.join(", ")}.`,
+    );
+  }
+  return [...new Set(kinds)] as RelationKind[];
+}
+
+export function resolveTextColumnsMode(env: NodeJS.ProcessEnv = process.env): TextColumnsMode {
+  return stripQuotes(env.TEXT_COLUMNS_MODE) === "all" ? "all" : "auto";
+}
+
+export function resolveUpdatedAtCandidates(env: NodeJS.ProcessEnv = process.env): string[] {
+  return parseCommaSeparated(
+    env.SOURCE_UPDATED_AT_CANDIDATES || "updated_at,modified_at,updatedon",
+  );
+}
+
+export function resolvePricingFilterFromEnv(env: NodeJS.ProcessEnv = process.env): PricingFilter {
+  return {
+    providers: parseCommaSeparated(env.PRICING_PROVIDERS),
+    models: parseCommaSeparated(env.PRICING_MODELS),
+  };
+}
+
+/** Thread and chunk settings, with the estimator's defaults. */
+export function resolveTuningFromEnv(env: NodeJS.ProcessEnv = process.env): {
+  maxThreads: number;
+  tablesPerBatch: number;
+  largeTableThreshold: number;
+  chunkSize: number;
+  snapshotConcurrency: number;
+} {
+  return {
+    maxThreads: parsePositiveInt(env.MAX_THREADS, Math.max(1, cpus().length - 1)),
+    tablesPerBatch: parsePositiveInt(env.TABLES_PER_BATCH, 3),
+    largeTableThreshold: parsePositiveInt(env.LARGE_TABLE_THRESHOLD, 50_000),
+    chunkSize: parsePositiveInt(env.CHUNK_SIZE, 10_000),
+    snapshotConcurrency: parsePositiveInt(env.SNAPSHOT_CONCURRENCY, 4),
+  };
+}
+
+// ---------------------------------------------------------------------------
+// Private helpers
+// ---------------------------------------------------------------------------
+
+function splitFlag(arg: string): [string, string | undefined] {
+  const name = arg.replace(/^--?/, "");
+  const eq = name.indexOf("=");
+  return eq === -1 ? [name, undefined] : [name.slice(0, eq), name.slice(eq + 1)];
+}
+
+function findFlagSpec(name: string): FlagSpec | undefined {
+  return FLAG_SPECS.find((spec) => spec.name === name || spec.aliases?.includes(name));
+}
+
+function validateFlagValue(spec: FlagSpec, value: string): string {
+  if (spec.type === "int" && !/^\d+$/.test(value.trim())) {
+    throw new Error(`--${spec.name} must be a whole number, got "${value}".`);
+  }
+  if (spec.type === "number" && !Number.isFinite(Number.parseFloat(value))) {
+    throw new Error(`--${spec.name} must be a number, got "${value}".`);
+  }
+  if (spec.choices && !spec.choices.includes(value.trim().toLowerCase())) {
+    throw new Error(`--${spec.name} must be one of: ${spec.choices.join(", ")}.`);
+  }
+  return value;
+}
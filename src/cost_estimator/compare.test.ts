@@ -0,0 +1,102 @@
+import assert from "node:assert/strict";
+import { mkdtemp, rm, writeFile } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { after, before, test } from "node:test";
+import { compareRuns, loadRunSnapshot } from "./compare.js";
+
+let directory: string;
+
+before(async () => {
+  directory = await mkdtemp(join(tmpdir(), "compare-test-"));
+});
+
+after(async () => {
+  await rm(directory, { recursive: true, force: true });
+});
+
+/** A JSON report (`--report json`) of the given finished tables, 10 tokens per row. */
+async function writeReport(
+  name: string,
+  rowCounts: Record<string, number>,
+  extra: Record<string, unknown> = {},
+): Promise<string> {
+  const tables = Object.entries(rowCounts).map(([key, rowCount]) => {
+    const [schema, table] = key.split(".");
+    return { schema, table, rowCount, tokenCount: rowCount * 10, tokenCountByModel: {} };
+  });
+  const tokens = tables.reduce((sum, table) => sum + table.tokenCount, 0);
+  const filePath = join(directory, `${name}.json`);
+  await writeFile(
+    filePath,
+    JSON.stringify({
+      version: 1,
+      metadata: { generatedAt: "2026-01-01T00:00:00.000Z" },
+      tables,
+      providers: [{ provider: "openai", models: [{ model: "m", tokens, cost: tokens / 1000 }] }],
+      ...extra,
+    }),
+    "utf-8",
+  );
+  return filePath;
+}
+
+test("a table that failed in the later report is errored, not removed", async () => {
+  const before = await loadRunSnapshot(
+    await writeReport("before-failed", { "public.a": 100, "public.b": 50 }),
+  );
+  const after = await loadRunSnapshot(
+    await writeReport("after-failed", { "public.a": 100 }, { failedTables: ["public.b"] }),
+  );
+
+  assert.deepEqual(after.errorTables, ["public.b"]);
+  const comparison = compareRuns(before, after);
+  assert.deepEqual(comparison.removed, []);
+  assert.deepEqual(comparison.errored, ["public.b"]);
+  assert.equal(comparison.tables.find((table) => table.table === "public.b")?.status, "errored");
+});
+
+test("a table skipped in the later report is skipped, not removed", async () => {
+  const before = await loadRunSnapshot(
+    await writeReport("before-skipped", { "public.a": 100, "public.b": 50 }),
+  );
+  const after = await loadRunSnapshot(
+    await writeReport(
+      "after-skipped",
+      { "public.a": 100 },
+      { control: { cancelled: false, skippedTables: ["public.b"] } },
+    ),
+  );
+
+  const comparison = compareRuns(before, after);
+  assert.deepEqual(comparison.removed, []);
+  assert.deepEqual(comparison.skipped, ["public.b"]);
+});
+
+test("a table skipped in the earlier progress file is skipped, not added", async () => {
+  const filePath = join(directory, "before-progress.json");
+  await writeFile(
+    filePath,
+    JSON.stringify({
+      startTime: "2026-01-01T00:00:00.000Z",
+      status: "cancelled",
+      progress: { completed: 2, total: 2, errors: 0, skipped: 1, percentComplete: 100 },
+      tables: [
+        { schema: "public", table: "a", rowCount: 100, tokenCount: 1000, status: "completed" },
+        { schema: "public", table: "b", rowCount: 0, tokenCount: 0, status: "skipped" },
+      ],
+      totals: { tokenCountByModel: { m: 1000 }, costByModel: { m: 1 } },
+    }),
+    "utf-8",
+  );
+  const before = await loadRunSnapshot(filePath);
+  const after = await loadRunSnapshot(
+    await writeReport("after-progress", { "public.a": 100, "public.b": 50 }),
+  );
+
+  assert.deepEqual(before.skippedTables, ["public.b"]);
+  const comparison = compareRuns(before, after);
+  assert.deepEqual(comparison.added, []);
+  assert.deepEqual(comparison.skipped, ["public.b"]);
+  assert.equal(comparison.tables.find((table) => table.table === "public.a")?.status, "unchanged");
+});
@@ -0,0 +1,336 @@
+import { readFile } from "node:fs/promises";
+import { resolve } from "node:path";
+
+// ---------------------------------------------------------------------------
+// Types
+// ---------------------------------------------------------------------------
+
+/** One table of a run, as read back from its progress file or JSON report. */
+export type RunTable = {
+  rowCount: number;
+  tokenCount: number;
+  /** Key: model name */
+  tokenCountByModel: Record<string, number>;
+  /** Key: model name */
+  costByModel: Record<string, number>;
+};
+
+/** What `compareRuns` needs of a run, whichever file it came from. */
+export type RunSnapshot = {
+  filePath: string;
+  kind: "progress" | "report";
+  /** When the run started (progress file) or the report was generated. */
+  runAt: string;
+  /** false when the progress file is from a run that never finished. */
+  completed: boolean;
+  /** Key: "schema.table". Tables that failed or were skipped are left out. */
+  tables: Record<string, RunTable>;
+  /** Tables that failed in this run. */
+  errorTables: string[];
+  /** Tables skipped from the dashboard in this run. */
+  skippedTables: string[];
+  totals: {
+    rowCount: number;
+    tokenCount: number;
+    /** Key: model name */
+    costByModel: Record<string, number>;
+  };
+};
+
+export type ChangeValue = {
+  before: number;
+  after: number;
+  change: number;
+  /** null when `before` is 0. */
+  changePercent: number | null;
+};
+
+/**
+ * "errored" / "skipped": the table failed, or was skipped from the dashboard,
+ * in either run, so its change says nothing about the data.
+ */
+export type TableComparisonStatus =
+  | "added"
+  | "removed"
+  | "errored"
+  | "skipped"
+  | "changed"
+  | "unchanged";
+
+export type TableComparison = {
+  table: string;
+  status: TableComparisonStatus;
+  rows: ChangeValue;
+  tokens: ChangeValue;
+  /** Key: model name */
+  costByModel: Record<string, ChangeValue>;
+};
+
+export type RunComparison = {
+  before: Omit<RunSnapshot, "tables">;
+  after: Omit<RunSnapshot, "tables">;
+  totals: {
+    rows: ChangeValue;
+    tokens: ChangeValue;
+    /** Models priced in either run. Key: model name */
+    costByModel: Record<string, ChangeValue>;
+  };
+  /** Every table of either run, by name. */
+  tables: TableComparison[];
+  added: string[];
+  removed: string[];
+  /** Tables that failed in either run; never counted as added or removed. */
+  errored: string[];
+  /** Tables skipped in either run (and failed in neither); never counted as added or removed. */
+  skipped: string[];
+  /** Tables in both runs whose tokens grew the most, largest growth first. */
+  topGrowth: TableComparison[];
+};
+
+const DEFAULT_TOP_GROWTH = 10;
+
+// ---------------------------------------------------------------------------
+// Loading
+// ---------------------------------------------------------------------------
+
+/**
+ * Read a progress file (`COST_PROGRESS_FILE`), a JSON report
+ * (`--report json`) or an archived run of the history. Per-table costs are
+ * not stored in any of them, so each table is priced at the run's average
+ * price per token of the model, which keeps the tables adding up to the
+ * run's total.
+ */
+export async function loadRunSnapshot(filePath: string): Promise<RunSnapshot> {
+  const resolvedPath = resolve(filePath);
+  let data: unknown;
+  try {
+    data = JSON.parse(await readFile(resolvedPath, "utf-8"));
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === "ENOENT") {
+      throw new Error(`Run file not found: ${resolvedPath}`);
+    }
+    const message = error instanceof Error ? error.message : String(error);
+    throw new Error(`Could not read ${resolvedPath}: ${message}`);
+  }
+
+  // A run history record wraps the JSON report
+  const report = isRecord(data) && isRecord(data.report) ? data.report : data;
+  if (isRecord(report) && Array.isArray(report.providers) && isRecord(report.metadata)) {
+    return snapshotFromReport(resolvedPath, report);
+  }
+  if (isRecord(data) && isRecord(data.progress) && isRecord(data.totals)) {
+    return snapshotFromProgress(resolvedPath, data);
+  }
+  throw new Error(`${resolvedPath} is neither a progress file nor a JSON cost report.`);
+}
+
+type StoredTable = {
+  schema: string;
+  table: string;
+  rowCount: number;
+  tokenCount: number;
+  tokenCountByModel?: Record<string, number>;
+  status?: "completed" | "error" | "skipped";
+};
+
+function snapshotFromProgress(filePath: string, data: Record<string, unknown>): RunSnapshot {
+  const totals = data.totals as {
+    tokenCountByModel?: Record<string, number>;
+    costByModel?: Record<string, number>;
+  };
+  const tables = (data.tables ?? []) as StoredTable[];
+  return buildSnapshot({
+    filePath,
+    kind: "progress",
+    runAt: String(data.startTime ?? ""),
+    completed: data.status === "completed",
+    tables,
+    modelTotals: Object.entries(totals.costByModel ?? {}).map(([model, cost]) => ({
+      model,
+      cost,
+      tokens: totals.tokenCountByModel?.[model] ?? 0,
+    })),
+  });
+}
+
+function snapshotFromReport(filePath: string, data: Record<string, unknown>): RunSnapshot {
+  const metadata = data.metadata as { generatedAt?: string };
+  const providers = data.providers as {
+    models: { model: string; tokens: number; cost: number }[];
+  }[];
+  return buildSnapshot({
+    filePath,
+    kind: "report",
+    runAt: metadata.generatedAt ?? "",
+    completed: true,
+    tables: (data.tables ?? []) as StoredTable[],
+    // A report holds the finished tables only; failed and skipped ones are listed apart
+    errorTables: (data.failedTables ?? []) as string[],
+    skippedTables: (data.control as { skippedTables?: string[] } | undefined)?.skippedTables,
+    modelTotals: providers.flatMap((provider) =>
+      provider.models.map(({ model, tokens, cost }) => ({ model, tokens, cost })),
+    ),
+  });
+}
+
+function buildSnapshot(params: {
+  filePath: string;
+  kind: RunSnapshot["kind"];
+  runAt: string;
+  completed: boolean;
+  tables: StoredTable[];
+  /** Failed tables not in `tables`, as "schema.table". */
+  errorTables?: string[];
+  /** Skipped tables not in `tables`, as "schema.table". */
+  skippedTables?: string[];
+  modelTotals: { model: string; tokens: number; cost: number }[];
+}): RunSnapshot {
+  const tables: Record<string, RunTable> = {};
+  const errorTables: string[] = [...(params.errorTables ?? [])];
+  const skippedTables: string[] = [...(params.skippedTables ?? [])];
+  for (const stored of params.tables) {
+    const key = `${stored.schema}.${stored.table}`;
+    if (stored.status === "error") {
+      errorTables.push(key);
+      continue;
+    }
+    if (stored.status === "skipped") {
+      skippedTables.push(key);
+      continue;
+    }
+    const tokenCountByModel = stored.tokenCountByModel ?? {};
+    const costByModel: Record<string, number> = {};
+    for (const { model, tokens, cost } of params.modelTotals) {
+      const modelTokens = tokenCountByModel[model] ?? stored.tokenCount;
+      costByModel[model] = tokens > 0 ? (cost * modelTokens) / tokens : 0;
+    }
+    tables[key] = {
+      rowCount: stored.rowCount,
+      tokenCount: stored.tokenCount,
+      tokenCountByModel,
+      costByModel,
+    };
+  }
+
+  const runTables = Object.values(tables);
+  return {
+    filePath: params.filePath,
+    kind: params.kind,
+    runAt: params.runAt,
+    completed: params.completed,
+    tables,
+    errorTables,
+    skippedTables,
+    totals: {
+      rowCount: runTables.reduce((sum, table) => sum + table.rowCount, 0),
+      tokenCount: runTables.reduce((sum, table) => sum + table.tokenCount, 0),
+      costByModel: Object.fromEntries(params.modelTotals.map(({ model, cost }) => [model, cost])),
+    },
+  };
+}
+
+// ---------------------------------------------------------------------------
+// Comparing
+// ---------------------------------------------------------------------------
+
+/**
+ * Table-by-table differences between two runs. A table is matched by
+ * "schema.table"; a model missing from one run counts as costing nothing
+ * there. A table that failed in either run is "errored", and one skipped in
+ * either run "skipped", with the figures of the run where it was read.
+ */
+export function compareRuns(
+  before: RunSnapshot,
+  after: RunSnapshot,
+  topGrowthCount = DEFAULT_TOP_GROWTH,
+): RunComparison {
+  const models = [
+    ...new Set([
+      ...Object.keys(before.totals.costByModel),
+      ...Object.keys(after.totals.costByModel),
+    ]),
+  ];
+  const erroredNames = new Set([...before.errorTables, ...after.errorTables]);
+  const skippedNames = new Set([...before.skippedTables, ...after.skippedTables]);
+  const names = [
+    ...new Set([
+      ...Object.keys(before.tables),
+      ...Object.keys(after.tables),
+      ...erroredNames,
+      ...skippedNames,
+    ]),
+  ].sort();
+
+  const tables = names.map((name): TableComparison => {
+    const old = before.tables[name];
+    const current = after.tables[name];
+    const rows = changeOf(old?.rowCount ?? 0, current?.rowCount ?? 0);
+    const tokens = changeOf(old?.tokenCount ?? 0, current?.tokenCount ?? 0);
+    const costByModel: Record<string, ChangeValue> = {};
+    for (const model of models) {
+      costByModel[model] = changeOf(old?.costByModel[model] ?? 0, current?.costByModel[model] ?? 0);
+    }
+    const status: TableComparisonStatus = erroredNames.has(name)
+      ? "errored"
+      : skippedNames.has(name)
+        ? "skipped"
+        : !old
+          ? "added"
+          : !current
+            ? "removed"
+            : rows.change !== 0 || tokens.change !== 0
+              ? "changed"
+              : "unchanged";
+    return { table: name, status, rows, tokens, costByModel };
+  });
+
+  const costByModel: Record<string, ChangeValue> = {};
+  for (const model of models) {
+    costByModel[model] = changeOf(
+      before.totals.costByModel[model] ?? 0,
+      after.totals.costByModel[model] ?? 0,
+    );
+  }
+
+  const { tables: _beforeTables, ...beforeSummary } = before;
+  const { tables: _afterTables, ...afterSummary } = after;
+  return {
+    before: beforeSummary,
+    after: afterSummary,
+    totals: {
+      rows: changeOf(before.totals.rowCount, after.totals.rowCount),
+      tokens: changeOf(before.totals.tokenCount, after.totals.tokenCount),
+      costByModel,
+    },
+    tables,
+    added: tables.filter((table) => table.status === "added").map((table) => table.table),
+    removed: tables.filter((table) => table.status === "removed").map((table) => table.table),
+    errored: tables.filter((table) => table.status === "errored").map((table) => table.table),
+    skipped: tables.filter((table) => table.status === "skipped").map((table) => table.table),
+    topGrowth: tables
+      .filter((table) => table.status === "changed" && table.tokens.change > 0)
+      .sort((a, b) => b.tokens.change - a.tokens.change)
+      .slice(0, topGrowthCount),
+  };
+}
+
+function changeOf(before: number, after: number): ChangeValue {
+  return {
+    before,
+    after,
+    change: after - before,
+    changePercent: before === 0 ? null : ((after - before) / before) * 100,
+  };
+}
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+/**
+ * Models given a per-table cost column: the first `limit`, so the table
+ * stays readable. The CSV export (`.costs.csv`) has every model.
+ */
+export function comparisonCostModels(comparison: RunComparison, limit = 3): string[] {
+  return Object.keys(comparison.totals.costByModel).slice(0, limit);
+}
@@ -0,0 +1,279 @@
+import { createHash, randomBytes, timingSafeEqual } from "node:crypto";
+import type { IncomingMessage, ServerResponse } from "node:http";
+import { networkInterfaces } from "node:os";
+
+// ---------------------------------------------------------------------------
+// Types
+// ---------------------------------------------------------------------------
+
+export type DashboardSecurityOptions = {
+  /** Shared secret required on every request but /health. null = no authentication. */
+  token: string | null;
+  /** Origins allowed to call the API from other pages; "*" for any. Empty = same origin only. */
+  corsOrigins: string[];
+  /**
+   * Host names the dashboard answers to, on any port (behind a proxy), besides
+   * the one it is bound to, its loopback names and (bound to all interfaces)
+   * the machine's addresses.
+   */
+  allowedHosts: string[];
+  /** Serve a non-loopback host without a token. */
+  allowInsecureRemote: boolean;
+  /** Serve schema, table and column names as pseudonyms, and file paths as file names. */
+  redactNames: boolean;
+};
+
+const SESSION_COOKIE = "cost_dashboard_session";
+const LOGIN_TOKEN_TTL_MS = 15 * 60 * 1000;
+const CORS_ALLOWED_HEADERS = "Authorization, Content-Type";
+const CORS_ALLOWED_METHODS = "GET, HEAD, POST";
+
+// ---------------------------------------------------------------------------
+// Configuration
+// ---------------------------------------------------------------------------
+
+/**
+ * Read dashboard security settings from COST_DASHBOARD_TOKEN,
+ * COST_DASHBOARD_CORS_ORIGINS ("https://a.example,https://b.example" or "*"),
+ * COST_DASHBOARD_ALLOWED_HOSTS ("dashboard.example,10.0.0.5"),
+ * COST_DASHBOARD_ALLOW_INSECURE_REMOTE and COST_DASHBOARD_REDACT_NAMES.
+ */
+export function parseDashboardSecurityOptionsFromEnv(
+  env: NodeJS.ProcessEnv = process.env,
+): DashboardSecurityOptions {
+  const token = env.COST_DASHBOARD_TOKEN?.trim() || null;
+  if (token !== null && token.length < 16) {
+    throw new Error("COST_DASHBOARD_TOKEN is too short. Use at least 16 characters.");
+  }
+
+  const corsOrigins = (env.COST_DASHBOARD_CORS_ORIGINS ?? "")
+    .split(",")
+    .map((origin) => origin.trim().replace(/\/+$/, ""))
+    .filter((origin) => origin !== "");
+  for (const origin of corsOrigins) {
+    if (origin !== "*" && !/^https?:\/\/[^/]+$/.test(origin)) {
+      throw new Error(
+        `Invalid COST_DASHBOARD_CORS_ORIGINS entry "${origin}". Use scheme://host[:port] or *.`,
+      );
+    }
+  }
+
+  const allowedHosts = (env.COST_DASHBOARD_ALLOWED_HOSTS ?? "")
+    .split(",")
+    .map((host) => normalizeHostName(host))
+    .filter((host) => host !== "");
+
+  return {
+    token,
+    corsOrigins,
+    allowedHosts,
+    allowInsecureRemote: env.COST_DASHBOARD_ALLOW_INSECURE_REMOTE === "true",
+    redactNames: env.COST_DASHBOARD_REDACT_NAMES === "true",
+  };
+}
+
+export function isLoopbackHost(host: string): boolean {
+  const name = normalizeHostName(host);
+  return name === "localhost" || name === "::1" || /^127(\.\d{1,3}){3}$/.test(name);
+}
+
+/**
+ * A check of the Host header against the names the dashboard is reachable
+ * by. Without it, a page whose domain was re-pointed at this machine (DNS
+ * rebinding) would be same-origin with the dashboard.
+ */
+export function createHostCheck(
+  host: string,
+  port: number,
+  options: DashboardSecurityOptions,
+): (hostHeader: string | undefined) => boolean {
+  const boundHost = normalizeHostName(host);
+  const anyInterface = boundHost === "0.0.0.0" || boundHost === "::";
+  const allowedHosts = new Set(options.allowedHosts);
+  // These only on the port the dashboard listens on
+  const names = new Set<string>();
+  if (!anyInterface) {
+    names.add(boundHost);
+  }
+  if (anyInterface || isLoopbackHost(boundHost)) {
+    for (const name of ["localhost", "127.0.0.1", "::1"]) {
+      names.add(name);
+    }
+  }
+  if (anyInterface) {
+    for (const addresses of Object.values(networkInterfaces())) {
+      for (const { address } of addresses ?? []) {
+        names.add(normalizeHostName(address));
+      }
+    }
+  }
+
+  return (hostHeader) => {
+    if (!hostHeader) {
+      return false;
+    }
+    let url: URL;
+    try {
+      url = new URL(`http://${hostHeader}`);
+    } catch {
+      return false;
+    }
+    const name = normalizeHostName(url.hostname);
+    const requestPort = url.port === "" ? 80 : Number(url.port);
+    return allowedHosts.has(name) || (requestPort === port && names.has(name));
+  };
+}
+
+/**
+ * Refuse to serve a host other people can reach without a token: progress
+ * payloads carry file paths and table names. COST_DASHBOARD_ALLOW_INSECURE_REMOTE
+ * overrides it.
+ */
+export function assertSafeBinding(host: string, options: DashboardSecurityOptions): void {
+  if (isLoopbackHost(host) || options.token !== null || options.allowInsecureRemote) {
+    return;
+  }
+  throw new Error(
+    `Refusing to serve the dashboard on ${host} without a token. ` +
+      "Set COST_DASHBOARD_TOKEN (--dashboard-token), or COST_DASHBOARD_ALLOW_INSECURE_REMOTE=true " +
+      "(--allow-insecure-remote) to serve it to anyone who can reach the port.",
+  );
+}
+
+// ---------------------------------------------------------------------------
+// DashboardAuth
+// ---------------------------------------------------------------------------
+
+/**
+ * Token authentication for the dashboard. Scripts send the token in an
+ * `Authorization: Bearer` header. Browsers open a one-time login link
+ * (`/?login=...`), which is exchanged for a session cookie, so neither the
+ * token nor a reusable link ends up in the address bar or browser history.
+ */
+export class DashboardAuth {
+  private readonly tokenDigest: Buffer | null;
+  /** One-time login tokens and when they expire. */
+  private readonly loginTokens = new Map<string, number>();
+  private readonly sessions = new Set<string>();
+
+  constructor(token: string | null) {
+    this.tokenDigest = token === null ? null : digest(token);
+  }
+
+  get enabled(): boolean {
+    return this.tokenDigest !== null;
+  }
+
+  /** True for a request carrying the token or a session cookie; always true without a token. */
+  isAuthenticated(request: IncomingMessage): boolean {
+    if (this.tokenDigest === null) {
+      return true;
+    }
+
+    const authorization = request.headers.authorization ?? "";
+    if (authorization.startsWith("Bearer ")) {
+      return timingSafeEqual(digest(authorization.slice("Bearer ".length).trim()), this.tokenDigest);
+    }
+
+    const session = readCookie(request, SESSION_COOKIE);
+    return session !== null && this.sessions.has(session);
+  }
+
+  /** Mint a login token that works once, within 15 minutes. */
+  createLoginToken(): string {
+    const now = Date.now();
+    for (const [loginToken, expiresAt] of this.loginTokens) {
+      if (expiresAt <= now) {
+        this.loginTokens.delete(loginToken);
+      }
+    }
+    const loginToken = randomBytes(24).toString("base64url");
+    this.loginTokens.set(loginToken, now + LOGIN_TOKEN_TTL_MS);
+    return loginToken;
+  }
+
+  /**
+   * Spend a login token: on success, answer with the session cookie and a
+   * redirect to `location`. Returns false for an unknown, used or expired token.
+   */
+  redeemLoginToken(loginToken: string, response: ServerResponse, location: string): boolean {
+    const expiresAt = this.loginTokens.get(loginToken);
+    this.loginTokens.delete(loginToken);
+    if (expiresAt === undefined || expiresAt <= Date.now()) {
+      return false;
+    }
+
+    const session = randomBytes(32).toString("base64url");
+    this.sessions.add(session);
+    response.writeHead(303, {
+      Location: location,
+      "Set-Cookie": `${SESSION_COOKIE}=${session}; Path=/; HttpOnly; SameSite=Strict`,
+      "Cache-Control": "no-store",
+    });
+    response.end();
+    return true;
+  }
+}
+
+// ---------------------------------------------------------------------------
+// CORS
+// ---------------------------------------------------------------------------
+
+/**
+ * Add the CORS headers for an allowed origin. Returns false when the request
+ * comes from an origin that is not allowed; same-origin requests and
+ * requests without an Origin header are left alone.
+ */
+export function applyCors(
+  request: IncomingMessage,
+  response: ServerResponse,
+  corsOrigins: string[],
+): boolean {
+  const origin = request.headers.origin;
+  if (!origin || isSameOrigin(request, origin)) {
+    return true;
+  }
+  const anyOrigin = corsOrigins.includes("*");
+  if (!anyOrigin && !corsOrigins.includes(origin)) {
+    return false;
+  }
+
+  // Cross-origin callers authenticate with the header; cookies stay same-origin
+  response.setHeader("Access-Control-Allow-Origin", anyOrigin ? "*" : origin);
+  response.setHeader("Access-Control-Allow-Headers", CORS_ALLOWED_HEADERS);
+  response.setHeader("Access-Control-Allow-Methods", CORS_ALLOWED_METHODS);
+  response.setHeader("Vary", "Origin");
+  return true;
+}
+
+// ---------------------------------------------------------------------------
+// Private helpers
+// ---------------------------------------------------------------------------
+
+function normalizeHostName(host: string): string {
+  return host.trim().toLowerCase().replace(/^\[|\]$/g, "");
+}
+
+/** Fixed-length digest, so tokens of any length compare in constant time. */
+function digest(value: string): Buffer {
+  return createHash("sha256").update(value).digest();
+}
+
+function readCookie(request: IncomingMessage, name: string): string | null {
+  for (const part of (request.headers.cookie ?? "").split(";")) {
+    const separator = part.indexOf("=");
+    if (separator >= 0 && part.slice(0, separator).trim() === name) {
+      return part.slice(separator + 1).trim();
+    }
+  }
+  return null;
+}
+
+/** Compares with the Host header, which `createHostCheck` has vouched for. */
+function isSameOrigin(request: IncomingMessage, origin: string): boolean {
+  try {
+    return new URL(origin).host === request.headers.host;
+  } catch {
+    return false;
+  }
+}
@@ -0,0 +1,82 @@
+// ---------------------------------------------------------------------------
+// Name patterns for schemas and tables
+// ---------------------------------------------------------------------------
+//
+// A pattern is one of:
+// - `/regex/flags`: a regular expression (case-insensitive unless flags are given)
+// - a glob with `*` (any run of characters except ".") and `?` (one character)
+// - a plain name, compared case-insensitively
+//
+// Table patterns containing a "." match the qualified `schema.table` name;
+// without one they match the table name in any schema. Regular expressions
+// always match the qualified name.
+
+export type NameMatcher = (name: string) => boolean;
+
+const REGEX_PATTERN = /^\/(.+)\/([a-z]*)$/;
+
+/** Schemas that hold catalog objects, never user data. */
+export const SYSTEM_SCHEMAS = ["pg_catalog", "information_schema", "pg_toast"];
+
+export function isRegexPattern(pattern: string): boolean {
+  return REGEX_PATTERN.test(pattern.trim());
+}
+
+/** Compile one pattern, tested against a single name (a schema, or a qualified table). */
+export function compileNamePattern(pattern: string): NameMatcher {
+  const trimmed = pattern.trim();
+
+  const regexMatch = REGEX_PATTERN.exec(trimmed);
+  if (regexMatch) {
+    let regex: RegExp;
+    try {
+      regex = new RegExp(regexMatch[1], regexMatch[2] || "i");
+    } catch (error) {
+      throw new Error(`Invalid pattern ${trimmed}: ${(error as Error).message}`);
+    }
+    return (name) => regex.test(name);
+  }
+
+  if (trimmed === "*") {
+    return () => true;
+  }
+
+  if (/[*?]/.test(trimmed)) {
+    const source = trimmed
+      .split("")
+      .map((char) => {
+        if (char === "*") return "[^.]*";
+        if (char === "?") return "[^.]";
+        return char.replace(/[.+^${}()|[\]\\]/g, "\\$&");
+      })
+      .join("");
+    const regex = new RegExp(`^${source}$`, "i");
+    return (name) => regex.test(name);
+  }
+
+  const lower = trimmed.toLowerCase();
+  return (name) => name.toLowerCase() === lower;
+}
+
+/** Matches a schema name against any of the patterns. */
+export function compileSchemaMatcher(patterns: string[]): NameMatcher {
+  const matchers = patterns.map(compileNamePattern);
+  return (schema) => matchers.some((matches) => matches(schema));
+}
+
+/**
+ * Matches a table against any of the patterns, on its qualified name or,
+ * for unqualified non-regex patterns, on the table name alone.
+ */
+export function compileTableMatcher(
+  patterns: string[],
+): (schema: string, table: string) => boolean {
+  const matchers = patterns.map((pattern) => {
+    const matches = compileNamePattern(pattern);
+    const qualified = isRegexPattern(pattern) || pattern.includes(".");
+    return { matches, qualified };
+  });
+
+  return (schema, table) =>
+    matchers.some(({ matches, qualified }) => matches(qualified ? `${schema}.${table}` : table));
+}
@@ -1,21 +1,49 @@
 import { Pool } from "pg";
-import { ColumnInfo, TableInfo } from "./types.js";
-
-type TableNameRow = {
+import {
+  ColumnInfo,
+  ColumnStatistics,
+  ColumnTypeKind,
+  KeySource,
+  RelationKind,
+  RelationStats,
+  SamplingMethod,
+  TableInfo,
+} from "./types.js";
+import { SYSTEM_SCHEMAS, compileSchemaMatcher, compileTableMatcher } from "./name_patterns.js";
+
+type RelationRow = {
+  oid: string;
+  table_schema: string;
   table_name: string;
+  relkind: string;
+  /** Partition parent; null for relations that are not partitions. */
+  parent_oid: string | null;
 };
 
 type ColumnRow = {
+  relation_oid: string;
   column_name: string;
   data_type: string;
+  udt_name: string;
+  /** pg_type.typtype of the base type: b, c, e, r, m or p. */
+  typtype: string;
+  is_array: boolean;
+  domain_name: string | null;
   is_nullable: "YES" | "NO";
   column_default: string | null;
   ordinal_position: number;
 };
 
-type PrimaryKeyRow = {
-  column_name: string;
-  pk_position: number;
+type UniqueKeyRow = {
+  relation_oid: string;
+  is_primary: boolean;
+  columns: string[];
+};
+
+type StatsRow = {
+  oid: string;
+  reltuples: number;
+  total_bytes: string;
 };
 
 type SnapshotRow = {
@@ -38,102 +66,355 @@ export async function closePostgresPool(pool: Pool): Promise<void> {
   await pool.end();
 }
 
+const RELKIND_TO_KIND: Record<string, RelationKind> = {
+  r: "table",
+  p: "partitioned",
+  v: "view",
+  m: "materialized-view",
+  f: "foreign",
+};
+
+/**
+ * Find the relations of every schema matching `sourceSchemas` whose name
+ * matches the allowlist and not the blocklist. Schemas and list entries may
+ * be plain names, globs or `/regex/` patterns (see name_patterns.ts).
+ *
+ * Only `relationKinds` are returned (default: tables and partitioned tables).
+ * A partition whose partitioned ancestor is selected is read through that
+ * ancestor and listed in its `partitions`, so it is not counted twice.
+ */
 export async function discoverTables(params: {
   pool: Pool;
-  sourceSchema: string;
+  sourceSchemas: string[];
   tableAllowlist: string[];
   tableBlocklist?: string[];
   updatedAtCandidates: string[];
+  relationKinds?: RelationKind[];
+  /**
+   * Row keys for relations without a primary key or usable unique index,
+   * as "relation.column" or "schema.relation.column"; several entries for one
+   * relation form a composite key, in order. The key must be unique.
+   */
+  viewKeyColumns?: string[];
 }): Promise<TableInfo[]> {
-  const { pool, sourceSchema, tableAllowlist, tableBlocklist, updatedAtCandidates } = params;
+  const { pool, sourceSchemas, tableAllowlist, tableBlocklist, updatedAtCandidates } = params;
+  const relationKinds = new Set(params.relationKinds ?? ["table", "partitioned"]);
 
-  const discoveredTables = await pool.query<TableNameRow>(
+  // Patterns are matched here rather than in SQL, so globs and regexes
+  // follow the same rules for schemas and tables
+  const discoveredRelations = await pool.query<RelationRow>(
     `
-      SELECT table_name
-      FROM information_schema.tables
-      WHERE table_schema = $1
-        AND table_type = 'BASE TABLE'
-      ORDER BY table_name;
+      SELECT
+        c.oid::text AS oid,
+        n.nspname AS table_schema,
+        c.relname AS table_name,
+        c.relkind::text AS relkind,
+        CASE WHEN c.relispartition THEN i.inhparent::text END AS parent_oid
+      FROM pg_catalog.pg_class c
+      JOIN pg_catalog.pg_namespace n ON n.oid = c.relnamespace
+      LEFT JOIN pg_catalog.pg_inherits i ON i.inhrelid = c.oid AND c.relispartition
+      WHERE c.relkind IN ('r', 'p', 'v', 'm', 'f')
+        AND c.relpersistence <> 't'
+        AND n.nspname <> ALL($1::text[])
+      ORDER BY n.nspname, c.relname;
     `,
-    [sourceSchema],
+    [SYSTEM_SCHEMAS],
   );
 
-  const includeAll = tableAllowlist.includes("*");
-  const allowlist = new Set(tableAllowlist.map((name) => name.toLowerCase()));
-  const blocklist = new Set((tableBlocklist ?? []).map((name) => name.toLowerCase()));
-  const tableInfos: TableInfo[] = [];
+  const schemaMatches = compileSchemaMatcher(sourceSchemas);
+  const isAllowed = compileTableMatcher(tableAllowlist);
+  const isBlocked = compileTableMatcher(tableBlocklist ?? []);
+
+  const byOid = new Map(discoveredRelations.rows.map((row) => [row.oid, row]));
+  const isSelected = (row: RelationRow): boolean =>
+    relationKinds.has(RELKIND_TO_KIND[row.relkind]) &&
+    schemaMatches(row.table_schema) &&
+    isAllowed(row.table_schema, row.table_name) &&
+    !isBlocked(row.table_schema, row.table_name);
+
+  // The outermost selected ancestor reads the partition's rows
+  const readThrough = (row: RelationRow): RelationRow | null => {
+    let reader: RelationRow | null = null;
+    let parent = row.parent_oid ? byOid.get(row.parent_oid) : undefined;
+    while (parent) {
+      if (isSelected(parent)) {
+        reader = parent;
+      }
+      parent = parent.parent_oid ? byOid.get(parent.parent_oid) : undefined;
+    }
+    return reader;
+  };
 
-  for (const tableRow of discoveredTables.rows) {
-    const tableName = tableRow.table_name.toLowerCase();
-    if (!includeAll && !allowlist.has(tableName)) {
+  const selected: RelationRow[] = [];
+  const partitionsByOid = new Map<string, Record<string, string>>();
+  for (const row of discoveredRelations.rows) {
+    const reader = readThrough(row);
+    if (reader) {
+      // Intermediate partitioned tables hold no rows of their own
+      if (row.relkind !== "p") {
+        const partitions = partitionsByOid.get(reader.oid) ?? {};
+        partitions[row.oid] = `${row.table_schema}.${row.table_name}`;
+        partitionsByOid.set(reader.oid, partitions);
+      }
       continue;
     }
-    if (blocklist.has(tableName)) {
-      continue;
+    if (isSelected(row)) {
+      selected.push(row);
     }
+  }
 
-    const columnsResult = await pool.query<ColumnRow>(
-      `
-        SELECT
-          column_name,
-          data_type,
-          is_nullable,
-          column_default,
-          ordinal_position
-        FROM information_schema.columns
-        WHERE table_schema = $1
-          AND table_name = $2
-        ORDER BY ordinal_position;
-      `,
-      [sourceSchema, tableRow.table_name],
-    );
+  // Columns, keys and sizes of every selected relation, one query each
+  const selectedOids = selected.map((relation) => relation.oid);
+  const partitionOids = [...partitionsByOid.values()].flatMap((partitions) =>
+    Object.keys(partitions),
+  );
+  const [columnsByOid, keysByOid, statsByOid] = await Promise.all([
+    fetchColumns(pool, selectedOids),
+    fetchUniqueKeys(pool, selectedOids),
+    fetchRelationStats(pool, [...selectedOids, ...partitionOids]),
+  ]);
 
-    const primaryKeyResult = await pool.query<PrimaryKeyRow>(
-      `
-        SELECT
-          kcu.column_name,
-          kcu.ordinal_position AS pk_position
-        FROM information_schema.table_constraints tc
-        JOIN information_schema.key_column_usage kcu
-          ON tc.constraint_name = kcu.constraint_name
-         AND tc.table_schema = kcu.table_schema
-         AND tc.table_name = kcu.table_name
-        WHERE tc.constraint_type = 'PRIMARY KEY'
-          AND tc.table_schema = $1
-          AND tc.table_name = $2
-        ORDER BY kcu.ordinal_position;
-      `,
-      [sourceSchema, tableRow.table_name],
-    );
+  const viewKeyColumns = params.viewKeyColumns ?? [];
+  const tableInfos: TableInfo[] = [];
 
-    const pkPositions = new Map<string, number>();
-    for (const pk of primaryKeyResult.rows) {
-      pkPositions.set(pk.column_name, pk.pk_position);
-    }
+  for (const relation of selected) {
+    const schema = relation.table_schema;
+    const table = relation.table_name;
+    const columnRows = columnsByOid.get(relation.oid) ?? [];
+    const uniqueKeys = keysByOid.get(relation.oid) ?? [];
+
+    const columnsByName = new Map(columnRows.map((row) => [row.column_name, row]));
+    const primaryKey = uniqueKeys.find((row) => row.is_primary)?.columns ?? [];
+    const pkPositions = new Map(primaryKey.map((column, i) => [column, i + 1]));
 
-    const columns: ColumnInfo[] = columnsResult.rows.map((columnRow) => ({
+    const columns: ColumnInfo[] = columnRows.map((columnRow) => ({
       columnName: columnRow.column_name,
       dataType: columnRow.data_type,
+      udtName: columnRow.udt_name,
+      typeKind: toColumnTypeKind(columnRow),
+      domainName: columnRow.domain_name,
       isNullable: columnRow.is_nullable === "YES",
       columnDefault: columnRow.column_default,
       ordinalPosition: Number(columnRow.ordinal_position),
       pkPosition: pkPositions.get(columnRow.column_name) ?? null,
     }));
 
+    // NULLs never compare equal, so only NOT NULL unique keys order every row
+    let keySource: KeySource | null = null;
+    let pkColumns: string[] = [];
+    if (primaryKey.length > 0) {
+      keySource = "primary-key";
+      pkColumns = primaryKey;
+    } else {
+      const uniqueKey = uniqueKeys.find((row) =>
+        row.columns.every((column) => columnsByName.get(column)?.is_nullable === "NO"),
+      );
+      if (uniqueKey) {
+        keySource = "unique-index";
+        pkColumns = uniqueKey.columns;
+      } else {
+        const configured = resolveConfiguredKey(viewKeyColumns, schema, table);
+        if (configured.length > 0) {
+          const missing = configured.filter((column) => !columnsByName.has(column));
+          if (missing.length > 0) {
+            throw new Error(
+              `Key column(s) ${missing.join(", ")} not found in ${schema}.${table}`,
+            );
+          }
+          keySource = "configured";
+          pkColumns = configured;
+        }
+      }
+    }
+
     const updatedAtColumn = findUpdatedAtColumn(columns, updatedAtCandidates);
+    const partitions = partitionsByOid.get(relation.oid);
+    const stats = partitions
+      ? sumRelationStats(Object.keys(partitions).map((oid) => statsByOid.get(oid)))
+      : sumRelationStats([statsByOid.get(relation.oid)]);
+    if (relation.relkind === "v") {
+      // Views are never analyzed; their reltuples means nothing
+      stats.estimatedRows = null;
+    }
 
     tableInfos.push({
-      schema: sourceSchema,
-      table: tableRow.table_name,
+      schema,
+      table,
+      kind: RELKIND_TO_KIND[relation.relkind],
       columns,
-      pkColumns: primaryKeyResult.rows.map((row) => row.column_name),
+      pkColumns,
+      keySource,
       updatedAtColumn,
+      stats,
+      ...(partitions ? { partitions } : {}),
     });
   }
 
   return tableInfos;
 }
 
+// Same data_type as information_schema.columns (which omits materialized
+// views), except that domains over domains resolve to the final base type
+async function fetchColumns(pool: Pool, oids: string[]): Promise<Map<string, ColumnRow[]>> {
+  if (oids.length === 0) {
+    return new Map();
+  }
+  const result = await pool.query<ColumnRow>(
+    `
+      WITH RECURSIVE domain_base AS (
+        SELECT t.oid AS domain_oid, t.typbasetype AS base_oid
+        FROM pg_catalog.pg_type t
+        WHERE t.typtype = 'd'
+        UNION ALL
+        SELECT d.domain_oid, t.typbasetype
+        FROM domain_base d
+        JOIN pg_catalog.pg_type t ON t.oid = d.base_oid AND t.typtype = 'd'
+      )
+      SELECT
+        a.attrelid::text AS relation_oid,
+        a.attname AS column_name,
+        CASE
+          WHEN bt.typelem <> 0 AND bt.typlen = -1 THEN 'ARRAY'
+          WHEN bn.nspname = 'pg_catalog' THEN format_type(bt.oid, NULL)
+          ELSE 'USER-DEFINED'
+        END AS data_type,
+        bt.typname AS udt_name,
+        bt.typtype::text AS typtype,
+        (bt.typelem <> 0 AND bt.typlen = -1) AS is_array,
+        CASE WHEN t.typtype = 'd' THEN format_type(t.oid, NULL) END AS domain_name,
+        CASE WHEN a.attnotnull THEN 'NO' ELSE 'YES' END AS is_nullable,
+        pg_get_expr(ad.adbin, ad.adrelid) AS column_default,
+        a.attnum AS ordinal_position
+      FROM pg_catalog.pg_attribute a
+      JOIN pg_catalog.pg_type t ON t.oid = a.atttypid
+      LEFT JOIN domain_base db
+        ON db.domain_oid = t.oid
+       AND NOT EXISTS (
+         SELECT 1 FROM pg_catalog.pg_type x WHERE x.oid = db.base_oid AND x.typtype = 'd'
+       )
+      JOIN pg_catalog.pg_type bt ON bt.oid = COALESCE(db.base_oid, t.oid)
+      JOIN pg_catalog.pg_namespace bn ON bn.oid = bt.typnamespace
+      LEFT JOIN pg_catalog.pg_attrdef ad ON ad.adrelid = a.attrelid AND ad.adnum = a.attnum
+      WHERE a.attrelid = ANY($1::oid[])
+        AND a.attnum > 0
+        AND NOT a.attisdropped
+      ORDER BY a.attrelid, a.attnum;
+    `,
+    [oids],
+  );
+  return groupByRelation(result.rows);
+}
+
+/** Primary key first, then unique indexes from the narrowest. */
+async function fetchUniqueKeys(
+  pool: Pool,
+  oids: string[],
+): Promise<Map<string, UniqueKeyRow[]>> {
+  if (oids.length === 0) {
+    return new Map();
+  }
+  const result = await pool.query<UniqueKeyRow>(
+    `
+      SELECT
+        i.indrelid::text AS relation_oid,
+        i.indisprimary AS is_primary,
+        ARRAY(
+          SELECT a.attname::text
+          FROM unnest(i.indkey::int2[]) WITH ORDINALITY AS k(attnum, position)
+          JOIN pg_catalog.pg_attribute a
+            ON a.attrelid = i.indrelid
+           AND a.attnum = k.attnum
+          WHERE k.position <= i.indnkeyatts
+          ORDER BY k.position
+        ) AS columns
+      FROM pg_catalog.pg_index i
+      WHERE i.indrelid = ANY($1::oid[])
+        AND i.indisunique
+        AND i.indisvalid
+        AND i.indpred IS NULL
+        AND i.indexprs IS NULL
+      ORDER BY i.indrelid, i.indisprimary DESC, i.indnkeyatts, i.indexrelid;
+    `,
+    [oids],
+  );
+  return groupByRelation(result.rows);
+}
+
+async function fetchRelationStats(pool: Pool, oids: string[]): Promise<Map<string, StatsRow>> {
+  if (oids.length === 0) {
+    return new Map();
+  }
+  const result = await pool.query<StatsRow>(
+    `
+      SELECT
+        c.oid::text AS oid,
+        c.reltuples::float8 AS reltuples,
+        pg_total_relation_size(c.oid)::text AS total_bytes
+      FROM pg_catalog.pg_class c
+      WHERE c.oid = ANY($1::oid[]);
+    `,
+    [oids],
+  );
+  return new Map(result.rows.map((row) => [row.oid, row]));
+}
+
+function groupByRelation<T extends { relation_oid: string }>(rows: T[]): Map<string, T[]> {
+  const grouped = new Map<string, T[]>();
+  for (const row of rows) {
+    const group = grouped.get(row.relation_oid) ?? [];
+    group.push(row);
+    grouped.set(row.relation_oid, group);
+  }
+  return grouped;
+}
+
+function toColumnTypeKind(row: ColumnRow): ColumnTypeKind {
+  if (row.is_array) return "array";
+  switch (row.typtype) {
+    case "b":
+      return "base";
+    case "e":
+      return "enum";
+    case "c":
+      return "composite";
+    case "r":
+    case "m":
+      return "range";
+    default:
+      return "other";
+  }
+}
+
+/** reltuples is -1 (0 before PostgreSQL 14) until the first ANALYZE. */
+function sumRelationStats(rows: (StatsRow | undefined)[]): RelationStats {
+  let estimatedRows: number | null = 0;
+  let totalBytes = 0;
+  for (const row of rows) {
+    if (!row) continue;
+    const reltuples = Number(row.reltuples);
+    estimatedRows =
+      estimatedRows === null || reltuples < 0 ? null : estimatedRows + Math.round(reltuples);
+    totalBytes += Number.parseInt(row.total_bytes, 10) || 0;
+  }
+  return { estimatedRows, totalBytes };
+}
+
+/** Entries of `viewKeyColumns` naming this relation, as column names in order. */
+function resolveConfiguredKey(viewKeyColumns: string[], schema: string, table: string): string[] {
+  const qualified = `${schema}.${table}`.toLowerCase();
+  const unqualified = table.toLowerCase();
+  const columns: string[] = [];
+  for (const entry of viewKeyColumns) {
+    const dot = entry.lastIndexOf(".");
+    if (dot <= 0) continue;
+    const relation = entry.slice(0, dot).toLowerCase();
+    if (relation === qualified || relation === unqualified) {
+      columns.push(entry.slice(dot + 1));
+    }
+  }
+  return columns;
+}
+
 function findUpdatedAtColumn(
   columns: ColumnInfo[],
   updatedAtCandidates: string[],
@@ -210,33 +491,449 @@ export async function fetchTableSnapshot(params: {
   };
 }
 
+/**
+ * Restricts a read to a random sample of the table. The seed is passed to
+ * REPEATABLE so that every page of the same sample sees the same rows.
+ */
+export type TableSampleSpec = {
+  method: SamplingMethod;
+  /** Percentage of the table to sample, in (0, 100]. */
+  percent: number;
+  seed: number;
+};
+
+/**
+ * Where a read starts and stops. Tables with a primary key are paged by
+ * keyset (`WHERE pk > last_seen`), so every batch costs the same no matter
+ * how deep into the table it is. Tables without one fall back to OFFSET.
+ *
+ * Keys are the text form of each PK column, in PK order; PostgreSQL parses
+ * them back into the column types, so no precision is lost in transit.
+ */
+export type ChunkBounds =
+  | {
+      kind: "key-range";
+      /** Exclusive lower bound; null = start of table. */
+      after: string[] | null;
+      /** Inclusive upper bound; null = end of table. */
+      upTo: string[] | null;
+    }
+  | {
+      kind: "offset";
+      offsetStart: number;
+      /** null = read until the table is exhausted. */
+      rowLimit: number | null;
+    };
+
+const KEYSET_ALIAS_PREFIX = "__keyset_";
+const CHANGED_ALIAS = "__changed";
+const PARTITION_ALIAS = "__partition";
+/** Alias of the relation in row reads; `"__source"::text` is the whole row as text. */
+const SOURCE_ALIAS = '"__source"';
+
+/** TABLESAMPLE applies to tables and materialized views only. */
+function supportsTableSample(tableInfo: TableInfo): boolean {
+  return tableInfo.kind !== "view" && tableInfo.kind !== "foreign";
+}
+
+/**
+ * Sample filter for relations without TABLESAMPLE: keeps the rows whose
+ * hash, salted with the seed, falls under the percentage, so every page of
+ * a read sees the same rows. The whole relation is still scanned.
+ */
+function buildHashSampleCondition(percentParam: number, seedParam: number): string {
+  return (
+    `mod(abs(hashtext(${SOURCE_ALIAS}::text || $${seedParam}::text)::bigint), 1000000) ` +
+    `< $${percentParam}::real * 10000`
+  );
+}
+
+function buildRowComparison(
+  pkColumns: string[],
+  operator: ">" | "<=",
+  firstParamIndex: number,
+): string {
+  const columns = pkColumns.map((column) => quoteIdentifier(column)).join(", ");
+  const placeholders = pkColumns.map((_, i) => `$${firstParamIndex + i}`).join(", ");
+  return `(${columns}) ${operator} (${placeholders})`;
+}
+
 export async function fetchTableRows(params: {
   pool: Pool;
   tableInfo: TableInfo;
   limit: number;
-  offset: number;
-}): Promise<Record<string, unknown>[]> {
-  const { pool, tableInfo, limit, offset } = params;
+  /** Exclusive keyset cursor (text-encoded PK values). Requires a primary key. */
+  after?: string[] | null;
+  /** Inclusive upper PK bound. Requires a primary key. */
+  upTo?: string[] | null;
+  /** OFFSET pagination, for tables without a primary key. */
+  offset?: number;
+  sample?: TableSampleSpec;
+  /** Return the partition (oid) each row was read from, in `partitions`. */
+  withPartition?: boolean;
+  /**
+   * Flag rows past this watermark (updated later, or with a larger PK).
+   * The flags come back in `changed`, aligned with `rows`.
+   */
+  changedSince?: TableWatermark;
+}): Promise<{
+  rows: Record<string, unknown>[];
+  lastKey: string[] | null;
+  changed: boolean[] | null;
+  partitions: string[] | null;
+}> {
+  const { pool, tableInfo, limit, after, upTo, offset, sample, withPartition, changedSince } =
+    params;
+  const pkColumns = tableInfo.pkColumns;
+  const useKeyset = pkColumns.length > 0;
 
   const qualifiedTable = `${quoteIdentifier(tableInfo.schema)}.${quoteIdentifier(
     tableInfo.table,
   )}`;
   const columns = tableInfo.columns.map((column) => quoteIdentifier(column.columnName));
-  const orderBy =
-    tableInfo.pkColumns.length > 0
-      ? tableInfo.pkColumns.map((column) => quoteIdentifier(column)).join(", ")
-      : columns.join(", ");
+  const queryParams: unknown[] = [limit];
+  const conditions: string[] = [];
+
+  if (useKeyset) {
+    // Text copies of the PK let the caller resume exactly where this page ended
+    pkColumns.forEach((column, i) => {
+      columns.push(`${quoteIdentifier(column)}::text AS "${KEYSET_ALIAS_PREFIX}${i}"`);
+    });
+    if (after) {
+      conditions.push(buildRowComparison(pkColumns, ">", queryParams.length + 1));
+      queryParams.push(...after);
+    }
+    if (upTo) {
+      conditions.push(buildRowComparison(pkColumns, "<=", queryParams.length + 1));
+      queryParams.push(...upTo);
+    }
+  } else if (after || upTo) {
+    throw new Error(
+      `Keyset bounds require a primary key on ${tableInfo.schema}.${tableInfo.table}`,
+    );
+  }
+
+  const changedConditions: string[] = [];
+  if (changedSince?.updatedAt && tableInfo.updatedAtColumn) {
+    changedConditions.push(
+      `${quoteIdentifier(tableInfo.updatedAtColumn)} > $${queryParams.length + 1}`,
+    );
+    queryParams.push(changedSince.updatedAt);
+  }
+  if (changedSince?.primaryKey && changedSince.primaryKey.length === pkColumns.length && useKeyset) {
+    changedConditions.push(buildRowComparison(pkColumns, ">", queryParams.length + 1));
+    queryParams.push(...changedSince.primaryKey);
+  }
+  if (changedConditions.length > 0) {
+    columns.push(`COALESCE(${changedConditions.join(" OR ")}, false) AS "${CHANGED_ALIAS}"`);
+  }
+
+  if (withPartition) {
+    columns.push(`${SOURCE_ALIAS}.tableoid::text AS "${PARTITION_ALIAS}"`);
+  }
+
+  let sampleClause = "";
+  if (sample && supportsTableSample(tableInfo)) {
+    sampleClause =
+      `TABLESAMPLE ${sample.method.toUpperCase()} ($${queryParams.length + 1}::real) ` +
+      `REPEATABLE ($${queryParams.length + 2}::double precision)`;
+    queryParams.push(sample.percent, sample.seed);
+  } else if (sample) {
+    conditions.push(buildHashSampleCondition(queryParams.length + 1, queryParams.length + 2));
+    queryParams.push(sample.percent, sample.seed);
+  }
+
+  let offsetClause = "";
+  if (!useKeyset) {
+    offsetClause = `OFFSET $${queryParams.length + 1}`;
+    queryParams.push(offset ?? 0);
+  }
+
+  // Without a key, the row's text is the only order every column type supports
+  const orderBy = useKeyset
+    ? pkColumns.map((column) => quoteIdentifier(column)).join(", ")
+    : `${SOURCE_ALIAS}::text`;
+  const whereClause = conditions.length > 0 ? `WHERE ${conditions.join(" AND ")}` : "";
 
   const rowsResult = await pool.query<Record<string, unknown>>(
     `
       SELECT ${columns.join(", ")}
-      FROM ${qualifiedTable}
+      FROM ${qualifiedTable} AS ${SOURCE_ALIAS} ${sampleClause}
+      ${whereClause}
       ORDER BY ${orderBy}
       LIMIT $1
-      OFFSET $2;
+      ${offsetClause};
+    `,
+    queryParams,
+  );
+
+  const rows = rowsResult.rows;
+  let lastKey: string[] | null = null;
+  let changed: boolean[] | null = null;
+  let partitions: string[] | null = null;
+
+  if (withPartition) {
+    partitions = rows.map((row) => {
+      const partition = row[PARTITION_ALIAS] as string;
+      delete row[PARTITION_ALIAS];
+      return partition;
+    });
+  }
+
+  if (changedConditions.length > 0) {
+    changed = rows.map((row) => {
+      const flag = row[CHANGED_ALIAS] === true;
+      delete row[CHANGED_ALIAS];
+      return flag;
+    });
+  }
+
+  if (useKeyset) {
+    for (const row of rows) {
+      const key = pkColumns.map((_, i) => row[`${KEYSET_ALIAS_PREFIX}${i}`] as string);
+      pkColumns.forEach((_, i) => {
+        delete row[`${KEYSET_ALIAS_PREFIX}${i}`];
+      });
+      lastKey = key;
+    }
+  }
+
+  return { rows, lastKey, changed, partitions };
+}
+
+type BoundaryRow = Record<string, string>;
+
+/**
+ * Split a table into `chunkCount` PK ranges of roughly equal size.
+ *
+ * Reads a page-level sample of the primary key, divides it into equal
+ * buckets and returns the last key of every bucket but the final one, so
+ * the result has at most `chunkCount - 1` strictly increasing boundaries.
+ * Returns an empty array when the table has no primary key or the sample
+ * came back empty; callers then fall back to a single range.
+ */
+export async function fetchPkBoundaries(params: {
+  pool: Pool;
+  tableInfo: TableInfo;
+  rowCount: number;
+  chunkCount: number;
+}): Promise<string[][]> {
+  const { pool, tableInfo, rowCount, chunkCount } = params;
+  const pkColumns = tableInfo.pkColumns;
+  if (pkColumns.length === 0 || chunkCount <= 1 || rowCount <= 0) {
+    return [];
+  }
+
+  const qualifiedTable = `${quoteIdentifier(tableInfo.schema)}.${quoteIdentifier(
+    tableInfo.table,
+  )}`;
+  const rawColumns = pkColumns.map((column) => quoteIdentifier(column));
+  const textColumns = pkColumns.map(
+    (column, i) => `${quoteIdentifier(column)}::text AS "${KEYSET_ALIAS_PREFIX}${i}"`,
+  );
+  const textAliases = pkColumns.map((_, i) => `"${KEYSET_ALIAS_PREFIX}${i}"`);
+
+  // ~100 sampled keys per chunk keeps bucket sizes within a few percent
+  const targetSampleRows = Math.max(1_000, chunkCount * 100);
+  const samplePercent = Math.min(100, (targetSampleRows / rowCount) * 100);
+
+  const sampleClause = supportsTableSample(tableInfo)
+    ? "TABLESAMPLE SYSTEM ($1::real)"
+    : `WHERE ${buildHashSampleCondition(1, 3)}`;
+
+  const result = await pool.query<BoundaryRow>(
+    `
+      WITH ranked AS (
+        SELECT
+          ${[...rawColumns, ...textColumns].join(", ")},
+          ntile($2::int) OVER (ORDER BY ${rawColumns.join(", ")}) AS bucket
+        FROM ${qualifiedTable} AS ${SOURCE_ALIAS} ${sampleClause}
+      )
+      SELECT DISTINCT ON (bucket) ${textAliases.join(", ")}
+      FROM ranked
+      ORDER BY bucket, ${rawColumns.map((column) => `${column} DESC`).join(", ")};
+    `,
+    supportsTableSample(tableInfo)
+      ? [samplePercent, chunkCount]
+      : [samplePercent, chunkCount, 0],
+  );
+
+  return result.rows
+    .slice(0, -1)
+    .map((row) => pkColumns.map((_, i) => row[`${KEYSET_ALIAS_PREFIX}${i}`]));
+}
+
+/**
+ * High-water marks of a table, in the text form PostgreSQL returns, so they
+ * compare with the column's own type when passed back as parameters.
+ */
+export type TableWatermark = {
+  /** MAX(updated_at column); null when the table has none or is empty. */
+  updatedAt: string | null;
+  /** Largest primary key, one text value per PK column. */
+  primaryKey: string[] | null;
+};
+
+export async function fetchTableWatermark(params: {
+  pool: Pool;
+  tableInfo: TableInfo;
+}): Promise<TableWatermark> {
+  const { pool, tableInfo } = params;
+
+  const qualifiedTable = `${quoteIdentifier(tableInfo.schema)}.${quoteIdentifier(
+    tableInfo.table,
+  )}`;
+
+  let updatedAt: string | null = null;
+  if (tableInfo.updatedAtColumn) {
+    const result = await pool.query<{ max_updated_at: string | null }>(
+      `
+        SELECT MAX(${quoteIdentifier(tableInfo.updatedAtColumn)})::text AS max_updated_at
+        FROM ${qualifiedTable};
+      `,
+    );
+    updatedAt = result.rows[0]?.max_updated_at ?? null;
+  }
+
+  let primaryKey: string[] | null = null;
+  if (tableInfo.pkColumns.length > 0) {
+    const pkColumns = tableInfo.pkColumns;
+    const result = await pool.query<Record<string, string>>(
+      `
+        SELECT ${pkColumns
+          .map((column, i) => `${quoteIdentifier(column)}::text AS "${KEYSET_ALIAS_PREFIX}${i}"`)
+          .join(", ")}
+        FROM ${qualifiedTable}
+        ORDER BY ${pkColumns.map((column) => `${quoteIdentifier(column)} DESC`).join(", ")}
+        LIMIT 1;
+      `,
+    );
+    const row = result.rows[0];
+    primaryKey = row ? pkColumns.map((_, i) => row[`${KEYSET_ALIAS_PREFIX}${i}`]) : null;
+  }
+
+  return { updatedAt, primaryKey };
+}
+
+type ColumnStatisticsRow = {
+  table_schema: string;
+  table_name: string;
+  column_name: string;
+  inherited: boolean;
+  null_frac: number;
+  avg_width: number;
+  reltuples: number;
+  common_values: unknown[] | null;
+  histogram_values: unknown[] | null;
+};
+
+/**
+ * Column statistics of each table from pg_stats, without reading any row.
+ * Partitioned tables use their inherited statistics, or, since autovacuum
+ * never analyzes a partitioned parent, those of their leaf partitions
+ * weighted by reltuples. Tables never analyzed are missing from the result.
+ * Key: "schema.table", then column name
+ */
+export async function fetchColumnStatistics(params: {
+  pool: Pool;
+  tableInfos: TableInfo[];
+}): Promise<Map<string, Record<string, ColumnStatistics>>> {
+  const { pool, tableInfos } = params;
+  const statistics = new Map<string, Record<string, ColumnStatistics>>();
+  if (tableInfos.length === 0) {
+    return statistics;
+  }
+
+  const schemas = tableInfos.map((tableInfo) => tableInfo.schema);
+  const tables = tableInfos.map((tableInfo) => tableInfo.table);
+  const partitionOids = tableInfos.flatMap((tableInfo) => Object.keys(tableInfo.partitions ?? {}));
+
+  // anyarray columns only cast through text; nested arrays of array columns
+  // come back nested and are flattened below
+  const result = await pool.query<ColumnStatisticsRow>(
+    `
+      SELECT
+        s.schemaname AS table_schema,
+        s.tablename AS table_name,
+        s.attname AS column_name,
+        s.inherited,
+        s.null_frac::float8 AS null_frac,
+        s.avg_width,
+        greatest(c.reltuples, 0)::float8 AS reltuples,
+        s.most_common_vals::text::text[] AS common_values,
+        s.histogram_bounds::text::text[] AS histogram_values
+      FROM pg_catalog.pg_stats s
+      JOIN pg_catalog.pg_namespace n ON n.nspname = s.schemaname
+      JOIN pg_catalog.pg_class c ON c.relnamespace = n.oid AND c.relname = s.tablename
+      WHERE c.oid = ANY($3::oid[])
+        OR (s.schemaname, s.tablename) IN (SELECT * FROM unnest($1::text[], $2::text[]));
     `,
-    [limit, offset],
+    [schemas, tables, partitionOids],
   );
 
-  return rowsResult.rows;
+  const byRelation = new Map<string, ColumnStatisticsRow[]>();
+  for (const row of result.rows) {
+    const key = `${row.table_schema}.${row.table_name}`;
+    const group = byRelation.get(key) ?? [];
+    group.push(row);
+    byRelation.set(key, group);
+  }
+
+  for (const tableInfo of tableInfos) {
+    const key = `${tableInfo.schema}.${tableInfo.table}`;
+    const ownRows = (byRelation.get(key) ?? []).filter(
+      (row) => row.inherited === (tableInfo.kind === "partitioned"),
+    );
+    const rows =
+      ownRows.length > 0 || tableInfo.kind !== "partitioned"
+        ? ownRows
+        : Object.values(tableInfo.partitions ?? {}).flatMap((partition) =>
+            (byRelation.get(partition) ?? []).filter((row) => !row.inherited),
+          );
+    if (rows.length > 0) {
+      statistics.set(key, combineColumnStatistics(rows));
+    }
+  }
+  return statistics;
+}
+
+/** Merge rows of one or more relations, weighting each by its row count. */
+function combineColumnStatistics(rows: ColumnStatisticsRow[]): Record<string, ColumnStatistics> {
+  const byColumn = new Map<string, ColumnStatisticsRow[]>();
+  for (const row of rows) {
+    const group = byColumn.get(row.column_name) ?? [];
+    group.push(row);
+    byColumn.set(row.column_name, group);
+  }
+
+  const combined: Record<string, ColumnStatistics> = {};
+  for (const [column, columnRows] of byColumn) {
+    const totalRows = columnRows.reduce((sum, row) => sum + Number(row.reltuples), 0);
+    // Partitions not analyzed yet report no rows; weigh them equally instead
+    const weight = (row: ColumnStatisticsRow): number =>
+      totalRows > 0 ? Number(row.reltuples) / totalRows : 1 / columnRows.length;
+
+    let nullFraction = 0;
+    let presentWeight = 0;
+    let widthSum = 0;
+    const sampleValues: string[] = [];
+    for (const row of columnRows) {
+      const present = weight(row) * (1 - Number(row.null_frac));
+      nullFraction += weight(row) * Number(row.null_frac);
+      presentWeight += present;
+      widthSum += present * Number(row.avg_width);
+      for (const value of [row.common_values ?? [], row.histogram_values ?? []].flat(Infinity)) {
+        if (typeof value === "string") {
+          sampleValues.push(value);
+        }
+      }
+    }
+
+    combined[column] = {
+      nullFraction,
+      averageWidth: presentWeight > 0 ? widthSum / presentWeight : 0,
+      sampleValues,
+    };
+  }
+  return combined;
 }
@@ -1,6 +1,6 @@
 import { Document } from "@langchain/core/documents";
 import { computeRowHash, sha256Hex, stableStringify } from "./hashing.js";
-import { TableInfo, TextColumnsMode } from "./types.js";
+import { ColumnInfo, TableInfo, TextColumnsMode } from "./types.js";
 
 const TEXTUAL_DATA_TYPES = [
   "text",
@@ -14,8 +14,15 @@ const TEXTUAL_DATA_TYPES = [
   "uuid",
 ];
 
-function isTextualColumn(dataType: string): boolean {
-  const normalizedDataType = dataType.toLowerCase();
+// Enum labels are text; extension types such as citext are matched by name
+function isTextualColumn(column: ColumnInfo): boolean {
+  if (column.typeKind === "enum") {
+    return true;
+  }
+  if (column.dataType === "USER-DEFINED") {
+    return TEXTUAL_DATA_TYPES.includes(column.udtName.toLowerCase());
+  }
+  const normalizedDataType = column.dataType.toLowerCase();
   return TEXTUAL_DATA_TYPES.some((candidate) =>
     normalizedDataType.includes(candidate),
   );
@@ -37,27 +44,46 @@ function normalizeValue(value: unknown): string {
   return String(value);
 }
 
-function selectPageContentColumns(params: {
+export function selectPageContentColumns(params: {
   tableInfo: TableInfo;
   textColumnsMode: TextColumnsMode;
   excludedColumns: Set<string>;
 }): string[] {
   const { tableInfo, textColumnsMode, excludedColumns } = params;
+  const table = tableInfo.table.toLowerCase();
+  const qualifiedTable = `${tableInfo.schema}.${tableInfo.table}`.toLowerCase();
+
+  // Entries match a column everywhere ("email"), in one table ("users.email")
+  // or in one schema-qualified table ("public.users.email")
+  const isExcluded = (columnName: string): boolean => {
+    const column = columnName.toLowerCase();
+    return (
+      excludedColumns.has(column) ||
+      excludedColumns.has(`${table}.${column}`) ||
+      excludedColumns.has(`${qualifiedTable}.${column}`)
+    );
+  };
 
   return tableInfo.columns
-    .filter((column) => !excludedColumns.has(column.columnName.toLowerCase()))
+    .filter((column) => !isExcluded(column.columnName))
     .filter((column) =>
-      textColumnsMode === "all" ? true : isTextualColumn(column.dataType),
+      textColumnsMode === "all" ? true : isTextualColumn(column),
     )
     .map((column) => column.columnName);
 }
 
-function createPageContent(params: {
+export type PageContentLine = {
+  columnName: string;
+  /** Label included: `${columnName}: ${value}` */
+  line: string;
+};
+
+function createPageContentLines(params: {
   row: Record<string, unknown>;
   tableInfo: TableInfo;
   textColumnsMode: TextColumnsMode;
   excludedColumns: Set<string>;
-}): string {
+}): PageContentLine[] {
   const { row, tableInfo, textColumnsMode, excludedColumns } = params;
 
   const selectedColumns = selectPageContentColumns({
@@ -66,15 +92,26 @@ function createPageContent(params: {
     excludedColumns,
   });
 
-  const lines = selectedColumns
+  return selectedColumns
     .map((columnName) => {
       const normalized = normalizeValue(row[columnName]);
-      return normalized.length > 0 ? `${columnName}: ${normalized}` : "";
+      return {
+        columnName,
+        line: normalized.length > 0 ? `${columnName}: ${normalized}` : "",
+      };
     })
-    .filter((line) => line.length > 0);
+    .filter((contentLine) => contentLine.line.length > 0);
+}
+
+function createPageContent(params: {
+  row: Record<string, unknown>;
+  tableInfo: TableInfo;
+  lines: PageContentLine[];
+}): string {
+  const { row, tableInfo, lines } = params;
 
   if (lines.length > 0) {
-    return lines.join("\n");
+    return lines.map((contentLine) => contentLine.line).join("\n");
   }
 
   return `[${tableInfo.schema}.${tableInfo.table}] ${stableStringify(row)}`;
@@ -111,6 +148,11 @@ export function buildDocId(params: {
 export type DbSyncDocument = {
   docId: string;
   document: Document;
+  /**
+   * One line per non-empty selected column, joined by newlines into
+   * `pageContent`. Empty when the row fell back to its JSON form.
+   */
+  contentLines: PageContentLine[];
 };
 
 export function transformRowToDocument(params: {
@@ -127,12 +169,17 @@ export function transformRowToDocument(params: {
   const primaryKey = extractPrimaryKey(params.row, params.tableInfo);
   const primaryKeyHash = sha256Hex(stableStringify(primaryKey));
   const rowHash = computeRowHash(params.row);
-  const pageContent = createPageContent({
+  const contentLines = createPageContentLines({
     row: params.row,
     tableInfo: params.tableInfo,
     textColumnsMode: params.textColumnsMode,
     excludedColumns,
   });
+  const pageContent = createPageContent({
+    row: params.row,
+    tableInfo: params.tableInfo,
+    lines: contentLines,
+  });
   const updatedAt = params.tableInfo.updatedAtColumn
     ? normalizeValue(params.row[params.tableInfo.updatedAtColumn]) || null
     : null;
@@ -157,5 +204,6 @@ export function transformRowToDocument(params: {
         run_id: params.runId,
       },
     }),
+    contentLines,
   };
 }
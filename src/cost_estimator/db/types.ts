@@ -1,8 +1,45 @@
 export type TextColumnsMode = "auto" | "all";
 
+/** PostgreSQL TABLESAMPLE method used when only a fraction of a table is read. */
+export type SamplingMethod = "bernoulli" | "system";
+
+/** Kinds of relation rows can be read from. */
+export type RelationKind = "table" | "partitioned" | "view" | "materialized-view" | "foreign";
+
+export const RELATION_KINDS: RelationKind[] = [
+  "table",
+  "partitioned",
+  "view",
+  "materialized-view",
+  "foreign",
+];
+
+/** Where a relation's row key comes from. */
+export type KeySource = "primary-key" | "unique-index" | "configured";
+
+/** Kind of a column's type, after resolving domains to their base type. */
+export type ColumnTypeKind = "base" | "array" | "enum" | "composite" | "range" | "other";
+
+/** Planner statistics and on-disk size, as of the last ANALYZE. */
+export type RelationStats = {
+  /** pg_class.reltuples (summed over partitions); null when never analyzed. */
+  estimatedRows: number | null;
+  /** Table, indexes and TOAST, in bytes; 0 for views and foreign tables. */
+  totalBytes: number;
+};
+
 export type ColumnInfo = {
   columnName: string;
+  /**
+   * As in information_schema.columns: the type name for built-in types,
+   * "ARRAY" or "USER-DEFINED" otherwise. Domains report their base type.
+   */
   dataType: string;
+  /** Name of the underlying type, e.g. "text", "citext", "mood" (domains resolved). */
+  udtName: string;
+  typeKind: ColumnTypeKind;
+  /** The domain the column is declared with, if any. */
+  domainName: string | null;
   isNullable: boolean;
   columnDefault: string | null;
   ordinalPosition: number;
@@ -12,7 +49,30 @@ export type ColumnInfo = {
 export type TableInfo = {
   schema: string;
   table: string;
+  kind: RelationKind;
   columns: ColumnInfo[];
+  /**
+   * Columns rows are ordered and paged by: the primary key, a unique index
+   * over NOT NULL columns, or a key configured for the relation. Empty when
+   * there is none; rows are then ordered by their whole text and read by OFFSET.
+   */
   pkColumns: string[];
+  keySource: KeySource | null;
   updatedAtColumn: string | null;
+  stats: RelationStats;
+  /**
+   * Leaf partitions read through this partitioned table.
+   * Key: partition oid, value: "schema.table"
+   */
+  partitions?: Record<string, string>;
+};
+
+/** A column's planner statistics (pg_stats), as of the last ANALYZE. */
+export type ColumnStatistics = {
+  /** Fraction of rows where the column is null. */
+  nullFraction: number;
+  /** Average stored width of the non-null values, in bytes. */
+  averageWidth: number;
+  /** Most common values and histogram bounds in text form: a sample of the column. */
+  sampleValues: string[];
 };
@@ -0,0 +1,107 @@
+import assert from "node:assert/strict";
+import { mkdtemp, readFile, rm } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { test } from "node:test";
+import { DocumentEmbedder } from "./embed.js";
+import type { EmbedOptions, TableEmbeddingResult } from "./embed.js";
+import type { EmbedDocument } from "./estimate_worker.js";
+import { startMockEmbeddingServer } from "./providers/mock_server.js";
+
+// One dollar per token keeps the budget arithmetic readable
+const PRICING_ENTRY = { provider: "openai", model: "test-model", pricePerMillion: 1_000_000 };
+
+/** Five one-piece rows of 10 tokens each (the mock bills four characters per token). */
+function buildDocuments(): EmbedDocument[] {
+  return Array.from({ length: 5 }, (_, i) => ({
+    id: `row-${i}`,
+    docId: `row-${i}`,
+    piece: 0,
+    text: `${i}`.repeat(40),
+    metadata: { schema: "public", table: "notes" },
+    tokenCount: 10,
+  }));
+}
+
+function emptyResult(): TableEmbeddingResult {
+  return {
+    schema: "public",
+    table: "notes",
+    status: "skipped",
+    estimatedTokens: 50,
+    rowCount: 0,
+    documentCount: 0,
+    tokenCount: 0,
+  };
+}
+
+async function embedWithBudget(budgetUsd: number | null) {
+  const server = await startMockEmbeddingServer({ port: 0 });
+  const directory = await mkdtemp(join(tmpdir(), "embed-test-"));
+  const options: EmbedOptions = {
+    provider: "openai",
+    model: "test-model",
+    baseUrl: `${server.url}/v1`,
+    apiKey: null,
+    requestBatchSize: 1,
+    retry: { maxRetries: 0, timeoutMs: 5_000, baseDelayMs: 1 },
+    rateLimits: { requestsPerMinute: null, tokensPerMinute: null, concurrency: 2 },
+    budgetUsd,
+    outputFile: join(directory, "embeddings.jsonl"),
+  };
+  try {
+    const embedder = new DocumentEmbedder({
+      options,
+      pricingEntry: PRICING_ENTRY,
+      estimatedTokens: 50,
+    });
+    await embedder.initialize();
+    const result = emptyResult();
+    const stop = await embedder.embedDocuments(result, buildDocuments());
+    await embedder.finalize();
+    const lines = (await readFile(options.outputFile, "utf-8")).split("\n").filter(Boolean);
+    return { embedder, result, stop, lines, requests: server.requests };
+  } finally {
+    await server.close();
+    await rm(directory, { recursive: true, force: true });
+  }
+}
+
+test("the budget stops before the batch that would go over it", async () => {
+  const { embedder, result, stop, lines, requests } = await embedWithBudget(25);
+
+  // $10 per batch: the third would make $30
+  assert.equal(stop, true);
+  assert.equal(embedder.stoppedByBudget, true);
+  assert.equal(embedder.signal.aborted, true);
+  assert.equal(requests.length, 2);
+  assert.equal(lines.length, 2);
+  assert.equal(embedder.progress.costUsd, 20);
+  assert.equal(result.documentCount, 2);
+});
+
+test("a batch that lands exactly on the budget is still sent", async () => {
+  const { embedder, stop, requests } = await embedWithBudget(50);
+
+  assert.equal(stop, false);
+  assert.equal(embedder.stoppedByBudget, false);
+  assert.equal(requests.length, 5);
+  assert.equal(embedder.progress.costUsd, 50);
+});
+
+test("without a budget every document is embedded and written", async () => {
+  const { embedder, result, stop, lines } = await embedWithBudget(null);
+
+  assert.equal(stop, false);
+  assert.equal(lines.length, 5);
+  assert.deepEqual(lines.map((line) => (JSON.parse(line) as { id: string }).id).sort(), [
+    "row-0",
+    "row-1",
+    "row-2",
+    "row-3",
+    "row-4",
+  ]);
+  assert.equal(result.rowCount, 5);
+  assert.equal(result.tokenCount, 50);
+  assert.equal(embedder.progress.requestCount, 5);
+});
@@ -0,0 +1,521 @@
+import { estimateCost } from "./estimate.js";
+import { estimateCostFromCatalog } from "./catalog_estimate.js";
+import type { RelationKind, TextColumnsMode } from "./db/types.js";
+import type { SplitterOptions } from "./chunking.js";
+import { computeCostBreakdown, getPricing } from "./pricing.js";
+import type { ModelPricingEntry } from "./pricing.js";
+import { resolveTokenizer } from "./tokenizers.js";
+import type { EmbedDocument } from "./estimate_worker.js";
+import { EmbeddingFileWriter } from "./embedding_output.js";
+import type { EmbeddingRecord } from "./embedding_output.js";
+import { createEmbeddingAdapter, PROVIDER_API_KEY_ENV } from "./providers/adapters.js";
+import { RateLimiter } from "./providers/rate_limiter.js";
+import type { RateLimits } from "./providers/rate_limiter.js";
+import { EMBEDDING_PROVIDERS } from "./providers/types.js";
+import type { EmbeddingAdapter, EmbeddingProviderKind, RetryPolicy } from "./providers/types.js";
+
+// ---------------------------------------------------------------------------
+// Types
+// ---------------------------------------------------------------------------
+
+export type EmbedOptions = {
+  provider: EmbeddingProviderKind;
+  model: string;
+  /** API root; null = the provider's default. */
+  baseUrl: string | null;
+  apiKey: string | null;
+  /** Documents sent per request. */
+  requestBatchSize: number;
+  retry: RetryPolicy;
+  rateLimits: RateLimits;
+  /** Stop before the spend would pass this many USD; null = no cap. */
+  budgetUsd: number | null;
+  /** JSON Lines file the embeddings are written to. */
+  outputFile: string;
+};
+
+/** Embed settings read from the environment; provider and model may still be unknown. */
+export type EmbedSettings = Omit<EmbedOptions, "provider" | "model"> & {
+  provider: EmbeddingProviderKind | null;
+  model: string | null;
+};
+
+export type TableEmbeddingStatus = "completed" | "stopped" | "error" | "skipped";
+
+export type TableEmbeddingResult = {
+  schema: string;
+  table: string;
+  /** "stopped" = cut short by the budget; "skipped" = never started. */
+  status: TableEmbeddingStatus;
+  /** Tokens the pre-run (catalog) estimate expected; null when the table has no statistics. */
+  estimatedTokens: number | null;
+  /** Rows with at least one embedded piece. */
+  rowCount: number;
+  /** Pieces embedded. */
+  documentCount: number;
+  /** Tokens billed, as reported by the provider (counted locally when it does not say). */
+  tokenCount: number;
+  error?: string;
+};
+
+export type EmbeddingProgress = {
+  documentCount: number;
+  tokenCount: number;
+  /** null when the model has no known price. */
+  costUsd: number | null;
+  estimatedTokens: number;
+  estimatedCostUsd: number | null;
+  requestCount: number;
+  retryCount: number;
+};
+
+export type EmbeddingRunResult = EmbeddingProgress & {
+  provider: EmbeddingProviderKind;
+  model: string;
+  /** null when the model is not in the pricing table. */
+  pricePerMillion: number | null;
+  tables: TableEmbeddingResult[];
+  /** Tokens counted locally with the model's tokenizer, to compare with the billed count. */
+  countedTokenCount: number;
+  budgetUsd: number | null;
+  stoppedByBudget: boolean;
+  outputFile: string;
+  elapsedSeconds: number;
+};
+
+// ---------------------------------------------------------------------------
+// Configuration
+// ---------------------------------------------------------------------------
+
+const DEFAULT_REQUEST_BATCH_SIZE = 64;
+const DEFAULT_MAX_RETRIES = 5;
+const DEFAULT_TIMEOUT_MS = 60_000;
+const DEFAULT_RETRY_BASE_DELAY_MS = 1_000;
+const DEFAULT_CONCURRENCY = 4;
+export const DEFAULT_EMBEDDINGS_FILE = "./embeddings.jsonl";
+
+function positiveNumberOrNull(value: string | undefined): number | null {
+  const parsed = Number.parseFloat(value ?? "");
+  return Number.isFinite(parsed) && parsed > 0 ? parsed : null;
+}
+
+function positiveIntOr(value: string | undefined, fallback: number): number {
+  const parsed = Number.parseInt(value ?? "", 10);
+  return Number.isFinite(parsed) && parsed > 0 ? parsed : fallback;
+}
+
+export function parseEmbeddingProvider(value: string | undefined): EmbeddingProviderKind | null {
+  const normalized = value?.trim().toLowerCase();
+  if (!normalized) {
+    return null;
+  }
+  if (!EMBEDDING_PROVIDERS.includes(normalized as EmbeddingProviderKind)) {
+    throw new Error(
+      `Unknown embedding provider "${value}". Expected one of: ${EMBEDDING_PROVIDERS.join(", ")}`,
+    );
+  }
+  return normalized as EmbeddingProviderKind;
+}
+
+/** The API key for a provider: EMBED_API_KEY, then the provider's own variable. */
+export function resolveEmbedApiKey(
+  provider: EmbeddingProviderKind,
+  env: NodeJS.ProcessEnv = process.env,
+): string | null {
+  const keyEnv = PROVIDER_API_KEY_ENV[provider];
+  return env.EMBED_API_KEY?.trim() || (keyEnv ? env[keyEnv]?.trim() : undefined) || null;
+}
+
+/** Read EMBED_* settings from the environment. */
+export function parseEmbedSettingsFromEnv(env: NodeJS.ProcessEnv = process.env): EmbedSettings {
+  const provider = parseEmbeddingProvider(env.EMBED_PROVIDER);
+  const maxRetries = Number.parseInt(env.EMBED_MAX_RETRIES ?? "", 10);
+
+  return {
+    provider,
+    model: env.EMBED_MODEL?.trim() || null,
+    baseUrl: env.EMBED_BASE_URL?.trim() || null,
+    apiKey: provider ? resolveEmbedApiKey(provider, env) : env.EMBED_API_KEY?.trim() || null,
+    requestBatchSize: positiveIntOr(env.EMBED_BATCH_SIZE, DEFAULT_REQUEST_BATCH_SIZE),
+    retry: {
+      maxRetries: Number.isFinite(maxRetries) && maxRetries >= 0 ? maxRetries : DEFAULT_MAX_RETRIES,
+      timeoutMs: positiveIntOr(env.EMBED_TIMEOUT_MS, DEFAULT_TIMEOUT_MS),
+      baseDelayMs: DEFAULT_RETRY_BASE_DELAY_MS,
+    },
+    rateLimits: {
+      requestsPerMinute: positiveNumberOrNull(env.EMBED_RPM),
+      tokensPerMinute: positiveNumberOrNull(env.EMBED_TPM),
+      concurrency: positiveIntOr(env.EMBED_CONCURRENCY, DEFAULT_CONCURRENCY),
+    },
+    budgetUsd: positiveNumberOrNull(env.EMBED_BUDGET_USD),
+    outputFile: env.EMBED_OUTPUT_FILE?.trim() || DEFAULT_EMBEDDINGS_FILE,
+  };
+}
+
+/** The priced entry for a model; the provider breaks ties between same-named models. */
+function findPricingEntry(
+  entries: ModelPricingEntry[],
+  provider: EmbeddingProviderKind,
+  model: string,
+): ModelPricingEntry | null {
+  const matches = entries.filter((entry) => entry.model === model);
+  return matches.find((entry) => entry.provider === provider) ?? matches[0] ?? null;
+}
+
+/** What the tokens are billed at: volume tiers and the negotiated discount applied. */
+function costOf(tokens: number, pricingEntry: ModelPricingEntry | null): number | null {
+  return pricingEntry === null ? null : computeCostBreakdown(pricingEntry, tokens).discounted;
+}
+
+function splitIntoBatches<T>(items: T[], size: number): T[][] {
+  const batches: T[][] = [];
+  for (let i = 0; i < items.length; i += size) {
+    batches.push(items.slice(i, i + size));
+  }
+  return batches;
+}
+
+// ---------------------------------------------------------------------------
+// DocumentEmbedder
+// ---------------------------------------------------------------------------
+
+export type DocumentEmbedderConfig = {
+  options: EmbedOptions;
+  /** null when the model is not in the pricing table; a budget then cannot apply. */
+  pricingEntry: ModelPricingEntry | null;
+  /** Tokens the pre-run estimate expected, reported alongside the progress. */
+  estimatedTokens: number;
+  /** Called after every request. */
+  onProgress?: (progress: EmbeddingProgress) => void;
+};
+
+/**
+ * Sends documents to the provider in request batches, through the rate
+ * limiter, and appends the vectors to the output file. With a budget, a batch
+ * that could push the spend past it is not sent: `signal` aborts and the
+ * caller winds down.
+ */
+export class DocumentEmbedder {
+  private readonly options: EmbedOptions;
+  private readonly pricingEntry: ModelPricingEntry | null;
+  private readonly estimatedTokens: number;
+  private readonly onProgress?: (progress: EmbeddingProgress) => void;
+  private readonly controller = new AbortController();
+  private readonly limiter: RateLimiter;
+  private readonly adapter: EmbeddingAdapter;
+  private readonly writer: EmbeddingFileWriter;
+
+  private requestCount = 0;
+  private retryCount = 0;
+  private documentCount = 0;
+  private tokenCount = 0;
+  private countedTokens = 0;
+  // Cost of batches sent but not answered yet, held against the budget
+  private reservedUsd = 0;
+  private budgetStop = false;
+
+  constructor(config: DocumentEmbedderConfig) {
+    this.options = config.options;
+    this.pricingEntry = config.pricingEntry;
+    this.estimatedTokens = config.estimatedTokens;
+    this.onProgress = config.onProgress;
+    this.limiter = new RateLimiter(config.options.rateLimits);
+    this.adapter = createEmbeddingAdapter({
+      provider: config.options.provider,
+      model: config.options.model,
+      baseUrl: config.options.baseUrl,
+      apiKey: config.options.apiKey,
+      retry: config.options.retry,
+      onRetry: () => {
+        this.retryCount++;
+      },
+    });
+    this.writer = new EmbeddingFileWriter(config.options.outputFile);
+  }
+
+  /** Aborts once the budget stops the run. */
+  get signal(): AbortSignal {
+    return this.controller.signal;
+  }
+
+  get stoppedByBudget(): boolean {
+    return this.budgetStop;
+  }
+
+  /** Tokens counted locally with the model's tokenizer. */
+  get countedTokenCount(): number {
+    return this.countedTokens;
+  }
+
+  get progress(): EmbeddingProgress {
+    return {
+      documentCount: this.documentCount,
+      tokenCount: this.tokenCount,
+      costUsd: costOf(this.tokenCount, this.pricingEntry),
+      estimatedTokens: this.estimatedTokens,
+      estimatedCostUsd: costOf(this.estimatedTokens, this.pricingEntry),
+      requestCount: this.requestCount,
+      retryCount: this.retryCount,
+    };
+  }
+
+  /** Create / truncate the output file. */
+  async initialize(): Promise<void> {
+    await this.writer.initialize();
+  }
+
+  /**
+   * Embed a page of documents of one table, adding to `result`. Every batch
+   * is waited for, so the table's totals are final when this resolves.
+   * Resolves true when the run must stop.
+   */
+  async embedDocuments(result: TableEmbeddingResult, documents: EmbedDocument[]): Promise<boolean> {
+    const outcomes = await Promise.allSettled(
+      splitIntoBatches(documents, this.options.requestBatchSize).map((batch) =>
+        this.embedBatch(result, batch),
+      ),
+    );
+    const failure = outcomes.find(
+      (outcome): outcome is PromiseRejectedResult => outcome.status === "rejected",
+    );
+    if (failure) {
+      throw failure.reason;
+    }
+    return this.controller.signal.aborted;
+  }
+
+  /** Wait for pending appends to the output file. */
+  async finalize(): Promise<void> {
+    await this.writer.finalize();
+  }
+
+  // -------------------------------------------------------------------------
+  // Private helpers
+  // -------------------------------------------------------------------------
+
+  private async embedBatch(result: TableEmbeddingResult, batch: EmbedDocument[]): Promise<void> {
+    const batchTokens = batch.reduce((sum, doc) => sum + doc.tokenCount, 0);
+    const batchCost = costOf(batchTokens, this.pricingEntry) ?? 0;
+
+    if (this.controller.signal.aborted) {
+      return;
+    }
+    if (this.options.budgetUsd !== null) {
+      const committed = (costOf(this.tokenCount, this.pricingEntry) ?? 0) + this.reservedUsd;
+      if (committed + batchCost > this.options.budgetUsd) {
+        this.budgetStop = true;
+        this.controller.abort();
+        return;
+      }
+    }
+
+    this.reservedUsd += batchCost;
+    try {
+      const response = await this.limiter.schedule(batchTokens, () =>
+        this.adapter.embed(batch.map((doc) => doc.text)),
+      );
+      this.requestCount++;
+
+      const records: EmbeddingRecord[] = batch.map((doc, i) => ({
+        id: doc.id,
+        doc_id: doc.docId,
+        piece: doc.piece,
+        model: this.options.model,
+        content: doc.text,
+        embedding: response.vectors[i],
+        metadata: doc.metadata,
+      }));
+      await this.writer.append(records);
+
+      const billedTokens = response.tokenCount ?? batchTokens;
+      this.countedTokens += batchTokens;
+      this.tokenCount += billedTokens;
+      this.documentCount += batch.length;
+      result.tokenCount += billedTokens;
+      result.documentCount += batch.length;
+      result.rowCount += batch.filter((doc) => doc.piece === 0).length;
+      this.onProgress?.(this.progress);
+    } finally {
+      this.reservedUsd -= batchCost;
+    }
+  }
+}
+
+// ---------------------------------------------------------------------------
+// Embedding run
+// ---------------------------------------------------------------------------
+
+/**
+ * Read the selected tables through the thread pool and embed every document.
+ * Costs are estimated from catalog statistics first, so progress and the
+ * final spend can be compared with what was expected. With a budget, a batch
+ * that could push the spend past it is not sent and the run winds down.
+ */
+export async function embedTables(params: {
+  sourceDbUrl: string;
+  sourceSchemas: string[];
+  tableAllowlist: string[];
+  tableBlocklist?: string[];
+  relationKinds?: RelationKind[];
+  viewKeyColumns?: string[];
+  textColumnsMode: TextColumnsMode;
+  excludedColumns: string[];
+  batchSize: number;
+  maxThreads?: number;
+  tablesPerBatch?: number;
+  largeTableThreshold?: number;
+  chunkSize?: number;
+  snapshotConcurrency?: number;
+  splitter?: SplitterOptions | null;
+  options: EmbedOptions;
+  pricingEntries?: ModelPricingEntry[];
+  /** Called after every request. */
+  onProgress?: (progress: EmbeddingProgress) => void;
+}): Promise<EmbeddingRunResult> {
+  const { options } = params;
+  const startTime = Date.now();
+
+  const entries = params.pricingEntries ?? await getPricing();
+  const pricingEntry = findPricingEntry(entries, options.provider, options.model);
+  const pricePerMillion = pricingEntry?.pricePerMillion ?? null;
+  if (options.budgetUsd !== null && pricePerMillion === null) {
+    throw new Error(
+      `No price is known for model "${options.model}", so a budget cannot be enforced.`,
+    );
+  }
+  // Unpriced models are still estimated, for tokens only
+  const modelEntry: ModelPricingEntry = pricingEntry
+    ? { ...pricingEntry, model: options.model }
+    : { provider: options.provider, model: options.model, pricePerMillion: 0 };
+
+  const estimate = await estimateCostFromCatalog({
+    sourceDbUrl: params.sourceDbUrl,
+    sourceSchemas: params.sourceSchemas,
+    tableAllowlist: params.tableAllowlist,
+    tableBlocklist: params.tableBlocklist,
+    relationKinds: params.relationKinds,
+    viewKeyColumns: params.viewKeyColumns,
+    textColumnsMode: params.textColumnsMode,
+    excludedColumns: params.excludedColumns,
+    splitter: params.splitter,
+    pricingEntries: [modelEntry],
+  });
+  const withoutStats = new Set(estimate.approximate.tablesWithoutStats);
+  const estimatedTokens = estimate.totalTokensByModel[options.model] ?? estimate.totalTokens;
+
+  const tables = new Map<string, TableEmbeddingResult>();
+  for (const table of estimate.tables) {
+    const key = `${table.schema}.${table.table}`;
+    tables.set(key, {
+      schema: table.schema,
+      table: table.table,
+      status: "skipped",
+      estimatedTokens: withoutStats.has(key)
+        ? null
+        : (table.tokenCountByModel[options.model] ?? table.tokenCount),
+      rowCount: 0,
+      documentCount: 0,
+      tokenCount: 0,
+    });
+  }
+  const tableResult = (schema: string, table: string): TableEmbeddingResult => {
+    const key = `${schema}.${table}`;
+    let result = tables.get(key);
+    if (!result) {
+      result = {
+        schema,
+        table,
+        status: "skipped",
+        estimatedTokens: null,
+        rowCount: 0,
+        documentCount: 0,
+        tokenCount: 0,
+      };
+      tables.set(key, result);
+    }
+    return result;
+  };
+
+  const embedder = new DocumentEmbedder({
+    options,
+    pricingEntry,
+    estimatedTokens,
+    onProgress: params.onProgress,
+  });
+  await embedder.initialize();
+  const stoppedTables = new Set<string>();
+
+  const onDocuments = async (
+    schema: string,
+    table: string,
+    documents: EmbedDocument[],
+  ): Promise<boolean> => {
+    const stop = await embedder.embedDocuments(tableResult(schema, table), documents);
+    if (stop) {
+      stoppedTables.add(`${schema}.${table}`);
+    }
+    return stop;
+  };
+
+  const errors = new Map<string, string>();
+  const run = await estimateCost({
+    sourceDbUrl: params.sourceDbUrl,
+    sourceSchemas: params.sourceSchemas,
+    tableAllowlist: params.tableAllowlist,
+    tableBlocklist: params.tableBlocklist,
+    relationKinds: params.relationKinds,
+    viewKeyColumns: params.viewKeyColumns,
+    updatedAtCandidates: [],
+    textColumnsMode: params.textColumnsMode,
+    excludedColumns: params.excludedColumns,
+    batchSize: params.batchSize,
+    maxThreads: params.maxThreads,
+    tablesPerBatch: params.tablesPerBatch,
+    largeTableThreshold: params.largeTableThreshold,
+    chunkSize: params.chunkSize,
+    snapshotConcurrency: params.snapshotConcurrency,
+    splitter: params.splitter,
+    pricingEntries: [modelEntry],
+    signal: embedder.signal,
+    embedding: {
+      tokenizer: resolveTokenizer(modelEntry.provider, options.model),
+      onDocuments,
+    },
+    onTableError: (schema, table, error) => {
+      errors.set(`${schema}.${table}`, error);
+    },
+  });
+  await embedder.finalize();
+
+  for (const table of run.tables) {
+    tableResult(table.schema, table.table).status = "completed";
+  }
+  for (const key of stoppedTables) {
+    const result = tables.get(key);
+    if (result) result.status = "stopped";
+  }
+  // Chunks of a table left undispatched after the stop
+  for (const result of tables.values()) {
+    if (result.status === "skipped" && result.documentCount > 0) result.status = "stopped";
+  }
+  for (const [key, error] of errors) {
+    const result = tables.get(key);
+    if (result) {
+      result.status = "error";
+      result.error = error;
+    }
+  }
+
+  return {
+    provider: options.provider,
+    model: options.model,
+    pricePerMillion,
+    tables: [...tables.values()],
+    ...embedder.progress,
+    countedTokenCount: embedder.countedTokenCount,
+    budgetUsd: options.budgetUsd,
+    stoppedByBudget: embedder.stoppedByBudget,
+    outputFile: options.outputFile,
+    elapsedSeconds: Math.round((Date.now() - startTime) / 1000),
+  };
+}
@@ -0,0 +1,61 @@
+import { appendFile, writeFile } from "node:fs/promises";
+
+// ---------------------------------------------------------------------------
+// Types
+// ---------------------------------------------------------------------------
+
+/** One line of the output file: a document piece and its vector. */
+export type EmbeddingRecord = {
+  /** The document id, suffixed with "#<piece>" when the row was split. */
+  id: string;
+  doc_id: string;
+  piece: number;
+  model: string;
+  content: string;
+  embedding: number[];
+  /** schema, table, pk, pk_hash, updated_at, row_hash and run_id of the row. */
+  metadata: Record<string, unknown>;
+};
+
+// ---------------------------------------------------------------------------
+// EmbeddingFileWriter
+// ---------------------------------------------------------------------------
+
+/**
+ * Writes embeddings as JSON Lines. Appends are serialized, so records of
+ * concurrent requests never interleave within a line.
+ */
+export class EmbeddingFileWriter {
+  private readonly filePath: string;
+  private writeQueue: Promise<void> = Promise.resolve();
+
+  constructor(filePath: string) {
+    this.filePath = filePath;
+  }
+
+  get path(): string {
+    return this.filePath;
+  }
+
+  /** Create / truncate the output file. */
+  async initialize(): Promise<void> {
+    await writeFile(this.filePath, "", "utf-8");
+  }
+
+  /** Append records; resolves once they are on disk. */
+  append(records: EmbeddingRecord[]): Promise<void> {
+    if (records.length === 0) {
+      return this.writeQueue;
+    }
+    const lines = records.map((record) => JSON.stringify(record)).join("\n") + "\n";
+    const write = this.writeQueue.then(() => appendFile(this.filePath, lines, "utf-8"));
+    // A failed append is reported to its caller; later appends still run
+    this.writeQueue = write.catch(() => {});
+    return write;
+  }
+
+  /** Wait for pending appends. */
+  async finalize(): Promise<void> {
+    await this.writeQueue;
+  }
+}
@@ -5,15 +5,104 @@ import {
   createPostgresPool,
   closePostgresPool,
   discoverTables,
+  fetchPkBoundaries,
   fetchTableSnapshot,
+  fetchTableWatermark,
 } from "./db/postgres.js";
-import { processTablesInParallel } from "./thread_pool.js";
-import type { TableTokenEstimate } from "./thread_pool.js";
-import type { TextColumnsMode } from "./db/types.js";
+import type { TableWatermark } from "./db/postgres.js";
+import { plannedChunkCount, processTablesInParallel } from "./thread_pool.js";
+import type { ChunkPartial, PoolOptions, TableTokenEstimate } from "./thread_pool.js";
+import type { RunController } from "./run_control.js";
+import type { RelationKind, TextColumnsMode } from "./db/types.js";
 import { TerminalUI } from "./terminal_ui.js";
 import { ProgressFileWriter } from "./progress_file.js";
-import { getPricing, toPricingMap } from "./pricing.js";
-import type { ModelPricingEntry } from "./pricing.js";
+import {
+  computeCostBreakdown,
+  computeTieredCost,
+  filterPricingEntries,
+  formatPricingProvenance,
+  getPricing,
+  parsePricingSourceOptionsFromEnv,
+  summarizePricingProvenance,
+  toMaxInputTokensMap,
+} from "./pricing.js";
+import type { ModelCostBreakdown, ModelPricingEntry } from "./pricing.js";
+import { getPricingWithOverrides } from "./pricing_overrides.js";
+import {
+  parseSamplingOptionsFromEnv,
+  shouldSampleTable,
+  summarizeSampling,
+} from "./sampling.js";
+import type { SamplingOptions, SamplingSummary } from "./sampling.js";
+import { buildModelTokenizers } from "./tokenizers.js";
+import { parseSplitterOptionsFromEnv, summarizeChunking } from "./chunking.js";
+import type { ChunkingSummary, SplitterOptions } from "./chunking.js";
+import {
+  defaultVectorStorageOptions,
+  estimateVectorStorage,
+  formatBytes,
+  parseVectorStorageOptionsFromEnv,
+  storageBreakdownModels,
+} from "./storage.js";
+import type { StorageSize, VectorStorageOptions, VectorStorageSummary } from "./storage.js";
+import {
+  BUDGET_EXCEEDED_EXIT_CODE,
+  BudgetTracker,
+  checkBudget,
+  hasBudget,
+  parseBudgetOptionsFromEnv,
+} from "./budget.js";
+import type { BudgetCheck, BudgetOptions } from "./budget.js";
+import {
+  defaultThroughputOptions,
+  formatProjectedDuration,
+  parseThroughputOptionsFromEnv,
+  projectEmbeddingDuration,
+} from "./throughput.js";
+import type {
+  DurationProjectionSummary,
+  ModelDurationProjection,
+  ThroughputOptions,
+} from "./throughput.js";
+import { CheckpointFileWriter, computeRunFingerprint, readCheckpoint } from "./checkpoint_file.js";
+import type { CheckpointData, TablePlan } from "./checkpoint_file.js";
+import {
+  emptyEstimationState,
+  readEstimationState,
+  resolveChangeDetection,
+  writeEstimationState,
+} from "./incremental.js";
+import {
+  buildCostReport,
+  describeDatabase,
+  exportCostReport,
+  parseReportExportOptions,
+} from "./report_exporter.js";
+import type { ReportMetadata } from "./report_exporter.js";
+import { archiveRun, parseRunHistoryOptionsFromEnv } from "./run_history.js";
+import { estimateCostFromCatalog } from "./catalog_estimate.js";
+import type { CatalogApproximation } from "./catalog_estimate.js";
+import {
+  formatCliHelp,
+  hasFlag,
+  parseCliArgs,
+  parseCommaSeparated,
+  parsePositiveInt,
+  resolveCliEnv,
+  resolveDbUrlFromEnv,
+  resolvePricingFilterFromEnv,
+  resolveRelationKindsFromEnv,
+  resolveSchemasFromEnv,
+  resolveTextColumnsMode,
+  resolveTuningFromEnv,
+  resolveUpdatedAtCandidates,
+} from "./cli_args.js";
+import type {
+  ChangeDetection,
+  DeltaSummary,
+  EstimationState,
+  TableEstimationState,
+} from "./incremental.js";
 
 // ---------------------------------------------------------------------------
 // Types
@@ -23,9 +112,40 @@ export type { TableTokenEstimate };
 
 export type CostEstimationResult = {
   tables: TableTokenEstimate[];
+  /** "schema.table" of tables that failed, left out of `tables`; present when any did. */
+  failedTables?: string[];
+  /** Tokens under the reference (cl100k_base) tokenizer. */
   totalTokens: number;
+  /** Tokens under each model's own tokenizer. Key: model name */
+  totalTokensByModel: Record<string, number>;
+  /** List cost, volume tiers applied. Key: model name */
   costByModel: Record<string, number>;
+  /** Standard, batch and discounted cost. Key: model name */
+  costBreakdownByModel: Record<string, ModelCostBreakdown>;
   pricingEntries: ModelPricingEntry[];
+  /** Present when tables were sampled; totals are then extrapolated. */
+  sampling?: SamplingSummary;
+  /** Embedding calls, overlap and input-limit violations per model. */
+  chunking: ChunkingSummary;
+  /** pgvector table and index size per model. */
+  storage: VectorStorageSummary;
+  /** Wall-clock time and API requests of a full embedding job per model. */
+  duration: DurationProjectionSummary;
+  /** Present when a budget is set. */
+  budget?: BudgetCheck;
+  /** Present when the run was cancelled or tables were skipped from the dashboard. */
+  control?: RunControlSummary;
+  /** Present in incremental mode: cost of the rows changed since the previous run. */
+  delta?: DeltaSummary;
+  /** Present when estimated from catalog statistics (`--quick`) instead of rows. */
+  approximate?: CatalogApproximation;
+};
+
+export type RunControlSummary = {
+  /** Stopped before every table was read; totals cover the finished work only. */
+  cancelled: boolean;
+  /** "schema.table" */
+  skippedTables: string[];
 };
 
 // ---------------------------------------------------------------------------
@@ -34,10 +154,17 @@ export type CostEstimationResult = {
 
 export async function estimateCost(params: {
   sourceDbUrl: string;
-  sourceSchema: string;
+  /** Schema names or patterns (globs, `/regex/`). */
+  sourceSchemas: string[];
   tableAllowlist: string[];
   tableBlocklist?: string[];
   updatedAtCandidates: string[];
+  /** Kinds of relation to read. Default: tables and partitioned tables */
+  relationKinds?: RelationKind[];
+  /** Row keys of relations without a primary key ("view.column" entries). */
+  viewKeyColumns?: string[];
+  /** Report rows and tokens per partition of partitioned tables. */
+  partitionBreakdown?: boolean;
   textColumnsMode: TextColumnsMode;
   excludedColumns: string[];
   batchSize: number;
@@ -45,40 +172,159 @@ export async function estimateCost(params: {
   tablesPerBatch?: number;
   largeTableThreshold?: number;
   chunkSize?: number;
+  /** Snapshot, watermark and PK boundary queries in flight at once. Default: 4 */
+  snapshotConcurrency?: number;
+  sampling?: SamplingOptions;
+  /** Simulate splitting each row's document; omit for one document per row. */
+  splitter?: SplitterOptions | null;
+  /** Vector type and index parameters for the pgvector size estimate. */
+  storage?: VectorStorageOptions;
+  /** Provider rate limits for the embedding time projection. */
+  throughput?: ThroughputOptions;
+  /** Cost limits to check the result against, and whether to stop early past them. */
+  budget?: BudgetOptions;
   ui?: TerminalUI;
   progressWriter?: ProgressFileWriter;
   pricingEntries?: ModelPricingEntry[];
+  /** Where completed tables and chunks are checkpointed. Omit to disable. */
+  checkpointFilePath?: string;
+  /** Checkpoint of an interrupted run to resume (from readCheckpoint). */
+  resumeFrom?: CheckpointData | null;
+  /** Where watermarks (and manifests) are saved for the next incremental run. */
+  stateFilePath?: string;
+  /** State of the previous run (from readEstimationState); enables the delta estimate. */
+  previousState?: EstimationState | null;
+  /** Keep a row-hash manifest per table, for exact deltas on the next run. */
+  trackRowHashes?: boolean;
+  /** Once aborted, tables and chunks not yet dispatched are skipped. */
+  signal?: AbortSignal;
+  /** Pause, cancel and skip requests from the dashboard. */
+  control?: RunController;
+  /** Embed mode: each page's documents are handed over as they are read. */
+  embedding?: PoolOptions["embedding"];
+  /** Called when a table fails, after it is reported. */
+  onTableError?: (schema: string, table: string, error: string) => void;
 }): Promise<CostEstimationResult> {
-  const pool = createPostgresPool(params.sourceDbUrl);
   const ui = params.ui;
   const progressWriter = params.progressWriter;
+  const resumeFrom = params.resumeFrom ?? null;
+  const largeTableThreshold = params.largeTableThreshold ?? 50_000;
+  const chunkSize = params.chunkSize ?? 10_000;
+  const snapshotConcurrency = params.snapshotConcurrency ?? 4;
+  const previousState = params.previousState ?? null;
+  const trackRowHashes = params.trackRowHashes ?? false;
+  const relationKinds = params.relationKinds ?? ["table", "partitioned"];
+  const viewKeyColumns = params.viewKeyColumns ?? [];
+  const partitionBreakdown = params.partitionBreakdown ?? false;
+
+  const fingerprint = computeRunFingerprint({
+    sourceDbUrl: params.sourceDbUrl,
+    sourceSchemas: params.sourceSchemas,
+    tableAllowlist: params.tableAllowlist,
+    tableBlocklist: params.tableBlocklist ?? [],
+    updatedAtCandidates: params.updatedAtCandidates,
+    relationKinds,
+    viewKeyColumns,
+    partitionBreakdown,
+    textColumnsMode: params.textColumnsMode,
+    excludedColumns: params.excludedColumns,
+    largeTableThreshold,
+    chunkSize,
+    sampling: params.sampling ?? null,
+    splitter: params.splitter ?? null,
+    incrementalSince: previousState?.updatedAt ?? null,
+    trackRowHashes,
+  });
+  if (resumeFrom && resumeFrom.fingerprint !== fingerprint) {
+    throw new Error(
+      "The checkpoint was created with a different configuration. " +
+        "Run again without --resume to start over.",
+    );
+  }
+
+  const pool = createPostgresPool(params.sourceDbUrl);
 
   try {
     // Discovery still happens on the main thread (lightweight I/O)
     const tableInfos = await discoverTables({
       pool,
-      sourceSchema: params.sourceSchema,
+      sourceSchemas: params.sourceSchemas,
       tableAllowlist: params.tableAllowlist,
       tableBlocklist: params.tableBlocklist,
       updatedAtCandidates: params.updatedAtCandidates,
+      relationKinds,
+      viewKeyColumns,
     });
 
+    // A resumed run reuses the original plan, so buildQueue yields the same
+    // chunks; only tables that were never planned are counted again.
+    const previousPlan = resumeFrom?.plan ?? {};
+
     // Fetch row counts for all tables (to detect large ones)
     const rowCounts = new Map<string, number>();
-    const snapshots = await Promise.all(
-      tableInfos.map(async (tableInfo) => {
+    const snapshots = await mapWithConcurrency(
+      tableInfos,
+      snapshotConcurrency,
+      async (tableInfo) => {
+        const key = `${tableInfo.schema}.${tableInfo.table}`;
+        const planned = previousPlan[key];
+        if (planned) {
+          return { key, rowCount: planned.rowCount };
+        }
         const snapshot = await fetchTableSnapshot({ pool, tableInfo });
-        return { key: `${tableInfo.schema}.${tableInfo.table}`, rowCount: snapshot.rowCount };
-      }),
+        return { key, rowCount: snapshot.rowCount };
+      },
     );
     for (const { key, rowCount } of snapshots) {
       rowCounts.set(key, rowCount);
     }
 
+    // Watermarks are taken before any row is read, so rows written during
+    // the run are counted again next time rather than missed
+    const watermarks = new Map<string, TableWatermark>();
+    if (params.stateFilePath) {
+      await mapWithConcurrency(tableInfos, snapshotConcurrency, async (tableInfo) => {
+        const key = `${tableInfo.schema}.${tableInfo.table}`;
+        watermarks.set(
+          key,
+          previousPlan[key]?.watermark ?? await fetchTableWatermark({ pool, tableInfo }),
+        );
+      });
+    }
+
+    const changeDetection = previousState ? new Map<string, ChangeDetection>() : undefined;
+    if (changeDetection && previousState) {
+      for (const tableInfo of tableInfos) {
+        const key = `${tableInfo.schema}.${tableInfo.table}`;
+        changeDetection.set(key, resolveChangeDetection(tableInfo, previousState.tables[key]));
+      }
+    }
+
     const maxThreads = params.maxThreads ?? Math.max(1, cpus().length - 1);
     const tablesPerBatch = params.tablesPerBatch ?? 3;
-    const largeTableThreshold = params.largeTableThreshold ?? 50_000;
-    const chunkSize = params.chunkSize ?? 10_000;
+
+    // Plan PK ranges for tables that will be chunked (keyset pagination)
+    const pkBoundaries = new Map<string, string[][]>();
+    await mapWithConcurrency(tableInfos, snapshotConcurrency, async (tableInfo) => {
+      const key = `${tableInfo.schema}.${tableInfo.table}`;
+      const plannedBoundaries = previousPlan[key]?.pkBoundaries;
+      if (plannedBoundaries) {
+        pkBoundaries.set(key, plannedBoundaries);
+        return;
+      }
+      const rowCount = rowCounts.get(key) ?? 0;
+      const chunkCount = plannedChunkCount(rowCount, {
+        largeTableThreshold,
+        chunkSize,
+        sampling: params.sampling,
+      });
+      if (chunkCount > 1 && tableInfo.pkColumns.length > 0) {
+        pkBoundaries.set(
+          key,
+          await fetchPkBoundaries({ pool, tableInfo, rowCount, chunkCount }),
+        );
+      }
+    });
 
     const largeTables = [...rowCounts.entries()].filter(
       ([, count]) => count >= largeTableThreshold,
@@ -91,15 +337,79 @@ export async function estimateCost(params: {
     if (largeTables.length > 0) {
       discoveryMsg += `. ${largeTables.length} large table(s) will be split into chunks`;
     }
+    if (previousState) {
+      discoveryMsg += `. Estimating changes since ${previousState.updatedAt || "no previous run"}`;
+    }
+    if (params.splitter) {
+      discoveryMsg +=
+        `. Splitting documents into ${params.splitter.chunkSize}-${params.splitter.unit} pieces ` +
+        `(${params.splitter.chunkOverlap} overlap)`;
+    }
+    if (params.sampling) {
+      discoveryMsg +=
+        `. Sampling ${formatFraction(params.sampling.fraction)} of tables above ` +
+        `${params.sampling.minSampledTableRows.toLocaleString()} rows (${params.sampling.method})`;
+    }
+
+    // Pricing decides which models (and therefore tokenizers) are counted.
+    // A resumed run keeps the pricing it started with.
+    const entries = resumeFrom?.pricingEntries ?? params.pricingEntries ?? await getPricing();
+    const modelTokenizers = buildModelTokenizers(entries);
+    const maxInputTokens = toMaxInputTokensMap(entries);
+
+    const checkpoint = params.checkpointFilePath
+      ? new CheckpointFileWriter({
+          filePath: params.checkpointFilePath,
+          fingerprint,
+          pricingEntries: entries,
+          resumeFrom,
+        })
+      : null;
+
+    if (checkpoint) {
+      const plan: Record<string, TablePlan> = {};
+      for (const [key, rowCount] of rowCounts) {
+        plan[key] = {
+          rowCount,
+          pkBoundaries: pkBoundaries.get(key),
+          watermark: watermarks.get(key),
+        };
+      }
+      checkpoint.setPlan(plan);
+    }
+
+    // Work finished by the interrupted run is restored instead of redone
+    const restoredTables: TableTokenEstimate[] = [];
+    const completedChunks = new Map<string, ChunkPartial>();
+    let pendingTableInfos = tableInfos;
+    if (resumeFrom) {
+      pendingTableInfos = tableInfos.filter((tableInfo) => {
+        const restored = resumeFrom.completedTables[`${tableInfo.schema}.${tableInfo.table}`];
+        if (restored) {
+          restoredTables.push(restored);
+        }
+        return !restored;
+      });
+      for (const [chunkId, chunk] of Object.entries(resumeFrom.completedChunks)) {
+        const { tableKey: _tableKey, ...partial } = chunk;
+        completedChunks.set(chunkId, partial);
+      }
+      discoveryMsg +=
+        `. Resuming: ${restoredTables.length} table(s) and ` +
+        `${completedChunks.size} chunk(s) restored from checkpoint`;
+    }
 
     if (progressWriter) {
       progressWriter.setTotalTables(tableInfos.length);
       await progressWriter.initialize();
+      for (const restored of restoredTables) {
+        progressWriter.addCompletedTable(restored);
+      }
     }
 
     if (ui) {
       ui.stopSpinner(discoveryMsg);
-      ui.setTotalTables(tableInfos.length);
+      ui.setTotalTables(pendingTableInfos.length);
       ui.startProgress();
     } else {
       console.log(`  ${discoveryMsg}\n`);
@@ -114,20 +424,68 @@ export async function estimateCost(params: {
 
     let completedCount = 0;
 
+    // With an early abort, the running cost is watched as chunks and tables finish
+    const budgetTracker =
+      hasBudget(params.budget) && params.budget.abortOnExceed
+        ? new BudgetTracker(entries, params.budget, previousState !== null)
+        : null;
+    for (const restored of restoredTables) {
+      budgetTracker?.addTable(restored);
+    }
+    // Chunks of a sampled table count sampled rows only; the budget needs the projection
+    const samplingOptions = params.sampling;
+    const chunkBudgetScale = (tableKey: string) =>
+      samplingOptions && shouldSampleTable(rowCounts.get(tableKey) ?? 0, samplingOptions)
+        ? 1 / samplingOptions.fraction
+        : 1;
+    for (const chunk of Object.values(resumeFrom?.completedChunks ?? {})) {
+      const { tableKey, ...partial } = chunk;
+      budgetTracker?.addChunk(tableKey, partial, chunkBudgetScale(tableKey));
+    }
+    const budgetController = new AbortController();
+    const signal = AbortSignal.any(
+      [params.signal, params.control?.signal, budgetController.signal].filter(
+        (s): s is AbortSignal => s !== undefined,
+      ),
+    );
+    const skippedTables: string[] = [];
+    const failedTables: string[] = [];
+    const watchBudget = () => {
+      if (budgetTracker?.isOverBudget() && !budgetController.signal.aborted) {
+        budgetController.abort();
+      }
+    };
+
     // Process all tables in parallel via worker threads
-    const tables = await processTablesInParallel(tableInfos, {
+    const processedTables = await processTablesInParallel(pendingTableInfos, {
       maxThreads,
       tablesPerBatch,
       dbUrl: params.sourceDbUrl,
       textColumnsMode: params.textColumnsMode,
       excludedColumns: params.excludedColumns,
       batchSize: params.batchSize,
+      modelTokenizers,
+      maxInputTokens,
+      splitter: params.splitter ?? null,
       rowCounts,
       largeTableThreshold,
       chunkSize,
-      onTableStart: ui
-        ? (schema, table, chunkLabel) => ui.onTableStart(schema, table, chunkLabel)
-        : undefined,
+      pkBoundaries,
+      sampling: params.sampling,
+      completedChunks,
+      changeDetection,
+      trackRowHashes,
+      partitionBreakdown,
+      signal,
+      control: params.control,
+      embedding: params.embedding,
+      onTableStart:
+        ui || progressWriter
+          ? (schema, table, chunkLabel) => {
+              ui?.onTableStart(schema, table, chunkLabel);
+              progressWriter?.startTable(schema, table, chunkLabel);
+            }
+          : undefined,
       onTableComplete: (result) => {
         completedCount++;
         if (ui) {
@@ -135,10 +493,13 @@ export async function estimateCost(params: {
         } else {
           const name = `${result.schema}.${result.table}`;
           console.log(
-            `  ${name.padEnd(32)}${result.rowCount.toLocaleString().padStart(10)}${result.tokenCount.toLocaleString().padStart(15)}   [${completedCount}/${tableInfos.length}]`,
+            `  ${name.padEnd(32)}${result.rowCount.toLocaleString().padStart(10)}${result.tokenCount.toLocaleString().padStart(15)}   [${completedCount}/${pendingTableInfos.length}]`,
           );
         }
         progressWriter?.addCompletedTable(result);
+        checkpoint?.addCompletedTable(result);
+        budgetTracker?.addTable(result);
+        watchBudget();
       },
       onTableError: (schema, table, error) => {
         completedCount++;
@@ -146,58 +507,243 @@ export async function estimateCost(params: {
           ui.onTableError(schema, table, error);
         } else {
           console.error(
-            `  [ERROR] ${schema}.${table}: ${error}   [${completedCount}/${tableInfos.length}]`,
+            `  [ERROR] ${schema}.${table}: ${error}   [${completedCount}/${pendingTableInfos.length}]`,
           );
         }
+        failedTables.push(`${schema}.${table}`);
         progressWriter?.addErrorTable(schema, table, error);
+        params.onTableError?.(schema, table, error);
       },
-      onChunkComplete: ui
-        ? (schema, table, completedChunks, totalChunks) =>
-            ui.onChunkComplete(schema, table, completedChunks, totalChunks)
-        : undefined,
+      onTableSkipped: (schema, table) => {
+        completedCount++;
+        skippedTables.push(`${schema}.${table}`);
+        if (ui) {
+          ui.onTableSkipped(schema, table);
+        } else {
+          console.log(
+            `  [SKIPPED] ${schema}.${table}   [${completedCount}/${pendingTableInfos.length}]`,
+          );
+        }
+        progressWriter?.addSkippedTable(schema, table);
+      },
+      onChunkComplete:
+        ui || progressWriter
+          ? (schema, table, completedChunks, totalChunks) => {
+              ui?.onChunkComplete(schema, table, completedChunks, totalChunks);
+              progressWriter?.completeChunk(schema, table, completedChunks, totalChunks);
+            }
+          : undefined,
+      onChunkResult:
+        checkpoint || budgetTracker
+          ? (tableKey, chunkId, partial) => {
+              checkpoint?.addCompletedChunk(tableKey, chunkId, partial);
+              budgetTracker?.addChunk(tableKey, partial, chunkBudgetScale(tableKey));
+              watchBudget();
+            }
+          : undefined,
     });
+    params.control?.finish();
+    const estimatedTables = [...restoredTables, ...processedTables];
+    const abortedByBudget = budgetController.signal.aborted;
+    const cancelled = params.control?.signal.aborted ?? false;
+    // Like a budget stop, a cancelled run stays resumable and keeps the old baseline
+    const stoppedEarly = abortedByBudget || cancelled;
 
     if (ui) {
       ui.finishProgress();
     } else {
       console.log("  " + "-".repeat(60));
     }
+    if (abortedByBudget) {
+      console.log(
+        "  Stopped early: the running cost passed the budget. " +
+          "Totals cover the finished work only.\n",
+      );
+    } else if (cancelled) {
+      console.log("  Cancelled from the dashboard. Totals cover the finished work only.\n");
+    }
 
     if (progressWriter) {
-      await progressWriter.finalize();
+      await progressWriter.finalize(
+        cancelled ? "cancelled" : abortedByBudget ? "budget_exceeded" : "completed",
+      );
+    }
+    // The baseline of the next incremental run needs every table read
+    if (params.stateFilePath && !stoppedEarly) {
+      const estimatedAt = new Date().toISOString();
+      const tableStates: Record<string, TableEstimationState> = {};
+      for (const tableInfo of tableInfos) {
+        const key = `${tableInfo.schema}.${tableInfo.table}`;
+        const estimate = estimatedTables.find(
+          (t) => t.schema === tableInfo.schema && t.table === tableInfo.table,
+        );
+        const watermark = watermarks.get(key);
+        if (!estimate || !watermark) continue;
+        tableStates[key] = {
+          updatedAtColumn: tableInfo.updatedAtColumn,
+          pkColumns: tableInfo.pkColumns,
+          watermark,
+          rowCount: estimate.rowCount,
+          tokenCount: estimate.tokenCount,
+          estimatedAt,
+          ...(estimate.rowHashes ? { rowHashes: estimate.rowHashes } : {}),
+        };
+      }
+      await writeEstimationState(params.stateFilePath, tableStates);
+    }
+    if (checkpoint && !stoppedEarly) {
+      await checkpoint.finalize();
     }
 
-    const totalTokens = tables.reduce((sum, t) => sum + t.tokenCount, 0);
+    // Manifests only matter to the state file; keep them out of the result
+    const tables = estimatedTables.map(({ rowHashes: _rowHashes, ...table }) => table);
 
-    // Fetch pricing if not provided
-    const entries = params.pricingEntries ?? await getPricing();
-    const modelPricing = toPricingMap(entries);
+    const totalTokens = tables.reduce((sum, t) => sum + t.tokenCount, 0);
 
+    const totalTokensByModel: Record<string, number> = {};
     const costByModel: Record<string, number> = {};
-    for (const [model, pricePerMillion] of Object.entries(modelPricing)) {
-      costByModel[model] = (totalTokens / 1_000_000) * pricePerMillion;
+    const costBreakdownByModel: Record<string, ModelCostBreakdown> = {};
+    for (const entry of entries) {
+      const modelTokens = tables.reduce(
+        (sum, t) => sum + (t.tokenCountByModel[entry.model] ?? t.tokenCount),
+        0,
+      );
+      totalTokensByModel[entry.model] = modelTokens;
+      costByModel[entry.model] = computeTieredCost(entry, modelTokens);
+      costBreakdownByModel[entry.model] = computeCostBreakdown(entry, modelTokens);
     }
 
-    return { tables, totalTokens, costByModel, pricingEntries: entries };
+    const sampling = params.sampling
+      ? summarizeSampling(tables, params.sampling, entries)
+      : undefined;
+    const delta = previousState ? summarizeDelta(tables, previousState, entries) : undefined;
+
+    return {
+      tables,
+      ...(failedTables.length > 0 ? { failedTables } : {}),
+      totalTokens,
+      totalTokensByModel,
+      costByModel,
+      costBreakdownByModel,
+      pricingEntries: entries,
+      sampling,
+      chunking: summarizeChunking(tables, params.splitter ?? null, maxInputTokens),
+      storage: estimateVectorStorage(
+        tables,
+        entries,
+        params.storage ?? defaultVectorStorageOptions(),
+      ),
+      duration: projectEmbeddingDuration(
+        tables,
+        entries,
+        totalTokensByModel,
+        params.throughput ?? defaultThroughputOptions(),
+      ),
+      budget: hasBudget(params.budget)
+        ? checkBudget({ tables, pricingEntries: entries, delta }, params.budget, abortedByBudget)
+        : undefined,
+      ...(cancelled || skippedTables.length > 0
+        ? { control: { cancelled, skippedTables } }
+        : {}),
+      delta,
+    };
   } finally {
     await closePostgresPool(pool);
   }
 }
 
+/**
+ * `Promise.all` over `items` with at most `concurrency` calls pending, so
+ * thousands of tables do not queue thousands of queries on the pool at once.
+ * Results keep the order of `items`.
+ */
+async function mapWithConcurrency<T, R>(
+  items: T[],
+  concurrency: number,
+  fn: (item: T) => Promise<R>,
+): Promise<R[]> {
+  const results: R[] = new Array(items.length);
+  let next = 0;
+  const runnerCount = Math.min(Math.max(1, concurrency), items.length);
+  const runners = Array.from({ length: runnerCount }, async () => {
+    while (next < items.length) {
+      const index = next++;
+      results[index] = await fn(items[index]);
+    }
+  });
+  await Promise.all(runners);
+  return results;
+}
+
+function summarizeDelta(
+  tables: TableTokenEstimate[],
+  previousState: EstimationState,
+  entries: ModelPricingEntry[],
+): DeltaSummary {
+  let rowCount = 0;
+  let deletedRowCount = 0;
+  let totalTokens = 0;
+  for (const table of tables) {
+    rowCount += table.delta?.rowCount ?? 0;
+    deletedRowCount += table.delta?.deletedRowCount ?? 0;
+    totalTokens += table.delta?.tokenCount ?? 0;
+  }
+
+  const totalTokensByModel: Record<string, number> = {};
+  const costByModel: Record<string, number> = {};
+  for (const entry of entries) {
+    const modelTokens = tables.reduce(
+      (sum, t) => sum + (t.delta?.tokenCountByModel[entry.model] ?? t.delta?.tokenCount ?? 0),
+      0,
+    );
+    totalTokensByModel[entry.model] = modelTokens;
+    costByModel[entry.model] = computeTieredCost(entry, modelTokens);
+  }
+
+  return {
+    previousRunAt: previousState.updatedAt,
+    rowCount,
+    deletedRowCount,
+    totalTokens,
+    totalTokensByModel,
+    costByModel,
+  };
+}
+
 // ---------------------------------------------------------------------------
 // Report formatting
 // ---------------------------------------------------------------------------
 
+function formatFraction(fraction: number): string {
+  return `${Number((fraction * 100).toPrecision(3))}%`;
+}
+
 function formatReport(result: CostEstimationResult): string {
   const lines: string[] = [];
   const separator = "\u2500".repeat(74);
 
   lines.push("");
   lines.push(separator);
-  lines.push("  EMBEDDING COST ESTIMATION REPORT");
+  lines.push(
+    result.approximate
+      ? "  EMBEDDING COST ESTIMATION REPORT (APPROXIMATE)"
+      : "  EMBEDDING COST ESTIMATION REPORT",
+  );
   lines.push(separator);
   lines.push("");
 
+  if (result.approximate) {
+    lines.push("  Estimated from pg_class and pg_stats only; no rows were read.");
+    lines.push("  Accuracy depends on how recently the tables were analyzed.");
+    if (result.approximate.tablesWithoutStats.length > 0) {
+      lines.push(
+        `  No statistics (counted as empty, run ANALYZE): ` +
+          result.approximate.tablesWithoutStats.join(", "),
+      );
+    }
+    lines.push("");
+  }
+
   // Per-table breakdown
   lines.push("  Table Breakdown:");
   lines.push("  " + "-".repeat(70));
@@ -217,6 +763,21 @@ function formatReport(result: CostEstimationResult): string {
         table.rowCount.toLocaleString().padStart(10) +
         table.tokenCount.toLocaleString().padStart(15),
     );
+    for (const [partition, stats] of Object.entries(table.partitionTokens ?? {})) {
+      lines.push(
+        "  " +
+          `  └ ${partition}`.padEnd(32) +
+          stats.rowCount.toLocaleString().padStart(10) +
+          stats.tokenCount.toLocaleString().padStart(15),
+      );
+    }
+    if (table.sampling && result.sampling) {
+      lines.push(
+        `      ~ sampled ${table.sampling.sampledRows.toLocaleString()} rows, ` +
+          `${formatFraction(result.sampling.confidenceLevel)} CI ` +
+          `${table.sampling.tokenCountLow.toLocaleString()} – ${table.sampling.tokenCountHigh.toLocaleString()} tokens`,
+      );
+    }
   }
 
   const totalRows = result.tables.reduce((sum, t) => sum + t.rowCount, 0);
@@ -229,8 +790,64 @@ function formatReport(result: CostEstimationResult): string {
       result.totalTokens.toLocaleString().padStart(15),
   );
 
+  if (result.sampling) {
+    const sampling = result.sampling;
+    lines.push("");
+    lines.push(
+      `  Sampling: ${sampling.method.toUpperCase()} ${formatFraction(sampling.fraction)} of ` +
+        `${sampling.sampledTables} table(s); totals are extrapolated.`,
+    );
+    lines.push(
+      `  ${formatFraction(sampling.confidenceLevel)} confidence interval: ` +
+        `${sampling.totalTokensLow.toLocaleString()} – ${sampling.totalTokensHigh.toLocaleString()} tokens`,
+    );
+  }
+
+  if (result.delta) {
+    const delta = result.delta;
+    lines.push("");
+    lines.push(`  Changes since previous run (${delta.previousRunAt || "none recorded"}):`);
+    lines.push("  " + "-".repeat(70));
+    lines.push(
+      "  " +
+        "Table".padEnd(32) +
+        "Changed".padStart(10) +
+        "Tokens".padStart(15) +
+        "  Basis",
+    );
+    lines.push("  " + "-".repeat(70));
+    for (const table of result.tables) {
+      if (!table.delta) continue;
+      const name = `${table.schema}.${table.table}`;
+      const deleted = table.delta.deletedRowCount
+        ? `, ${table.delta.deletedRowCount.toLocaleString()} deleted`
+        : "";
+      lines.push(
+        "  " +
+          name.padEnd(32) +
+          table.delta.rowCount.toLocaleString().padStart(10) +
+          table.delta.tokenCount.toLocaleString().padStart(15) +
+          `  ${table.delta.basis}${deleted}`,
+      );
+    }
+    lines.push("  " + "-".repeat(70));
+    lines.push(
+      "  " +
+        "TOTAL".padEnd(32) +
+        delta.rowCount.toLocaleString().padStart(10) +
+        delta.totalTokens.toLocaleString().padStart(15),
+    );
+  }
+
   lines.push("");
-  lines.push("  Embedding Cost per Model:");
+  lines.push(
+    result.delta
+      ? "  Embedding Cost per Model (full run | changes only):"
+      : "  Embedding Cost per Model:",
+  );
+  lines.push(
+    `  Prices: ${formatPricingProvenance(summarizePricingProvenance(result.pricingEntries))}`,
+  );
   lines.push("  " + "-".repeat(70));
 
   // Group entries by provider
@@ -245,144 +862,450 @@ function formatReport(result: CostEstimationResult): string {
     lines.push(`  ${provider.toUpperCase()}:`);
     for (const entry of providerEntries) {
       const cost = result.costByModel[entry.model] ?? 0;
+      const tokens = result.totalTokensByModel[entry.model] ?? result.totalTokens;
       const priceLabel =
         entry.pricePerMillion === 0
           ? "free/local"
-          : `$${entry.pricePerMillion}/1M tokens`;
+          : `$${entry.pricePerMillion}/1M tokens${entry.tiers?.length ? " (tiered)" : ""}`;
+      // Prices that did not come from the pricing source are worth pointing out
+      const originLabel =
+        entry.origin === "override" || entry.origin === "fallback" ? `  [${entry.origin}]` : "";
+      const range = result.sampling?.costRangeByModel[entry.model];
+      const rangeLabel =
+        range && entry.pricePerMillion > 0
+          ? `  ($${range.low.toFixed(6)} – $${range.high.toFixed(6)})`
+          : "";
+      const deltaLabel = result.delta
+        ? `  |  ${(result.delta.totalTokensByModel[entry.model] ?? 0).toLocaleString()} tokens` +
+          `  =>  $${(result.delta.costByModel[entry.model] ?? 0).toFixed(6)}`
+        : "";
       lines.push(
-        `    ${entry.model.padEnd(34)}  ${priceLabel}  =>  $${cost.toFixed(6)}`,
+        `    ${entry.model.padEnd(34)}  ${tokens.toLocaleString().padStart(15)} tokens  ` +
+          `${priceLabel}${originLabel}  =>  $${cost.toFixed(6)}${rangeLabel}${deltaLabel}`,
       );
+      const breakdownLabel = formatCostBreakdown(result.costBreakdownByModel[entry.model]);
+      if (breakdownLabel) {
+        lines.push(`    ${"".padEnd(34)}  ${breakdownLabel}`);
+      }
+      const durationLabel = formatDurationProjection(result.duration.byModel[entry.model]);
+      if (durationLabel) {
+        lines.push(`    ${"".padEnd(34)}  ${durationLabel}`);
+      }
     }
     lines.push("");
   }
 
+  lines.push(...formatChunkingSection(result));
+  lines.push(...formatStorageSection(result));
+  lines.push(...formatBudgetSection(result));
+  lines.push(...formatControlSection(result));
+
   lines.push(separator);
   lines.push("");
 
   return lines.join("\n");
 }
 
-// ---------------------------------------------------------------------------
-// CLI entry point
-// ---------------------------------------------------------------------------
+/** Batch and discounted costs, when the model has either; empty otherwise. */
+function formatCostBreakdown(breakdown: ModelCostBreakdown | undefined): string {
+  if (!breakdown) {
+    return "";
+  }
+  const parts: string[] = [];
+  if (breakdown.batch !== null) {
+    parts.push(`batch $${breakdown.batch.toFixed(6)}`);
+  }
+  if (breakdown.discount !== 1) {
+    parts.push(
+      `discounted (x${breakdown.discount}) $${breakdown.discounted.toFixed(6)}` +
+        (breakdown.discountedBatch !== null
+          ? `, batch $${breakdown.discountedBatch.toFixed(6)}`
+          : ""),
+    );
+  }
+  return parts.join("  |  ");
+}
 
-function buildDbUrlFromEnv(): string | undefined {
-  const host = process.env.DB_HOST;
-  const port = process.env.DB_PORT || "5432";
-  const dbName = stripQuotes(process.env.DB_NAME);
-  const username = stripQuotes(process.env.DB_USERNAME);
-  const password = stripQuotes(process.env.DB_PASSWORD);
+const BOTTLENECK_LABELS: Record<ModelDurationProjection["bottleneck"], string> = {
+  requests: "requests/min",
+  tokens: "tokens/min",
+  concurrency: "concurrency",
+};
 
-  if (!host || !dbName || !username || !password) {
-    return undefined;
+/** "~3h 20m to embed, 1,234 requests (bound by tokens/min)"; empty without documents. */
+function formatDurationProjection(projection: ModelDurationProjection | undefined): string {
+  if (!projection || projection.requestCount === 0) {
+    return "";
   }
+  return (
+    `~${formatProjectedDuration(projection.seconds)} to embed, ` +
+    `${projection.requestCount.toLocaleString()} requests ` +
+    `(bound by ${BOTTLENECK_LABELS[projection.bottleneck]})`
+  );
+}
 
-  return `postgres://${encodeURIComponent(username)}:${encodeURIComponent(password)}@${host}:${port}/${encodeURIComponent(dbName)}`;
+function formatChunkingSection(result: CostEstimationResult): string[] {
+  const { splitter, byModel } = result.chunking;
+  const models = Object.entries(byModel);
+  const anyOverLimit = models.some(([, stats]) => stats.rowsOverLimit > 0);
+  if (!splitter && !anyOverLimit) {
+    return [];
+  }
+
+  const lines: string[] = [];
+  lines.push(
+    splitter
+      ? `  Document Chunking (${splitter.chunkSize}-${splitter.unit} pieces, ` +
+          `${splitter.chunkOverlap} overlap):`
+      : "  Input Limits (one document per row):",
+  );
+  lines.push("  " + "-".repeat(70));
+  lines.push(
+    "  " +
+      "Model".padEnd(26) +
+      "Limit".padStart(8) +
+      "Calls".padStart(10) +
+      "Overlap".padStart(10) +
+      "Too long".padStart(10) +
+      "Truncated".padStart(10),
+  );
+  lines.push("  " + "-".repeat(70));
+
+  for (const [model, stats] of models) {
+    // Without a splitter only models that need one are worth listing
+    if (!splitter && stats.rowsOverLimit === 0) continue;
+    const limit = stats.maxInputTokens === null ? "?" : stats.maxInputTokens.toLocaleString();
+    lines.push(
+      "  " +
+        model.slice(0, 25).padEnd(26) +
+        limit.padStart(8) +
+        stats.embeddingCalls.toLocaleString().padStart(10) +
+        stats.overlapTokens.toLocaleString().padStart(10) +
+        stats.rowsOverLimit.toLocaleString().padStart(10) +
+        stats.truncatedRows.toLocaleString().padStart(10),
+    );
+  }
+
+  lines.push("");
+  lines.push("  Too long: rows longer than the model's input limit; they need splitting.");
+  lines.push("  Truncated: rows with a piece still over the limit after splitting.");
+  lines.push("");
+  return lines;
 }
 
-function stripQuotes(value: string | undefined): string | undefined {
-  if (!value) return undefined;
-  const trimmed = value.trim();
-  if (
-    (trimmed.startsWith('"') && trimmed.endsWith('"')) ||
-    (trimmed.startsWith("'") && trimmed.endsWith("'"))
-  ) {
-    return trimmed.slice(1, -1).trim();
+function formatStorageSection(result: CostEstimationResult): string[] {
+  const { options, byModel, modelsWithoutDimensions } = result.storage;
+  const models = Object.entries(byModel);
+  if (models.length === 0 && modelsWithoutDimensions.length === 0) {
+    return [];
   }
-  return trimmed;
+
+  const nullableBytes = (bytes: number | null) => (bytes === null ? "n/a" : formatBytes(bytes));
+  const sizeColumns = (size: StorageSize) =>
+    formatBytes(size.tableBytes).padStart(10) +
+    nullableBytes(size.hnswBytes).padStart(10) +
+    nullableBytes(size.ivfflatBytes).padStart(10);
+
+  const lines: string[] = [];
+  lines.push(
+    `  pgvector Storage (${options.vectorType}; HNSW m=${options.hnswM}, ` +
+      `IVFFlat lists=${options.ivfflatLists ?? "auto"}):`,
+  );
+  lines.push("  " + "-".repeat(70));
+  lines.push(
+    "  " +
+      "Model".padEnd(24) +
+      "Dims".padStart(6) +
+      "Vectors".padStart(11) +
+      "Table".padStart(10) +
+      "HNSW".padStart(10) +
+      "IVFFlat".padStart(10),
+  );
+  lines.push("  " + "-".repeat(70));
+  for (const [model, estimate] of models) {
+    lines.push(
+      "  " +
+        model.slice(0, 23).padEnd(24) +
+        estimate.dimensions.toString().padStart(6) +
+        estimate.documentCount.toLocaleString().padStart(11) +
+        sizeColumns(estimate),
+    );
+  }
+
+  for (const model of storageBreakdownModels(result.storage)) {
+    lines.push("");
+    lines.push(`  ${model} per table:`);
+    for (const [table, size] of Object.entries(byModel[model].byTable)) {
+      lines.push(
+        "    " +
+          table.slice(0, 27).padEnd(28) +
+          size.documentCount.toLocaleString().padStart(11) +
+          sizeColumns(size),
+      );
+    }
+  }
+
+  lines.push("");
+  lines.push("  Table: heap and TOAST of (id bigint, embedding); n/a: over pgvector's index limit.");
+  if (modelsWithoutDimensions.length > 0) {
+    lines.push(
+      `  Unknown dimensions (set VECTOR_DIMENSIONS): ${modelsWithoutDimensions.join(", ")}`,
+    );
+  }
+  lines.push("");
+  return lines;
 }
 
+function formatBudgetSection(result: CostEstimationResult): string[] {
+  const budget = result.budget;
+  if (!budget) {
+    return [];
+  }
+
+  const lines: string[] = [];
+  const basis =
+    budget.options.basis === "cheapest"
+      ? `cheapest model${budget.checkedModels.length > 0 ? `: ${budget.checkedModels[0]}` : ""}`
+      : "every model";
+  lines.push(
+    `  Budget (${basis}${budget.changesOnly ? ", changes only" : ""}): ` +
+      (budget.violations.length === 0 ? "OK" : `${budget.violations.length} VIOLATION(S)`),
+  );
+  if (budget.violations.length > 0) {
+    lines.push("  " + "-".repeat(70));
+    for (const violation of budget.violations) {
+      const scope = violation.table ? `table ${violation.table}` : "total";
+      lines.push(
+        `    ${violation.model.padEnd(30)}  ${scope.padEnd(32)}` +
+          `$${violation.costUsd.toFixed(2)} > $${violation.limitUsd.toFixed(2)}`,
+      );
+    }
+  }
+  if (budget.aborted) {
+    lines.push("  Stopped early: costs cover the finished work only and are a lower bound.");
+  }
+  lines.push("");
+  return lines;
+}
+
+function formatControlSection(result: CostEstimationResult): string[] {
+  const control = result.control;
+  if (!control) {
+    return [];
+  }
+
+  const lines: string[] = [];
+  if (control.cancelled) {
+    lines.push("  Cancelled from the dashboard: costs cover the finished work only.");
+  }
+  if (control.skippedTables.length > 0) {
+    lines.push(
+      `  Skipped from the dashboard (${control.skippedTables.length}): ` +
+        control.skippedTables.join(", "),
+    );
+  }
+  lines.push("");
+  return lines;
+}
+
+// ---------------------------------------------------------------------------
+// CLI entry point
+// ---------------------------------------------------------------------------
+
 async function main(): Promise<void> {
-  const sourceDbUrl = buildDbUrlFromEnv() || process.env.SOURCE_DB_URL;
+  const args = parseCliArgs(process.argv.slice(2));
+  if (args.help) {
+    console.log(formatCliHelp("yarn estimate-cost"));
+    return;
+  }
+  if (args.command !== "estimate") {
+    console.error(`ERROR: Use "yarn embedding-cli ${args.command}" for the ${args.command} command.`);
+    process.exit(1);
+  }
+  const env = resolveCliEnv(args);
+
+  const sourceDbUrl = resolveDbUrlFromEnv(env);
   if (!sourceDbUrl) {
     console.error(
-      "ERROR: Database connection required. Set SOURCE_DB_URL or DB_HOST/DB_NAME/DB_USERNAME/DB_PASSWORD.",
+      "ERROR: Database connection required. Set SOURCE_DB_URL or DB_HOST/DB_NAME/DB_USERNAME/DB_PASSWORD " +
+        "(or pass --db-url).",
     );
     process.exit(1);
   }
 
-  const sourceSchema =
-    stripQuotes(process.env.SOURCE_SCHEMA) ||
-    stripQuotes(process.env.DB_SCHEMA) ||
-    "public";
-
-  const tableAllowlistRaw = process.env.SOURCE_TABLE_ALLOWLIST || "";
-  const tableAllowlist = tableAllowlistRaw
-    .split(",")
-    .map((s) => s.trim())
-    .filter((s) => s.length > 0);
+  const sourceSchemas = resolveSchemasFromEnv(env);
 
+  const tableAllowlist = parseCommaSeparated(env.SOURCE_TABLE_ALLOWLIST);
   if (tableAllowlist.length === 0) {
-    console.error("ERROR: SOURCE_TABLE_ALLOWLIST environment variable is required.");
+    console.error("ERROR: SOURCE_TABLE_ALLOWLIST environment variable (or --tables) is required.");
     process.exit(1);
   }
 
-  const tableBlocklistRaw = process.env.SOURCE_TABLE_BLOCKLIST || "";
-  const tableBlocklist = tableBlocklistRaw
-    .split(",")
-    .map((s) => s.trim())
-    .filter((s) => s.length > 0);
-
-  const updatedAtCandidatesRaw =
-    process.env.SOURCE_UPDATED_AT_CANDIDATES || "updated_at,modified_at,updatedon";
-  const updatedAtCandidates = updatedAtCandidatesRaw
-    .split(",")
-    .map((s) => s.trim())
-    .filter((s) => s.length > 0);
-
-  const textColumnsMode: TextColumnsMode =
-    process.env.TEXT_COLUMNS_MODE === "all" ? "all" : "auto";
-
-  const excludedColumnsRaw = process.env.EXCLUDED_COLUMNS || "";
-  const excludedColumns = excludedColumnsRaw
-    .split(",")
-    .map((s) => s.trim())
-    .filter((s) => s.length > 0);
-
-  const batchSize = parseInt(process.env.SOURCE_BATCH_SIZE || "1000", 10);
-  const maxThreads = parseInt(
-    process.env.MAX_THREADS || String(Math.max(1, cpus().length - 1)),
-    10,
-  );
-  const tablesPerBatch = parseInt(process.env.TABLES_PER_BATCH || "3", 10);
-  const largeTableThreshold = parseInt(process.env.LARGE_TABLE_THRESHOLD || "50000", 10);
-  const chunkSize = parseInt(process.env.CHUNK_SIZE || "10000", 10);
+  const tableBlocklist = parseCommaSeparated(env.SOURCE_TABLE_BLOCKLIST);
+  const updatedAtCandidates = resolveUpdatedAtCandidates(env);
+  const relationKinds = resolveRelationKindsFromEnv(env);
+  const viewKeyColumns = parseCommaSeparated(env.SOURCE_VIEW_KEYS);
+  const partitionBreakdown = env.PARTITION_BREAKDOWN === "true";
+  const textColumnsMode = resolveTextColumnsMode(env);
+  const excludedColumns = parseCommaSeparated(env.EXCLUDED_COLUMNS);
+  const batchSize = parsePositiveInt(env.SOURCE_BATCH_SIZE, 1000);
+  const { maxThreads, tablesPerBatch, largeTableThreshold, chunkSize, snapshotConcurrency } =
+    resolveTuningFromEnv(env);
+  const sampling = parseSamplingOptionsFromEnv(env) ?? undefined;
+  const splitter = parseSplitterOptionsFromEnv(env);
+  const storage = parseVectorStorageOptionsFromEnv(env);
+  const throughput = parseThroughputOptionsFromEnv(env);
+  const budget = parseBudgetOptionsFromEnv(env);
+
+  const stateFilePath = env.COST_STATE_FILE || "./cost_estimation_state.json";
+  const trackRowHashes = env.INCREMENTAL_ROW_HASHES === "true";
+  let previousState: EstimationState | null = null;
+  if (hasFlag(args, "incremental")) {
+    previousState = await readEstimationState(stateFilePath);
+    if (!previousState) {
+      console.log(`No previous state found at ${stateFilePath}; every row counts as changed.`);
+      previousState = emptyEstimationState();
+    }
+  }
+
+  const quick = hasFlag(args, "quick");
+  if (quick && (hasFlag(args, "resume") || hasFlag(args, "incremental"))) {
+    console.error("ERROR: --quick cannot be combined with --resume or --incremental.");
+    process.exit(1);
+  }
+
+  const checkpointFilePath = env.COST_CHECKPOINT_FILE || "./cost_estimation_checkpoint.json";
+  let resumeFrom: CheckpointData | null = null;
+  if (hasFlag(args, "resume")) {
+    resumeFrom = await readCheckpoint(checkpointFilePath);
+    if (!resumeFrom) {
+      console.log(`No checkpoint found at ${checkpointFilePath}; starting a new run.`);
+    } else if (resumeFrom.status === "completed") {
+      console.log(`Checkpoint at ${checkpointFilePath} is from a completed run; starting a new run.`);
+      resumeFrom = null;
+    }
+  }
+
+  const reportOptions = parseReportExportOptions(env);
+  const historyOptions = parseRunHistoryOptionsFromEnv(env);
 
   const ui = new TerminalUI({ totalTables: 0 });
 
-  // Fetch pricing once; reuse in progressWriter and estimateCost
-  const pricingEntries = await getPricing();
-  const pricingMap = toPricingMap(pricingEntries);
+  // Fetch pricing once (or reuse the checkpoint's); reuse in progressWriter and estimateCost
+  const pricingEntries =
+    resumeFrom?.pricingEntries ??
+    filterPricingEntries(
+      await getPricingWithOverrides(
+        env.PRICING_OVERRIDES_FILE || undefined,
+        parsePricingSourceOptionsFromEnv(env),
+      ),
+      resolvePricingFilterFromEnv(env),
+    );
+  if (pricingEntries.length === 0) {
+    console.error("ERROR: No model matches PRICING_PROVIDERS/PRICING_MODELS.");
+    process.exit(1);
+  }
 
-  const progressFilePath = process.env.COST_PROGRESS_FILE || "./cost_estimation_progress.json";
+  const progressFilePath = env.COST_PROGRESS_FILE || "./cost_estimation_progress.json";
   const progressWriter = new ProgressFileWriter({
     filePath: progressFilePath,
     totalTables: 0,
-    modelPricing: pricingMap,
+    pricingEntries,
+    sampling,
   });
 
   try {
-    ui.showSpinner("Connecting to PostgreSQL and estimating embedding costs...");
+    ui.showSpinner(
+      quick
+        ? "Connecting to PostgreSQL and estimating from catalog statistics..."
+        : "Connecting to PostgreSQL and estimating embedding costs...",
+    );
+    const startedAt = new Date();
 
-    const result = await estimateCost({
-      sourceDbUrl,
-      sourceSchema,
+    const result = quick
+      ? await estimateCostFromCatalog({
+          sourceDbUrl,
+          sourceSchemas,
+          tableAllowlist,
+          tableBlocklist,
+          relationKinds,
+          viewKeyColumns,
+          textColumnsMode,
+          excludedColumns,
+          splitter,
+          storage,
+          throughput,
+          budget,
+          progressWriter,
+          pricingEntries,
+        })
+      : await estimateCost({
+          sourceDbUrl,
+          sourceSchemas,
+          tableAllowlist,
+          tableBlocklist,
+          updatedAtCandidates,
+          relationKinds,
+          viewKeyColumns,
+          partitionBreakdown,
+          textColumnsMode,
+          excludedColumns,
+          batchSize,
+          maxThreads,
+          tablesPerBatch,
+          largeTableThreshold,
+          chunkSize,
+          snapshotConcurrency,
+          sampling,
+          splitter,
+          storage,
+          throughput,
+          budget,
+          ui,
+          progressWriter,
+          pricingEntries,
+          checkpointFilePath,
+          resumeFrom,
+          stateFilePath,
+          previousState,
+          trackRowHashes,
+        });
+
+    if (quick) {
+      ui.stopSpinner(`Estimated ${result.tables.length} table(s) from catalog statistics`);
+    }
+    console.log(formatReport(result));
+
+    const metadata: ReportMetadata = {
+      generatedAt: new Date().toISOString(),
+      startedAt: startedAt.toISOString(),
+      durationMs: Date.now() - startedAt.getTime(),
+      database: describeDatabase(sourceDbUrl),
+      sourceSchemas,
       tableAllowlist,
       tableBlocklist,
-      updatedAtCandidates,
       textColumnsMode,
       excludedColumns,
-      batchSize,
-      maxThreads,
-      tablesPerBatch,
-      largeTableThreshold,
-      chunkSize,
-      ui,
-      progressWriter,
-      pricingEntries,
-    });
+      resumed: resumeFrom !== null,
+      incremental: previousState !== null,
+    };
+    if (reportOptions) {
+      const written = await exportCostReport(result, metadata, reportOptions);
+      console.log(`Report written to ${written.join(", ")}`);
+    }
+    if (historyOptions) {
+      const run = await archiveRun(
+        historyOptions,
+        buildCostReport(result, metadata),
+        result.pricingEntries,
+      );
+      console.log(`Run archived as ${run.id} in ${historyOptions.directory}`);
+    }
 
-    console.log(formatReport(result));
+    // CI pipelines tell "over budget" apart from a failed run by the exit code
+    if (result.budget && result.budget.violations.length > 0) {
+      process.exitCode = BUDGET_EXCEEDED_EXIT_CODE;
+    }
   } finally {
     ui.destroy();
   }
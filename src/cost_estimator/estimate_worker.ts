@@ -1,10 +1,15 @@
 import { parentPort } from "node:worker_threads";
 import { Pool } from "pg";
-import { encodingForModel } from "js-tiktoken";
-import type { TiktokenModel } from "js-tiktoken";
 import { fetchTableRows } from "./db/postgres.js";
+import type { ChunkBounds, TableSampleSpec } from "./db/postgres.js";
+import type { ChangeDetection } from "./incremental.js";
 import { transformRowToDocument } from "./db/transform.js";
+import type { DbSyncDocument, PageContentLine } from "./db/transform.js";
 import type { TableInfo, TextColumnsMode } from "./db/types.js";
+import { createTokenCounter } from "./tokenizers.js";
+import { emptyChunkingStats, simulateSplit, splitDocumentText } from "./chunking.js";
+import type { ModelChunkingStats, SplitterOptions } from "./chunking.js";
+import type { TokenizerSpec } from "./tokenizers.js";
 
 // ---------------------------------------------------------------------------
 // Types – messages exchanged between main thread and worker
@@ -16,6 +21,82 @@ type ProcessPayload = {
   textColumnsMode: TextColumnsMode;
   excludedColumns: string[];
   batchSize: number;
+  /** When set, only a TABLESAMPLE of the table (or chunk) is read. */
+  sample?: TableSampleSpec;
+  /** Tokenizer for each priced model. Key: model name */
+  modelTokenizers: Record<string, TokenizerSpec>;
+  /** Input limit per model, in its own tokens. Key: model name */
+  maxInputTokens: Record<string, number>;
+  /** Simulated text splitter; null = one document per row. */
+  splitter: SplitterOptions | null;
+  /** Incremental mode: also total the rows that changed since the previous run. */
+  changeDetection?: ChangeDetection;
+  /** Return the row-hash manifest of the rows read. */
+  trackRowHashes?: boolean;
+  /** Total rows and tokens per leaf partition of a partitioned table. */
+  partitionBreakdown?: boolean;
+  /**
+   * Embed mode: send each page's documents to the main thread, counted with
+   * this tokenizer, and wait for them to be embedded before reading on.
+   */
+  embedTokenizer?: TokenizerSpec;
+};
+
+/** One piece of a row's document, ready to be sent to an embedding provider. */
+export type EmbedDocument = {
+  /** The document id, suffixed with "#<piece>" when the row was split. */
+  id: string;
+  docId: string;
+  piece: number;
+  text: string;
+  metadata: Record<string, unknown>;
+  /** Tokens under the embedding model's tokenizer. */
+  tokenCount: number;
+};
+
+/** Totals of the rows flagged as new or changed. */
+export type DeltaTokenStats = {
+  rowCount: number;
+  tokenCount: number;
+  tokenCountByModel: Record<string, number>;
+};
+
+/** Tokens contributed by one column, summed over rows. */
+export type ColumnTokenStats = {
+  /** Rows where the column had a value, and therefore a line. */
+  rowCount: number;
+  /** Reference tokens of the column's lines, label included. */
+  tokenCount: number;
+  /** Part of tokenCount spent on the "column: " label. */
+  labelTokenCount: number;
+};
+
+/** Rows and tokens read from one partition of a partitioned table. */
+export type PartitionTokenStats = {
+  rowCount: number;
+  /** Reference tokens. */
+  tokenCount: number;
+};
+
+/** Token totals for a table or chunk; the sum of squares feeds sample variance. */
+export type TokenStats = {
+  schema: string;
+  table: string;
+  rowCount: number;
+  /** Tokens under the reference (cl100k_base) tokenizer. */
+  tokenCount: number;
+  tokenSumSquares: number;
+  /** Tokens each model embeds, including the overlap between pieces. */
+  tokenCountByModel: Record<string, number>;
+  chunkingByModel: Record<string, ModelChunkingStats>;
+  /** Reference tokens per column. Key: column name */
+  columnTokens: Record<string, ColumnTokenStats>;
+  /** Present with a partition breakdown. Key: "schema.partition" */
+  partitionTokens?: Record<string, PartitionTokenStats>;
+  /** Present in incremental mode. */
+  delta?: DeltaTokenStats;
+  /** Row hash per document id; present when row hashes are tracked. */
+  rowHashes?: Record<string, string>;
 };
 
 export type WorkerRequest =
@@ -24,28 +105,17 @@ export type WorkerRequest =
       type: "process-chunk";
       payload: ProcessPayload & {
         chunkId: string;
-        offsetStart: number;
-        rowLimit: number;
+        bounds: ChunkBounds;
       };
     }
+  | { type: "documents-ack"; stop: boolean; error?: string }
   | { type: "shutdown" };
 
 export type WorkerResponse =
   | { type: "ready" }
-  | {
-      type: "result";
-      data: { schema: string; table: string; rowCount: number; tokenCount: number };
-    }
-  | {
-      type: "chunk-result";
-      data: {
-        schema: string;
-        table: string;
-        chunkId: string;
-        rowCount: number;
-        tokenCount: number;
-      };
-    }
+  | { type: "result"; data: TokenStats }
+  | { type: "chunk-result"; data: TokenStats & { chunkId: string } }
+  | { type: "documents"; schema: string; table: string; documents: EmbedDocument[] }
   | { type: "error"; schema: string; table: string; error: string };
 
 // ---------------------------------------------------------------------------
@@ -67,17 +137,149 @@ function getPool(dbUrl: string): Pool {
 // Token counting (CPU-intensive – main reason for worker threads)
 // ---------------------------------------------------------------------------
 
-let cachedEncoder: ReturnType<typeof encodingForModel> | null = null;
+/** Models that share a tokenizer and an input limit are simulated once. */
+type ChunkingProfile = {
+  tokenizerId: string;
+  maxInputTokens: number | null;
+  stats: ModelChunkingStats;
+  /** Overlap tokens of the changed rows only (incremental mode). */
+  changedOverlapTokens: number;
+};
 
-function countTokens(texts: string[]): number {
-  if (!cachedEncoder) {
-    cachedEncoder = encodingForModel("text-embedding-3-small" as TiktokenModel);
-  }
+/** Rows without any non-empty selected column are embedded as JSON; reported under this key. */
+const WHOLE_ROW_COLUMN = "(whole row)";
+
+function countTokens(
+  texts: string[],
+  contentLines: PageContentLine[][],
+  payload: Pick<ProcessPayload, "modelTokenizers" | "maxInputTokens" | "splitter">,
+  changed: boolean[] | null,
+  partitions: string[] | null,
+): {
+  total: number;
+  sumOfSquares: number;
+  byModel: Record<string, number>;
+  chunkingByModel: Record<string, ModelChunkingStats>;
+  columnTokens: Record<string, ColumnTokenStats>;
+  partitionTokens: Record<string, PartitionTokenStats> | undefined;
+  delta: DeltaTokenStats | undefined;
+} {
+  const { modelTokenizers, maxInputTokens, splitter } = payload;
+  const counter = createTokenCounter(Object.values(modelTokenizers));
+  const byTokenizer: Record<string, number> = {};
+  const changedByTokenizer: Record<string, number> = {};
   let total = 0;
-  for (const text of texts) {
-    total += cachedEncoder.encode(text).length;
+  let sumOfSquares = 0;
+  let changedRows = 0;
+  let changedTotal = 0;
+
+  // Lines are tokenized on their own, so column totals can differ from the
+  // row total by a few tokens where BPE merges across the newline joins
+  const columnTokens: Record<string, ColumnTokenStats> = {};
+  const labelTokens = new Map<string, number>();
+  const addColumnTokens = (columnName: string, tokenCount: number, labelTokenCount: number) => {
+    const stats = (columnTokens[columnName] ??= { rowCount: 0, tokenCount: 0, labelTokenCount: 0 });
+    stats.rowCount++;
+    stats.tokenCount += tokenCount;
+    stats.labelTokenCount += labelTokenCount;
+  };
+
+  const partitionTokens: Record<string, PartitionTokenStats> | undefined = partitions
+    ? {}
+    : undefined;
+
+  const profiles = new Map<string, ChunkingProfile>();
+  const profileByModel: Record<string, ChunkingProfile> = {};
+  for (const [model, tokenizer] of Object.entries(modelTokenizers)) {
+    const limit = maxInputTokens[model] ?? null;
+    const profileKey = `${tokenizer.id}|${limit ?? ""}`;
+    let profile = profiles.get(profileKey);
+    if (!profile) {
+      profile = {
+        tokenizerId: tokenizer.id,
+        maxInputTokens: limit,
+        stats: emptyChunkingStats(),
+        changedOverlapTokens: 0,
+      };
+      profiles.set(profileKey, profile);
+    }
+    profileByModel[model] = profile;
   }
-  return total;
+
+  texts.forEach((text, i) => {
+    const counts = counter.count(text);
+    const isChanged = changed?.[i] === true;
+    total += counts.reference;
+    sumOfSquares += counts.reference * counts.reference;
+    if (isChanged) {
+      changedRows++;
+      changedTotal += counts.reference;
+    }
+    for (const [tokenizerId, count] of Object.entries(counts.byTokenizer)) {
+      byTokenizer[tokenizerId] = (byTokenizer[tokenizerId] ?? 0) + count;
+      if (isChanged) {
+        changedByTokenizer[tokenizerId] = (changedByTokenizer[tokenizerId] ?? 0) + count;
+      }
+    }
+
+    if (partitionTokens && partitions) {
+      const stats = (partitionTokens[partitions[i]] ??= { rowCount: 0, tokenCount: 0 });
+      stats.rowCount++;
+      stats.tokenCount += counts.reference;
+    }
+
+    const lines = contentLines[i] ?? [];
+    if (lines.length === 0) {
+      addColumnTokens(WHOLE_ROW_COLUMN, counts.reference, 0);
+    }
+    for (const { columnName, line } of lines) {
+      let labelCount = labelTokens.get(columnName);
+      if (labelCount === undefined) {
+        labelCount = counter.countReference(`${columnName}: `);
+        labelTokens.set(columnName, labelCount);
+      }
+      addColumnTokens(columnName, counter.countReference(line), labelCount);
+    }
+
+    for (const profile of profiles.values()) {
+      const split = simulateSplit({
+        referenceTokens: counts.reference,
+        characters: text.length,
+        modelTokens: counts.byTokenizer[profile.tokenizerId] ?? counts.reference,
+        maxInputTokens: profile.maxInputTokens,
+        splitter,
+      });
+      profile.stats.embeddingCalls += split.pieces;
+      profile.stats.overlapTokens += split.overlapTokens;
+      if (split.overLimit) profile.stats.rowsOverLimit++;
+      if (split.truncated) profile.stats.truncatedRows++;
+      if (isChanged) {
+        profile.changedOverlapTokens += split.overlapTokens;
+      }
+    }
+  });
+
+  // Overlapping pieces are embedded (and billed) twice, so they count as tokens
+  const byModel: Record<string, number> = {};
+  const changedByModel: Record<string, number> = {};
+  const chunkingByModel: Record<string, ModelChunkingStats> = {};
+  for (const [model, tokenizer] of Object.entries(modelTokenizers)) {
+    const profile = profileByModel[model];
+    byModel[model] = Math.round((byTokenizer[tokenizer.id] ?? 0) + profile.stats.overlapTokens);
+    changedByModel[model] = Math.round(
+      (changedByTokenizer[tokenizer.id] ?? 0) + profile.changedOverlapTokens,
+    );
+    chunkingByModel[model] = {
+      ...profile.stats,
+      overlapTokens: Math.round(profile.stats.overlapTokens),
+    };
+  }
+
+  const delta = changed
+    ? { rowCount: changedRows, tokenCount: changedTotal, tokenCountByModel: changedByModel }
+    : undefined;
+
+  return { total, sumOfSquares, byModel, chunkingByModel, columnTokens, partitionTokens, delta };
 }
 
 // ---------------------------------------------------------------------------
@@ -90,14 +292,119 @@ async function fetchAndTransform(params: {
   textColumnsMode: TextColumnsMode;
   excludedColumns: string[];
   batchSize: number;
-  offsetStart: number;
-  rowLimit: number | null; // null = fetch all rows
-}): Promise<string[]> {
-  const { pgPool, tableInfo, textColumnsMode, excludedColumns, batchSize, offsetStart, rowLimit } =
-    params;
+  bounds: ChunkBounds;
+  sample?: TableSampleSpec;
+  changeDetection?: ChangeDetection;
+  trackRowHashes?: boolean;
+  partitionBreakdown?: boolean;
+  /** Called with each page's documents; resolves false to stop reading. */
+  onPage?: (documents: DbSyncDocument[]) => Promise<boolean>;
+}): Promise<{
+  pageContents: string[];
+  contentLines: PageContentLine[][];
+  changed: boolean[] | null;
+  rowHashes: Record<string, string> | null;
+  /** Partition name per row; present with a partition breakdown. */
+  partitions: string[] | null;
+}> {
+  const {
+    pgPool,
+    tableInfo,
+    textColumnsMode,
+    excludedColumns,
+    batchSize,
+    bounds,
+    sample,
+    changeDetection,
+    trackRowHashes,
+    onPage,
+  } = params;
+  // Rows of a plain table have no partition to report
+  const withPartition = params.partitionBreakdown === true && tableInfo.partitions !== undefined;
 
   const pageContents: string[] = [];
-  let offset = offsetStart;
+  const contentLines: PageContentLine[][] = [];
+  const changed: boolean[] | null = changeDetection ? [] : null;
+  const rowHashes: Record<string, string> | null = trackRowHashes ? {} : null;
+  const previousRowHashes = changeDetection?.previousRowHashes ?? null;
+  // Watermark flags are computed by PostgreSQL, in the column's own type
+  const changedSince = changeDetection?.since ?? undefined;
+  const partitions: string[] | null = withPartition ? [] : null;
+
+  const collect = async (
+    rows: Record<string, unknown>[],
+    flags: boolean[] | null,
+    rowPartitions: string[] | null,
+  ): Promise<boolean> => {
+    const pageDocuments: DbSyncDocument[] = [];
+    rows.forEach((row, i) => {
+      if (partitions && rowPartitions) {
+        const oid = rowPartitions[i];
+        partitions.push(tableInfo.partitions?.[oid] ?? oid);
+      }
+      const transformed = transformRowToDocument({
+        row,
+        tableInfo,
+        runId: onPage ? "embed" : "cost-estimate",
+        textColumnsMode,
+        excludedColumns,
+      });
+      const { docId, document, contentLines: lines } = transformed;
+      if (onPage) {
+        pageDocuments.push(transformed);
+      }
+      pageContents.push(document.pageContent);
+      contentLines.push(lines);
+
+      // Without a primary key every row shares a doc id, so the hash is the key
+      const rowHash = document.metadata.row_hash as string;
+      const manifestKey = tableInfo.pkColumns.length > 0 ? docId : rowHash;
+      if (rowHashes) {
+        rowHashes[manifestKey] = rowHash;
+      }
+      if (changed) {
+        if (previousRowHashes) {
+          changed.push(previousRowHashes[manifestKey] !== rowHash);
+        } else if (flags) {
+          changed.push(flags[i]);
+        } else {
+          changed.push(true);
+        }
+      }
+    });
+    return onPage ? onPage(pageDocuments) : true;
+  };
+
+  if (bounds.kind === "key-range") {
+    let cursor = bounds.after;
+
+    while (true) {
+      const { rows, lastKey, changed: flags, partitions: rowPartitions } = await fetchTableRows({
+        pool: pgPool,
+        tableInfo,
+        limit: batchSize,
+        after: cursor,
+        upTo: bounds.upTo,
+        sample,
+        withPartition,
+        changedSince,
+      });
+
+      if (rows.length === 0) break;
+      const keepReading = await collect(rows, flags, rowPartitions);
+      cursor = lastKey;
+
+      if (!keepReading) break;
+
+      if (rows.length < batchSize) break;
+    }
+
+    return { pageContents, contentLines, changed, rowHashes, partitions };
+  }
+
+  // OFFSET pagination – only for relations without a key
+  const { rowLimit } = bounds;
+  let offset = bounds.offsetStart;
   let fetched = 0;
 
   while (true) {
@@ -106,62 +413,143 @@ async function fetchAndTransform(params: {
 
     if (limit <= 0) break;
 
-    const rows = await fetchTableRows({
+    const { rows, changed: flags, partitions: rowPartitions } = await fetchTableRows({
       pool: pgPool,
       tableInfo,
       limit,
       offset,
+      sample,
+      withPartition,
+      changedSince,
     });
 
     if (rows.length === 0) break;
-
-    for (const row of rows) {
-      const { document } = transformRowToDocument({
-        row,
-        tableInfo,
-        runId: "cost-estimate",
-        textColumnsMode,
-        excludedColumns,
-      });
-      pageContents.push(document.pageContent);
-    }
+    const keepReading = await collect(rows, flags, rowPartitions);
 
     fetched += rows.length;
     offset += rows.length;
 
+    if (!keepReading) break;
     if (rowLimit !== null && fetched >= rowLimit) break;
   }
 
-  return pageContents;
+  return { pageContents, contentLines, changed, rowHashes, partitions };
 }
 
 // ---------------------------------------------------------------------------
-// Process a full table (small tables)
+// Embed mode – hand each page to the main thread and wait until it is embedded
 // ---------------------------------------------------------------------------
 
-async function processTable(
+type DocumentsAck = { stop: boolean; error?: string };
+
+let pendingAck: ((ack: DocumentsAck) => void) | null = null;
+
+function toEmbedDocuments(
+  documents: DbSyncDocument[],
+  splitter: SplitterOptions | null,
+  tokenizer: TokenizerSpec,
+): EmbedDocument[] {
+  const counter = createTokenCounter([tokenizer]);
+  const embedDocuments: EmbedDocument[] = [];
+
+  for (const { docId, document } of documents) {
+    const pieces = splitDocumentText(document.pageContent, splitter);
+    pieces.forEach((text, piece) => {
+      embedDocuments.push({
+        id: pieces.length > 1 ? `${docId}#${piece}` : docId,
+        docId,
+        piece,
+        text,
+        metadata: document.metadata,
+        tokenCount: Math.round(counter.count(text).byTokenizer[tokenizer.id] ?? 0),
+      });
+    });
+  }
+  return embedDocuments;
+}
+
+/** Page callback for embed mode; undefined when only estimating. */
+function createPageSender(
   payload: ProcessPayload,
-): Promise<{ schema: string; table: string; rowCount: number; tokenCount: number }> {
-  const { tableInfo, dbUrl, textColumnsMode, excludedColumns, batchSize } = payload;
+): ((documents: DbSyncDocument[]) => Promise<boolean>) | undefined {
+  const { tableInfo, splitter, embedTokenizer } = payload;
+  if (!embedTokenizer) {
+    return undefined;
+  }
+
+  return async (documents) => {
+    const embedDocuments = toEmbedDocuments(documents, splitter, embedTokenizer);
+    if (embedDocuments.length === 0) {
+      return true;
+    }
+
+    const ack = new Promise<DocumentsAck>((resolve) => {
+      pendingAck = resolve;
+    });
+    port.postMessage({
+      type: "documents",
+      schema: tableInfo.schema,
+      table: tableInfo.table,
+      documents: embedDocuments,
+    } satisfies WorkerResponse);
+
+    const { stop, error } = await ack;
+    if (error) {
+      throw new Error(error);
+    }
+    return !stop;
+  };
+}
+
+// ---------------------------------------------------------------------------
+// Process a full table (small tables)
+// ---------------------------------------------------------------------------
+
+async function processTable(payload: ProcessPayload): Promise<TokenStats> {
+  const {
+    tableInfo,
+    dbUrl,
+    textColumnsMode,
+    excludedColumns,
+    batchSize,
+    sample,
+    changeDetection,
+    trackRowHashes,
+    partitionBreakdown,
+  } = payload;
   const pgPool = getPool(dbUrl);
 
-  const pageContents = await fetchAndTransform({
+  const { pageContents, contentLines, changed, rowHashes, partitions } = await fetchAndTransform({
     pgPool,
     tableInfo,
     textColumnsMode,
     excludedColumns,
     batchSize,
-    offsetStart: 0,
-    rowLimit: null,
+    bounds:
+      tableInfo.pkColumns.length > 0
+        ? { kind: "key-range", after: null, upTo: null }
+        : { kind: "offset", offsetStart: 0, rowLimit: null },
+    sample,
+    changeDetection,
+    trackRowHashes,
+    partitionBreakdown,
+    onPage: createPageSender(payload),
   });
 
-  const tokenCount = countTokens(pageContents);
+  const tokens = countTokens(pageContents, contentLines, payload, changed, partitions);
 
   return {
     schema: tableInfo.schema,
     table: tableInfo.table,
     rowCount: pageContents.length,
-    tokenCount,
+    tokenCount: tokens.total,
+    tokenSumSquares: tokens.sumOfSquares,
+    tokenCountByModel: tokens.byModel,
+    chunkingByModel: tokens.chunkingByModel,
+    columnTokens: tokens.columnTokens,
+    ...(tokens.partitionTokens ? { partitionTokens: tokens.partitionTokens } : {}),
+    ...(tokens.delta ? { delta: tokens.delta } : {}),
+    ...(rowHashes ? { rowHashes } : {}),
   };
 }
 
@@ -170,36 +558,52 @@ async function processTable(
 // ---------------------------------------------------------------------------
 
 async function processChunk(
-  payload: ProcessPayload & { chunkId: string; offsetStart: number; rowLimit: number },
-): Promise<{
-  schema: string;
-  table: string;
-  chunkId: string;
-  rowCount: number;
-  tokenCount: number;
-}> {
-  const { tableInfo, dbUrl, textColumnsMode, excludedColumns, batchSize, chunkId, offsetStart, rowLimit } =
-    payload;
+  payload: ProcessPayload & { chunkId: string; bounds: ChunkBounds },
+): Promise<TokenStats & { chunkId: string }> {
+  const {
+    tableInfo,
+    dbUrl,
+    textColumnsMode,
+    excludedColumns,
+    batchSize,
+    chunkId,
+    bounds,
+    sample,
+    changeDetection,
+    trackRowHashes,
+    partitionBreakdown,
+  } = payload;
   const pgPool = getPool(dbUrl);
 
-  const pageContents = await fetchAndTransform({
+  const { pageContents, contentLines, changed, rowHashes, partitions } = await fetchAndTransform({
     pgPool,
     tableInfo,
     textColumnsMode,
     excludedColumns,
     batchSize,
-    offsetStart,
-    rowLimit,
+    bounds,
+    sample,
+    changeDetection,
+    trackRowHashes,
+    partitionBreakdown,
+    onPage: createPageSender(payload),
   });
 
-  const tokenCount = countTokens(pageContents);
+  const tokens = countTokens(pageContents, contentLines, payload, changed, partitions);
 
   return {
     schema: tableInfo.schema,
     table: tableInfo.table,
     chunkId,
     rowCount: pageContents.length,
-    tokenCount,
+    tokenCount: tokens.total,
+    tokenSumSquares: tokens.sumOfSquares,
+    tokenCountByModel: tokens.byModel,
+    chunkingByModel: tokens.chunkingByModel,
+    columnTokens: tokens.columnTokens,
+    ...(tokens.partitionTokens ? { partitionTokens: tokens.partitionTokens } : {}),
+    ...(tokens.delta ? { delta: tokens.delta } : {}),
+    ...(rowHashes ? { rowHashes } : {}),
   };
 }
 
@@ -234,6 +638,10 @@ port.on("message", async (msg: WorkerRequest) => {
         error: err instanceof Error ? err.message : String(err),
       } satisfies WorkerResponse);
     }
+  } else if (msg.type === "documents-ack") {
+    const resolve = pendingAck;
+    pendingAck = null;
+    resolve?.({ stop: msg.stop, error: msg.error });
   } else if (msg.type === "shutdown") {
     if (pool) {
       await pool.end();
@@ -0,0 +1,170 @@
+import { readFile, rename, writeFile } from "node:fs/promises";
+import type { TableWatermark } from "./db/postgres.js";
+import type { TableInfo } from "./db/types.js";
+
+// ---------------------------------------------------------------------------
+// Types
+// ---------------------------------------------------------------------------
+
+const STATE_VERSION = 1;
+
+/**
+ * How new or changed rows of a table are told apart from the previous run:
+ * - `row-hash`: each row's hash is compared with the previous manifest
+ * - `updated-at`: rows updated after the previous MAX(updated_at), plus
+ *   rows with a larger primary key
+ * - `primary-key`: rows with a larger primary key (inserts only)
+ * - `full`: nothing to compare against; every row counts as changed
+ */
+export type DeltaBasis = "row-hash" | "updated-at" | "primary-key" | "full";
+
+/** What a worker needs to flag the changed rows of one table. */
+export type ChangeDetection = {
+  basis: DeltaBasis;
+  /** Previous watermark, for the `updated-at` and `primary-key` bases. */
+  since: TableWatermark | null;
+  /**
+   * Previous row-hash manifest, for the `row-hash` basis. Key: document id
+   * (the row hash itself for tables without a primary key).
+   */
+  previousRowHashes: Record<string, string> | null;
+};
+
+/** Cost of re-embedding only the new or changed rows of a table. */
+export type TableDeltaEstimate = {
+  basis: DeltaBasis;
+  rowCount: number;
+  /** Tokens under the reference (cl100k_base) tokenizer. */
+  tokenCount: number;
+  tokenCountByModel: Record<string, number>;
+  /** Rows of the previous manifest that no longer exist (`row-hash` only). */
+  deletedRowCount?: number;
+};
+
+/** Run-wide delta totals, reported next to the full-run totals. */
+export type DeltaSummary = {
+  /** When the state used as the baseline was written. */
+  previousRunAt: string;
+  rowCount: number;
+  deletedRowCount: number;
+  totalTokens: number;
+  totalTokensByModel: Record<string, number>;
+  costByModel: Record<string, number>;
+};
+
+/** What the previous run saw of a table. */
+export type TableEstimationState = {
+  updatedAtColumn: string | null;
+  pkColumns: string[];
+  watermark: TableWatermark;
+  rowCount: number;
+  tokenCount: number;
+  estimatedAt: string;
+  /** Row-hash manifest; only kept when tracking is on and the table was read in full. */
+  rowHashes?: Record<string, string>;
+};
+
+export type EstimationState = {
+  version: number;
+  /** When the state was written; empty for a run without a baseline. */
+  updatedAt: string;
+  /** Key: "schema.table" */
+  tables: Record<string, TableEstimationState>;
+};
+
+// ---------------------------------------------------------------------------
+// Public helpers
+// ---------------------------------------------------------------------------
+
+/** Pick the most precise basis the previous state allows for a table. */
+export function resolveChangeDetection(
+  tableInfo: TableInfo,
+  previous: TableEstimationState | undefined,
+): ChangeDetection {
+  if (!previous) {
+    return { basis: "full", since: null, previousRowHashes: null };
+  }
+
+  if (previous.rowHashes) {
+    return { basis: "row-hash", since: null, previousRowHashes: previous.rowHashes };
+  }
+
+  // Watermarks only compare when the key is still the same columns
+  const samePrimaryKey =
+    tableInfo.pkColumns.length > 0 &&
+    previous.pkColumns.join(",") === tableInfo.pkColumns.join(",");
+  const since: TableWatermark = {
+    updatedAt:
+      previous.updatedAtColumn === tableInfo.updatedAtColumn
+        ? previous.watermark.updatedAt
+        : null,
+    primaryKey: samePrimaryKey ? previous.watermark.primaryKey : null,
+  };
+
+  if (tableInfo.updatedAtColumn && since.updatedAt) {
+    return { basis: "updated-at", since, previousRowHashes: null };
+  }
+  if (since.primaryKey) {
+    return { basis: "primary-key", since, previousRowHashes: null };
+  }
+  return { basis: "full", since: null, previousRowHashes: null };
+}
+
+/** Rows of the previous manifest that were not seen in the new one. */
+export function countDeletedRows(
+  previousRowHashes: Record<string, string>,
+  rowHashes: Record<string, string>,
+): number {
+  let deleted = 0;
+  for (const key of Object.keys(previousRowHashes)) {
+    if (!(key in rowHashes)) {
+      deleted++;
+    }
+  }
+  return deleted;
+}
+
+/** Baseline for a first incremental run: every table counts as new. */
+export function emptyEstimationState(): EstimationState {
+  return { version: STATE_VERSION, updatedAt: "", tables: {} };
+}
+
+/** Read the state of the previous run. Returns null when the file does not exist. */
+export async function readEstimationState(filePath: string): Promise<EstimationState | null> {
+  let raw: string;
+  try {
+    raw = await readFile(filePath, "utf-8");
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === "ENOENT") {
+      return null;
+    }
+    throw error;
+  }
+
+  const data = JSON.parse(raw) as EstimationState;
+  if (data.version !== STATE_VERSION || typeof data.tables !== "object") {
+    throw new Error(`Unsupported estimation state format in ${filePath}`);
+  }
+  return data;
+}
+
+/**
+ * Write the state for the next incremental run. Tables that were not part of
+ * this run (or failed) keep the entry already in the file.
+ */
+export async function writeEstimationState(
+  filePath: string,
+  tables: Record<string, TableEstimationState>,
+): Promise<void> {
+  const previous = await readEstimationState(filePath).catch(() => null);
+  const data: EstimationState = {
+    version: STATE_VERSION,
+    updatedAt: new Date().toISOString(),
+    tables: { ...(previous?.tables ?? {}), ...tables },
+  };
+
+  // Write then rename, so an interrupted write never leaves a torn file
+  const tempPath = `${filePath}.tmp`;
+  await writeFile(tempPath, JSON.stringify(data, null, 2), "utf-8");
+  await rename(tempPath, filePath);
+}
@@ -1,82 +1,159 @@
 import { homedir } from "node:os";
 import { join } from "node:path";
-import { readFile, writeFile } from "node:fs/promises";
+import { readFile, stat, writeFile } from "node:fs/promises";
 
 // ---------------------------------------------------------------------------
 // Types
 // ---------------------------------------------------------------------------
 
+/**
+ * Where a price came from: read from the pricing source on this run, the
+ * disk cache, the bundled fallback, or the overrides file.
+ */
+export type PricingOrigin = "live" | "cache" | "fallback" | "override";
+
+export const PRICING_ORIGINS: PricingOrigin[] = ["live", "cache", "fallback", "override"];
+
+/** Graduated volume tier: tokens of the run past `fromTokens` cost `pricePerMillion`. */
+export type PricingTier = {
+  fromTokens: number;
+  pricePerMillion: number;
+};
+
 export type ModelPricingEntry = {
   provider: string;
   model: string;
+  /** List price; the price of every token below the first tier. */
   pricePerMillion: number;
+  /** Batch API price. Unknown (no batch API) when absent. */
+  batchPricePerMillion?: number;
+  /** Volume tiers, ascending by `fromTokens`; from the overrides file. */
+  tiers?: PricingTier[];
+  /** Negotiated multiplier on every price (0.8 = 20% off); from the overrides file. */
+  discount?: number;
+  /** Longest input the model accepts, in its own tokens. Unknown when absent. */
+  maxInputTokens?: number;
+  /** Length of the vectors the model returns. Unknown when absent. */
+  dimensions?: number;
+  origin?: PricingOrigin;
+  /** When the price was fetched (or its file last modified); absent for the bundled fallback. */
+  pricedAt?: string;
+};
+
+export type PricingSourceOptions = {
+  /** LiteLLM-format URL, or a local file: LiteLLM format or a list of entries. */
+  source: string;
+  /** No network: a URL source is served from the cache, even stale, or the fallback. */
+  offline: boolean;
+  cachePath: string;
+  /** A cache younger than this is used without fetching; 0 = always fetch. */
+  cacheTtlMs: number;
+  fetchTimeoutMs: number;
+};
+
+/** Providers and models to price; empty lists keep everything. */
+export type PricingFilter = {
+  providers: string[];
+  models: string[];
+};
+
+/** Cost of a model's tokens under each way of buying them, in USD. */
+export type ModelCostBreakdown = {
+  /** List price, volume tiers applied. */
+  standard: number;
+  /** Batch API price; null when the model has none. */
+  batch: number | null;
+  /** Multiplier of the two below; 1 without a negotiated discount. */
+  discount: number;
+  discounted: number;
+  discountedBatch: number | null;
 };
 
 type PricingCache = {
   fetchedAt: string;
+  /** The source the entries were fetched from; caches of another source are ignored. */
+  source?: string;
   entries: ModelPricingEntry[];
 };
 
+/** Origins of a set of prices, for the "where do these numbers come from" line of a report. */
+export type PricingProvenance = {
+  counts: Record<PricingOrigin, number>;
+  /** pricedAt of the oldest dated price; null when none is dated. */
+  oldestPricedAt: string | null;
+};
+
+export const DEFAULT_PRICING_SOURCE =
+  "https://raw.githubusercontent.com/BerriAI/litellm/main/model_prices_and_context_window.json";
+const DEFAULT_CACHE_PATH = join(homedir(), ".embedding-cli-pricing-cache.json");
+const DEFAULT_CACHE_TTL_HOURS = 24;
+const DEFAULT_FETCH_TIMEOUT_MS = 5000;
+
 // ---------------------------------------------------------------------------
 // Fallback pricing (all embedding providers)
 // ---------------------------------------------------------------------------
 
 export const FALLBACK_PRICING: ModelPricingEntry[] = [
   // OpenAI
-  { provider: "openai", model: "text-embedding-3-small", pricePerMillion: 0.02 },
-  { provider: "openai", model: "text-embedding-3-large", pricePerMillion: 0.13 },
-  { provider: "openai", model: "text-embedding-ada-002", pricePerMillion: 0.1 },
+  { provider: "openai", model: "text-embedding-3-small", pricePerMillion: 0.02, batchPricePerMillion: 0.01, maxInputTokens: 8191, dimensions: 1536 },
+  { provider: "openai", model: "text-embedding-3-large", pricePerMillion: 0.13, batchPricePerMillion: 0.065, maxInputTokens: 8191, dimensions: 3072 },
+  { provider: "openai", model: "text-embedding-ada-002", pricePerMillion: 0.1, batchPricePerMillion: 0.05, maxInputTokens: 8191, dimensions: 1536 },
   // Cohere
-  { provider: "cohere", model: "embed-english-v3.0", pricePerMillion: 0.1 },
-  { provider: "cohere", model: "embed-multilingual-v3.0", pricePerMillion: 0.1 },
+  { provider: "cohere", model: "embed-english-v3.0", pricePerMillion: 0.1, maxInputTokens: 512, dimensions: 1024 },
+  { provider: "cohere", model: "embed-multilingual-v3.0", pricePerMillion: 0.1, maxInputTokens: 512, dimensions: 1024 },
   // Voyage AI
-  { provider: "voyage", model: "voyage-3-large", pricePerMillion: 0.18 },
-  { provider: "voyage", model: "voyage-3", pricePerMillion: 0.06 },
-  { provider: "voyage", model: "voyage-3-lite", pricePerMillion: 0.02 },
+  { provider: "voyage", model: "voyage-3-large", pricePerMillion: 0.18, maxInputTokens: 32000, dimensions: 1024 },
+  { provider: "voyage", model: "voyage-3", pricePerMillion: 0.06, maxInputTokens: 32000, dimensions: 1024 },
+  { provider: "voyage", model: "voyage-3-lite", pricePerMillion: 0.02, maxInputTokens: 32000, dimensions: 512 },
   // Ollama (local, free)
-  { provider: "ollama", model: "nomic-embed-text", pricePerMillion: 0 },
-  { provider: "ollama", model: "mxbai-embed-large", pricePerMillion: 0 },
-  { provider: "ollama", model: "all-minilm", pricePerMillion: 0 },
+  { provider: "ollama", model: "nomic-embed-text", pricePerMillion: 0, maxInputTokens: 8192, dimensions: 768 },
+  { provider: "ollama", model: "mxbai-embed-large", pricePerMillion: 0, maxInputTokens: 512, dimensions: 1024 },
+  { provider: "ollama", model: "all-minilm", pricePerMillion: 0, maxInputTokens: 256, dimensions: 384 },
 ];
 
 // ---------------------------------------------------------------------------
 // Cache management
 // ---------------------------------------------------------------------------
 
-const CACHE_PATH = join(homedir(), ".embedding-cli-pricing-cache.json");
-const CACHE_TTL_MS = 24 * 60 * 60 * 1000; // 24 hours
-
-async function readCache(): Promise<ModelPricingEntry[] | null> {
+/** The cached entries of `options.source`; stale ones only when `acceptStale`. */
+async function readCache(
+  options: PricingSourceOptions,
+  acceptStale: boolean,
+): Promise<PricingCache | null> {
   try {
-    const content = await readFile(CACHE_PATH, "utf-8");
+    const content = await readFile(options.cachePath, "utf-8");
     const cache: PricingCache = JSON.parse(content);
+    // Caches written before the source was configurable hold the default source
+    const source = cache.source ?? DEFAULT_PRICING_SOURCE;
+    if (source !== options.source || !Array.isArray(cache.entries)) {
+      return null;
+    }
 
-    // Check if cache is still fresh
-    const fetchedAt = new Date(cache.fetchedAt);
-    const age = Date.now() - fetchedAt.getTime();
-    if (age < CACHE_TTL_MS && Array.isArray(cache.entries)) {
-      return cache.entries;
+    const age = Date.now() - new Date(cache.fetchedAt).getTime();
+    if (acceptStale || age < options.cacheTtlMs) {
+      return cache;
     }
   } catch {
-    // Cache file missing, invalid, or stale — continue to fetch
+    // Cache file missing or invalid — continue to fetch
   }
   return null;
 }
 
-async function writeCache(entries: ModelPricingEntry[]): Promise<void> {
+async function writeCache(
+  options: PricingSourceOptions,
+  fetchedAt: string,
+  entries: ModelPricingEntry[],
+): Promise<void> {
   try {
-    const cache: PricingCache = {
-      fetchedAt: new Date().toISOString(),
-      entries,
-    };
-    await writeFile(CACHE_PATH, JSON.stringify(cache, null, 2), "utf-8");
+    const cache: PricingCache = { fetchedAt, source: options.source, entries };
+    await writeFile(options.cachePath, JSON.stringify(cache, null, 2), "utf-8");
   } catch {
     // Silently swallow write errors — caching is best-effort
   }
 }
 
 // ---------------------------------------------------------------------------
-// LiteLLM fetch
+// Pricing sources
 // ---------------------------------------------------------------------------
 
 function inferProvider(
@@ -114,83 +191,232 @@ function extractModelName(modelKey: string): string {
   return modelKey;
 }
 
-async function fetchFromLiteLLM(): Promise<ModelPricingEntry[]> {
-  const url =
-    "https://raw.githubusercontent.com/BerriAI/litellm/main/model_prices_and_context_window.json";
-  const controller = new AbortController();
-  const timeoutId = setTimeout(() => controller.abort(), 5000); // 5s timeout
+/** Embedding models of a LiteLLM `model_prices_and_context_window.json`. */
+function parseLiteLLMPricing(data: Record<string, unknown>): ModelPricingEntry[] {
+  const entries: ModelPricingEntry[] = [];
 
-  try {
-    const response = await fetch(url, { signal: controller.signal });
-    clearTimeout(timeoutId);
+  for (const [modelKey, rawEntry] of Object.entries(data)) {
+    const entry = rawEntry as Record<string, unknown>;
 
-    if (!response.ok) {
-      throw new Error(`HTTP ${response.status}: ${response.statusText}`);
-    }
+    // Filter: embedding mode only, with valid price
+    if (entry?.mode !== "embedding") continue;
+    if (typeof entry.input_cost_per_token !== "number") continue;
 
-    const data = await response.json() as Record<string, unknown>;
-    const entries: ModelPricingEntry[] = [];
+    const pricePerMillion = entry.input_cost_per_token * 1_000_000;
+    const provider = inferProvider(modelKey, entry);
+    const model = extractModelName(modelKey);
+    // Embedding entries usually carry max_input_tokens; older ones only max_tokens
+    const maxInputTokens =
+      typeof entry.max_input_tokens === "number"
+        ? entry.max_input_tokens
+        : typeof entry.max_tokens === "number"
+          ? entry.max_tokens
+          : undefined;
+    const dimensions =
+      typeof entry.output_vector_size === "number" ? entry.output_vector_size : undefined;
+    const batchPricePerMillion =
+      typeof entry.input_cost_per_token_batches === "number"
+        ? entry.input_cost_per_token_batches * 1_000_000
+        : undefined;
 
-    for (const [modelKey, rawEntry] of Object.entries(data)) {
-      const entry = rawEntry as Record<string, unknown>;
+    entries.push({
+      provider,
+      model,
+      pricePerMillion,
+      ...(batchPricePerMillion !== undefined ? { batchPricePerMillion } : {}),
+      ...(maxInputTokens !== undefined ? { maxInputTokens } : {}),
+      ...(dimensions !== undefined ? { dimensions } : {}),
+    });
+  }
 
-      // Filter: embedding mode only, with valid price
-      if (entry.mode !== "embedding") continue;
-      if (typeof entry.input_cost_per_token !== "number") continue;
+  return entries;
+}
 
-      const pricePerMillion = entry.input_cost_per_token * 1_000_000;
-      const provider = inferProvider(modelKey, entry);
-      const model = extractModelName(modelKey);
+/** A list of entries, as `pricing --json` prints them. */
+function parsePricingEntryList(data: unknown[]): ModelPricingEntry[] {
+  return data.map((raw, index) => {
+    const entry = raw as Record<string, unknown>;
+    if (
+      typeof entry?.provider !== "string" ||
+      typeof entry.model !== "string" ||
+      typeof entry.pricePerMillion !== "number"
+    ) {
+      throw new Error(`Entry ${index} needs provider, model and pricePerMillion.`);
+    }
+    // Provenance is recomputed for this run
+    const { origin: _origin, pricedAt: _pricedAt, ...rest } = entry as ModelPricingEntry;
+    return rest;
+  });
+}
 
-      entries.push({
-        provider,
-        model,
-        pricePerMillion,
-      });
+async function fetchFromUrl(url: string, timeoutMs: number): Promise<ModelPricingEntry[]> {
+  const controller = new AbortController();
+  const timeoutId = setTimeout(() => controller.abort(), timeoutMs);
+
+  try {
+    const response = await fetch(url, { signal: controller.signal });
+    if (!response.ok) {
+      throw new Error(`HTTP ${response.status}: ${response.statusText}`);
     }
 
-    return entries.length > 0 ? entries : FALLBACK_PRICING;
-  } catch (error) {
-    // Network error, timeout, parse error, etc. — fetch failed
-    throw error;
+    const entries = parseLiteLLMPricing(await response.json() as Record<string, unknown>);
+    if (entries.length === 0) {
+      throw new Error("No embedding model in the pricing source.");
+    }
+    return entries;
   } finally {
     clearTimeout(timeoutId);
   }
 }
 
+async function readPricingFile(filePath: string): Promise<ModelPricingEntry[]> {
+  let data: unknown;
+  try {
+    data = JSON.parse(await readFile(filePath, "utf-8"));
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    throw new Error(`Could not read pricing source ${filePath}: ${message}`);
+  }
+
+  const entries = Array.isArray(data)
+    ? parsePricingEntryList(data)
+    : parseLiteLLMPricing(data as Record<string, unknown>);
+  if (entries.length === 0) {
+    throw new Error(`No embedding model in pricing source ${filePath}.`);
+  }
+  return entries;
+}
+
+function withOrigin(
+  entries: ModelPricingEntry[],
+  origin: PricingOrigin,
+  pricedAt?: string,
+): ModelPricingEntry[] {
+  return entries.map((entry) => ({ ...entry, origin, ...(pricedAt ? { pricedAt } : {}) }));
+}
+
+function isUrl(source: string): boolean {
+  return /^https?:\/\//i.test(source);
+}
+
 // ---------------------------------------------------------------------------
 // Public API
 // ---------------------------------------------------------------------------
 
+export function defaultPricingSourceOptions(): PricingSourceOptions {
+  return {
+    source: DEFAULT_PRICING_SOURCE,
+    offline: false,
+    cachePath: DEFAULT_CACHE_PATH,
+    cacheTtlMs: DEFAULT_CACHE_TTL_HOURS * 60 * 60 * 1000,
+    fetchTimeoutMs: DEFAULT_FETCH_TIMEOUT_MS,
+  };
+}
+
+/**
+ * Read the pricing source settings from PRICING_SOURCE, PRICING_OFFLINE,
+ * PRICING_CACHE_FILE, PRICING_CACHE_TTL_HOURS and PRICING_FETCH_TIMEOUT_MS.
+ */
+export function parsePricingSourceOptionsFromEnv(
+  env: NodeJS.ProcessEnv = process.env,
+): PricingSourceOptions {
+  const defaults = defaultPricingSourceOptions();
+  const ttlHours = Number.parseFloat(env.PRICING_CACHE_TTL_HOURS ?? "");
+  const timeoutMs = Number.parseInt(env.PRICING_FETCH_TIMEOUT_MS ?? "", 10);
+  return {
+    source: env.PRICING_SOURCE?.trim() || defaults.source,
+    offline: env.PRICING_OFFLINE === "true",
+    cachePath: env.PRICING_CACHE_FILE?.trim() || defaults.cachePath,
+    cacheTtlMs:
+      Number.isFinite(ttlHours) && ttlHours >= 0 ? ttlHours * 60 * 60 * 1000 : defaults.cacheTtlMs,
+    fetchTimeoutMs:
+      Number.isFinite(timeoutMs) && timeoutMs > 0 ? timeoutMs : defaults.fetchTimeoutMs,
+  };
+}
+
 /**
- * Fetch pricing entries with fallback and caching.
+ * Fetch pricing entries with fallback and caching. Every entry records its
+ * origin and, when known, when it was priced.
  *
- * Resolution order:
- *   1. Fresh disk cache (< 24h old)
- *   2. Live fetch from LiteLLM + write to cache
- *   3. Fallback to FALLBACK_PRICING on any error
+ * A local file source is read on every run. A URL source resolves in order:
+ *   1. Fresh disk cache (younger than the TTL)
+ *   2. Live fetch + write to cache (skipped offline)
+ *   3. Stale disk cache, however old
+ *   4. Fallback to FALLBACK_PRICING
  *
- * This function never rejects — it always returns a pricing array.
+ * Rejects only when a local pricing file cannot be read: it was asked for
+ * explicitly, so silently pricing with something else would mislead.
  */
-export async function getPricing(): Promise<ModelPricingEntry[]> {
-  // Try cache first
-  const cached = await readCache();
-  if (cached !== null) {
-    return cached;
+export async function getPricing(
+  options: PricingSourceOptions = defaultPricingSourceOptions(),
+): Promise<ModelPricingEntry[]> {
+  if (!isUrl(options.source)) {
+    const entries = await readPricingFile(options.source);
+    const { mtime } = await stat(options.source);
+    return withOrigin(entries, "live", mtime.toISOString());
   }
 
-  // Try fetch
-  try {
-    const fetched = await fetchFromLiteLLM();
-    // Write to cache in background (fire-and-forget)
-    writeCache(fetched).catch(() => {
-      // Silently ignore cache write errors
-    });
-    return fetched;
-  } catch {
-    // Any error during fetch → fall back to hardcoded pricing
-    return FALLBACK_PRICING;
+  const fresh = options.offline ? null : await readCache(options, false);
+  if (fresh !== null) {
+    return withOrigin(fresh.entries, "cache", fresh.fetchedAt);
   }
+
+  if (!options.offline) {
+    try {
+      const fetched = await fetchFromUrl(options.source, options.fetchTimeoutMs);
+      const fetchedAt = new Date().toISOString();
+      // Write to cache in background (fire-and-forget)
+      writeCache(options, fetchedAt, fetched).catch(() => {
+        // Silently ignore cache write errors
+      });
+      return withOrigin(fetched, "live", fetchedAt);
+    } catch {
+      // Network error, timeout, parse error — try the cache, then the fallback
+    }
+  }
+
+  const stale = await readCache(options, true);
+  if (stale !== null) {
+    return withOrigin(stale.entries, "cache", stale.fetchedAt);
+  }
+  return withOrigin(FALLBACK_PRICING, "fallback");
+}
+
+/** How many prices come from each origin, and the date of the oldest. */
+export function summarizePricingProvenance(entries: ModelPricingEntry[]): PricingProvenance {
+  const counts: Record<PricingOrigin, number> = { live: 0, cache: 0, fallback: 0, override: 0 };
+  let oldestPricedAt: string | null = null;
+  for (const entry of entries) {
+    if (entry.origin) {
+      counts[entry.origin]++;
+    }
+    if (entry.pricedAt && (oldestPricedAt === null || entry.pricedAt < oldestPricedAt)) {
+      oldestPricedAt = entry.pricedAt;
+    }
+  }
+  return { counts, oldestPricedAt };
+}
+
+/** "live 10, override 1 (oldest 3h)": the origins of a report's prices. */
+export function formatPricingProvenance(provenance: PricingProvenance, now = Date.now()): string {
+  const origins = PRICING_ORIGINS.filter((origin) => provenance.counts[origin] > 0)
+    .map((origin) => `${origin} ${provenance.counts[origin]}`)
+    .join(", ");
+  const oldest = provenance.oldestPricedAt
+    ? ` (oldest ${formatPriceAge(provenance.oldestPricedAt, now)})`
+    : "";
+  return `${origins || "unknown"}${oldest}`;
+}
+
+/** Age of a price as "45m", "3h" or "12d"; "?" when undated. */
+export function formatPriceAge(pricedAt: string | null | undefined, now = Date.now()): string {
+  if (!pricedAt) {
+    return "?";
+  }
+  const minutes = Math.max(0, Math.round((now - new Date(pricedAt).getTime()) / 60_000));
+  if (minutes < 60) return `${minutes}m`;
+  const hours = Math.round(minutes / 60);
+  return hours < 48 ? `${hours}h` : `${Math.round(hours / 24)}d`;
 }
 
 /**
@@ -205,3 +431,73 @@ export function toPricingMap(
   }
   return map;
 }
+
+/**
+ * List cost of `tokens`, in USD. Tiers are graduated: each tier's price
+ * applies only to the tokens past its threshold, as on a tax bracket.
+ */
+export function computeTieredCost(
+  entry: Pick<ModelPricingEntry, "pricePerMillion" | "tiers">,
+  tokens: number,
+): number {
+  let cost = 0;
+  let price = entry.pricePerMillion;
+  let from = 0;
+  for (const tier of entry.tiers ?? []) {
+    if (tokens <= tier.fromTokens) break;
+    cost += ((tier.fromTokens - from) / 1_000_000) * price;
+    price = tier.pricePerMillion;
+    from = tier.fromTokens;
+  }
+  return cost + ((tokens - from) / 1_000_000) * price;
+}
+
+/** Standard, batch and discounted cost of `tokens` for one model. */
+export function computeCostBreakdown(entry: ModelPricingEntry, tokens: number): ModelCostBreakdown {
+  const standard = computeTieredCost(entry, tokens);
+  const batch =
+    entry.batchPricePerMillion === undefined
+      ? null
+      : (tokens / 1_000_000) * entry.batchPricePerMillion;
+  const discount = entry.discount ?? 1;
+  return {
+    standard,
+    batch,
+    discount,
+    discounted: standard * discount,
+    discountedBatch: batch === null ? null : batch * discount,
+  };
+}
+
+/**
+ * Convert ModelPricingEntry[] to Record<model, maxInputTokens>, leaving out
+ * models whose limit is unknown.
+ */
+export function toMaxInputTokensMap(
+  entries: ModelPricingEntry[]
+): Record<string, number> {
+  const map: Record<string, number> = {};
+  for (const entry of entries) {
+    if (entry.maxInputTokens !== undefined && entry.maxInputTokens > 0) {
+      map[entry.model] = entry.maxInputTokens;
+    }
+  }
+  return map;
+}
+
+/**
+ * Keep the entries whose provider and model are both allowed by the filter.
+ * Matching is case-insensitive; an empty list allows any value.
+ */
+export function filterPricingEntries(
+  entries: ModelPricingEntry[],
+  filter: PricingFilter,
+): ModelPricingEntry[] {
+  const providers = new Set(filter.providers.map((p) => p.toLowerCase()));
+  const models = new Set(filter.models.map((m) => m.toLowerCase()));
+  return entries.filter(
+    (entry) =>
+      (providers.size === 0 || providers.has(entry.provider.toLowerCase())) &&
+      (models.size === 0 || models.has(entry.model.toLowerCase())),
+  );
+}
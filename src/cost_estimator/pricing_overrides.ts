@@ -0,0 +1,347 @@
+import { access, readFile, stat } from "node:fs/promises";
+import { extname, resolve } from "node:path";
+import yaml from "js-yaml";
+import { getPricing } from "./pricing.js";
+import type { ModelPricingEntry, PricingSourceOptions, PricingTier } from "./pricing.js";
+
+// ---------------------------------------------------------------------------
+// Types
+// ---------------------------------------------------------------------------
+
+/**
+ * Corrections to one model. A model the pricing source does not know is
+ * added as a custom model when `provider` and `pricePerMillion` are set.
+ */
+export type ModelPricingOverride = {
+  /** Only override the model under this provider; any provider when absent. */
+  provider?: string;
+  pricePerMillion?: number;
+  batchPricePerMillion?: number;
+  tiers?: PricingTier[];
+  /** Wins over the provider's discount. */
+  discount?: number;
+  maxInputTokens?: number;
+  dimensions?: number;
+};
+
+/**
+ * Local corrections to the fetched prices: negotiated rates, volume tiers
+ * and discounts that LiteLLM cannot know about.
+ */
+export type PricingOverrides = {
+  /** Key: provider name */
+  providers?: Record<string, { discount?: number }>;
+  /** Key: model name */
+  models?: Record<string, ModelPricingOverride>;
+};
+
+export type LoadedPricingOverrides = {
+  filePath: string;
+  /** Last modification of the file; the "priced at" of every price it sets. */
+  modifiedAt: string;
+  overrides: PricingOverrides;
+};
+
+/** Looked up in the working directory when PRICING_OVERRIDES_FILE is unset. */
+const DEFAULT_OVERRIDES_FILES = [
+  "pricing-overrides.yaml",
+  "pricing-overrides.yml",
+  "pricing-overrides.json",
+];
+
+// ---------------------------------------------------------------------------
+// Loading
+// ---------------------------------------------------------------------------
+
+/**
+ * Load and validate the overrides file (JSON or YAML). An explicit path must
+ * exist; without one, the default file names are tried and null is returned
+ * if none exists.
+ */
+export async function loadPricingOverrides(
+  filePath?: string,
+): Promise<LoadedPricingOverrides | null> {
+  const resolvedPath = filePath ? resolve(filePath) : await findDefaultOverridesFile();
+  if (!resolvedPath) {
+    return null;
+  }
+
+  let raw: string;
+  try {
+    raw = await readFile(resolvedPath, "utf-8");
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === "ENOENT") {
+      throw new Error(`Pricing overrides file not found: ${resolvedPath}`);
+    }
+    throw error;
+  }
+
+  const extension = extname(resolvedPath).toLowerCase();
+  let data: unknown;
+  try {
+    data = extension === ".yaml" || extension === ".yml" ? yaml.load(raw) : JSON.parse(raw);
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    throw new Error(`Could not parse ${resolvedPath}: ${message}`);
+  }
+
+  const problems = validatePricingOverrides(data);
+  if (problems.length > 0) {
+    throw new Error(
+      `Invalid pricing overrides (${resolvedPath}):\n` +
+        problems.map((problem) => `  - ${problem}`).join("\n"),
+    );
+  }
+  const { mtime } = await stat(resolvedPath);
+  return {
+    filePath: resolvedPath,
+    modifiedAt: mtime.toISOString(),
+    overrides: data as PricingOverrides,
+  };
+}
+
+async function findDefaultOverridesFile(): Promise<string | null> {
+  for (const name of DEFAULT_OVERRIDES_FILES) {
+    const candidate = resolve(name);
+    try {
+      await access(candidate);
+      return candidate;
+    } catch {
+      // Try the next name
+    }
+  }
+  return null;
+}
+
+// ---------------------------------------------------------------------------
+// Applying
+// ---------------------------------------------------------------------------
+
+/**
+ * Entries with the overrides written over them, then the custom models.
+ * Models are matched by name (and provider, when the override names one),
+ * case-insensitively. Changed entries are marked with the "override" origin.
+ */
+export function applyPricingOverrides(
+  entries: ModelPricingEntry[],
+  loaded: LoadedPricingOverrides | null,
+): ModelPricingEntry[] {
+  if (!loaded) {
+    return entries;
+  }
+  const { overrides, modifiedAt } = loaded;
+
+  const providerDiscounts = new Map(
+    Object.entries(overrides.providers ?? {}).map(([provider, settings]) => [
+      provider.toLowerCase(),
+      settings.discount,
+    ]),
+  );
+  const modelOverrides = Object.entries(overrides.models ?? {}).map(
+    ([model, override]) => [model, override] as const,
+  );
+  const matched = new Set<string>();
+
+  const merged = entries.map((entry) => {
+    const match = modelOverrides.find(
+      ([model, candidate]) =>
+        model.toLowerCase() === entry.model.toLowerCase() &&
+        (!candidate.provider || candidate.provider.toLowerCase() === entry.provider.toLowerCase()),
+    );
+    if (match) {
+      matched.add(match[0]);
+    }
+    const override = match?.[1];
+    const providerDiscount = providerDiscounts.get(entry.provider.toLowerCase());
+    if (!override && providerDiscount === undefined) {
+      return entry;
+    }
+    return overrideEntry(entry, override ?? {}, providerDiscount, modifiedAt);
+  });
+
+  // Custom models: overrides that matched nothing and carry a full price
+  for (const [model, override] of modelOverrides) {
+    if (matched.has(model) || !override.provider || override.pricePerMillion === undefined) {
+      continue;
+    }
+    const entry: ModelPricingEntry = {
+      provider: override.provider,
+      model,
+      pricePerMillion: override.pricePerMillion,
+    };
+    const providerDiscount = providerDiscounts.get(override.provider.toLowerCase());
+    merged.push(overrideEntry(entry, override, providerDiscount, modifiedAt));
+  }
+
+  return merged;
+}
+
+function overrideEntry(
+  entry: ModelPricingEntry,
+  override: ModelPricingOverride,
+  providerDiscount: number | undefined,
+  modifiedAt: string,
+): ModelPricingEntry {
+  const discount = override.discount ?? providerDiscount ?? entry.discount;
+  return {
+    ...entry,
+    ...(override.pricePerMillion !== undefined
+      ? { pricePerMillion: override.pricePerMillion }
+      : {}),
+    ...(override.batchPricePerMillion !== undefined
+      ? { batchPricePerMillion: override.batchPricePerMillion }
+      : {}),
+    ...(override.tiers
+      ? { tiers: [...override.tiers].sort((a, b) => a.fromTokens - b.fromTokens) }
+      : {}),
+    ...(override.maxInputTokens !== undefined ? { maxInputTokens: override.maxInputTokens } : {}),
+    ...(override.dimensions !== undefined ? { dimensions: override.dimensions } : {}),
+    ...(discount !== undefined ? { discount } : {}),
+    origin: "override",
+    pricedAt: modifiedAt,
+  };
+}
+
+/** `getPricing()` with the overrides file (explicit or found by default name) applied. */
+export async function getPricingWithOverrides(
+  overridesFile?: string,
+  source?: PricingSourceOptions,
+): Promise<ModelPricingEntry[]> {
+  return applyPricingOverrides(await getPricing(source), await loadPricingOverrides(overridesFile));
+}
+
+// ---------------------------------------------------------------------------
+// Validation
+// ---------------------------------------------------------------------------
+
+/** Every problem found, as "path: message"; empty when the overrides are valid. */
+export function validatePricingOverrides(data: unknown): string[] {
+  const problems: string[] = [];
+  if (!isPlainObject(data)) {
+    return ['the file must hold an object with "providers" and/or "models"'];
+  }
+  checkKeys(data, ["providers", "models"], "", problems);
+
+  if (data.providers !== undefined) {
+    if (!isPlainObject(data.providers)) {
+      problems.push("providers: must be an object keyed by provider");
+    } else {
+      for (const [provider, settings] of Object.entries(data.providers)) {
+        const path = `providers.${provider}`;
+        if (!isPlainObject(settings)) {
+          problems.push(`${path}: must be an object`);
+          continue;
+        }
+        checkKeys(settings, ["discount"], path, problems);
+        checkDiscount(settings.discount, `${path}.discount`, problems);
+      }
+    }
+  }
+
+  if (data.models !== undefined) {
+    if (!isPlainObject(data.models)) {
+      problems.push("models: must be an object keyed by model");
+    } else {
+      for (const [model, override] of Object.entries(data.models)) {
+        const path = `models.${model}`;
+        if (!isPlainObject(override)) {
+          problems.push(`${path}: must be an object`);
+          continue;
+        }
+        checkKeys(
+          override,
+          [
+            "provider",
+            "pricePerMillion",
+            "batchPricePerMillion",
+            "tiers",
+            "discount",
+            "maxInputTokens",
+            "dimensions",
+          ],
+          path,
+          problems,
+        );
+        if (
+          override.provider !== undefined &&
+          (typeof override.provider !== "string" || !override.provider.trim())
+        ) {
+          problems.push(`${path}.provider: must be a non-empty string`);
+        }
+        checkPrice(override.pricePerMillion, `${path}.pricePerMillion`, problems);
+        checkPrice(override.batchPricePerMillion, `${path}.batchPricePerMillion`, problems);
+        checkDiscount(override.discount, `${path}.discount`, problems);
+        checkTiers(override.tiers, `${path}.tiers`, problems);
+        checkPositiveInteger(override.maxInputTokens, `${path}.maxInputTokens`, problems);
+        checkPositiveInteger(override.dimensions, `${path}.dimensions`, problems);
+      }
+    }
+  }
+
+  return problems;
+}
+
+function checkTiers(value: unknown, path: string, problems: string[]): void {
+  if (value === undefined) return;
+  if (!Array.isArray(value)) {
+    problems.push(`${path}: must be a list of { fromTokens, pricePerMillion }`);
+    return;
+  }
+  value.forEach((tier, index) => {
+    const tierPath = `${path}[${index}]`;
+    if (!isPlainObject(tier)) {
+      problems.push(`${tierPath}: must be an object`);
+      return;
+    }
+    checkKeys(tier, ["fromTokens", "pricePerMillion"], tierPath, problems);
+    if (
+      typeof tier.fromTokens !== "number" ||
+      !Number.isFinite(tier.fromTokens) ||
+      tier.fromTokens <= 0
+    ) {
+      problems.push(`${tierPath}.fromTokens: must be a number above 0`);
+    }
+    if (tier.pricePerMillion === undefined) {
+      problems.push(`${tierPath}.pricePerMillion: required`);
+    }
+    checkPrice(tier.pricePerMillion, `${tierPath}.pricePerMillion`, problems);
+  });
+}
+
+function checkPrice(value: unknown, path: string, problems: string[]): void {
+  if (value !== undefined && (typeof value !== "number" || !Number.isFinite(value) || value < 0)) {
+    problems.push(`${path}: must be a number of at least 0`);
+  }
+}
+
+function checkPositiveInteger(value: unknown, path: string, problems: string[]): void {
+  if (value !== undefined && (!Number.isInteger(value) || (value as number) <= 0)) {
+    problems.push(`${path}: must be a whole number above 0`);
+  }
+}
+
+function checkDiscount(value: unknown, path: string, problems: string[]): void {
+  if (
+    value !== undefined &&
+    (typeof value !== "number" || !Number.isFinite(value) || value <= 0 || value > 1)
+  ) {
+    problems.push(`${path}: must be a multiplier in (0, 1], e.g. 0.8 for 20% off`);
+  }
+}
+
+function checkKeys(
+  value: Record<string, unknown>,
+  allowed: string[],
+  path: string,
+  problems: string[],
+): void {
+  for (const key of Object.keys(value)) {
+    if (!allowed.includes(key)) {
+      problems.push(`${path ? `${path}.` : ""}${key}: unknown key`);
+    }
+  }
+}
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
@@ -3,18 +3,52 @@ import type { IncomingMessage, ServerResponse } from "node:http";
 import { readFile } from "node:fs/promises";
 import { dirname as pathDirname, resolve } from "node:path";
 import { fileURLToPath } from "node:url";
+import { formatCliHelp, parseCliArgs, parsePositiveInt, resolveCliEnv } from "./cli_args.js";
+import { defaultHistoryDirectory, listRuns, readRun } from "./run_history.js";
+import type { RunController } from "./run_control.js";
+import type { PublishedRunEvent, RunEventBus } from "./run_events.js";
+import {
+  applyCors,
+  assertSafeBinding,
+  createHostCheck,
+  DashboardAuth,
+  parseDashboardSecurityOptionsFromEnv,
+} from "./dashboard_security.js";
+import type { DashboardSecurityOptions } from "./dashboard_security.js";
+import {
+  NameRedactor,
+  redactControlStatus,
+  redactPath,
+  redactProgress,
+  redactRunEvent,
+  redactRunRecord,
+  redactRunSummary,
+} from "./redaction.js";
 
 type CliOptions = {
   progressFilePath: string;
+  historyDir: string;
   host: string;
   port: number;
+  security: DashboardSecurityOptions;
 };
 
 export type ProgressDashboardStartOptions = {
   progressFilePath?: string;
+  /** Run history served under /api/runs. */
+  historyDir?: string;
   host?: string;
   port?: number;
   suppressLogs?: boolean;
+  /** Run started in this process; enables the /api/control endpoints. */
+  control?: RunController;
+  /**
+   * Events of a run in this process: /api/stream relays them as they happen
+   * instead of polling the progress file.
+   */
+  events?: RunEventBus;
+  /** Token, CORS, remote binding and redaction. Default: read from the environment */
+  security?: DashboardSecurityOptions;
 };
 
 export type ProgressDashboardHandle = {
@@ -22,9 +56,23 @@ export type ProgressDashboardHandle = {
   port: number;
   url: string;
   progressFilePath: string;
+  /** One-time login link when a token is required; null otherwise. */
+  loginUrl: string | null;
   close: () => Promise<void>;
 };
 
+/** Everything a request is handled with besides the request itself. */
+type DashboardContext = {
+  options: CliOptions;
+  dashboardFilePath: string;
+  control: RunController | undefined;
+  events: RunEventBus | undefined;
+  auth: DashboardAuth;
+  isAllowedHost: (hostHeader: string | undefined) => boolean;
+  /** Present when names are redacted. */
+  redactor: NameRedactor | null;
+};
+
 type ProgressPayload = {
   meta: {
     fetchedAt: string;
@@ -51,6 +99,17 @@ const DEFAULT_HOST = "127.0.0.1";
 const DEFAULT_PORT = 4173;
 const STREAM_POLL_INTERVAL_MS = 800;
 const STREAM_HEARTBEAT_MS = 15000;
+const AUTH_LINKS_PATH = "/api/auth/links";
+const CONTROL_ACTION_PREFIX = "/api/control/";
+const CONTROL_ACTIONS = ["pause", "resume", "cancel", "skip"] as const;
+const MAX_CONTROL_BODY_BYTES = 4096;
+// Table state changes come in bursts; pages get at most one control event per interval
+const CONTROL_BROADCAST_INTERVAL_MS = 250;
+const CONTROLS_UNAVAILABLE_MESSAGE =
+  "Run controls work only when the dashboard runs in-process with the estimator " +
+  "(embedding-cli estimate).";
+
+type ControlAction = (typeof CONTROL_ACTIONS)[number];
 
 const streamState: StreamState = {
   clients: new Map(),
@@ -60,56 +119,20 @@ const streamState: StreamState = {
   lastErrorSignature: null,
 };
 
-function parseArgValue(argv: string[], key: string): string | undefined {
-  const flag = `--${key}`;
-  const index = argv.findIndex((arg) => arg === flag);
-  if (index === -1) {
-    return undefined;
-  }
-
-  const value = argv[index + 1];
-  if (!value || value.startsWith("--")) {
-    return undefined;
-  }
-
-  return value;
-}
-
-function parsePositiveInt(value: string | undefined, fallback: number): number {
-  const parsed = Number.parseInt(value ?? "", 10);
-  if (!Number.isFinite(parsed) || parsed <= 0) {
-    return fallback;
-  }
-  return parsed;
-}
-
-function parseCliOptions(argv: string[]): CliOptions {
-  const progressFileArg = parseArgValue(argv, "file");
-  const hostArg = parseArgValue(argv, "host");
-  const portArg = parseArgValue(argv, "port");
-
-  const progressFilePath =
-    progressFileArg ||
-    process.env.COST_PROGRESS_FILE ||
-    DEFAULT_PROGRESS_FILE;
-
-  const host = hostArg || process.env.COST_DASHBOARD_HOST || DEFAULT_HOST;
-  const port = parsePositiveInt(
-    portArg || process.env.COST_DASHBOARD_PORT,
-    DEFAULT_PORT,
-  );
-
+function parseCliOptions(env: NodeJS.ProcessEnv): CliOptions {
   return {
-    progressFilePath,
-    host,
-    port,
+    progressFilePath: env.COST_PROGRESS_FILE || DEFAULT_PROGRESS_FILE,
+    historyDir: defaultHistoryDirectory(env),
+    host: env.COST_DASHBOARD_HOST || DEFAULT_HOST,
+    port: parsePositiveInt(env.COST_DASHBOARD_PORT, DEFAULT_PORT),
+    security: parseDashboardSecurityOptionsFromEnv(env),
   };
 }
 
 function resolveRuntimeOptions(
   startOptions: ProgressDashboardStartOptions = {},
 ): CliOptions {
-  const defaults = parseCliOptions([]);
+  const defaults = parseCliOptions(process.env);
   const port =
     typeof startOptions.port === "number" &&
     Number.isFinite(startOptions.port) &&
@@ -119,8 +142,10 @@ function resolveRuntimeOptions(
 
   return {
     progressFilePath: startOptions.progressFilePath ?? defaults.progressFilePath,
+    historyDir: startOptions.historyDir ?? defaults.historyDir,
     host: startOptions.host ?? defaults.host,
     port,
+    security: startOptions.security ?? defaults.security,
   };
 }
 
@@ -157,30 +182,42 @@ function resolveProgressFilePath(progressFilePath: string): string {
   return resolve(process.cwd(), progressFilePath);
 }
 
-function buildProgressPayload(progressFilePath: string, progress: unknown): ProgressPayload {
+/** Absolute path of a served file, or only its name when names are redacted. */
+function describeServedPath(filePath: string, redactor: NameRedactor | null): string {
+  const absolutePath = resolve(process.cwd(), filePath);
+  return redactor ? redactPath(absolutePath) : absolutePath;
+}
+
+function buildProgressPayload(
+  progressFilePath: string,
+  progress: unknown,
+  redactor: NameRedactor | null,
+): ProgressPayload {
   return {
     meta: {
       fetchedAt: new Date().toISOString(),
-      progressFilePath: resolveProgressFilePath(progressFilePath),
+      progressFilePath: describeServedPath(progressFilePath, redactor),
     },
-    progress,
+    progress: redactor ? redactProgress(progress, redactor) : progress,
   };
 }
 
 async function readProgressSnapshot(
   progressFilePath: string,
+  redactor: NameRedactor | null,
 ): Promise<ProgressSnapshot> {
   const raw = await readFile(progressFilePath, "utf-8");
   const progress = JSON.parse(raw) as unknown;
   return {
     signature: raw,
-    payload: buildProgressPayload(progressFilePath, progress),
+    payload: buildProgressPayload(progressFilePath, progress, redactor),
   };
 }
 
 function mapProgressReadError(
   error: unknown,
   progressFilePath: string,
+  redactor: NameRedactor | null,
 ): {
   error: string;
   message: string;
@@ -191,7 +228,7 @@ function mapProgressReadError(
       error: "Progress file not found",
       message:
         "The progress file does not exist yet. Start the estimator first, then refresh this page.",
-      progressFilePath: resolveProgressFilePath(progressFilePath),
+      progressFilePath: describeServedPath(progressFilePath, redactor),
     };
   }
 
@@ -200,15 +237,16 @@ function mapProgressReadError(
       error: "Invalid progress file format",
       message:
         "Could not parse the progress JSON file. Check whether the file is being written correctly.",
-      progressFilePath: resolveProgressFilePath(progressFilePath),
+      progressFilePath: describeServedPath(progressFilePath, redactor),
     };
   }
 
-  const message = isNodeError(error) ? error.message : "Unknown error";
+  // Other read errors quote the absolute path
+  const message = isNodeError(error) && !redactor ? error.message : "Unknown error";
   return {
     error: "Failed to read progress file",
     message,
-    progressFilePath: resolveProgressFilePath(progressFilePath),
+    progressFilePath: describeServedPath(progressFilePath, redactor),
   };
 }
 
@@ -216,28 +254,35 @@ function writeSseEvent(
   response: ServerResponse,
   eventName: string,
   payload: unknown,
+  eventId?: string,
 ): void {
+  if (eventId !== undefined) {
+    response.write(`id: ${eventId}\n`);
+  }
   response.write(`event: ${eventName}\n`);
   response.write(`data: ${JSON.stringify(payload)}\n\n`);
 }
 
-function broadcastSseEvent(eventName: string, payload: unknown): void {
+function broadcastSseEvent(eventName: string, payload: unknown, eventId?: string): void {
   for (const [clientId, response] of streamState.clients.entries()) {
     try {
-      writeSseEvent(response, eventName, payload);
+      writeSseEvent(response, eventName, payload, eventId);
     } catch {
       streamState.clients.delete(clientId);
     }
   }
 }
 
-async function pollProgressAndBroadcast(progressFilePath: string): Promise<void> {
+async function pollProgressAndBroadcast(
+  progressFilePath: string,
+  redactor: NameRedactor | null,
+): Promise<void> {
   if (streamState.clients.size === 0) {
     return;
   }
 
   try {
-    const snapshot = await readProgressSnapshot(progressFilePath);
+    const snapshot = await readProgressSnapshot(progressFilePath, redactor);
     if (snapshot.signature === streamState.lastSignature) {
       return;
     }
@@ -246,7 +291,7 @@ async function pollProgressAndBroadcast(progressFilePath: string): Promise<void>
     streamState.lastErrorSignature = null;
     broadcastSseEvent("progress", snapshot.payload);
   } catch (error: unknown) {
-    const errorPayload = mapProgressReadError(error, progressFilePath);
+    const errorPayload = mapProgressReadError(error, progressFilePath, redactor);
     const errorSignature = JSON.stringify(errorPayload);
 
     if (errorSignature === streamState.lastErrorSignature) {
@@ -259,16 +304,16 @@ async function pollProgressAndBroadcast(progressFilePath: string): Promise<void>
   }
 }
 
-function startProgressPolling(progressFilePath: string): void {
+function startProgressPolling(progressFilePath: string, redactor: NameRedactor | null): void {
   if (streamState.pollTimer !== null) {
     return;
   }
 
   streamState.pollTimer = setInterval(() => {
-    void pollProgressAndBroadcast(progressFilePath);
+    void pollProgressAndBroadcast(progressFilePath, redactor);
   }, STREAM_POLL_INTERVAL_MS);
 
-  void pollProgressAndBroadcast(progressFilePath);
+  void pollProgressAndBroadcast(progressFilePath, redactor);
 }
 
 function stopProgressPollingWhenIdle(): void {
@@ -288,16 +333,61 @@ function stopProgressPollingWhenIdle(): void {
 async function sendInitialSnapshot(
   response: ServerResponse,
   progressFilePath: string,
+  redactor: NameRedactor | null,
 ): Promise<void> {
   try {
-    const snapshot = await readProgressSnapshot(progressFilePath);
+    const snapshot = await readProgressSnapshot(progressFilePath, redactor);
     writeSseEvent(response, "progress", snapshot.payload);
   } catch (error: unknown) {
-    const payload = mapProgressReadError(error, progressFilePath);
+    const payload = mapProgressReadError(error, progressFilePath, redactor);
     writeSseEvent(response, "progress_error", payload);
   }
 }
 
+function writeRunEvent(
+  response: ServerResponse,
+  { id, event }: PublishedRunEvent,
+  redactor: NameRedactor | null,
+): void {
+  writeSseEvent(response, event.type, redactor ? redactRunEvent(event, redactor) : event, id);
+}
+
+/**
+ * Bring a new stream client up to date with an in-process run: the events it
+ * missed when it reconnects with a Last-Event-ID still in the buffer, the
+ * whole progress otherwise.
+ */
+async function sendRunEventsOrSnapshot(
+  request: IncomingMessage,
+  response: ServerResponse,
+  progressFilePath: string,
+  events: RunEventBus,
+  redactor: NameRedactor | null,
+): Promise<void> {
+  const lastEventId = request.headers["last-event-id"];
+  const missed = typeof lastEventId === "string" ? events.eventsSince(lastEventId) : null;
+  if (missed) {
+    for (const published of missed) {
+      writeRunEvent(response, published, redactor);
+    }
+    return;
+  }
+
+  const progress = events.snapshot();
+  if (progress) {
+    const payload = buildProgressPayload(progressFilePath, progress, redactor);
+    writeSseEvent(response, "progress", payload, events.lastEventId ?? undefined);
+    return;
+  }
+
+  // No writer yet: the file is all there is, plus whatever is published while it is read
+  const idBeforeRead = events.lastEventId;
+  await sendInitialSnapshot(response, progressFilePath, redactor);
+  for (const published of events.eventsSince(idBeforeRead) ?? []) {
+    writeRunEvent(response, published, redactor);
+  }
+}
+
 async function handleDashboardPage(
   response: ServerResponse,
   dashboardFilePath: string,
@@ -319,21 +409,215 @@ async function handleDashboardPage(
 async function handleProgressApi(
   response: ServerResponse,
   progressFilePath: string,
+  redactor: NameRedactor | null,
 ): Promise<void> {
   try {
-    const snapshot = await readProgressSnapshot(progressFilePath);
+    const snapshot = await readProgressSnapshot(progressFilePath, redactor);
     sendJson(response, 200, snapshot.payload);
   } catch (error: unknown) {
-    const payload = mapProgressReadError(error, progressFilePath);
+    const payload = mapProgressReadError(error, progressFilePath, redactor);
     const statusCode = payload.error === "Progress file not found" ? 404 : 500;
     sendJson(response, statusCode, payload);
   }
 }
 
+async function handleRunsApi(
+  response: ServerResponse,
+  historyDir: string,
+  redactor: NameRedactor | null,
+): Promise<void> {
+  try {
+    const runs = await listRuns(historyDir);
+    sendJson(response, 200, {
+      meta: {
+        fetchedAt: new Date().toISOString(),
+        historyDir: describeServedPath(historyDir, redactor),
+      },
+      runs: redactor ? runs.map((run) => redactRunSummary(run, redactor)) : runs,
+    });
+  } catch (error: unknown) {
+    const message = isNodeError(error) ? error.message : "Unknown error";
+    sendJson(response, 500, {
+      error: "Failed to read run history",
+      message,
+    });
+  }
+}
+
+async function handleRunApi(
+  response: ServerResponse,
+  historyDir: string,
+  runId: string,
+  redactor: NameRedactor | null,
+): Promise<void> {
+  try {
+    const run = await readRun(historyDir, runId);
+    if (!run) {
+      sendJson(response, 404, {
+        error: "Run not found",
+        message: `No archived run with id "${runId}".`,
+      });
+      return;
+    }
+    sendJson(response, 200, redactor ? redactRunRecord(run, redactor) : run);
+  } catch (error: unknown) {
+    const message = isNodeError(error) ? error.message : "Unknown error";
+    sendJson(response, 500, {
+      error: "Failed to read run",
+      message,
+    });
+  }
+}
+
+function buildControlPayload(
+  control: RunController | undefined,
+  redactor: NameRedactor | null,
+): unknown {
+  if (!control) {
+    return { available: false, message: CONTROLS_UNAVAILABLE_MESSAGE };
+  }
+  const status = control.status();
+  return { available: true, ...(redactor ? redactControlStatus(status, redactor) : status) };
+}
+
+function handleControlStatus(
+  response: ServerResponse,
+  control: RunController | undefined,
+  redactor: NameRedactor | null,
+): void {
+  sendJson(response, 200, buildControlPayload(control, redactor));
+}
+
+async function readJsonBody(request: IncomingMessage): Promise<unknown> {
+  const chunks: Buffer[] = [];
+  let size = 0;
+  for await (const chunk of request) {
+    size += (chunk as Buffer).length;
+    if (size > MAX_CONTROL_BODY_BYTES) {
+      throw new Error("Request body too large");
+    }
+    chunks.push(chunk as Buffer);
+  }
+  const raw = Buffer.concat(chunks).toString("utf-8");
+  return raw.trim() === "" ? {} : (JSON.parse(raw) as unknown);
+}
+
+async function handleControlAction(
+  request: IncomingMessage,
+  response: ServerResponse,
+  control: RunController | undefined,
+  action: ControlAction,
+  redactor: NameRedactor | null,
+): Promise<void> {
+  // A JSON body cannot be sent by a plain HTML form, which keeps other pages from posting here
+  const contentType = request.headers["content-type"] ?? "";
+  if (!contentType.startsWith("application/json")) {
+    sendJson(response, 415, {
+      error: "Unsupported content type",
+      message: "Send control requests as application/json.",
+    });
+    return;
+  }
+
+  if (!control) {
+    sendJson(response, 409, {
+      error: "Controls unavailable",
+      message: CONTROLS_UNAVAILABLE_MESSAGE,
+    });
+    return;
+  }
+
+  let body: unknown;
+  try {
+    body = await readJsonBody(request);
+  } catch (error: unknown) {
+    const message = isNodeError(error) ? error.message : "Unknown error";
+    sendJson(response, 400, { error: "Invalid request body", message });
+    return;
+  }
+
+  try {
+    if (action === "skip") {
+      const table = (body as { table?: unknown } | null)?.table;
+      if (typeof table !== "string" || table === "") {
+        sendJson(response, 400, {
+          error: "Invalid request body",
+          message: 'Name the table to skip: {"table": "schema.table"}.',
+        });
+        return;
+      }
+      // Pages showing pseudonyms send pseudonyms back
+      control.skipTable(redactor ? redactor.resolveQualified(table) : table);
+    } else {
+      control[action]();
+    }
+  } catch (error: unknown) {
+    const message = isNodeError(error) ? error.message : "Unknown error";
+    sendJson(response, 409, { error: "Control request refused", message });
+    return;
+  }
+
+  sendJson(response, 200, buildControlPayload(control, redactor));
+}
+
+function handleAuthStatus(response: ServerResponse, auth: DashboardAuth): void {
+  sendJson(response, 200, { enabled: auth.enabled });
+}
+
+function handleAuthLinks(
+  request: IncomingMessage,
+  response: ServerResponse,
+  auth: DashboardAuth,
+): void {
+  const contentType = request.headers["content-type"] ?? "";
+  if (!contentType.startsWith("application/json")) {
+    sendJson(response, 415, {
+      error: "Unsupported content type",
+      message: "Send login link requests as application/json.",
+    });
+    return;
+  }
+  if (!auth.enabled) {
+    sendJson(response, 409, {
+      error: "Authentication is off",
+      message: "The dashboard needs no login; share its address instead.",
+    });
+    return;
+  }
+  sendJson(response, 200, {
+    url: buildLoginUrl(`http://${request.headers.host ?? "localhost"}`, auth.createLoginToken()),
+  });
+}
+
+function buildLoginUrl(baseUrl: string, loginToken: string): string {
+  return `${baseUrl}/?login=${encodeURIComponent(loginToken)}`;
+}
+
+function handleUnauthorized(response: ServerResponse, pathname: string): void {
+  if (pathname === "/" || pathname === "/index.html") {
+    sendText(
+      response,
+      401,
+      "This dashboard requires a login link. Ask whoever runs it for one, " +
+        "or send the token in an Authorization: Bearer header.",
+      "text/plain; charset=utf-8",
+    );
+    return;
+  }
+  response.setHeader("WWW-Authenticate", "Bearer");
+  sendJson(response, 401, {
+    error: "Unauthorized",
+    message: "Send the dashboard token in an Authorization: Bearer header, or log in with a link.",
+  });
+}
+
 async function handleProgressStream(
   request: IncomingMessage,
   response: ServerResponse,
   progressFilePath: string,
+  control: RunController | undefined,
+  events: RunEventBus | undefined,
+  redactor: NameRedactor | null,
 ): Promise<void> {
   response.writeHead(200, {
     "Content-Type": "text/event-stream; charset=utf-8",
@@ -346,7 +630,6 @@ async function handleProgressStream(
 
   const clientId = streamState.nextClientId;
   streamState.nextClientId++;
-  streamState.clients.set(clientId, response);
 
   const heartbeat = setInterval(() => {
     response.write(": heartbeat\n\n");
@@ -367,8 +650,22 @@ async function handleProgressStream(
   response.on("close", closeClient);
   response.on("error", closeClient);
 
-  await sendInitialSnapshot(response, progressFilePath);
-  startProgressPolling(progressFilePath);
+  if (events) {
+    await sendRunEventsOrSnapshot(request, response, progressFilePath, events, redactor);
+  } else {
+    await sendInitialSnapshot(response, progressFilePath, redactor);
+  }
+  if (control) {
+    writeSseEvent(response, "control", buildControlPayload(control, redactor));
+  }
+  // Joined after catching up, so broadcasts pick up right where it left off
+  if (isClosed) {
+    return;
+  }
+  streamState.clients.set(clientId, response);
+  if (!events) {
+    startProgressPolling(progressFilePath, redactor);
+  }
 }
 
 function handleNotFound(response: ServerResponse): void {
@@ -380,10 +677,91 @@ function handleNotFound(response: ServerResponse): void {
 async function handleRequest(
   request: IncomingMessage,
   response: ServerResponse,
-  options: CliOptions,
-  dashboardFilePath: string,
+  context: DashboardContext,
 ): Promise<void> {
+  const { options, dashboardFilePath, control, events, auth, isAllowedHost, redactor } = context;
   const method = request.method ?? "GET";
+  const url = new URL(
+    request.url ?? "/",
+    `http://${request.headers.host ?? "localhost"}`,
+  );
+
+  // Before anything else: CORS and cookies trust the Host header
+  if (!isAllowedHost(request.headers.host)) {
+    sendJson(response, 403, {
+      error: "Host not allowed",
+      message: "Add the host name to COST_DASHBOARD_ALLOWED_HOSTS to reach the dashboard by it.",
+    });
+    return;
+  }
+
+  if (!applyCors(request, response, options.security.corsOrigins)) {
+    sendJson(response, 403, {
+      error: "Origin not allowed",
+      message: "Add the page's origin to COST_DASHBOARD_CORS_ORIGINS to call the dashboard from it.",
+    });
+    return;
+  }
+
+  // CORS preflights carry no credentials
+  if (method === "OPTIONS") {
+    response.writeHead(204);
+    response.end();
+    return;
+  }
+
+  if (url.pathname === "/health") {
+    sendJson(response, 200, {
+      status: "ok",
+      now: new Date().toISOString(),
+    });
+    return;
+  }
+
+  // A login link is spent here and swapped for a session cookie
+  const loginToken = url.searchParams.get("login");
+  if (method === "GET" && url.pathname === "/" && loginToken !== null && auth.enabled) {
+    if (!auth.redeemLoginToken(loginToken, response, "/")) {
+      sendText(
+        response,
+        401,
+        "This login link is invalid, expired or was already used. Ask for a new one.",
+        "text/plain; charset=utf-8",
+      );
+    }
+    return;
+  }
+
+  if (!auth.isAuthenticated(request)) {
+    handleUnauthorized(response, url.pathname);
+    return;
+  }
+
+  if (url.pathname === AUTH_LINKS_PATH) {
+    if (method !== "POST") {
+      response.writeHead(405, { Allow: "POST" });
+      response.end();
+      return;
+    }
+    handleAuthLinks(request, response, auth);
+    return;
+  }
+
+  if (url.pathname.startsWith(CONTROL_ACTION_PREFIX)) {
+    const action = url.pathname.slice(CONTROL_ACTION_PREFIX.length) as ControlAction;
+    if (!CONTROL_ACTIONS.includes(action)) {
+      handleNotFound(response);
+      return;
+    }
+    if (method !== "POST") {
+      response.writeHead(405, { Allow: "POST" });
+      response.end();
+      return;
+    }
+    await handleControlAction(request, response, control, action, redactor);
+    return;
+  }
+
   if (method !== "GET" && method !== "HEAD") {
     response.writeHead(405, {
       Allow: "GET, HEAD",
@@ -392,18 +770,35 @@ async function handleRequest(
     return;
   }
 
-  const url = new URL(
-    request.url ?? "/",
-    `http://${request.headers.host ?? "localhost"}`,
-  );
-
   if (url.pathname === "/" || url.pathname === "/index.html") {
     await handleDashboardPage(response, dashboardFilePath);
     return;
   }
 
   if (url.pathname === "/api/progress") {
-    await handleProgressApi(response, options.progressFilePath);
+    await handleProgressApi(response, options.progressFilePath, redactor);
+    return;
+  }
+
+  if (url.pathname === "/api/auth") {
+    handleAuthStatus(response, auth);
+    return;
+  }
+
+  if (url.pathname === "/api/control") {
+    handleControlStatus(response, control, redactor);
+    return;
+  }
+
+  if (url.pathname === "/api/runs") {
+    await handleRunsApi(response, options.historyDir, redactor);
+    return;
+  }
+
+  if (url.pathname.startsWith("/api/runs/")) {
+    // Run ids are "YYYYMMDD-HHMMSS-xxxx"; anything else is rejected by readRun
+    const runId = url.pathname.slice("/api/runs/".length);
+    await handleRunApi(response, options.historyDir, runId, redactor);
     return;
   }
 
@@ -413,15 +808,14 @@ async function handleRequest(
       response.end();
       return;
     }
-    await handleProgressStream(request, response, options.progressFilePath);
-    return;
-  }
-
-  if (url.pathname === "/health") {
-    sendJson(response, 200, {
-      status: "ok",
-      now: new Date().toISOString(),
-    });
+    await handleProgressStream(
+      request,
+      response,
+      options.progressFilePath,
+      control,
+      events,
+      redactor,
+    );
     return;
   }
 
@@ -456,10 +850,22 @@ export async function startProgressDashboard(
   startOptions: ProgressDashboardStartOptions = {},
 ): Promise<ProgressDashboardHandle> {
   const options = resolveRuntimeOptions(startOptions);
-  const dashboardFilePath = getDashboardFilePath();
+  assertSafeBinding(options.host, options.security);
+  const context: DashboardContext = {
+    options,
+    dashboardFilePath: getDashboardFilePath(),
+    control: startOptions.control,
+    events: startOptions.events,
+    auth: new DashboardAuth(options.security.token),
+    isAllowedHost: createHostCheck(options.host, options.port, options.security),
+    redactor: options.security.redactNames ? new NameRedactor() : null,
+  };
+  const { control, events, auth, redactor } = context;
+  const url = `http://${options.host}:${options.port}`;
+  const loginUrl = auth.enabled ? buildLoginUrl(url, auth.createLoginToken()) : null;
 
   const server = createServer((request, response) => {
-    void handleRequest(request, response, options, dashboardFilePath);
+    void handleRequest(request, response, context);
   });
 
   await new Promise<void>((resolveServer, rejectServer) => {
@@ -483,6 +889,20 @@ export async function startProgressDashboard(
         console.log(
           `[progress-dashboard] Real-time stream: http://${options.host}:${options.port}/api/stream`,
         );
+        console.log(
+          `[progress-dashboard] Run history: ${resolve(process.cwd(), options.historyDir)}`,
+        );
+        if (control) {
+          console.log(
+            `[progress-dashboard] Run controls: http://${options.host}:${options.port}/api/control`,
+          );
+        }
+        if (loginUrl) {
+          console.log(`[progress-dashboard] Login link (works once): ${loginUrl}`);
+        }
+        if (redactor) {
+          console.log("[progress-dashboard] Schema, table and column names are redacted.");
+        }
         console.log(
           "[progress-dashboard] Press Ctrl+C to stop.",
         );
@@ -491,18 +911,41 @@ export async function startProgressDashboard(
     });
   });
 
+  // Pause, cancel and skip requests reach every open page, whichever sent them
+  let controlBroadcastTimer: ReturnType<typeof setTimeout> | null = null;
+  const unsubscribeControl = control?.subscribe(() => {
+    if (controlBroadcastTimer !== null || streamState.clients.size === 0) {
+      return;
+    }
+    controlBroadcastTimer = setTimeout(() => {
+      controlBroadcastTimer = null;
+      broadcastSseEvent("control", buildControlPayload(control, redactor));
+    }, CONTROL_BROADCAST_INTERVAL_MS);
+  });
+
+  const unsubscribeEvents = events?.subscribe((published) => {
+    const { id, event } = published;
+    broadcastSseEvent(event.type, redactor ? redactRunEvent(event, redactor) : event, id);
+  });
+
   let closed = false;
 
   return {
     host: options.host,
     port: options.port,
-    url: `http://${options.host}:${options.port}`,
+    url,
     progressFilePath: resolve(process.cwd(), options.progressFilePath),
+    loginUrl,
     close: async () => {
       if (closed) {
         return;
       }
       closed = true;
+      unsubscribeControl?.();
+      unsubscribeEvents?.();
+      if (controlBroadcastTimer !== null) {
+        clearTimeout(controlBroadcastTimer);
+      }
       resetStreamState();
       await new Promise<void>((resolveClose) => {
         server.close(() => resolveClose());
@@ -512,11 +955,18 @@ export async function startProgressDashboard(
 }
 
 async function main(): Promise<void> {
-  const cliOptions = parseCliOptions(process.argv.slice(2));
+  const args = parseCliArgs(process.argv.slice(2));
+  if (args.help) {
+    console.log(formatCliHelp("yarn progress-dashboard"));
+    return;
+  }
+  const cliOptions = parseCliOptions(resolveCliEnv(args));
   await startProgressDashboard({
     progressFilePath: cliOptions.progressFilePath,
+    historyDir: cliOptions.historyDir,
     host: cliOptions.host,
     port: cliOptions.port,
+    security: cliOptions.security,
   });
 }
 
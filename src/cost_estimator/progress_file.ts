@@ -1,46 +1,85 @@
 import { writeFile } from "node:fs/promises";
-
-// Re-use pricing from estimate module would create a circular dependency,
-// so we accept it as a parameter instead.
+import { summarizeSampling } from "./sampling.js";
+import type { SamplingOptions, SamplingSummary, TableSamplingStats } from "./sampling.js";
+import type { TableDeltaEstimate } from "./incremental.js";
+import type { ColumnTokenStats } from "./estimate_worker.js";
+import type { CatalogApproximation } from "./catalog_estimate.js";
+import { computeTieredCost } from "./pricing.js";
+import type { ModelPricingEntry } from "./pricing.js";
+import type { RunEventBus } from "./run_events.js";
 
 // ---------------------------------------------------------------------------
 // Types
 // ---------------------------------------------------------------------------
 
-type TableProgress = {
+export type TableProgress = {
   schema: string;
   table: string;
   rowCount: number;
   tokenCount: number;
-  status: "completed" | "error";
+  tokenCountByModel: Record<string, number>;
+  /** "skipped": skipped from the dashboard; no rows or tokens. */
+  status: "completed" | "error" | "skipped";
   errorMessage?: string;
   completedAt: string;
+  sampling?: TableSamplingStats;
+  delta?: TableDeltaEstimate;
+  /** Reference tokens per column, label included. Key: column name */
+  columnTokens?: Record<string, ColumnTokenStats>;
 };
 
-type ProgressData = {
+type ProgressStatus = "in_progress" | "completed" | "cancelled" | "budget_exceeded";
+
+/** How a run ended. */
+export type ProgressFinalStatus = Exclude<ProgressStatus, "in_progress">;
+
+export type ProgressData = {
   startTime: string;
   lastUpdate: string;
-  status: "in_progress" | "completed";
+  /**
+   * "cancelled": stopped from the dashboard; "budget_exceeded": stopped by the
+   * budget guardrail. Either way the totals cover the finished tables only.
+   */
+  status: ProgressStatus;
   progress: {
     completed: number;
     total: number;
     errors: number;
+    skipped: number;
     percentComplete: number;
   };
   tables: TableProgress[];
   totals: {
     totalTokens: number;
     totalRows: number;
+    tokenCountByModel: Record<string, number>;
     costByModel: Record<string, number>;
+    /** Confidence interval of the totals when tables were sampled. */
+    sampling?: SamplingSummary;
+    /** Incremental mode: totals of the rows changed since the previous run. */
+    delta?: {
+      rowCount: number;
+      totalTokens: number;
+      costByModel: Record<string, number>;
+    };
   };
   elapsedSeconds: number;
+  /** Present when the run estimated from catalog statistics instead of rows. */
+  approximate?: CatalogApproximation;
 };
 
+/** Everything of the progress but the tables. */
+export type ProgressSummary = Omit<ProgressData, "tables">;
+
 export type ProgressFileConfig = {
   filePath: string;
   totalTables: number;
-  /** Price per 1 million tokens for each model. */
-  modelPricing: Record<string, number>;
+  /** Models to price; costs include their volume tiers. */
+  pricingEntries: ModelPricingEntry[];
+  /** Sampling settings of the run, used to report the combined interval. */
+  sampling?: SamplingOptions;
+  /** Also publish every change here, for a dashboard in the same process. */
+  events?: RunEventBus;
 };
 
 // ---------------------------------------------------------------------------
@@ -50,72 +89,144 @@ export type ProgressFileConfig = {
 export class ProgressFileWriter {
   private readonly filePath: string;
   private totalTables: number;
-  private readonly modelPricing: Record<string, number>;
+  private readonly pricingEntries: ModelPricingEntry[];
+  private readonly sampling?: SamplingOptions;
+  private readonly events?: RunEventBus;
   private readonly startTime: Date;
+  private status: ProgressStatus = "in_progress";
+  private approximate?: CatalogApproximation;
   private tables: TableProgress[] = [];
   private errorCount = 0;
+  private skippedCount = 0;
   private writeQueue: Promise<void> = Promise.resolve();
 
   constructor(config: ProgressFileConfig) {
     this.filePath = config.filePath;
     this.totalTables = config.totalTables;
-    this.modelPricing = config.modelPricing;
+    this.pricingEntries = config.pricingEntries;
+    this.sampling = config.sampling;
+    this.events = config.events;
     this.startTime = new Date();
+    this.events?.setSnapshotSource(() => this.buildData());
   }
 
   setTotalTables(total: number): void {
     this.totalTables = total;
   }
 
+  /** Label the run as a catalog-statistics estimate. */
+  setApproximate(approximate: CatalogApproximation): void {
+    this.approximate = approximate;
+  }
+
   /** Create / overwrite the JSON file with the initial empty structure. */
   async initialize(): Promise<void> {
     this.tables = [];
     this.errorCount = 0;
+    this.skippedCount = 0;
+    this.status = "in_progress";
+    this.events?.publish({ type: "run_start", progress: this.buildData() });
     await this.writeToFile();
   }
 
+  /**
+   * A table, or a chunk of one, began on a worker. Only published: the file
+   * lists finished tables.
+   */
+  startTable(schema: string, table: string, chunkLabel?: string): void {
+    this.events?.publish({
+      type: "table_start",
+      schema,
+      table,
+      ...(chunkLabel ? { chunkLabel } : {}),
+    });
+  }
+
+  /** A chunk of a large table finished. Only published, like `startTable`. */
+  completeChunk(schema: string, table: string, completedChunks: number, totalChunks: number): void {
+    this.events?.publish({ type: "chunk_complete", schema, table, completedChunks, totalChunks });
+  }
+
   /** Record a successfully completed table and flush to disk. */
   addCompletedTable(result: {
     schema: string;
     table: string;
     rowCount: number;
     tokenCount: number;
+    tokenCountByModel: Record<string, number>;
+    sampling?: TableSamplingStats;
+    delta?: TableDeltaEstimate;
+    columnTokens?: Record<string, ColumnTokenStats>;
   }): void {
-    this.tables.push({
+    this.addTable("table_complete", {
       schema: result.schema,
       table: result.table,
       rowCount: result.rowCount,
       tokenCount: result.tokenCount,
+      tokenCountByModel: result.tokenCountByModel,
       status: "completed",
       completedAt: new Date().toISOString(),
+      ...(result.sampling ? { sampling: result.sampling } : {}),
+      ...(result.delta ? { delta: result.delta } : {}),
+      ...(result.columnTokens ? { columnTokens: result.columnTokens } : {}),
     });
-    this.enqueueWrite();
   }
 
   /** Record a table that failed and flush to disk. */
   addErrorTable(schema: string, table: string, error: string): void {
     this.errorCount++;
-    this.tables.push({
+    this.addTable("table_error", {
       schema,
       table,
       rowCount: 0,
       tokenCount: 0,
+      tokenCountByModel: {},
       status: "error",
       errorMessage: error,
       completedAt: new Date().toISOString(),
     });
-    this.enqueueWrite();
   }
 
-  /** Mark the process as completed and flush a final snapshot. */
-  async finalize(): Promise<void> {
-    await this.writeToFile("completed");
+  /** Record a table skipped from the dashboard and flush to disk. */
+  addSkippedTable(schema: string, table: string): void {
+    this.skippedCount++;
+    this.addTable("table_skipped", {
+      schema,
+      table,
+      rowCount: 0,
+      tokenCount: 0,
+      tokenCountByModel: {},
+      status: "skipped",
+      completedAt: new Date().toISOString(),
+    });
+  }
+
+  /** Mark the process as completed (or stopped early) and flush a final snapshot. */
+  async finalize(status: ProgressFinalStatus = "completed"): Promise<void> {
+    this.status = status;
+    if (this.events) {
+      const { tables: _tables, ...summary } = this.buildData();
+      this.events.publish({ type: "run_finished", summary });
+    }
+    await this.writeToFile();
   }
 
   // -------------------------------------------------------------------------
   // Private helpers
   // -------------------------------------------------------------------------
 
+  private addTable(
+    type: "table_complete" | "table_error" | "table_skipped",
+    table: TableProgress,
+  ): void {
+    this.tables.push(table);
+    if (this.events) {
+      const { tables: _tables, ...summary } = this.buildData();
+      this.events.publish({ type, table, summary });
+    }
+    this.enqueueWrite();
+  }
+
   private enqueueWrite(): void {
     this.writeQueue = this.writeQueue
       .then(() => this.writeToFile())
@@ -124,39 +235,72 @@ export class ProgressFileWriter {
       });
   }
 
-  private async writeToFile(status: "in_progress" | "completed" = "in_progress"): Promise<void> {
+  private async writeToFile(): Promise<void> {
+    await writeFile(this.filePath, JSON.stringify(this.buildData(), null, 2), "utf-8");
+  }
+
+  private buildData(): ProgressData {
     const now = new Date();
     const elapsedSeconds = Math.floor((now.getTime() - this.startTime.getTime()) / 1000);
 
     const totalTokens = this.tables.reduce((sum, t) => sum + t.tokenCount, 0);
     const totalRows = this.tables.reduce((sum, t) => sum + t.rowCount, 0);
 
+    const tokenCountByModel: Record<string, number> = {};
     const costByModel: Record<string, number> = {};
-    for (const [model, pricePerMillion] of Object.entries(this.modelPricing)) {
-      costByModel[model] = (totalTokens / 1_000_000) * pricePerMillion;
+    for (const entry of this.pricingEntries) {
+      const modelTokens = this.tables.reduce(
+        (sum, t) => sum + (t.tokenCountByModel[entry.model] ?? t.tokenCount),
+        0,
+      );
+      tokenCountByModel[entry.model] = modelTokens;
+      costByModel[entry.model] = computeTieredCost(entry, modelTokens);
+    }
+
+    const deltaTables = this.tables.filter((t) => t.delta);
+    let delta: ProgressData["totals"]["delta"];
+    if (deltaTables.length > 0) {
+      const deltaCostByModel: Record<string, number> = {};
+      for (const entry of this.pricingEntries) {
+        const modelTokens = deltaTables.reduce(
+          (sum, t) => sum + (t.delta!.tokenCountByModel[entry.model] ?? t.delta!.tokenCount),
+          0,
+        );
+        deltaCostByModel[entry.model] = computeTieredCost(entry, modelTokens);
+      }
+      delta = {
+        rowCount: deltaTables.reduce((sum, t) => sum + t.delta!.rowCount, 0),
+        totalTokens: deltaTables.reduce((sum, t) => sum + t.delta!.tokenCount, 0),
+        costByModel: deltaCostByModel,
+      };
     }
 
     const completedCount = this.tables.length;
 
-    const data: ProgressData = {
+    return {
       startTime: this.startTime.toISOString(),
       lastUpdate: now.toISOString(),
-      status,
+      status: this.status,
       progress: {
         completed: completedCount,
         total: this.totalTables,
         errors: this.errorCount,
+        skipped: this.skippedCount,
         percentComplete: this.totalTables > 0 ? Math.round((completedCount / this.totalTables) * 100) : 0,
       },
       tables: this.tables,
       totals: {
         totalTokens,
         totalRows,
+        tokenCountByModel,
         costByModel,
+        ...(this.sampling
+          ? { sampling: summarizeSampling(this.tables, this.sampling, this.pricingEntries) }
+          : {}),
+        ...(delta ? { delta } : {}),
       },
       elapsedSeconds,
+      ...(this.approximate ? { approximate: this.approximate } : {}),
     };
-
-    await writeFile(this.filePath, JSON.stringify(data, null, 2), "utf-8");
   }
 }
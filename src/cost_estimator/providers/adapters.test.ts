@@ -0,0 +1,124 @@
+import assert from "node:assert/strict";
+import { test } from "node:test";
+import { createEmbeddingAdapter } from "./adapters.js";
+import { startMockEmbeddingServer } from "./mock_server.js";
+import type { MockReply } from "./mock_server.js";
+import type { EmbeddingProviderKind } from "./types.js";
+
+const TEXTS = ["first document", "a second, longer document"];
+const DIMENSIONS = 8;
+const RETRY = { maxRetries: 0, timeoutMs: 5_000, baseDelayMs: 1 };
+
+/** Route and body each adapter must send for TEXTS; the mock serves every API. */
+const CASES: {
+  provider: EmbeddingProviderKind;
+  basePath: string;
+  route: string;
+  body: Record<string, unknown>;
+}[] = [
+  {
+    provider: "openai",
+    basePath: "/v1",
+    route: "/v1/embeddings",
+    body: { model: "test-model", input: TEXTS, encoding_format: "float" },
+  },
+  {
+    provider: "openai-compatible",
+    basePath: "/v1",
+    route: "/v1/embeddings",
+    body: { model: "test-model", input: TEXTS, encoding_format: "float" },
+  },
+  {
+    provider: "ollama",
+    basePath: "/api",
+    route: "/api/embed",
+    body: { model: "test-model", input: TEXTS },
+  },
+  {
+    provider: "cohere",
+    basePath: "/v2",
+    route: "/v2/embed",
+    body: {
+      model: "test-model",
+      texts: TEXTS,
+      input_type: "search_document",
+      embedding_types: ["float"],
+    },
+  },
+  {
+    provider: "voyage",
+    basePath: "/v1",
+    route: "/v1/embeddings",
+    body: { model: "test-model", input: TEXTS, input_type: "document" },
+  },
+];
+
+async function embedWithMock(
+  provider: EmbeddingProviderKind,
+  basePath: string,
+  replies: MockReply[] = [],
+) {
+  const server = await startMockEmbeddingServer({ port: 0, dimensions: DIMENSIONS, replies });
+  try {
+    const adapter = createEmbeddingAdapter({
+      provider,
+      model: "test-model",
+      baseUrl: `${server.url}${basePath}/`,
+      apiKey: "test-key",
+      retry: RETRY,
+    });
+    const response = await adapter.embed(TEXTS);
+    return { response, requests: server.requests };
+  } finally {
+    await server.close();
+  }
+}
+
+for (const { provider, basePath, route, body } of CASES) {
+  test(`${provider} adapter sends its API's request and reads one vector per text`, async () => {
+    const { response, requests } = await embedWithMock(provider, basePath);
+
+    assert.equal(requests.length, 1);
+    assert.equal(requests[0].route, route);
+    assert.deepEqual(requests[0].body, body);
+    assert.equal(requests[0].headers.authorization, "Bearer test-key");
+
+    assert.equal(response.vectors.length, TEXTS.length);
+    for (const vector of response.vectors) {
+      assert.equal(vector.length, DIMENSIONS);
+    }
+    assert.notDeepEqual(response.vectors[0], response.vectors[1]);
+    // The mock bills about four characters per token
+    const tokens = TEXTS.reduce((sum, text) => sum + Math.ceil(text.length / 4), 0);
+    assert.equal(response.tokenCount, tokens);
+  });
+
+  test(`${provider} adapter rejects a response with fewer vectors than texts`, async () => {
+    await assert.rejects(embedWithMock(provider, basePath, [{ missingVectors: 1 }]), {
+      message: `${provider} returned 1 embedding(s) for 2 input(s).`,
+    });
+  });
+}
+
+test("every adapter gets the same vectors for the same texts", async () => {
+  const results = await Promise.all(
+    CASES.map(({ provider, basePath }) => embedWithMock(provider, basePath)),
+  );
+  for (const { response } of results.slice(1)) {
+    assert.deepEqual(response.vectors, results[0].response.vectors);
+  }
+});
+
+test("the openai-compatible adapter needs a base URL", () => {
+  assert.throws(
+    () =>
+      createEmbeddingAdapter({
+        provider: "openai-compatible",
+        model: "test-model",
+        baseUrl: null,
+        apiKey: null,
+        retry: RETRY,
+      }),
+    /needs a base URL/,
+  );
+});
@@ -0,0 +1,183 @@
+import { postJson } from "./http.js";
+import type {
+  EmbeddingAdapter,
+  EmbeddingAdapterConfig,
+  EmbeddingProviderKind,
+  EmbeddingResponse,
+} from "./types.js";
+
+// ---------------------------------------------------------------------------
+// Defaults
+// ---------------------------------------------------------------------------
+
+/** API roots; EMBED_BASE_URL replaces them (a proxy, a gateway or a mock server). */
+const DEFAULT_BASE_URLS: Record<EmbeddingProviderKind, string | null> = {
+  openai: "https://api.openai.com/v1",
+  // Self-hosted by definition: vLLM, LocalAI, LM Studio, Azure-style gateways...
+  "openai-compatible": null,
+  ollama: "http://localhost:11434/api",
+  cohere: "https://api.cohere.com/v2",
+  voyage: "https://api.voyageai.com/v1",
+};
+
+/** Env vars an API key is read from when EMBED_API_KEY is unset. */
+export const PROVIDER_API_KEY_ENV: Record<EmbeddingProviderKind, string | null> = {
+  openai: "OPENAI_API_KEY",
+  "openai-compatible": "OPENAI_API_KEY",
+  ollama: null,
+  cohere: "COHERE_API_KEY",
+  voyage: "VOYAGE_API_KEY",
+};
+
+// ---------------------------------------------------------------------------
+// Response shapes
+// ---------------------------------------------------------------------------
+
+/** OpenAI, OpenAI-compatible servers and Voyage. */
+type DataListResponse = {
+  data: { index: number; embedding: number[] }[];
+  usage?: { prompt_tokens?: number; total_tokens?: number };
+};
+
+type OllamaResponse = {
+  embeddings: number[][];
+  prompt_eval_count?: number;
+};
+
+type CohereResponse = {
+  embeddings: { float: number[][] };
+  meta?: { billed_units?: { input_tokens?: number } };
+};
+
+// ---------------------------------------------------------------------------
+// Helpers
+// ---------------------------------------------------------------------------
+
+function resolveBaseUrl(config: EmbeddingAdapterConfig): string {
+  const baseUrl = config.baseUrl ?? DEFAULT_BASE_URLS[config.provider];
+  if (!baseUrl) {
+    throw new Error(`The ${config.provider} provider needs a base URL (EMBED_BASE_URL).`);
+  }
+  return baseUrl.replace(/\/+$/, "");
+}
+
+function bearer(apiKey: string | null): Record<string, string> {
+  return apiKey ? { authorization: `Bearer ${apiKey}` } : {};
+}
+
+function checkVectorCount(vectors: number[][], texts: string[], provider: string): number[][] {
+  if (vectors.length !== texts.length) {
+    throw new Error(
+      `${provider} returned ${vectors.length} embedding(s) for ${texts.length} input(s).`,
+    );
+  }
+  return vectors;
+}
+
+function fromDataList(response: DataListResponse, texts: string[], provider: string): EmbeddingResponse {
+  // The API may answer out of order; `index` is the position of the input
+  const vectors = [...response.data]
+    .sort((a, b) => a.index - b.index)
+    .map((item) => item.embedding);
+  return {
+    vectors: checkVectorCount(vectors, texts, provider),
+    tokenCount: response.usage?.prompt_tokens ?? response.usage?.total_tokens ?? null,
+  };
+}
+
+// ---------------------------------------------------------------------------
+// Adapters
+// ---------------------------------------------------------------------------
+
+function createOpenAIAdapter(config: EmbeddingAdapterConfig): EmbeddingAdapter {
+  const url = `${resolveBaseUrl(config)}/embeddings`;
+  return {
+    provider: config.provider,
+    model: config.model,
+    embed: async (texts, signal) => {
+      const response = await postJson<DataListResponse>(
+        url,
+        { model: config.model, input: texts, encoding_format: "float" },
+        { headers: bearer(config.apiKey), retry: config.retry, signal, onRetry: config.onRetry },
+      );
+      return fromDataList(response, texts, config.provider);
+    },
+  };
+}
+
+function createOllamaAdapter(config: EmbeddingAdapterConfig): EmbeddingAdapter {
+  const url = `${resolveBaseUrl(config)}/embed`;
+  return {
+    provider: config.provider,
+    model: config.model,
+    embed: async (texts, signal) => {
+      const response = await postJson<OllamaResponse>(
+        url,
+        { model: config.model, input: texts },
+        { headers: bearer(config.apiKey), retry: config.retry, signal, onRetry: config.onRetry },
+      );
+      return {
+        vectors: checkVectorCount(response.embeddings, texts, config.provider),
+        tokenCount: response.prompt_eval_count ?? null,
+      };
+    },
+  };
+}
+
+function createCohereAdapter(config: EmbeddingAdapterConfig): EmbeddingAdapter {
+  const url = `${resolveBaseUrl(config)}/embed`;
+  return {
+    provider: config.provider,
+    model: config.model,
+    embed: async (texts, signal) => {
+      const response = await postJson<CohereResponse>(
+        url,
+        {
+          model: config.model,
+          texts,
+          input_type: "search_document",
+          embedding_types: ["float"],
+        },
+        { headers: bearer(config.apiKey), retry: config.retry, signal, onRetry: config.onRetry },
+      );
+      return {
+        vectors: checkVectorCount(response.embeddings.float, texts, config.provider),
+        tokenCount: response.meta?.billed_units?.input_tokens ?? null,
+      };
+    },
+  };
+}
+
+function createVoyageAdapter(config: EmbeddingAdapterConfig): EmbeddingAdapter {
+  const url = `${resolveBaseUrl(config)}/embeddings`;
+  return {
+    provider: config.provider,
+    model: config.model,
+    embed: async (texts, signal) => {
+      const response = await postJson<DataListResponse>(
+        url,
+        { model: config.model, input: texts, input_type: "document" },
+        { headers: bearer(config.apiKey), retry: config.retry, signal, onRetry: config.onRetry },
+      );
+      return fromDataList(response, texts, config.provider);
+    },
+  };
+}
+
+// ---------------------------------------------------------------------------
+// Public API
+// ---------------------------------------------------------------------------
+
+export function createEmbeddingAdapter(config: EmbeddingAdapterConfig): EmbeddingAdapter {
+  switch (config.provider) {
+    case "openai":
+    case "openai-compatible":
+      return createOpenAIAdapter(config);
+    case "ollama":
+      return createOllamaAdapter(config);
+    case "cohere":
+      return createCohereAdapter(config);
+    case "voyage":
+      return createVoyageAdapter(config);
+  }
+}
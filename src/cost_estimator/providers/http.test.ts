@@ -0,0 +1,78 @@
+import assert from "node:assert/strict";
+import { test } from "node:test";
+import { postJson } from "./http.js";
+import { startMockEmbeddingServer } from "./mock_server.js";
+import type { MockReply } from "./mock_server.js";
+import type { RetryPolicy } from "./types.js";
+
+const BODY = { model: "test-model", input: ["some text"] };
+
+type EmbeddingsAnswer = { data: { embedding: number[] }[] };
+
+/** POST to the mock with scripted replies; the retry reasons and request count come back too. */
+async function postToMock(replies: MockReply[], retry: Partial<RetryPolicy> = {}) {
+  const server = await startMockEmbeddingServer({ port: 0, replies });
+  const retries: string[] = [];
+  const startedAt = Date.now();
+  try {
+    const answer = await postJson<EmbeddingsAnswer>(`${server.url}/v1/embeddings`, BODY, {
+      retry: { maxRetries: 3, timeoutMs: 5_000, baseDelayMs: 1, ...retry },
+      onRetry: (_attempt, reason) => retries.push(reason),
+    });
+    return { answer, retries, elapsedMs: Date.now() - startedAt, requests: server.requests };
+  } finally {
+    await server.close();
+  }
+}
+
+test("postJson retries 503 and 429 answers until one succeeds", async () => {
+  const { answer, retries, requests } = await postToMock([
+    { status: 503 },
+    { status: 429, retryAfter: "0" },
+  ]);
+
+  assert.equal(answer.data.length, 1);
+  assert.equal(requests.length, 3);
+  assert.equal(retries.length, 2);
+  assert.match(retries[0], /^HTTP 503 /);
+  assert.match(retries[1], /^HTTP 429 /);
+});
+
+test("postJson waits as long as Retry-After asks", async () => {
+  // The backoff alone would wait a millisecond at most
+  const { elapsedMs, requests } = await postToMock([{ status: 429, retryAfter: "1" }]);
+
+  assert.equal(requests.length, 2);
+  assert.ok(elapsedMs >= 950, `retried after ${elapsedMs} ms`);
+});
+
+test("postJson retries an attempt that runs past its timeout", async () => {
+  const { answer, retries, elapsedMs } = await postToMock([{ delayMs: 1_000 }], {
+    timeoutMs: 100,
+  });
+
+  assert.equal(answer.data.length, 1);
+  assert.equal(retries.length, 1);
+  assert.ok(elapsedMs < 1_000, `answered after ${elapsedMs} ms`);
+});
+
+test("postJson gives up once the retries are spent", async () => {
+  await assert.rejects(postToMock([{ status: 503 }, { status: 503 }], { maxRetries: 1 }), {
+    message: /^HTTP 503 .*\(gave up after 2 attempt\(s\)\)$/,
+  });
+});
+
+test("postJson does not retry a client error", async () => {
+  const server = await startMockEmbeddingServer({ port: 0, replies: [{ status: 400 }] });
+  try {
+    await assert.rejects(
+      postJson(`${server.url}/v1/embeddings`, BODY, {
+        retry: { maxRetries: 3, timeoutMs: 5_000, baseDelayMs: 1 },
+      }),
+      { message: /^HTTP 400 / },
+    );
+    assert.equal(server.requests.length, 1);
+  } finally {
+    await server.close();
+  }
+});
@@ -0,0 +1,111 @@
+import type { RetryPolicy } from "./types.js";
+
+// Longest wait between attempts, Retry-After included
+const MAX_RETRY_DELAY_MS = 60_000;
+
+/** Rate limits, timeouts and server errors are worth another attempt; other 4xx are not. */
+function isRetryableStatus(status: number): boolean {
+  return status === 408 || status === 409 || status === 429 || status >= 500;
+}
+
+/** Retry-After in seconds or as an HTTP date; null when absent or unreadable. */
+function parseRetryAfter(header: string | null): number | null {
+  if (!header) return null;
+  const seconds = Number(header);
+  if (Number.isFinite(seconds)) {
+    return Math.max(0, seconds * 1000);
+  }
+  const date = Date.parse(header);
+  return Number.isNaN(date) ? null : Math.max(0, date - Date.now());
+}
+
+function backoffDelay(attempt: number, policy: RetryPolicy): number {
+  // Full jitter keeps parallel requests from retrying in lockstep
+  const ceiling = Math.min(MAX_RETRY_DELAY_MS, policy.baseDelayMs * 2 ** attempt);
+  return Math.random() * ceiling;
+}
+
+function sleep(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(signal.reason);
+      return;
+    }
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(signal?.reason);
+    };
+    const timer = setTimeout(() => {
+      signal?.removeEventListener("abort", onAbort);
+      resolve();
+    }, ms);
+    signal?.addEventListener("abort", onAbort, { once: true });
+  });
+}
+
+/**
+ * POST a JSON body and parse the JSON answer. Network errors, timeouts and
+ * retryable statuses are retried with exponential backoff, honoring
+ * Retry-After; anything else throws with the status and the start of the body.
+ */
+export async function postJson<T>(
+  url: string,
+  body: unknown,
+  options: {
+    headers?: Record<string, string>;
+    retry: RetryPolicy;
+    signal?: AbortSignal;
+    onRetry?: (attempt: number, reason: string) => void;
+  },
+): Promise<T> {
+  const { retry, signal } = options;
+
+  const waitBeforeRetry = async (
+    attempt: number,
+    reason: string,
+    retryAfterMs: number | null,
+  ): Promise<void> => {
+    if (attempt >= retry.maxRetries) {
+      throw new Error(`${reason} (gave up after ${attempt + 1} attempt(s))`);
+    }
+    options.onRetry?.(attempt + 1, reason);
+    await sleep(
+      Math.min(MAX_RETRY_DELAY_MS, retryAfterMs ?? backoffDelay(attempt, retry)),
+      signal,
+    );
+  };
+
+  for (let attempt = 0; ; attempt++) {
+    const attemptSignal = signal
+      ? AbortSignal.any([signal, AbortSignal.timeout(retry.timeoutMs)])
+      : AbortSignal.timeout(retry.timeoutMs);
+
+    let response: Response;
+    try {
+      response = await fetch(url, {
+        method: "POST",
+        headers: { "content-type": "application/json", ...options.headers },
+        body: JSON.stringify(body),
+        signal: attemptSignal,
+      });
+    } catch (error) {
+      // The caller gave up; a timeout of this attempt alone is retried
+      if (signal?.aborted) {
+        throw error;
+      }
+      const reason = error instanceof Error ? error.message : String(error);
+      await waitBeforeRetry(attempt, reason, null);
+      continue;
+    }
+
+    if (response.ok) {
+      return (await response.json()) as T;
+    }
+    const text = await response.text().catch(() => "");
+    const reason = `HTTP ${response.status} from ${url}: ${text.slice(0, 300)}`;
+    if (!isRetryableStatus(response.status)) {
+      throw new Error(reason);
+    }
+    await waitBeforeRetry(attempt, reason, parseRetryAfter(response.headers.get("retry-after")));
+  }
+}
@@ -0,0 +1,235 @@
+import { createHash } from "node:crypto";
+import { createServer } from "node:http";
+import type { IncomingMessage, ServerResponse } from "node:http";
+import { fileURLToPath } from "node:url";
+
+/**
+ * A local stand-in for the embedding APIs, to run `embed` end to end without
+ * an account or a GPU. Every adapter finds its route under the server root:
+ *
+ *   openai, openai-compatible  POST /v1/embeddings   (EMBED_BASE_URL=<url>/v1)
+ *   voyage                     POST /v1/embeddings   (EMBED_BASE_URL=<url>/v1)
+ *   cohere                     POST /v2/embed        (EMBED_BASE_URL=<url>/v2)
+ *   ollama                     POST /api/embed       (EMBED_BASE_URL=<url>/api)
+ *
+ * Vectors are derived from a hash of the text, so they are stable across
+ * runs. `failureRate` answers that share of requests with 429 or 503, to
+ * exercise retries; tests script exact answers with `replies`.
+ */
+
+export type MockEmbeddingServerOptions = {
+  host?: string;
+  /** 0 picks a free port. */
+  port?: number;
+  dimensions?: number;
+  /** Share of requests answered with a retryable error, in [0, 1). */
+  failureRate?: number;
+  /** Answers to the first requests, in order; later requests get the normal answer. */
+  replies?: MockReply[];
+};
+
+/** How to answer one request instead of the normal way. */
+export type MockReply = {
+  /** Answer with this status and an error body. */
+  status?: number;
+  retryAfter?: string;
+  /** Wait before answering, to run past a client's timeout. */
+  delayMs?: number;
+  /** Leave this many vectors out of a normal answer. */
+  missingVectors?: number;
+};
+
+export type MockRequest = {
+  route: string;
+  headers: IncomingMessage["headers"];
+  body: Record<string, unknown>;
+};
+
+export type MockEmbeddingServerHandle = {
+  url: string;
+  /** Requests received per route, failures included. */
+  requestCounts: Record<string, number>;
+  /** Every request with a JSON body, in arrival order. */
+  requests: MockRequest[];
+  close: () => Promise<void>;
+};
+
+const DEFAULT_HOST = "127.0.0.1";
+const DEFAULT_PORT = 4180;
+const DEFAULT_DIMENSIONS = 8;
+
+function mockVector(text: string, dimensions: number): number[] {
+  const vector: number[] = [];
+  let seed = createHash("sha256").update(text).digest();
+  while (vector.length < dimensions) {
+    for (let i = 0; i + 1 < seed.length && vector.length < dimensions; i += 2) {
+      vector.push(seed.readUInt16BE(i) / 32767.5 - 1);
+    }
+    seed = createHash("sha256").update(seed).digest();
+  }
+  return vector;
+}
+
+/** About four characters per token, like English text under cl100k_base. */
+function mockTokenCount(texts: string[]): number {
+  return texts.reduce((sum, text) => sum + Math.ceil(text.length / 4), 0);
+}
+
+async function readJsonBody(request: IncomingMessage): Promise<Record<string, unknown>> {
+  const chunks: Buffer[] = [];
+  for await (const chunk of request) {
+    chunks.push(chunk as Buffer);
+  }
+  return JSON.parse(Buffer.concat(chunks).toString("utf-8")) as Record<string, unknown>;
+}
+
+function sendJson(response: ServerResponse, status: number, body: unknown): void {
+  response.writeHead(status, { "content-type": "application/json" });
+  response.end(JSON.stringify(body));
+}
+
+function toTexts(value: unknown): string[] | null {
+  if (typeof value === "string") return [value];
+  if (Array.isArray(value) && value.every((item) => typeof item === "string")) {
+    return value as string[];
+  }
+  return null;
+}
+
+export async function startMockEmbeddingServer(
+  options: MockEmbeddingServerOptions = {},
+): Promise<MockEmbeddingServerHandle> {
+  const host = options.host ?? DEFAULT_HOST;
+  const dimensions = options.dimensions ?? DEFAULT_DIMENSIONS;
+  const failureRate = options.failureRate ?? 0;
+  const requestCounts: Record<string, number> = {};
+  const requests: MockRequest[] = [];
+  const replies = [...(options.replies ?? [])];
+
+  const server = createServer((request, response) => {
+    void (async () => {
+      const route = request.url?.split("?")[0] ?? "/";
+      if (request.method !== "POST") {
+        sendJson(response, 404, { error: "not found" });
+        return;
+      }
+      requestCounts[route] = (requestCounts[route] ?? 0) + 1;
+
+      let body: Record<string, unknown>;
+      try {
+        body = await readJsonBody(request);
+      } catch {
+        sendJson(response, 400, { error: "invalid JSON" });
+        return;
+      }
+      requests.push({ route, headers: request.headers, body });
+
+      const reply = replies.shift();
+      if (reply?.delayMs) {
+        await new Promise((resolveDelay) => setTimeout(resolveDelay, reply.delayMs));
+      }
+      if (reply?.status) {
+        response.writeHead(reply.status, {
+          "content-type": "application/json",
+          ...(reply.retryAfter !== undefined ? { "retry-after": reply.retryAfter } : {}),
+        });
+        response.end(JSON.stringify({ error: `status ${reply.status} (mock)` }));
+        return;
+      }
+
+      if (!reply && Math.random() < failureRate) {
+        if (Math.random() < 0.5) {
+          response.writeHead(429, { "content-type": "application/json", "retry-after": "0" });
+          response.end(JSON.stringify({ error: "rate limited (mock)" }));
+        } else {
+          sendJson(response, 503, { error: "unavailable (mock)" });
+        }
+        return;
+      }
+
+      const texts = toTexts(route === "/v2/embed" ? body.texts : body.input);
+      if (!texts || typeof body.model !== "string") {
+        sendJson(response, 400, { error: "model and input texts are required" });
+        return;
+      }
+      const vectors = texts
+        .slice(0, texts.length - (reply?.missingVectors ?? 0))
+        .map((text) => mockVector(text, dimensions));
+      const tokens = mockTokenCount(texts);
+
+      switch (route) {
+        case "/v1/embeddings":
+          sendJson(response, 200, {
+            object: "list",
+            model: body.model,
+            data: vectors.map((embedding, index) => ({ object: "embedding", index, embedding })),
+            usage: { prompt_tokens: tokens, total_tokens: tokens },
+          });
+          return;
+        case "/v2/embed":
+          sendJson(response, 200, {
+            id: "mock",
+            embeddings: { float: vectors },
+            texts,
+            meta: { billed_units: { input_tokens: tokens } },
+          });
+          return;
+        case "/api/embed":
+          sendJson(response, 200, {
+            model: body.model,
+            embeddings: vectors,
+            prompt_eval_count: tokens,
+          });
+          return;
+        default:
+          sendJson(response, 404, { error: `unknown route ${route}` });
+      }
+    })().catch((error: unknown) => {
+      sendJson(response, 500, { error: error instanceof Error ? error.message : String(error) });
+    });
+  });
+
+  await new Promise<void>((resolveServer, rejectServer) => {
+    server.once("error", rejectServer);
+    server.listen(options.port ?? DEFAULT_PORT, host, () => {
+      server.off("error", rejectServer);
+      resolveServer();
+    });
+  });
+
+  const address = server.address();
+  const port = typeof address === "object" && address ? address.port : (options.port ?? DEFAULT_PORT);
+
+  return {
+    url: `http://${host}:${port}`,
+    requestCounts,
+    requests,
+    close: () =>
+      new Promise<void>((resolveClose) => {
+        server.closeAllConnections();
+        server.close(() => resolveClose());
+      }),
+  };
+}
+
+async function main(): Promise<void> {
+  const port = Number.parseInt(process.env.EMBED_MOCK_PORT ?? "", 10);
+  const dimensions = Number.parseInt(process.env.EMBED_MOCK_DIMENSIONS ?? "", 10);
+  const failureRate = Number.parseFloat(process.env.EMBED_MOCK_FAILURE_RATE ?? "");
+
+  const handle = await startMockEmbeddingServer({
+    port: Number.isFinite(port) ? port : DEFAULT_PORT,
+    dimensions: Number.isFinite(dimensions) && dimensions > 0 ? dimensions : DEFAULT_DIMENSIONS,
+    failureRate: Number.isFinite(failureRate) ? failureRate : 0,
+  });
+  console.log(`[mock-embeddings] Running at ${handle.url}`);
+  console.log(`[mock-embeddings] e.g. EMBED_PROVIDER=openai EMBED_BASE_URL=${handle.url}/v1`);
+  console.log("[mock-embeddings] Press Ctrl+C to stop.");
+}
+
+if (process.argv[1] === fileURLToPath(import.meta.url)) {
+  main().catch((error: unknown) => {
+    console.error("[mock-embeddings] Fatal error:", error);
+    process.exit(1);
+  });
+}
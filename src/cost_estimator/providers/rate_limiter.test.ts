@@ -0,0 +1,86 @@
+import assert from "node:assert/strict";
+import { afterEach, mock, test } from "node:test";
+import { RateLimiter } from "./rate_limiter.js";
+
+/** Let admitted requests start; the limiter hops through a few promises first. */
+async function settle(): Promise<void> {
+  for (let i = 0; i < 10; i++) {
+    await new Promise((resolve) => setImmediate(resolve));
+  }
+}
+
+afterEach(() => {
+  mock.timers.reset();
+});
+
+test("no more requests than the concurrency cap run at once", async () => {
+  const limiter = new RateLimiter({
+    requestsPerMinute: null,
+    tokensPerMinute: null,
+    concurrency: 2,
+  });
+  let running = 0;
+  let maxRunning = 0;
+
+  const results = await Promise.all(
+    Array.from({ length: 6 }, (_, i) =>
+      limiter.schedule(1, async () => {
+        running++;
+        maxRunning = Math.max(maxRunning, running);
+        await new Promise((resolve) => setTimeout(resolve, 10));
+        running--;
+        return i;
+      }),
+    ),
+  );
+
+  assert.equal(maxRunning, 2);
+  assert.deepEqual(results, [0, 1, 2, 3, 4, 5]);
+});
+
+test("a request over the per-minute request limit waits for the window to move", async () => {
+  mock.timers.enable({ apis: ["setTimeout", "Date"] });
+  const limiter = new RateLimiter({ requestsPerMinute: 2, tokensPerMinute: null, concurrency: 10 });
+  const started: number[] = [];
+  const done = [1, 2, 3].map((i) => limiter.schedule(1, async () => started.push(i)));
+
+  await settle();
+  assert.deepEqual(started, [1, 2]);
+
+  mock.timers.tick(59_999);
+  await settle();
+  assert.deepEqual(started, [1, 2]);
+
+  mock.timers.tick(1);
+  await settle();
+  assert.deepEqual(started, [1, 2, 3]);
+  await Promise.all(done);
+});
+
+test("a request over the per-minute token limit waits for the window to move", async () => {
+  mock.timers.enable({ apis: ["setTimeout", "Date"] });
+  const limiter = new RateLimiter({
+    requestsPerMinute: null,
+    tokensPerMinute: 100,
+    concurrency: 10,
+  });
+  const started: string[] = [];
+  const done = [
+    limiter.schedule(60, async () => started.push("first")),
+    limiter.schedule(60, async () => started.push("second")),
+    // Larger than the limit on its own: goes once the window is empty
+    limiter.schedule(150, async () => started.push("oversized")),
+  ];
+
+  await settle();
+  assert.deepEqual(started, ["first"]);
+
+  mock.timers.tick(60_000);
+  await settle();
+  assert.deepEqual(started, ["first", "second"]);
+
+  mock.timers.tick(60_000);
+  await settle();
+  assert.deepEqual(started, ["first", "second", "oversized"]);
+  await Promise.all(done);
+});
@@ -0,0 +1,106 @@
+// ---------------------------------------------------------------------------
+// Types
+// ---------------------------------------------------------------------------
+
+export type RateLimits = {
+  /** Requests started per rolling minute; null = unlimited. */
+  requestsPerMinute: number | null;
+  /** Input tokens sent per rolling minute; null = unlimited. */
+  tokensPerMinute: number | null;
+  /** Requests in flight at once. */
+  concurrency: number;
+};
+
+type WindowEntry = { startedAt: number; tokens: number };
+
+const WINDOW_MS = 60_000;
+
+// ---------------------------------------------------------------------------
+// RateLimiter
+// ---------------------------------------------------------------------------
+
+/**
+ * Admits requests in arrival order while they fit the limits of the last
+ * minute and the concurrency cap. A request larger than the token limit on
+ * its own still goes, once the window is empty.
+ */
+export class RateLimiter {
+  private readonly limits: RateLimits;
+  private readonly window: WindowEntry[] = [];
+  private inFlight = 0;
+  private queue: Promise<void> = Promise.resolve();
+  private wake: (() => void) | null = null;
+
+  constructor(limits: RateLimits) {
+    this.limits = limits;
+  }
+
+  /** Run `fn` once a request of `tokens` input tokens is admitted. */
+  async schedule<T>(tokens: number, fn: () => Promise<T>): Promise<T> {
+    const admitted = this.queue.then(() => this.admit(tokens));
+    this.queue = admitted.catch(() => {});
+    await admitted;
+
+    try {
+      return await fn();
+    } finally {
+      this.inFlight--;
+      this.wake?.();
+    }
+  }
+
+  // -------------------------------------------------------------------------
+  // Private helpers
+  // -------------------------------------------------------------------------
+
+  private async admit(tokens: number): Promise<void> {
+    while (true) {
+      const now = Date.now();
+      while (this.window.length > 0 && now - this.window[0].startedAt >= WINDOW_MS) {
+        this.window.shift();
+      }
+
+      const waitMs = this.waitFor(tokens, now);
+      if (waitMs === 0) {
+        this.window.push({ startedAt: now, tokens });
+        this.inFlight++;
+        return;
+      }
+      await this.sleep(waitMs);
+    }
+  }
+
+  /** 0 when the request fits now; otherwise how long to wait (Infinity = until a request ends). */
+  private waitFor(tokens: number, now: number): number {
+    const { requestsPerMinute, tokensPerMinute, concurrency } = this.limits;
+    if (this.inFlight >= concurrency) {
+      return Number.POSITIVE_INFINITY;
+    }
+
+    const untilOldestExpires =
+      this.window.length > 0 ? WINDOW_MS - (now - this.window[0].startedAt) : 0;
+    if (requestsPerMinute !== null && this.window.length >= requestsPerMinute) {
+      return untilOldestExpires;
+    }
+    if (tokensPerMinute !== null && this.window.length > 0) {
+      const windowTokens = this.window.reduce((sum, entry) => sum + entry.tokens, 0);
+      if (windowTokens + tokens > tokensPerMinute) {
+        return untilOldestExpires;
+      }
+    }
+    return 0;
+  }
+
+  /** Resolves after `ms`, or earlier when a request ends. */
+  private sleep(ms: number): Promise<void> {
+    return new Promise((resolve) => {
+      const timer = Number.isFinite(ms) ? setTimeout(() => done(), Math.max(1, ms)) : null;
+      const done = () => {
+        if (timer) clearTimeout(timer);
+        this.wake = null;
+        resolve();
+      };
+      this.wake = done;
+    });
+  }
+}
@@ -0,0 +1,49 @@
+// ---------------------------------------------------------------------------
+// Types
+// ---------------------------------------------------------------------------
+
+/** APIs an embedding adapter can speak. `openai-compatible` is OpenAI's API on another host. */
+export type EmbeddingProviderKind = "openai" | "openai-compatible" | "ollama" | "cohere" | "voyage";
+
+export const EMBEDDING_PROVIDERS: EmbeddingProviderKind[] = [
+  "openai",
+  "openai-compatible",
+  "ollama",
+  "cohere",
+  "voyage",
+];
+
+/** How failed requests are retried. */
+export type RetryPolicy = {
+  /** Attempts after the first; 0 disables retries. */
+  maxRetries: number;
+  /** Per attempt, in milliseconds. */
+  timeoutMs: number;
+  /** First backoff delay; doubled on every retry, with jitter. */
+  baseDelayMs: number;
+};
+
+export type EmbeddingAdapterConfig = {
+  provider: EmbeddingProviderKind;
+  model: string;
+  /** API root, e.g. "https://api.openai.com/v1"; null = the provider's default. */
+  baseUrl: string | null;
+  apiKey: string | null;
+  retry: RetryPolicy;
+  /** Called before each retry, with the reason of the failed attempt. */
+  onRetry?: (attempt: number, reason: string) => void;
+};
+
+export type EmbeddingResponse = {
+  /** One vector per input text, in input order. */
+  vectors: number[][];
+  /** Input tokens the provider reports (and bills); null when it reports none. */
+  tokenCount: number | null;
+};
+
+/** Sends texts to one model of one provider. */
+export type EmbeddingAdapter = {
+  provider: EmbeddingProviderKind;
+  model: string;
+  embed: (texts: string[], signal?: AbortSignal) => Promise<EmbeddingResponse>;
+};
@@ -0,0 +1,95 @@
+import assert from "node:assert/strict";
+import { test } from "node:test";
+import { NameRedactor, redactRunRecord } from "./redaction.js";
+import type { CostReport } from "./report_exporter.js";
+import type { RunHistoryRecord } from "./run_history.js";
+import { defaultVectorStorageOptions, estimateVectorStorage } from "./storage.js";
+import type { TableTokenEstimate } from "./thread_pool.js";
+
+const SCHEMA = "billing_private";
+const TABLE = "customer_invoices";
+const COLUMN = "tax_identifier";
+const PARTITION = "customer_invoices_2024";
+
+function buildRecord(): RunHistoryRecord {
+  const table: TableTokenEstimate = {
+    schema: SCHEMA,
+    table: TABLE,
+    rowCount: 120,
+    tokenCount: 4800,
+    tokenCountByModel: { "text-embedding-3-small": 4800 },
+    chunkingByModel: {},
+    columnTokens: { [COLUMN]: { rowCount: 120, tokenCount: 3600, labelTokenCount: 480 } },
+    partitionTokens: {
+      [`${SCHEMA}.${PARTITION}`]: { rowCount: 120, tokenCount: 4800 },
+    },
+  };
+  const pricingEntry = {
+    provider: "openai",
+    model: "text-embedding-3-small",
+    pricePerMillion: 0.02,
+    maxInputTokens: 8191,
+    dimensions: 1536,
+  };
+  const report = {
+    metadata: {
+      generatedAt: "2026-01-01T00:00:00.000Z",
+      startedAt: "2026-01-01T00:00:00.000Z",
+      durationMs: 1000,
+      database: "db.internal:5432/app",
+      sourceSchemas: [SCHEMA],
+      tableAllowlist: [TABLE],
+      tableBlocklist: [],
+      textColumnsMode: "auto",
+      excludedColumns: [COLUMN],
+      resumed: false,
+      incremental: false,
+    },
+    tables: [table],
+    failedTables: [`${SCHEMA}.${TABLE}_archive`],
+    storage: estimateVectorStorage([table], [pricingEntry] as never, defaultVectorStorageOptions()),
+    budget: {
+      violations: [
+        {
+          scope: "table",
+          model: pricingEntry.model,
+          table: `${SCHEMA}.${TABLE}`,
+          costUsd: 2,
+          limitUsd: 1,
+        },
+      ],
+    },
+    control: { cancelled: false, skippedTables: [`${SCHEMA}.${TABLE}`] },
+    approximate: { tablesWithoutStats: [`${SCHEMA}.${TABLE}`] },
+  } as unknown as CostReport;
+  return {
+    version: 1,
+    id: "20260101-000000-abcd",
+    archivedAt: "2026-01-01T00:00:01.000Z",
+    report,
+    pricingEntries: [],
+  };
+}
+
+test("a redacted run record names no schema, table, partition or column", () => {
+  const record = buildRecord();
+  // The record must hold every name before redaction for the check to mean anything
+  const original = JSON.stringify(record);
+  for (const name of [SCHEMA, TABLE, COLUMN, PARTITION]) {
+    assert.ok(original.includes(name), `fixture misses ${name}`);
+  }
+
+  const redacted = JSON.stringify(redactRunRecord(record, new NameRedactor()));
+  for (const name of [SCHEMA, TABLE, COLUMN, PARTITION, "db.internal"]) {
+    assert.ok(!redacted.includes(name), `redacted record still contains ${name}`);
+  }
+});
+
+test("redacted storage keys match the redacted table names", () => {
+  const redactor = new NameRedactor();
+  const { report } = redactRunRecord(buildRecord(), redactor);
+  const [table] = report.tables;
+  const storageKeys = Object.keys(report.storage.byModel["text-embedding-3-small"].byTable);
+  assert.deepEqual(storageKeys, [`${table.schema}.${table.table}`]);
+  assert.equal(redactor.resolveQualified(storageKeys[0]), `${SCHEMA}.${TABLE}`);
+});
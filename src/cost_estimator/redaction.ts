@@ -0,0 +1,265 @@
+import { createHmac, randomBytes } from "node:crypto";
+import { basename } from "node:path";
+import type { ProgressData, ProgressSummary } from "./progress_file.js";
+import type { RunControlStatus } from "./run_control.js";
+import type { RunEvent } from "./run_events.js";
+import type { RunHistoryRecord, RunHistorySummary } from "./run_history.js";
+
+// Not a column name; rows embedded as JSON
+const WHOLE_ROW_COLUMN = "(whole row)";
+const REDACTED = "[redacted]";
+
+// ---------------------------------------------------------------------------
+// NameRedactor
+// ---------------------------------------------------------------------------
+
+/**
+ * Pseudonyms for schema, table and column names, for payloads shown to
+ * people who should see the numbers but not the database layout. A name
+ * always gets the same pseudonym within a process, so tables still line up
+ * across progress updates; the key is random, so pseudonyms cannot be
+ * matched against guessed names.
+ */
+export class NameRedactor {
+  private readonly key = randomBytes(32);
+  /** Key: pseudonym of a "schema.table" */
+  private readonly qualifiedNames = new Map<string, string>();
+
+  schema(name: string): string {
+    return `schema_${this.digest("schema", name)}`;
+  }
+
+  table(schema: string, table: string): string {
+    return `table_${this.digest("table", `${schema}.${table}`)}`;
+  }
+
+  column(name: string): string {
+    return name === WHOLE_ROW_COLUMN ? name : `column_${this.digest("column", name)}`;
+  }
+
+  /** Pseudonym of a "schema.table" name. */
+  qualified(name: string): string {
+    const separator = name.indexOf(".");
+    const schema = separator < 0 ? "" : name.slice(0, separator);
+    const table = name.slice(separator + 1);
+    const pseudonym =
+      separator < 0
+        ? this.table(schema, table)
+        : `${this.schema(schema)}.${this.table(schema, table)}`;
+    this.qualifiedNames.set(pseudonym, name);
+    return pseudonym;
+  }
+
+  /** The "schema.table" behind a pseudonym handed out by `qualified`; the name itself otherwise. */
+  resolveQualified(name: string): string {
+    return this.qualifiedNames.get(name) ?? name;
+  }
+
+  private digest(kind: string, name: string): string {
+    return createHmac("sha256", this.key).update(`${kind}:${name}`).digest("hex").slice(0, 10);
+  }
+}
+
+// ---------------------------------------------------------------------------
+// Payloads
+// ---------------------------------------------------------------------------
+
+/** Only the file name of a path; directories tell where the run lives. */
+export function redactPath(filePath: string): string {
+  return basename(filePath);
+}
+
+/**
+ * A progress file (as parsed JSON) with names replaced. Error messages are
+ * dropped, since database errors quote relation and column names.
+ */
+export function redactProgress(progress: unknown, redactor: NameRedactor): unknown {
+  if (!isRecord(progress)) {
+    return progress;
+  }
+  const tables = Array.isArray(progress.tables) ? progress.tables : [];
+  return {
+    ...progress,
+    tables: tables.map((table: unknown) =>
+      isRecord(table) ? redactProgressTable(table, redactor) : table,
+    ),
+    ...(isRecord(progress.approximate)
+      ? { approximate: redactApproximation(progress.approximate, redactor) }
+      : {}),
+  };
+}
+
+export function redactRunSummary(
+  summary: RunHistorySummary,
+  redactor: NameRedactor,
+): RunHistorySummary {
+  return {
+    ...summary,
+    database: REDACTED,
+    sourceSchemas: summary.sourceSchemas.map((schema) => redactor.schema(schema)),
+  };
+}
+
+export function redactRunRecord(
+  record: RunHistoryRecord,
+  redactor: NameRedactor,
+): RunHistoryRecord {
+  const { report } = record;
+  const { metadata } = report;
+  return {
+    ...record,
+    report: {
+      ...report,
+      metadata: {
+        ...metadata,
+        database: REDACTED,
+        sourceSchemas: metadata.sourceSchemas.map((schema) => redactor.schema(schema)),
+        tableAllowlist: metadata.tableAllowlist.map((pattern) => redactPattern(pattern)),
+        tableBlocklist: metadata.tableBlocklist.map((pattern) => redactPattern(pattern)),
+        excludedColumns: metadata.excludedColumns.map((column) => redactor.column(column)),
+      },
+      tables: report.tables.map((table) => redactTable(table, redactor)),
+      ...(report.failedTables
+        ? { failedTables: report.failedTables.map((name) => redactor.qualified(name)) }
+        : {}),
+      storage: {
+        ...report.storage,
+        byModel: Object.fromEntries(
+          Object.entries(report.storage.byModel).map(([model, estimate]) => [
+            model,
+            {
+              ...estimate,
+              byTable: renameKeys(estimate.byTable, (name) => redactor.qualified(name)),
+            },
+          ]),
+        ),
+      },
+      ...(report.budget
+        ? {
+            budget: {
+              ...report.budget,
+              violations: report.budget.violations.map((violation) =>
+                violation.table
+                  ? { ...violation, table: redactor.qualified(violation.table) }
+                  : violation,
+              ),
+            },
+          }
+        : {}),
+      ...(report.control
+        ? {
+            control: {
+              ...report.control,
+              skippedTables: report.control.skippedTables.map((name) => redactor.qualified(name)),
+            },
+          }
+        : {}),
+      ...(report.approximate
+        ? { approximate: redactApproximation(report.approximate, redactor) }
+        : {}),
+    },
+  };
+}
+
+export function redactControlStatus(
+  status: RunControlStatus,
+  redactor: NameRedactor,
+): RunControlStatus {
+  return {
+    ...status,
+    tables: Object.fromEntries(
+      Object.entries(status.tables).map(([name, state]) => [redactor.qualified(name), state]),
+    ),
+  };
+}
+
+/** A run event with names replaced, like `redactProgress`. */
+export function redactRunEvent(event: RunEvent, redactor: NameRedactor): RunEvent {
+  switch (event.type) {
+    case "run_start":
+      return { ...event, progress: redactProgress(event.progress, redactor) as ProgressData };
+    case "table_start":
+    case "chunk_complete":
+      return {
+        ...event,
+        schema: redactor.schema(event.schema),
+        table: redactor.table(event.schema, event.table),
+      };
+    case "table_complete":
+    case "table_error":
+    case "table_skipped":
+      return {
+        ...event,
+        table: redactProgressTable(event.table, redactor),
+        summary: redactSummary(event.summary, redactor),
+      };
+    case "run_finished":
+      return { ...event, summary: redactSummary(event.summary, redactor) };
+  }
+}
+
+// ---------------------------------------------------------------------------
+// Private helpers
+// ---------------------------------------------------------------------------
+
+/** A table of a progress file or report: names, column keys and partition keys. */
+function redactTable<T extends object>(table: T, redactor: NameRedactor): T {
+  const { schema, table: name, columnTokens, partitionTokens } = table as Record<string, unknown>;
+  return {
+    ...table,
+    schema: redactor.schema(String(schema)),
+    table: redactor.table(String(schema), String(name)),
+    ...(isRecord(columnTokens)
+      ? { columnTokens: renameKeys(columnTokens, (column) => redactor.column(column)) }
+      : {}),
+    ...(isRecord(partitionTokens)
+      ? { partitionTokens: renameKeys(partitionTokens, (name) => redactor.qualified(name)) }
+      : {}),
+  };
+}
+
+/** A table of the progress file; error messages quote relation and column names. */
+function redactProgressTable<T extends { errorMessage?: unknown }>(
+  table: T,
+  redactor: NameRedactor,
+): T {
+  return {
+    ...redactTable(table, redactor),
+    ...(table.errorMessage !== undefined ? { errorMessage: REDACTED } : {}),
+  };
+}
+
+function redactSummary(summary: ProgressSummary, redactor: NameRedactor): ProgressSummary {
+  return summary.approximate
+    ? { ...summary, approximate: redactApproximation(summary.approximate, redactor) }
+    : summary;
+}
+
+function redactApproximation<T extends { tablesWithoutStats?: unknown }>(
+  approximate: T,
+  redactor: NameRedactor,
+): T {
+  const tables = Array.isArray(approximate.tablesWithoutStats)
+    ? approximate.tablesWithoutStats
+    : [];
+  return {
+    ...approximate,
+    tablesWithoutStats: tables.map((name: unknown) => redactor.qualified(String(name))),
+  };
+}
+
+/** Allow and block lists hold globs and regexes; only "*" says nothing about the schema. */
+function redactPattern(pattern: string): string {
+  return pattern === "*" ? pattern : REDACTED;
+}
+
+function renameKeys<T>(
+  record: Record<string, T>,
+  rename: (key: string) => string,
+): Record<string, T> {
+  return Object.fromEntries(Object.entries(record).map(([key, value]) => [rename(key), value]));
+}
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
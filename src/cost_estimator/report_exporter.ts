@@ -0,0 +1,1306 @@
+import { mkdir, writeFile } from "node:fs/promises";
+import { dirname } from "node:path";
+import type { CostEstimationResult } from "./estimate.js";
+import { comparisonCostModels } from "./compare.js";
+import type { ChangeValue, RunComparison, TableComparison } from "./compare.js";
+import type { TableTokenEstimate } from "./thread_pool.js";
+import {
+  formatPriceAge,
+  formatPricingProvenance,
+  summarizePricingProvenance,
+} from "./pricing.js";
+import type { PricingOrigin, PricingProvenance } from "./pricing.js";
+import { formatBytes, storageBreakdownModels } from "./storage.js";
+import type { StorageSize } from "./storage.js";
+import { formatProjectedDuration } from "./throughput.js";
+import type { ThroughputBottleneck } from "./throughput.js";
+
+// ---------------------------------------------------------------------------
+// Types
+// ---------------------------------------------------------------------------
+
+const REPORT_VERSION = 1;
+
+export type ReportFormat = "json" | "csv" | "markdown" | "html";
+
+export const REPORT_FORMATS: ReportFormat[] = ["json", "csv", "markdown", "html"];
+
+/** How the run was configured; everything a budget ticket needs besides the numbers. */
+export type ReportMetadata = {
+  generatedAt: string;
+  startedAt: string;
+  durationMs: number;
+  /** host:port/database, never the credentials. */
+  database: string;
+  sourceSchemas: string[];
+  tableAllowlist: string[];
+  tableBlocklist: string[];
+  textColumnsMode: string;
+  excludedColumns: string[];
+  resumed: boolean;
+  incremental: boolean;
+};
+
+export type ReportModel = {
+  model: string;
+  pricePerMillion: number;
+  maxInputTokens: number | null;
+  tokens: number;
+  /** API requests of a full embedding job, in full batches. */
+  requestCount: number;
+  /** Projected wall-clock time of that job, and the limit that sets its pace. */
+  durationSeconds: number;
+  durationBottleneck: ThroughputBottleneck | null;
+  /** List price, volume tiers applied. */
+  cost: number;
+  batchPricePerMillion: number | null;
+  /** null when the model has no batch price. */
+  batchCost: number | null;
+  /** Negotiated multiplier; 1 without a discount. */
+  discount: number;
+  discountedCost: number;
+  discountedBatchCost: number | null;
+  /** Where the price came from; null for entries built before provenance was tracked. */
+  priceOrigin: PricingOrigin | null;
+  pricedAt: string | null;
+  /** Present when tables were sampled. */
+  costRange?: { low: number; high: number };
+  /** Present in incremental mode. */
+  changedTokens?: number;
+  changedCost?: number;
+  embeddingCalls: number;
+  rowsOverLimit: number;
+  truncatedRows: number;
+  /** pgvector sizes in bytes; null when the model's dimension is unknown. */
+  dimensions: number | null;
+  tableBytes: number | null;
+  /** Also null when the dimension is over pgvector's index limit. */
+  hnswBytes: number | null;
+  ivfflatBytes: number | null;
+};
+
+export type ReportProvider = {
+  provider: string;
+  models: ReportModel[];
+};
+
+/** The shape written to JSON; the other formats render the same data. */
+export type CostReport = {
+  version: number;
+  metadata: ReportMetadata;
+  totals: {
+    tableCount: number;
+    rowCount: number;
+    /** Tokens under the reference (cl100k_base) tokenizer. */
+    tokenCount: number;
+    changedRowCount?: number;
+    changedTokenCount?: number;
+  };
+  tables: Omit<TableTokenEstimate, "rowHashes">[];
+  /** "schema.table" of tables that failed; present when any did. */
+  failedTables?: string[];
+  providers: ReportProvider[];
+  pricing: PricingProvenance;
+  sampling?: CostEstimationResult["sampling"];
+  chunking: CostEstimationResult["chunking"];
+  storage: CostEstimationResult["storage"];
+  duration: CostEstimationResult["duration"];
+  /** Present when a budget was set. */
+  budget?: CostEstimationResult["budget"];
+  /** Present when the run was cancelled or tables were skipped from the dashboard. */
+  control?: CostEstimationResult["control"];
+  delta?: CostEstimationResult["delta"];
+  /** Present for catalog-statistics estimates (`--quick`). */
+  approximate?: CostEstimationResult["approximate"];
+};
+
+export type ReportExportOptions = {
+  formats: ReportFormat[];
+  /** Path without extension; each format adds its own. */
+  basePath: string;
+};
+
+const DEFAULT_REPORT_BASE_PATH = "./cost_estimation_report";
+/** Default for `compare`, so it does not overwrite the estimate's report. */
+export const DEFAULT_COMPARISON_BASE_PATH = "./cost_comparison_report";
+
+// ---------------------------------------------------------------------------
+// Public helpers
+// ---------------------------------------------------------------------------
+
+/** Host, port and database of a connection URL, without the credentials. */
+export function describeDatabase(connectionUrl: string): string {
+  try {
+    const url = new URL(connectionUrl);
+    return `${url.hostname}:${url.port || "5432"}${url.pathname}`;
+  } catch {
+    return "unknown";
+  }
+}
+
+export function buildCostReport(
+  result: CostEstimationResult,
+  metadata: ReportMetadata,
+): CostReport {
+  const byProvider = new Map<string, ReportModel[]>();
+  for (const entry of result.pricingEntries) {
+    const chunking = result.chunking.byModel[entry.model];
+    const range = result.sampling?.costRangeByModel[entry.model];
+    const storage = result.storage.byModel[entry.model];
+    const breakdown = result.costBreakdownByModel[entry.model];
+    const projection = result.duration.byModel[entry.model];
+    const cost = result.costByModel[entry.model] ?? 0;
+    const models = byProvider.get(entry.provider) ?? [];
+    models.push({
+      model: entry.model,
+      pricePerMillion: entry.pricePerMillion,
+      maxInputTokens: entry.maxInputTokens ?? null,
+      tokens: result.totalTokensByModel[entry.model] ?? result.totalTokens,
+      requestCount: projection?.requestCount ?? 0,
+      durationSeconds: projection?.seconds ?? 0,
+      durationBottleneck: projection?.bottleneck ?? null,
+      cost,
+      batchPricePerMillion: entry.batchPricePerMillion ?? null,
+      batchCost: breakdown?.batch ?? null,
+      discount: breakdown?.discount ?? 1,
+      discountedCost: breakdown?.discounted ?? cost,
+      discountedBatchCost: breakdown?.discountedBatch ?? null,
+      priceOrigin: entry.origin ?? null,
+      pricedAt: entry.pricedAt ?? null,
+      ...(range ? { costRange: range } : {}),
+      ...(result.delta
+        ? {
+            changedTokens: result.delta.totalTokensByModel[entry.model] ?? 0,
+            changedCost: result.delta.costByModel[entry.model] ?? 0,
+          }
+        : {}),
+      embeddingCalls: chunking?.embeddingCalls ?? 0,
+      rowsOverLimit: chunking?.rowsOverLimit ?? 0,
+      truncatedRows: chunking?.truncatedRows ?? 0,
+      dimensions: storage?.dimensions ?? null,
+      tableBytes: storage?.tableBytes ?? null,
+      hnswBytes: storage?.hnswBytes ?? null,
+      ivfflatBytes: storage?.ivfflatBytes ?? null,
+    });
+    byProvider.set(entry.provider, models);
+  }
+
+  return {
+    version: REPORT_VERSION,
+    metadata,
+    totals: {
+      tableCount: result.tables.length,
+      rowCount: result.tables.reduce((sum, t) => sum + t.rowCount, 0),
+      tokenCount: result.totalTokens,
+      ...(result.delta
+        ? {
+            changedRowCount: result.delta.rowCount,
+            changedTokenCount: result.delta.totalTokens,
+          }
+        : {}),
+    },
+    tables: result.tables.map(({ rowHashes: _rowHashes, ...table }) => table),
+    ...(result.failedTables ? { failedTables: result.failedTables } : {}),
+    providers: [...byProvider].map(([provider, models]) => ({ provider, models })),
+    pricing: summarizePricingProvenance(result.pricingEntries),
+    sampling: result.sampling,
+    chunking: result.chunking,
+    storage: result.storage,
+    duration: result.duration,
+    budget: result.budget,
+    ...(result.control ? { control: result.control } : {}),
+    delta: result.delta,
+    approximate: result.approximate,
+  };
+}
+
+/**
+ * Write the report in every requested format. CSV is written as three files:
+ * one row per table, one row per model and one row per model and table for
+ * the pgvector sizes, plus one row per budget violation when a budget is
+ * set. Returns the paths written.
+ */
+export async function exportCostReport(
+  result: CostEstimationResult,
+  metadata: ReportMetadata,
+  options: ReportExportOptions,
+): Promise<string[]> {
+  const report = buildCostReport(result, metadata);
+  const files: [string, string][] = [];
+
+  for (const format of options.formats) {
+    switch (format) {
+      case "json":
+        files.push([`${options.basePath}.json`, JSON.stringify(report, null, 2)]);
+        break;
+      case "csv":
+        files.push([`${options.basePath}.tables.csv`, renderTablesCsv(report)]);
+        files.push([`${options.basePath}.models.csv`, renderModelsCsv(report)]);
+        files.push([`${options.basePath}.storage.csv`, renderStorageCsv(report)]);
+        if (report.budget) {
+          files.push([`${options.basePath}.budget.csv`, renderBudgetCsv(report)]);
+        }
+        break;
+      case "markdown":
+        files.push([`${options.basePath}.md`, renderMarkdownReport(report)]);
+        break;
+      case "html":
+        files.push([`${options.basePath}.html`, renderHtmlReport(report)]);
+        break;
+    }
+  }
+
+  return writeReportFiles(options.basePath, files);
+}
+
+/**
+ * Write a run comparison in every requested format. CSV is written as three
+ * files: one row per table, one row per model, and one row per table and
+ * model for the costs. Returns the paths written.
+ */
+export async function exportComparisonReport(
+  comparison: RunComparison,
+  options: ReportExportOptions,
+): Promise<string[]> {
+  const files: [string, string][] = [];
+
+  for (const format of options.formats) {
+    switch (format) {
+      case "json":
+        files.push([
+          `${options.basePath}.json`,
+          JSON.stringify({ version: REPORT_VERSION, ...comparison }, null, 2),
+        ]);
+        break;
+      case "csv":
+        files.push([`${options.basePath}.tables.csv`, renderComparisonTablesCsv(comparison)]);
+        files.push([`${options.basePath}.models.csv`, renderComparisonModelsCsv(comparison)]);
+        files.push([`${options.basePath}.costs.csv`, renderComparisonCostsCsv(comparison)]);
+        break;
+      case "markdown":
+        files.push([`${options.basePath}.md`, renderMarkdownComparison(comparison)]);
+        break;
+      case "html":
+        files.push([`${options.basePath}.html`, renderHtmlComparison(comparison)]);
+        break;
+    }
+  }
+
+  return writeReportFiles(options.basePath, files);
+}
+
+async function writeReportFiles(basePath: string, files: [string, string][]): Promise<string[]> {
+  await mkdir(dirname(basePath), { recursive: true });
+  for (const [filePath, content] of files) {
+    await writeFile(filePath, content, "utf-8");
+  }
+  return files.map(([filePath]) => filePath);
+}
+
+/**
+ * Read export settings from COST_REPORT_FORMATS / COST_REPORT_PATH (the
+ * `--report` / `--report-path` flags write over them). Returns null when no
+ * format is set.
+ */
+export function parseReportExportOptions(
+  env: NodeJS.ProcessEnv = process.env,
+  defaultBasePath = DEFAULT_REPORT_BASE_PATH,
+): ReportExportOptions | null {
+  const formats = parseReportFormats(env.COST_REPORT_FORMATS ?? "");
+  if (formats.length === 0) {
+    return null;
+  }
+
+  return {
+    formats,
+    basePath: env.COST_REPORT_PATH || defaultBasePath,
+  };
+}
+
+/** Comma-separated list of formats; `md` is accepted for Markdown and `all` for every format. */
+export function parseReportFormats(value: string): ReportFormat[] {
+  const formats = new Set<ReportFormat>();
+  for (const raw of value.split(",")) {
+    const name = raw.trim().toLowerCase();
+    if (!name) continue;
+    if (name === "all") {
+      REPORT_FORMATS.forEach((format) => formats.add(format));
+    } else if (name === "md") {
+      formats.add("markdown");
+    } else if ((REPORT_FORMATS as string[]).includes(name)) {
+      formats.add(name as ReportFormat);
+    } else {
+      throw new Error(
+        `Unknown report format "${raw.trim()}". Use: ${REPORT_FORMATS.join(", ")} or all.`,
+      );
+    }
+  }
+  return [...formats];
+}
+
+// ---------------------------------------------------------------------------
+// CSV
+// ---------------------------------------------------------------------------
+
+function renderTablesCsv(report: CostReport): string {
+  const rows: unknown[][] = [
+    [
+      "schema",
+      "table",
+      "rows",
+      "tokens",
+      "sampled_rows",
+      "tokens_low",
+      "tokens_high",
+      "changed_rows",
+      "changed_tokens",
+      "change_basis",
+    ],
+  ];
+  for (const table of report.tables) {
+    rows.push([
+      table.schema,
+      table.table,
+      table.rowCount,
+      table.tokenCount,
+      table.sampling?.sampledRows,
+      table.sampling?.tokenCountLow,
+      table.sampling?.tokenCountHigh,
+      table.delta?.rowCount,
+      table.delta?.tokenCount,
+      table.delta?.basis,
+    ]);
+  }
+  return toCsv(rows);
+}
+
+function renderModelsCsv(report: CostReport): string {
+  const rows: unknown[][] = [
+    [
+      "provider",
+      "model",
+      "price_per_million",
+      "max_input_tokens",
+      "tokens",
+      "request_count",
+      "duration_seconds",
+      "duration_bottleneck",
+      "cost",
+      "batch_price_per_million",
+      "batch_cost",
+      "discount",
+      "discounted_cost",
+      "discounted_batch_cost",
+      "price_origin",
+      "priced_at",
+      "cost_low",
+      "cost_high",
+      "changed_tokens",
+      "changed_cost",
+      "embedding_calls",
+      "rows_over_limit",
+      "truncated_rows",
+      "dimensions",
+      "table_bytes",
+      "hnsw_bytes",
+      "ivfflat_bytes",
+    ],
+  ];
+  for (const { provider, models } of report.providers) {
+    for (const model of models) {
+      rows.push([
+        provider,
+        model.model,
+        model.pricePerMillion,
+        model.maxInputTokens,
+        model.tokens,
+        model.requestCount,
+        Math.ceil(model.durationSeconds),
+        model.durationBottleneck,
+        model.cost,
+        model.batchPricePerMillion,
+        model.batchCost,
+        model.discount,
+        model.discountedCost,
+        model.discountedBatchCost,
+        model.priceOrigin,
+        model.pricedAt,
+        model.costRange?.low,
+        model.costRange?.high,
+        model.changedTokens,
+        model.changedCost,
+        model.embeddingCalls,
+        model.rowsOverLimit,
+        model.truncatedRows,
+        model.dimensions,
+        model.tableBytes,
+        model.hnswBytes,
+        model.ivfflatBytes,
+      ]);
+    }
+  }
+  return toCsv(rows);
+}
+
+function renderStorageCsv(report: CostReport): string {
+  const rows: unknown[][] = [
+    [
+      "model",
+      "vector_type",
+      "dimensions",
+      "table",
+      "vectors",
+      "table_bytes",
+      "hnsw_bytes",
+      "ivfflat_bytes",
+    ],
+  ];
+  const { vectorType } = report.storage.options;
+  for (const [model, estimate] of Object.entries(report.storage.byModel)) {
+    for (const [table, size] of Object.entries(estimate.byTable)) {
+      rows.push([
+        model,
+        vectorType,
+        estimate.dimensions,
+        table,
+        size.documentCount,
+        size.tableBytes,
+        size.hnswBytes,
+        size.ivfflatBytes,
+      ]);
+    }
+  }
+  return toCsv(rows);
+}
+
+function renderBudgetCsv(report: CostReport): string {
+  const rows: unknown[][] = [["scope", "model", "table", "cost", "limit", "aborted"]];
+  for (const violation of report.budget?.violations ?? []) {
+    rows.push([
+      violation.scope,
+      violation.model,
+      violation.table,
+      violation.costUsd,
+      violation.limitUsd,
+      report.budget?.aborted,
+    ]);
+  }
+  return toCsv(rows);
+}
+
+function renderComparisonTablesCsv(comparison: RunComparison): string {
+  const rows: unknown[][] = [
+    [
+      "table",
+      "status",
+      "rows_before",
+      "rows_after",
+      "rows_change",
+      "tokens_before",
+      "tokens_after",
+      "tokens_change",
+      "tokens_change_percent",
+    ],
+  ];
+  for (const table of comparison.tables) {
+    rows.push([
+      table.table,
+      table.status,
+      table.rows.before,
+      table.rows.after,
+      table.rows.change,
+      table.tokens.before,
+      table.tokens.after,
+      table.tokens.change,
+      table.tokens.changePercent?.toFixed(2),
+    ]);
+  }
+  return toCsv(rows);
+}
+
+function renderComparisonModelsCsv(comparison: RunComparison): string {
+  const rows: unknown[][] = [
+    ["model", "cost_before", "cost_after", "cost_change", "cost_change_percent"],
+  ];
+  for (const [model, cost] of Object.entries(comparison.totals.costByModel)) {
+    rows.push([model, cost.before, cost.after, cost.change, cost.changePercent?.toFixed(2)]);
+  }
+  return toCsv(rows);
+}
+
+function renderComparisonCostsCsv(comparison: RunComparison): string {
+  const rows: unknown[][] = [["table", "model", "cost_before", "cost_after", "cost_change"]];
+  for (const table of comparison.tables) {
+    for (const [model, cost] of Object.entries(table.costByModel)) {
+      rows.push([table.table, model, cost.before, cost.after, cost.change]);
+    }
+  }
+  return toCsv(rows);
+}
+
+function toCsv(rows: unknown[][]): string {
+  return rows.map((row) => row.map(csvCell).join(",")).join("\n") + "\n";
+}
+
+function csvCell(value: unknown): string {
+  if (value === undefined || value === null) {
+    return "";
+  }
+  const text = String(value);
+  return /[",\n\r]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+// ---------------------------------------------------------------------------
+// Markdown
+// ---------------------------------------------------------------------------
+
+function renderMarkdownReport(report: CostReport): string {
+  const { metadata, totals } = report;
+  const lines: string[] = [];
+
+  lines.push("# Embedding Cost Estimation Report");
+  lines.push("");
+  lines.push(`- Generated: ${metadata.generatedAt}`);
+  lines.push(
+    `- Database: \`${metadata.database}\`, schemas ${metadata.sourceSchemas
+      .map((schema) => `\`${schema}\``)
+      .join(", ")}`,
+  );
+  lines.push(`- Duration: ${formatDuration(metadata.durationMs)}`);
+  lines.push(`- Allowlist: ${metadata.tableAllowlist.join(", ") || "-"}`);
+  if (metadata.tableBlocklist.length > 0) {
+    lines.push(`- Blocklist: ${metadata.tableBlocklist.join(", ")}`);
+  }
+  if (metadata.excludedColumns.length > 0) {
+    lines.push(`- Excluded columns: ${metadata.excludedColumns.join(", ")}`);
+  }
+  lines.push(`- Text columns mode: ${metadata.textColumnsMode}`);
+  lines.push(`- Prices: ${formatPricingProvenance(report.pricing, reportTime(report))}`);
+  if (report.approximate) {
+    lines.push("- **Approximate**: estimated from pg_class and pg_stats; no rows were read");
+    if (report.approximate.tablesWithoutStats.length > 0) {
+      lines.push(
+        `- No statistics (counted as empty): ${report.approximate.tablesWithoutStats.join(", ")}`,
+      );
+    }
+  }
+  if (report.sampling) {
+    lines.push(
+      `- Sampling: ${report.sampling.method.toUpperCase()} ${report.sampling.fraction * 100}% ` +
+        `of ${report.sampling.sampledTables} table(s); totals are extrapolated`,
+    );
+  }
+  lines.push("");
+  lines.push(...renderMarkdownBudget(report));
+
+  lines.push("## Tables");
+  lines.push("");
+  lines.push("| Table | Rows | Tokens |");
+  lines.push("| --- | ---: | ---: |");
+  for (const table of report.tables) {
+    lines.push(
+      `| ${escapeMarkdown(`${table.schema}.${table.table}`)} | ` +
+        `${formatInteger(table.rowCount)} | ${formatInteger(table.tokenCount)} |`,
+    );
+    for (const [partition, stats] of Object.entries(table.partitionTokens ?? {})) {
+      lines.push(
+        `| &nbsp;&nbsp;└ ${escapeMarkdown(partition)} | ` +
+          `${formatInteger(stats.rowCount)} | ${formatInteger(stats.tokenCount)} |`,
+      );
+    }
+  }
+  lines.push(
+    `| **Total (${totals.tableCount})** | **${formatInteger(totals.rowCount)}** | ` +
+      `**${formatInteger(totals.tokenCount)}** |`,
+  );
+  lines.push("");
+
+  if (report.delta) {
+    lines.push(`## Changes since ${report.delta.previousRunAt || "the first run"}`);
+    lines.push("");
+    lines.push(
+      `${formatInteger(report.delta.rowCount)} changed rows, ` +
+        `${formatInteger(report.delta.totalTokens)} tokens, ` +
+        `${formatInteger(report.delta.deletedRowCount)} deleted rows.`,
+    );
+    lines.push("");
+  }
+
+  const discounted = hasDiscount(report);
+  lines.push("## Cost per model");
+  for (const { provider, models } of report.providers) {
+    lines.push("");
+    lines.push(`### ${escapeMarkdown(provider.toUpperCase())}`);
+    lines.push("");
+    const headers = [
+      "Model",
+      "Price / 1M",
+      "Source",
+      "Tokens",
+      "Requests",
+      "Duration",
+      "Cost",
+      "Batch",
+    ];
+    if (discounted) headers.push("Discounted", "Discounted batch");
+    if (report.delta) headers.push("Changes only");
+    lines.push(`| ${headers.join(" | ")} |`);
+    lines.push(`| --- | ---: | --- |${" ---: |".repeat(headers.length - 3)}`);
+    for (const model of models) {
+      const cells = [
+        escapeMarkdown(model.model),
+        model.pricePerMillion === 0 ? "free/local" : `$${model.pricePerMillion}`,
+        formatPriceSource(model, reportTime(report)),
+        formatInteger(model.tokens),
+        formatInteger(model.requestCount),
+        formatModelDuration(model),
+        formatCost(model.cost) +
+          (model.costRange
+            ? ` (${formatCost(model.costRange.low)} – ${formatCost(model.costRange.high)})`
+            : ""),
+        formatNullableCost(model.batchCost),
+      ];
+      if (discounted) {
+        cells.push(
+          `${formatCost(model.discountedCost)} (x${model.discount})`,
+          formatNullableCost(model.discountedBatchCost),
+        );
+      }
+      if (report.delta) {
+        cells.push(formatCost(model.changedCost ?? 0));
+      }
+      lines.push(`| ${cells.join(" | ")} |`);
+    }
+  }
+  lines.push("");
+  lines.push(...renderMarkdownStorage(report));
+
+  return lines.join("\n");
+}
+
+function renderMarkdownStorage(report: CostReport): string[] {
+  const { options, byModel, modelsWithoutDimensions } = report.storage;
+  const models = Object.entries(byModel);
+  if (models.length === 0 && modelsWithoutDimensions.length === 0) {
+    return [];
+  }
+
+  const sizeCells = (size: StorageSize) =>
+    `${formatBytes(size.tableBytes)} | ${formatNullableBytes(size.hnswBytes)} | ` +
+    formatNullableBytes(size.ivfflatBytes);
+
+  const lines: string[] = [];
+  lines.push("## pgvector storage");
+  lines.push("");
+  lines.push(
+    `Vector type \`${options.vectorType}\`, HNSW m=${options.hnswM}, ` +
+      `IVFFlat lists=${options.ivfflatLists ?? "auto"}. Table sizes cover \`(id bigint, embedding)\`; ` +
+      "n/a marks a dimension over pgvector's index limit.",
+  );
+  lines.push("");
+  lines.push("| Model | Dims | Vectors | Table | HNSW | IVFFlat |");
+  lines.push("| --- | ---: | ---: | ---: | ---: | ---: |");
+  for (const [model, estimate] of models) {
+    lines.push(
+      `| ${escapeMarkdown(model)} | ${estimate.dimensions} | ` +
+        `${formatInteger(estimate.documentCount)} | ${sizeCells(estimate)} |`,
+    );
+  }
+  if (modelsWithoutDimensions.length > 0) {
+    lines.push("");
+    lines.push(`Unknown dimensions: ${modelsWithoutDimensions.map(escapeMarkdown).join(", ")}`);
+  }
+
+  for (const model of storageBreakdownModels(report.storage)) {
+    lines.push("");
+    lines.push(`### ${escapeMarkdown(model)} per table`);
+    lines.push("");
+    lines.push("| Table | Vectors | Table | HNSW | IVFFlat |");
+    lines.push("| --- | ---: | ---: | ---: | ---: |");
+    for (const [table, size] of Object.entries(byModel[model].byTable)) {
+      lines.push(
+        `| ${escapeMarkdown(table)} | ${formatInteger(size.documentCount)} | ${sizeCells(size)} |`,
+      );
+    }
+  }
+  lines.push("");
+  return lines;
+}
+
+function renderMarkdownBudget(report: CostReport): string[] {
+  const budget = report.budget;
+  if (!budget) {
+    return [];
+  }
+
+  const lines: string[] = [];
+  lines.push("## Budget");
+  lines.push("");
+  lines.push(
+    budget.violations.length === 0
+      ? `Within budget (${describeBudgetScope(report)}).`
+      : `**Over budget**: ${budget.violations.length} violation(s) (${describeBudgetScope(report)}).`,
+  );
+  if (budget.aborted) {
+    lines.push("");
+    lines.push("The run was stopped early; costs cover the finished work only.");
+  }
+  if (budget.violations.length > 0) {
+    lines.push("");
+    lines.push("| Model | Scope | Cost | Limit |");
+    lines.push("| --- | --- | ---: | ---: |");
+    for (const violation of budget.violations) {
+      lines.push(
+        `| ${escapeMarkdown(violation.model)} | ` +
+          `${violation.table ? `table ${escapeMarkdown(violation.table)}` : "total"} | ` +
+          `${formatCost(violation.costUsd)} | ${formatCost(violation.limitUsd)} |`,
+      );
+    }
+  }
+  lines.push("");
+  return lines;
+}
+
+function renderMarkdownComparison(comparison: RunComparison): string {
+  const { before, after, totals } = comparison;
+  const costModels = comparisonCostModels(comparison);
+  const lines: string[] = [];
+
+  lines.push("# Embedding Cost Comparison");
+  lines.push("");
+  lines.push(`- Before: \`${before.filePath}\` (${describeRun(before)})`);
+  lines.push(`- After: \`${after.filePath}\` (${describeRun(after)})`);
+  lines.push(
+    `- Rows: ${formatChange(totals.rows, formatInteger)}; ` +
+      `tokens: ${formatChange(totals.tokens, formatInteger)}`,
+  );
+  lines.push(
+    `- Tables: ${comparison.added.length} added, ${comparison.removed.length} removed, ` +
+      `${comparison.errored.length} errored, ${comparison.skipped.length} skipped, ` +
+      `${comparison.tables.filter((table) => table.status === "changed").length} changed`,
+  );
+  lines.push("");
+
+  lines.push("## Cost per model");
+  lines.push("");
+  lines.push("| Model | Before | After | Change |");
+  lines.push("| --- | ---: | ---: | ---: |");
+  for (const [model, cost] of Object.entries(totals.costByModel)) {
+    lines.push(
+      `| ${escapeMarkdown(model)} | ${formatCost(cost.before)} | ${formatCost(cost.after)} | ` +
+        `${formatSignedCost(cost.change)} (${formatChangePercent(cost)}) |`,
+    );
+  }
+  lines.push("");
+
+  for (const [title, names] of [
+    ["Added tables", comparison.added],
+    ["Removed tables", comparison.removed],
+    ["Errored tables", comparison.errored],
+    ["Skipped tables", comparison.skipped],
+  ] as const) {
+    if (names.length === 0) continue;
+    lines.push(`## ${title}`);
+    lines.push("");
+    for (const name of names) {
+      lines.push(`- ${escapeMarkdown(name)}`);
+    }
+    lines.push("");
+  }
+
+  const tableHeader = () => {
+    const headers = ["Table", "Rows", "Tokens", ...costModels];
+    lines.push(`| ${headers.join(" | ")} |`);
+    lines.push(`| --- |${" ---: |".repeat(headers.length - 1)}`);
+  };
+  const tableRow = (table: TableComparison) =>
+    `| ${escapeMarkdown(table.table)} | ${formatChange(table.rows, formatInteger)} | ` +
+    `${formatChange(table.tokens, formatInteger)} |` +
+    costModels.map((model) => ` ${formatSignedCost(table.costByModel[model].change)} |`).join("");
+
+  if (comparison.topGrowth.length > 0) {
+    lines.push("## Largest growth");
+    lines.push("");
+    tableHeader();
+    comparison.topGrowth.forEach((table) => lines.push(tableRow(table)));
+    lines.push("");
+  }
+
+  // Errored and skipped tables are listed above; their change is not the data's
+  const differing = comparison.tables.filter(
+    (table) =>
+      table.status !== "unchanged" && table.status !== "errored" && table.status !== "skipped",
+  );
+  lines.push("## Table changes");
+  lines.push("");
+  if (differing.length === 0) {
+    lines.push("No table changed.");
+  } else {
+    tableHeader();
+    differing.forEach((table) => lines.push(tableRow(table)));
+  }
+  if (costModels.length < Object.keys(totals.costByModel).length && differing.length > 0) {
+    lines.push("");
+    lines.push(
+      `Per-table costs are shown for the first ${costModels.length} models; ` +
+        "every model is in the CSV export (`.costs.csv`).",
+    );
+  }
+  lines.push("");
+
+  return lines.join("\n");
+}
+
+function escapeMarkdown(value: string): string {
+  return value.replace(/([|\\`*_])/g, "\\$1");
+}
+
+// ---------------------------------------------------------------------------
+// HTML
+// ---------------------------------------------------------------------------
+
+/** A single file with inline styles and no scripts, safe to attach anywhere. */
+function renderHtmlReport(report: CostReport): string {
+  const { metadata, totals } = report;
+
+  const tableRows = report.tables
+    .map((table) =>
+      [
+        `<tr><td>${escapeHtml(`${table.schema}.${table.table}`)}</td>` +
+          `<td class="num">${formatInteger(table.rowCount)}</td>` +
+          `<td class="num">${formatInteger(table.tokenCount)}</td></tr>`,
+        ...Object.entries(table.partitionTokens ?? {}).map(
+          ([partition, stats]) =>
+            `<tr class="partition"><td>&nbsp;&nbsp;└ ${escapeHtml(partition)}</td>` +
+            `<td class="num">${formatInteger(stats.rowCount)}</td>` +
+            `<td class="num">${formatInteger(stats.tokenCount)}</td></tr>`,
+        ),
+      ].join("\n"),
+    )
+    .join("\n");
+
+  const discounted = hasDiscount(report);
+  const providerSections = report.providers
+    .map(({ provider, models }) => {
+      const rows = models
+        .map(
+          (model) =>
+            `<tr><td>${escapeHtml(model.model)}</td>` +
+            `<td class="num">${model.pricePerMillion === 0 ? "free/local" : `$${model.pricePerMillion}`}</td>` +
+            `<td>${escapeHtml(formatPriceSource(model, reportTime(report)))}</td>` +
+            `<td class="num">${formatInteger(model.tokens)}</td>` +
+            `<td class="num">${formatInteger(model.requestCount)}</td>` +
+            `<td class="num">${formatModelDuration(model)}</td>` +
+            `<td class="num">${formatCost(model.cost)}</td>` +
+            `<td class="num">${formatNullableCost(model.batchCost)}</td>` +
+            (discounted
+              ? `<td class="num">${formatCost(model.discountedCost)} (x${model.discount})</td>` +
+                `<td class="num">${formatNullableCost(model.discountedBatchCost)}</td>`
+              : "") +
+            (report.delta ? `<td class="num">${formatCost(model.changedCost ?? 0)}</td>` : "") +
+            "</tr>",
+        )
+        .join("\n");
+      return `<h3>${escapeHtml(provider.toUpperCase())}</h3>
+<table>
+<thead><tr><th>Model</th><th>Price / 1M</th><th>Source</th><th>Tokens</th><th>Requests</th><th>Duration</th><th>Cost</th><th>Batch</th>${discounted ? "<th>Discounted</th><th>Discounted batch</th>" : ""}${report.delta ? "<th>Changes only</th>" : ""}</tr></thead>
+<tbody>
+${rows}
+</tbody>
+</table>`;
+    })
+    .join("\n");
+
+  const storageSection = renderHtmlStorage(report);
+  const budgetSection = renderHtmlBudget(report);
+
+  const details = [
+    ["Generated", metadata.generatedAt],
+    ["Database", metadata.database],
+    ["Schemas", metadata.sourceSchemas.join(", ")],
+    ["Duration", formatDuration(metadata.durationMs)],
+    ["Allowlist", metadata.tableAllowlist.join(", ") || "-"],
+    ["Blocklist", metadata.tableBlocklist.join(", ") || "-"],
+    ["Excluded columns", metadata.excludedColumns.join(", ") || "-"],
+    ["Text columns mode", metadata.textColumnsMode],
+    ["Prices", formatPricingProvenance(report.pricing, reportTime(report))],
+  ]
+    .map(([label, value]) => `<tr><th>${label}</th><td>${escapeHtml(value)}</td></tr>`)
+    .join("\n");
+
+  const notes: string[] = [];
+  if (report.approximate) {
+    notes.push(
+      "Approximate: estimated from pg_class and pg_stats; no rows were read." +
+        (report.approximate.tablesWithoutStats.length > 0
+          ? ` No statistics (counted as empty): ${report.approximate.tablesWithoutStats.join(", ")}.`
+          : ""),
+    );
+  }
+  if (report.sampling) {
+    notes.push(
+      `Sampled ${report.sampling.sampledTables} table(s) with ${report.sampling.method.toUpperCase()} ` +
+        `${report.sampling.fraction * 100}%; totals are extrapolated ` +
+        `(${formatInteger(report.sampling.totalTokensLow)} – ${formatInteger(report.sampling.totalTokensHigh)} tokens).`,
+    );
+  }
+  if (report.delta) {
+    notes.push(
+      `Changes since ${report.delta.previousRunAt || "the first run"}: ` +
+        `${formatInteger(report.delta.rowCount)} rows, ${formatInteger(report.delta.totalTokens)} tokens.`,
+    );
+  }
+
+  return `<!doctype html>
+<html lang="en">
+<head>
+<meta charset="utf-8" />
+<title>Embedding Cost Estimation Report</title>
+<style>
+  body { font-family: system-ui, sans-serif; color: #0f172a; margin: 32px auto; max-width: 960px; padding: 0 16px; }
+  h1 { font-size: 1.6rem; }
+  table { border-collapse: collapse; width: 100%; margin-bottom: 24px; }
+  th, td { border-bottom: 1px solid #e2e8f0; padding: 6px 10px; text-align: left; }
+  th { background: #f8fafc; }
+  td.num, th.num { text-align: right; font-variant-numeric: tabular-nums; }
+  tfoot td { font-weight: 700; }
+  .note { color: #475569; }
+  tr.partition td { color: #475569; font-size: 0.9em; }
+  .over-budget { color: #b91c1c; font-weight: 700; }
+</style>
+</head>
+<body>
+<h1>Embedding Cost Estimation Report</h1>
+<table>
+<tbody>
+${details}
+</tbody>
+</table>
+${notes.map((note) => `<p class="note">${escapeHtml(note)}</p>`).join("\n")}
+${budgetSection}
+<h2>Tables</h2>
+<table>
+<thead><tr><th>Table</th><th class="num">Rows</th><th class="num">Tokens</th></tr></thead>
+<tbody>
+${tableRows}
+</tbody>
+<tfoot><tr><td>Total (${totals.tableCount})</td><td class="num">${formatInteger(totals.rowCount)}</td><td class="num">${formatInteger(totals.tokenCount)}</td></tr></tfoot>
+</table>
+<h2>Cost per model</h2>
+${providerSections}
+${storageSection}
+</body>
+</html>
+`;
+}
+
+function renderHtmlBudget(report: CostReport): string {
+  const budget = report.budget;
+  if (!budget) {
+    return "";
+  }
+
+  const summary =
+    budget.violations.length === 0
+      ? `<p>Within budget (${escapeHtml(describeBudgetScope(report))}).</p>`
+      : `<p class="over-budget">Over budget: ${budget.violations.length} violation(s) ` +
+        `(${escapeHtml(describeBudgetScope(report))}).</p>`;
+  const aborted = budget.aborted
+    ? '<p class="note">The run was stopped early; costs cover the finished work only.</p>'
+    : "";
+  if (budget.violations.length === 0) {
+    return `<h2>Budget</h2>\n${summary}\n${aborted}`;
+  }
+
+  const rows = budget.violations
+    .map(
+      (violation) =>
+        `<tr><td>${escapeHtml(violation.model)}</td>` +
+        `<td>${violation.table ? `table ${escapeHtml(violation.table)}` : "total"}</td>` +
+        `<td class="num">${formatCost(violation.costUsd)}</td>` +
+        `<td class="num">${formatCost(violation.limitUsd)}</td></tr>`,
+    )
+    .join("\n");
+  return `<h2>Budget</h2>
+${summary}
+${aborted}
+<table>
+<thead><tr><th>Model</th><th>Scope</th><th class="num">Cost</th><th class="num">Limit</th></tr></thead>
+<tbody>
+${rows}
+</tbody>
+</table>`;
+}
+
+function renderHtmlComparison(comparison: RunComparison): string {
+  const { before, after, totals } = comparison;
+  const costModels = comparisonCostModels(comparison);
+
+  const details = [
+    ["Before", `${before.filePath} (${describeRun(before)})`],
+    ["After", `${after.filePath} (${describeRun(after)})`],
+    ["Rows", formatChange(totals.rows, formatInteger)],
+    ["Tokens", formatChange(totals.tokens, formatInteger)],
+    [
+      "Tables",
+      `${comparison.added.length} added, ${comparison.removed.length} removed, ` +
+        `${comparison.errored.length} errored, ${comparison.skipped.length} skipped, ` +
+        `${comparison.tables.filter((table) => table.status === "changed").length} changed`,
+    ],
+  ]
+    .map(([label, value]) => `<tr><th>${label}</th><td>${escapeHtml(value)}</td></tr>`)
+    .join("\n");
+
+  const modelRows = Object.entries(totals.costByModel)
+    .map(
+      ([model, cost]) =>
+        `<tr><td>${escapeHtml(model)}</td>` +
+        `<td class="num">${formatCost(cost.before)}</td>` +
+        `<td class="num">${formatCost(cost.after)}</td>` +
+        `<td class="num">${formatSignedCost(cost.change)} (${formatChangePercent(cost)})</td></tr>`,
+    )
+    .join("\n");
+
+  const modelHeaders = costModels
+    .map((model) => `<th class="num">${escapeHtml(model)}</th>`)
+    .join("");
+  const tableSection = (title: string, tables: TableComparison[]) => {
+    if (tables.length === 0) return "";
+    const rows = tables
+      .map(
+        (table) =>
+          `<tr class="${table.status}"><td>${escapeHtml(table.table)}</td>` +
+          `<td>${table.status}</td>` +
+          `<td class="num">${formatChange(table.rows, formatInteger)}</td>` +
+          `<td class="num">${formatChange(table.tokens, formatInteger)}</td>` +
+          costModels
+            .map((model) => table.costByModel[model].change)
+            .map((change) => `<td class="num">${formatSignedCost(change)}</td>`)
+            .join("") +
+          "</tr>",
+      )
+      .join("\n");
+    return `<h2>${title}</h2>
+<table>
+<thead><tr><th>Table</th><th>Status</th><th class="num">Rows</th><th class="num">Tokens</th>${modelHeaders}</tr></thead>
+<tbody>
+${rows}
+</tbody>
+</table>`;
+  };
+
+  const differing = comparison.tables.filter((table) => table.status !== "unchanged");
+  const costNote =
+    costModels.length < Object.keys(totals.costByModel).length && differing.length > 0
+      ? `<p class="note">Per-table costs are shown for the first ${costModels.length} models; ` +
+        "every model is in the CSV export (.costs.csv).</p>"
+      : "";
+
+  return `<!doctype html>
+<html lang="en">
+<head>
+<meta charset="utf-8" />
+<title>Embedding Cost Comparison</title>
+<style>
+  body { font-family: system-ui, sans-serif; color: #0f172a; margin: 32px auto; max-width: 960px; padding: 0 16px; }
+  h1 { font-size: 1.6rem; }
+  table { border-collapse: collapse; width: 100%; margin-bottom: 24px; }
+  th, td { border-bottom: 1px solid #e2e8f0; padding: 6px 10px; text-align: left; }
+  th { background: #f8fafc; }
+  td.num, th.num { text-align: right; font-variant-numeric: tabular-nums; }
+  .note { color: #475569; }
+  tr.added td { color: #15803d; }
+  tr.removed td { color: #b91c1c; }
+  tr.errored td { color: #b45309; }
+  tr.skipped td { color: #64748b; }
+</style>
+</head>
+<body>
+<h1>Embedding Cost Comparison</h1>
+<table>
+<tbody>
+${details}
+</tbody>
+</table>
+<h2>Cost per model</h2>
+<table>
+<thead><tr><th>Model</th><th class="num">Before</th><th class="num">After</th><th class="num">Change</th></tr></thead>
+<tbody>
+${modelRows}
+</tbody>
+</table>
+${tableSection("Largest growth", comparison.topGrowth)}
+${tableSection("Table changes", differing)}
+${differing.length === 0 ? "<p>No table changed.</p>" : ""}
+${costNote}
+</body>
+</html>
+`;
+}
+
+function renderHtmlStorage(report: CostReport): string {
+  const { options, byModel, modelsWithoutDimensions } = report.storage;
+  const models = Object.entries(byModel);
+  if (models.length === 0 && modelsWithoutDimensions.length === 0) {
+    return "";
+  }
+
+  const sizeCells = (size: StorageSize) =>
+    `<td class="num">${formatBytes(size.tableBytes)}</td>` +
+    `<td class="num">${formatNullableBytes(size.hnswBytes)}</td>` +
+    `<td class="num">${formatNullableBytes(size.ivfflatBytes)}</td>`;
+
+  const modelRows = models
+    .map(
+      ([model, estimate]) =>
+        `<tr><td>${escapeHtml(model)}</td>` +
+        `<td class="num">${estimate.dimensions}</td>` +
+        `<td class="num">${formatInteger(estimate.documentCount)}</td>` +
+        sizeCells(estimate) +
+        "</tr>",
+    )
+    .join("\n");
+
+  const breakdowns = storageBreakdownModels(report.storage)
+    .map((model) => {
+      const rows = Object.entries(byModel[model].byTable)
+        .map(
+          ([table, size]) =>
+            `<tr><td>${escapeHtml(table)}</td>` +
+            `<td class="num">${formatInteger(size.documentCount)}</td>` +
+            sizeCells(size) +
+            "</tr>",
+        )
+        .join("\n");
+      return `<h3>${escapeHtml(model)} per table</h3>
+<table>
+<thead><tr><th>Table</th><th class="num">Vectors</th><th class="num">Table</th><th class="num">HNSW</th><th class="num">IVFFlat</th></tr></thead>
+<tbody>
+${rows}
+</tbody>
+</table>`;
+    })
+    .join("\n");
+
+  const notes = [
+    `Vector type ${options.vectorType}, HNSW m=${options.hnswM}, ` +
+      `IVFFlat lists=${options.ivfflatLists ?? "auto"}. Table sizes cover (id bigint, embedding); ` +
+      "n/a marks a dimension over pgvector's index limit.",
+    ...(modelsWithoutDimensions.length > 0
+      ? [`Unknown dimensions: ${modelsWithoutDimensions.join(", ")}.`]
+      : []),
+  ];
+
+  return `<h2>pgvector storage</h2>
+${notes.map((note) => `<p class="note">${escapeHtml(note)}</p>`).join("\n")}
+<table>
+<thead><tr><th>Model</th><th class="num">Dims</th><th class="num">Vectors</th><th class="num">Table</th><th class="num">HNSW</th><th class="num">IVFFlat</th></tr></thead>
+<tbody>
+${modelRows}
+</tbody>
+</table>
+${breakdowns}`;
+}
+
+function escapeHtml(value: string): string {
+  return value
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;")
+    .replace(/'/g, "&#39;");
+}
+
+// ---------------------------------------------------------------------------
+// Private helpers
+// ---------------------------------------------------------------------------
+
+function formatInteger(value: number): string {
+  return Math.round(value).toLocaleString("en-US");
+}
+
+/** Whether any model has a negotiated discount, so the discounted columns are worth showing. */
+/** "every model, changes only", "cheapest model: text-embedding-3-small" */
+function describeBudgetScope(report: CostReport): string {
+  const budget = report.budget;
+  if (!budget) {
+    return "";
+  }
+  const basis =
+    budget.options.basis === "cheapest"
+      ? `cheapest model${budget.checkedModels.length > 0 ? `: ${budget.checkedModels[0]}` : ""}`
+      : "every model";
+  return `${basis}${budget.changesOnly ? ", changes only" : ""}`;
+}
+
+/** Price ages are measured from when the report was generated, not when it is read. */
+function reportTime(report: CostReport): number {
+  return new Date(report.metadata.generatedAt).getTime();
+}
+
+/** "live · 3h", "override · 2d" */
+function formatPriceSource(model: ReportModel, now: number): string {
+  if (!model.priceOrigin) {
+    return "-";
+  }
+  return `${model.priceOrigin} · ${formatPriceAge(model.pricedAt, now)}`;
+}
+
+/** "3h 20m (tokens/min)"; "-" when there is nothing to embed. */
+function formatModelDuration(model: ReportModel): string {
+  if (model.requestCount === 0 || !model.durationBottleneck) {
+    return "-";
+  }
+  const bound =
+    model.durationBottleneck === "concurrency" ? "concurrency" : `${model.durationBottleneck}/min`;
+  return `${formatProjectedDuration(model.durationSeconds)} (${bound})`;
+}
+
+function hasDiscount(report: CostReport): boolean {
+  return report.providers.some(({ models }) => models.some((model) => model.discount !== 1));
+}
+
+function formatNullableCost(value: number | null): string {
+  return value === null ? "-" : formatCost(value);
+}
+
+function formatNullableBytes(bytes: number | null): string {
+  return bytes === null ? "n/a" : formatBytes(bytes);
+}
+
+/** "2025-01-31T10:00:00.000Z, progress file, 2 failed table(s), 1 skipped table(s)" */
+function describeRun(run: RunComparison["before"]): string {
+  return [
+    run.runAt || "unknown date",
+    run.kind === "progress" ? "progress file" : "JSON report",
+    ...(run.completed ? [] : ["unfinished"]),
+    ...(run.errorTables.length > 0 ? [`${run.errorTables.length} failed table(s)`] : []),
+    ...(run.skippedTables.length > 0 ? [`${run.skippedTables.length} skipped table(s)`] : []),
+  ].join(", ");
+}
+
+/** "1,000 → 1,200 (+20.0%)" */
+function formatChange(value: ChangeValue, format: (value: number) => string): string {
+  return `${format(value.before)} → ${format(value.after)} (${formatChangePercent(value)})`;
+}
+
+/** "+12.5%", "-3.0%"; "new" when there was nothing before. */
+function formatChangePercent(value: ChangeValue): string {
+  if (value.changePercent === null) {
+    return value.after === 0 ? "0.0%" : "new";
+  }
+  return `${value.changePercent >= 0 ? "+" : ""}${value.changePercent.toFixed(1)}%`;
+}
+
+function formatSignedCost(value: number): string {
+  return value < 0 ? `-${formatCost(-value)}` : `+${formatCost(value)}`;
+}
+
+function formatCost(value: number): string {
+  return `$${value.toFixed(6)}`;
+}
+
+function formatDuration(ms: number): string {
+  const seconds = Math.round(ms / 1000);
+  return seconds < 60 ? `${seconds}s` : `${Math.floor(seconds / 60)}m ${seconds % 60}s`;
+}
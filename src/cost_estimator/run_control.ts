@@ -0,0 +1,165 @@
+// ---------------------------------------------------------------------------
+// Types
+// ---------------------------------------------------------------------------
+
+/** "finished": every table was dispatched and done; nothing is left to control. */
+export type RunControlState = "running" | "paused" | "cancelled" | "finished";
+
+/** "pending": not dispatched yet; "running": on a worker (or some of its chunks are). */
+export type RunControlTableState = "pending" | "running" | "done" | "skipped";
+
+export type RunControlStatus = {
+  state: RunControlState;
+  /** Key: "schema.table" */
+  tables: Record<string, RunControlTableState>;
+};
+
+type RunControlListener = () => void;
+
+// ---------------------------------------------------------------------------
+// RunController
+// ---------------------------------------------------------------------------
+
+/**
+ * Pause, cancel and skip requests for a run in progress, shared by whoever
+ * sends them (the dashboard) and `processTablesInParallel`, which obeys them:
+ * - paused: nothing new is dispatched; items already on a worker finish
+ * - cancelled: `signal` aborts, so nothing more is dispatched at all
+ * - skipped table: its items are not dispatched and its results are dropped
+ *
+ * A request that does not apply to the current state throws, with a message
+ * meant for the person who sent it.
+ */
+export class RunController {
+  private runState: RunControlState = "running";
+  private readonly tables = new Map<string, RunControlTableState>();
+  private readonly abortController = new AbortController();
+  private readonly listeners = new Set<RunControlListener>();
+
+  /** Aborts on cancel. */
+  get signal(): AbortSignal {
+    return this.abortController.signal;
+  }
+
+  get state(): RunControlState {
+    return this.runState;
+  }
+
+  get isPaused(): boolean {
+    return this.runState === "paused";
+  }
+
+  isSkipped(tableKey: string): boolean {
+    return this.tables.get(tableKey) === "skipped";
+  }
+
+  pause(): void {
+    this.assertActive();
+    if (this.runState === "paused") {
+      throw new Error("The run is already paused.");
+    }
+    this.runState = "paused";
+    this.notify();
+  }
+
+  resume(): void {
+    this.assertActive();
+    if (this.runState !== "paused") {
+      throw new Error("The run is not paused.");
+    }
+    this.runState = "running";
+    this.notify();
+  }
+
+  /** Stop dispatching for good; a paused run is released so its workers can shut down. */
+  cancel(): void {
+    this.assertActive();
+    this.runState = "cancelled";
+    this.abortController.abort();
+    this.notify();
+  }
+
+  skipTable(tableKey: string): void {
+    this.assertActive();
+    const current = this.tables.get(tableKey);
+    if (current === undefined) {
+      throw new Error(`Table ${tableKey} is not part of this run.`);
+    }
+    if (current === "done") {
+      throw new Error(`Table ${tableKey} is already finished.`);
+    }
+    if (current === "skipped") {
+      throw new Error(`Table ${tableKey} is already skipped.`);
+    }
+    this.tables.set(tableKey, "skipped");
+    this.notify();
+  }
+
+  // -- called by the estimator -----------------------------------------------
+
+  /** The run is over; later requests are refused. A cancelled run stays cancelled. */
+  finish(): void {
+    if (this.runState === "running" || this.runState === "paused") {
+      this.runState = "finished";
+      this.notify();
+    }
+  }
+
+  // -- called by the thread pool ---------------------------------------------
+
+  trackTables(tableKeys: string[]): void {
+    for (const key of tableKeys) {
+      if (!this.tables.has(key)) {
+        this.tables.set(key, "pending");
+      }
+    }
+    this.notify();
+  }
+
+  markTableRunning(tableKey: string): void {
+    if (this.tables.get(tableKey) === "pending") {
+      this.tables.set(tableKey, "running");
+      this.notify();
+    }
+  }
+
+  markTableDone(tableKey: string): void {
+    const current = this.tables.get(tableKey);
+    if (current === "pending" || current === "running") {
+      this.tables.set(tableKey, "done");
+      this.notify();
+    }
+  }
+
+  // -- status ----------------------------------------------------------------
+
+  status(): RunControlStatus {
+    return { state: this.runState, tables: Object.fromEntries(this.tables) };
+  }
+
+  /**
+   * Call `listener` after every change, table state changes included; read
+   * `status()` when needed. Returns the unsubscribe function.
+   */
+  subscribe(listener: RunControlListener): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  private assertActive(): void {
+    if (this.runState === "cancelled") {
+      throw new Error("The run was cancelled.");
+    }
+    if (this.runState === "finished") {
+      throw new Error("The run has already finished.");
+    }
+  }
+
+  private notify(): void {
+    for (const listener of this.listeners) {
+      listener();
+    }
+  }
+}
@@ -0,0 +1,136 @@
+import { randomBytes } from "node:crypto";
+import type { ProgressData, ProgressSummary, TableProgress } from "./progress_file.js";
+
+// ---------------------------------------------------------------------------
+// Types
+// ---------------------------------------------------------------------------
+
+/** What happens during a run, as published by `ProgressFileWriter`. */
+export type RunEvent =
+  /** The progress was reset for a new run; `progress` is the whole initial state. */
+  | { type: "run_start"; progress: ProgressData }
+  /** A table, or one chunk of a large table, began on a worker. */
+  | { type: "table_start"; schema: string; table: string; chunkLabel?: string }
+  | {
+      type: "chunk_complete";
+      schema: string;
+      table: string;
+      completedChunks: number;
+      totalChunks: number;
+    }
+  | { type: "table_complete"; table: TableProgress; summary: ProgressSummary }
+  | { type: "table_error"; table: TableProgress; summary: ProgressSummary }
+  | { type: "table_skipped"; table: TableProgress; summary: ProgressSummary }
+  /** Final totals; `summary.status` tells whether the run completed or was stopped early. */
+  | { type: "run_finished"; summary: ProgressSummary };
+
+export type PublishedRunEvent = {
+  /** Unique to this bus, so a reconnecting client can say where it left off. */
+  id: string;
+  event: RunEvent;
+};
+
+type RunEventListener = (published: PublishedRunEvent) => void;
+
+// Chunked tables publish an event per chunk; enough for a page to catch up after a short drop
+const DEFAULT_BUFFER_SIZE = 2000;
+
+// ---------------------------------------------------------------------------
+// RunEventBus
+// ---------------------------------------------------------------------------
+
+/**
+ * In-memory stream of a run's events, for a dashboard running in the same
+ * process as the estimator. The most recent events are kept so a client
+ * that reconnects gets what it missed (`eventsSince`) instead of the whole
+ * state again.
+ *
+ * Ids are "<bus>-<sequence>": an id handed out by another process, or by a
+ * previous run, is never mistaken for a position in this one.
+ */
+export class RunEventBus {
+  private readonly busId = randomBytes(4).toString("hex");
+  private readonly bufferSize: number;
+  private readonly buffer: PublishedRunEvent[] = [];
+  private readonly listeners = new Set<RunEventListener>();
+  private sequence = 0;
+  private snapshotSource: (() => ProgressData) | null = null;
+
+  constructor(bufferSize = DEFAULT_BUFFER_SIZE) {
+    this.bufferSize = bufferSize;
+  }
+
+  /** Id of the latest event; null before the first. */
+  get lastEventId(): string | null {
+    return this.sequence === 0 ? null : this.formatId(this.sequence);
+  }
+
+  publish(event: RunEvent): void {
+    this.sequence++;
+    const published: PublishedRunEvent = { id: this.formatId(this.sequence), event };
+    this.buffer.push(published);
+    if (this.buffer.length > this.bufferSize) {
+      this.buffer.shift();
+    }
+    for (const listener of this.listeners) {
+      listener(published);
+    }
+  }
+
+  /**
+   * Events published after `lastEventId` (all of them for null), oldest
+   * first. Returns null when they cannot be told: an id of another bus, or
+   * events already dropped from the buffer; the client then needs the whole
+   * state (`snapshot`).
+   */
+  eventsSince(lastEventId: string | null): PublishedRunEvent[] | null {
+    const sequence = lastEventId === null ? 0 : this.parseSequence(lastEventId);
+    if (sequence === null) {
+      return null;
+    }
+    const oldestSequence = this.sequence - this.buffer.length + 1;
+    if (sequence < oldestSequence - 1) {
+      return null;
+    }
+    return this.buffer.slice(sequence - oldestSequence + 1);
+  }
+
+  /** Call `listener` with every event from now on. Returns the unsubscribe function. */
+  subscribe(listener: RunEventListener): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  // -- snapshot --------------------------------------------------------------
+
+  /** Set by the publisher: the state every event so far adds up to. */
+  setSnapshotSource(source: () => ProgressData): void {
+    this.snapshotSource = source;
+  }
+
+  /** The current state, consistent with `lastEventId`; null before a publisher is attached. */
+  snapshot(): ProgressData | null {
+    return this.snapshotSource?.() ?? null;
+  }
+
+  private formatId(sequence: number): string {
+    return `${this.busId}-${sequence}`;
+  }
+
+  /** Sequence of an id of this bus; null for anything else. */
+  private parseSequence(id: string): number | null {
+    const separator = id.lastIndexOf("-");
+    const sequence = Number(id.slice(separator + 1));
+    if (
+      id.slice(0, separator) !== this.busId ||
+      !Number.isInteger(sequence) ||
+      sequence < 0 ||
+      sequence > this.sequence
+    ) {
+      return null;
+    }
+    return sequence;
+  }
+}
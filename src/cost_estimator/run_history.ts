@@ -0,0 +1,227 @@
+import { mkdir, readFile, rename, rm, writeFile } from "node:fs/promises";
+import { join, resolve } from "node:path";
+import type { ModelPricingEntry } from "./pricing.js";
+import type { CostReport } from "./report_exporter.js";
+
+// ---------------------------------------------------------------------------
+// Types
+// ---------------------------------------------------------------------------
+
+const HISTORY_VERSION = 1;
+
+/** One archived run: the full JSON report plus the prices it was computed with. */
+export type RunHistoryRecord = {
+  version: number;
+  id: string;
+  archivedAt: string;
+  /** Configuration (`metadata`) and results, as written by `--report json`. */
+  report: CostReport;
+  /** Prices of the run, tiers, discounts and provenance included. */
+  pricingEntries: ModelPricingEntry[];
+};
+
+/** What the history list shows of a run, kept in the index so listing reads one file. */
+export type RunHistorySummary = {
+  id: string;
+  startedAt: string;
+  finishedAt: string;
+  durationMs: number;
+  /** host:port/database, never the credentials. */
+  database: string;
+  sourceSchemas: string[];
+  tableCount: number;
+  rowCount: number;
+  tokenCount: number;
+  /** List price with tiers applied. Key: model name */
+  costByModel: Record<string, number>;
+  resumed: boolean;
+  incremental: boolean;
+  /** Catalog-statistics estimate (`--quick`). */
+  quick: boolean;
+  budgetViolations: number;
+  /** Stopped by the budget guardrail or cancelled; the costs are a lower bound. */
+  stoppedEarly: boolean;
+};
+
+type RunHistoryIndex = {
+  version: number;
+  /** Oldest first. */
+  runs: RunHistorySummary[];
+};
+
+export type RunHistoryOptions = {
+  directory: string;
+  /** Runs kept; the oldest are deleted past it. null = keep every run. */
+  maxRuns: number | null;
+};
+
+const DEFAULT_HISTORY_DIR = "./cost_estimation_history";
+const DEFAULT_MAX_RUNS = 200;
+const INDEX_FILE = "index.json";
+/** The shape `createRunId` gives; anything else (such as "index") is not a run. */
+const RUN_ID_PATTERN = /^\d{8}-\d{6}-[0-9a-f]{4}$/;
+
+// ---------------------------------------------------------------------------
+// Public API
+// ---------------------------------------------------------------------------
+
+/**
+ * Archive a finished run: write its record and add it to the index, dropping
+ * the oldest runs past `maxRuns`. Returns the run's summary.
+ */
+export async function archiveRun(
+  options: RunHistoryOptions,
+  report: CostReport,
+  pricingEntries: ModelPricingEntry[],
+): Promise<RunHistorySummary> {
+  const directory = resolve(options.directory);
+  await mkdir(directory, { recursive: true });
+
+  const archivedAt = new Date();
+  const record: RunHistoryRecord = {
+    version: HISTORY_VERSION,
+    id: createRunId(archivedAt),
+    archivedAt: archivedAt.toISOString(),
+    report,
+    pricingEntries,
+  };
+  await writeJsonFile(join(directory, `${record.id}.json`), record);
+
+  const summary = summarizeRun(record);
+  const runs = [...(await readIndex(directory)).runs, summary];
+  const dropped =
+    options.maxRuns !== null && runs.length > options.maxRuns
+      ? runs.splice(0, runs.length - options.maxRuns)
+      : [];
+  await writeJsonFile(join(directory, INDEX_FILE), { version: HISTORY_VERSION, runs });
+  for (const run of dropped) {
+    await rm(join(directory, `${run.id}.json`), { force: true });
+  }
+
+  return summary;
+}
+
+/** Summaries of the archived runs, newest first. Empty when nothing was archived yet. */
+export async function listRuns(directory: string): Promise<RunHistorySummary[]> {
+  return (await readIndex(resolve(directory))).runs.slice().reverse();
+}
+
+/** The full record of a run. Returns null for an unknown id. */
+export async function readRun(directory: string, id: string): Promise<RunHistoryRecord | null> {
+  // Ids come from URLs; never let one point outside the directory
+  if (!RUN_ID_PATTERN.test(id)) {
+    return null;
+  }
+  try {
+    const raw = await readFile(join(resolve(directory), `${id}.json`), "utf-8");
+    return JSON.parse(raw) as RunHistoryRecord;
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === "ENOENT") {
+      return null;
+    }
+    throw error;
+  }
+}
+
+export function summarizeRun(record: RunHistoryRecord): RunHistorySummary {
+  const { metadata, totals, budget } = record.report;
+  const costByModel: Record<string, number> = {};
+  for (const provider of record.report.providers) {
+    for (const model of provider.models) {
+      costByModel[model.model] = model.cost;
+    }
+  }
+  return {
+    id: record.id,
+    startedAt: metadata.startedAt,
+    finishedAt: metadata.generatedAt,
+    durationMs: metadata.durationMs,
+    database: metadata.database,
+    sourceSchemas: metadata.sourceSchemas,
+    tableCount: totals.tableCount,
+    rowCount: totals.rowCount,
+    tokenCount: totals.tokenCount,
+    costByModel,
+    resumed: metadata.resumed,
+    incremental: metadata.incremental,
+    quick: record.report.approximate !== undefined,
+    budgetViolations: budget?.violations.length ?? 0,
+    stoppedEarly: (budget?.aborted ?? false) || (record.report.control?.cancelled ?? false),
+  };
+}
+
+/**
+ * Read history settings from COST_HISTORY_DIR and COST_HISTORY_MAX_RUNS (0
+ * keeps every run). Returns null when COST_HISTORY_DISABLED is "true".
+ */
+export function parseRunHistoryOptionsFromEnv(
+  env: NodeJS.ProcessEnv = process.env,
+): RunHistoryOptions | null {
+  if (env.COST_HISTORY_DISABLED === "true") {
+    return null;
+  }
+  return {
+    directory: defaultHistoryDirectory(env),
+    maxRuns: parseMaxRuns(env.COST_HISTORY_MAX_RUNS),
+  };
+}
+
+/** Where the history lives, whether or not archiving is on; the dashboard reads it either way. */
+export function defaultHistoryDirectory(env: NodeJS.ProcessEnv = process.env): string {
+  return env.COST_HISTORY_DIR || DEFAULT_HISTORY_DIR;
+}
+
+// ---------------------------------------------------------------------------
+// Private helpers
+// ---------------------------------------------------------------------------
+
+async function readIndex(directory: string): Promise<RunHistoryIndex> {
+  let raw: string;
+  try {
+    raw = await readFile(join(directory, INDEX_FILE), "utf-8");
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === "ENOENT") {
+      return { version: HISTORY_VERSION, runs: [] };
+    }
+    throw error;
+  }
+
+  const data = JSON.parse(raw) as RunHistoryIndex;
+  if (data.version !== HISTORY_VERSION || !Array.isArray(data.runs)) {
+    throw new Error(`Unsupported run history format in ${join(directory, INDEX_FILE)}`);
+  }
+  return data;
+}
+
+async function writeJsonFile(filePath: string, data: unknown): Promise<void> {
+  // Write then rename, so an interrupted write never leaves a torn file
+  const tempPath = `${filePath}.tmp`;
+  await writeFile(tempPath, JSON.stringify(data, null, 2), "utf-8");
+  await rename(tempPath, filePath);
+}
+
+/** "20261019-101500-3f9a": sorts by time, unique enough for runs of one machine. */
+function createRunId(date: Date): string {
+  const stamp = date
+    .toISOString()
+    .replace(/[-:]/g, "")
+    .replace("T", "-")
+    .slice(0, 15);
+  const suffix = Math.floor(Math.random() * 0x10000)
+    .toString(16)
+    .padStart(4, "0");
+  return `${stamp}-${suffix}`;
+}
+
+function parseMaxRuns(value: string | undefined): number | null {
+  if (value === undefined || value.trim() === "") {
+    return DEFAULT_MAX_RUNS;
+  }
+  const parsed = Number.parseInt(value, 10);
+  if (!Number.isFinite(parsed) || parsed < 0) {
+    throw new Error(
+      `Invalid COST_HISTORY_MAX_RUNS "${value}". Use a whole number; 0 keeps every run.`,
+    );
+  }
+  return parsed === 0 ? null : parsed;
+}
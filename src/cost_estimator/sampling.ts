@@ -0,0 +1,282 @@
+import type { SamplingMethod } from "./db/types.js";
+import type { TableSampleSpec } from "./db/postgres.js";
+import { computeTieredCost } from "./pricing.js";
+import type { ModelPricingEntry } from "./pricing.js";
+
+export type { SamplingMethod };
+
+// ---------------------------------------------------------------------------
+// Types
+// ---------------------------------------------------------------------------
+
+export type SamplingOptions = {
+  method: SamplingMethod;
+  /** Fraction of each table to tokenize, in (0, 1). */
+  fraction: number;
+  /** Two-sided confidence level for the reported intervals. Default: 0.95 */
+  confidenceLevel: number;
+  /** Tables with at most this many rows are always read in full. Default: 10000 */
+  minSampledTableRows: number;
+  /** Seed for TABLESAMPLE ... REPEATABLE, so reruns read the same sample. */
+  seed: number;
+};
+
+/** Per-table statistics attached to an extrapolated (sampled) estimate. */
+export type TableSamplingStats = {
+  method: SamplingMethod;
+  fraction: number;
+  /** Rows actually read and tokenized. */
+  sampledRows: number;
+  /** Tokens actually counted in the sampled rows. */
+  sampledTokens: number;
+  /** Standard error of the extrapolated token count. */
+  standardError: number;
+  tokenCountLow: number;
+  tokenCountHigh: number;
+};
+
+/** Run-wide confidence interval combining every sampled table. */
+export type SamplingSummary = {
+  method: SamplingMethod;
+  fraction: number;
+  confidenceLevel: number;
+  sampledTables: number;
+  totalTokensLow: number;
+  totalTokensHigh: number;
+  costRangeByModel: Record<string, { low: number; high: number }>;
+};
+
+const DEFAULT_CONFIDENCE_LEVEL = 0.95;
+const DEFAULT_MIN_SAMPLED_TABLE_ROWS = 10_000;
+const DEFAULT_SEED = 42;
+
+// ---------------------------------------------------------------------------
+// Statistics helpers
+// ---------------------------------------------------------------------------
+
+/**
+ * Inverse of the standard normal CDF (Acklam's rational approximation,
+ * relative error below 1.15e-9).
+ */
+function inverseNormalCdf(p: number): number {
+  const a = [
+    -3.969683028665376e1, 2.209460984245205e2, -2.759285104469687e2,
+    1.38357751867269e2, -3.066479806614716e1, 2.506628277459239,
+  ];
+  const b = [
+    -5.447609879822406e1, 1.615858368580409e2, -1.556989798598866e2,
+    6.680131188771972e1, -1.328068155288572e1,
+  ];
+  const c = [
+    -7.784894002430293e-3, -3.223964580411365e-1, -2.400758277161838,
+    -2.549732539343734, 4.374664141464968, 2.938163982698783,
+  ];
+  const d = [
+    7.784695709041462e-3, 3.224671290700398e-1, 2.445134137142996,
+    3.754408661907416,
+  ];
+  const pLow = 0.02425;
+
+  if (p < pLow) {
+    const q = Math.sqrt(-2 * Math.log(p));
+    return (
+      (((((c[0] * q + c[1]) * q + c[2]) * q + c[3]) * q + c[4]) * q + c[5]) /
+      ((((d[0] * q + d[1]) * q + d[2]) * q + d[3]) * q + 1)
+    );
+  }
+
+  if (p > 1 - pLow) {
+    return -inverseNormalCdf(1 - p);
+  }
+
+  const q = p - 0.5;
+  const r = q * q;
+  return (
+    ((((((a[0] * r + a[1]) * r + a[2]) * r + a[3]) * r + a[4]) * r + a[5]) * q) /
+    (((((b[0] * r + b[1]) * r + b[2]) * r + b[3]) * r + b[4]) * r + 1)
+  );
+}
+
+/** z value of a two-sided interval, e.g. 0.95 → 1.96. */
+export function zScoreForConfidence(confidenceLevel: number): number {
+  return inverseNormalCdf((1 + confidenceLevel) / 2);
+}
+
+// ---------------------------------------------------------------------------
+// Public API
+// ---------------------------------------------------------------------------
+
+/** Whether a table with this many rows should be sampled rather than read in full. */
+export function shouldSampleTable(rowCount: number, options: SamplingOptions): boolean {
+  return options.fraction < 1 && rowCount > options.minSampledTableRows;
+}
+
+export function toTableSampleSpec(options: SamplingOptions): TableSampleSpec {
+  return {
+    method: options.method,
+    percent: options.fraction * 100,
+    seed: options.seed,
+  };
+}
+
+/**
+ * Extrapolate the token count of a whole table from a row sample.
+ *
+ * Treats the sample as a simple random sample of rows: the total is
+ * N · mean and its standard error includes the finite population correction.
+ * SYSTEM sampling picks whole pages, so its interval is optimistic when
+ * similar rows are stored together.
+ */
+export function extrapolateTableSample(params: {
+  populationRows: number;
+  sampledRows: number;
+  tokenSum: number;
+  tokenSumSquares: number;
+  /** Sampled tokens per model; scaled by the same factor as the reference count. */
+  tokenSumByModel: Record<string, number>;
+  options: SamplingOptions;
+}): {
+  rowCount: number;
+  tokenCount: number;
+  tokenCountByModel: Record<string, number>;
+  sampling: TableSamplingStats;
+} {
+  const { sampledRows: n, tokenSum, tokenSumSquares, options } = params;
+  const populationRows = Math.max(params.populationRows, n);
+
+  const mean = n > 0 ? tokenSum / n : 0;
+  const variance =
+    n > 1 ? Math.max(0, (tokenSumSquares - n * mean * mean) / (n - 1)) : 0;
+  const finitePopulationCorrection =
+    populationRows > 0 ? Math.max(0, 1 - n / populationRows) : 0;
+  const standardError =
+    n > 0
+      ? populationRows * Math.sqrt((variance / n) * finitePopulationCorrection)
+      : 0;
+
+  const tokenCount = Math.round(populationRows * mean);
+  const margin = zScoreForConfidence(options.confidenceLevel) * standardError;
+
+  const tokenCountByModel: Record<string, number> = {};
+  for (const [model, sampledTokens] of Object.entries(params.tokenSumByModel)) {
+    tokenCountByModel[model] = n > 0 ? Math.round((sampledTokens / n) * populationRows) : 0;
+  }
+
+  return {
+    rowCount: populationRows,
+    tokenCount,
+    tokenCountByModel,
+    sampling: {
+      method: options.method,
+      fraction: options.fraction,
+      sampledRows: n,
+      sampledTokens: tokenSum,
+      standardError,
+      tokenCountLow: Math.max(tokenSum, Math.floor(tokenCount - margin)),
+      tokenCountHigh: Math.ceil(tokenCount + margin),
+    },
+  };
+}
+
+/**
+ * Combine per-table intervals into a run-wide interval. Tables are sampled
+ * independently, so their variances add up; fully-read tables contribute
+ * their exact count.
+ */
+export function summarizeSampling(
+  tables: {
+    tokenCount: number;
+    tokenCountByModel?: Record<string, number>;
+    sampling?: TableSamplingStats;
+  }[],
+  options: SamplingOptions,
+  pricingEntries: ModelPricingEntry[],
+): SamplingSummary {
+  let totalTokens = 0;
+  let observedTokens = 0;
+  let variance = 0;
+  let sampledTables = 0;
+
+  for (const table of tables) {
+    totalTokens += table.tokenCount;
+    if (table.sampling) {
+      sampledTables++;
+      observedTokens += table.sampling.sampledTokens;
+      variance += table.sampling.standardError ** 2;
+    } else {
+      observedTokens += table.tokenCount;
+    }
+  }
+
+  const margin = zScoreForConfidence(options.confidenceLevel) * Math.sqrt(variance);
+  const totalTokensLow = Math.max(observedTokens, Math.floor(totalTokens - margin));
+  const totalTokensHigh = Math.ceil(totalTokens + margin);
+
+  // The interval is computed on reference tokens; each model's bounds scale
+  // with its own token total relative to the reference.
+  const costRangeByModel: Record<string, { low: number; high: number }> = {};
+  for (const entry of pricingEntries) {
+    const modelTokens = tables.reduce(
+      (sum, table) => sum + (table.tokenCountByModel?.[entry.model] ?? table.tokenCount),
+      0,
+    );
+    const ratio = totalTokens > 0 ? modelTokens / totalTokens : 1;
+    costRangeByModel[entry.model] = {
+      low: computeTieredCost(entry, totalTokensLow * ratio),
+      high: computeTieredCost(entry, totalTokensHigh * ratio),
+    };
+  }
+
+  return {
+    method: options.method,
+    fraction: options.fraction,
+    confidenceLevel: options.confidenceLevel,
+    sampledTables,
+    totalTokensLow,
+    totalTokensHigh,
+    costRangeByModel,
+  };
+}
+
+/**
+ * Read sampling settings from the environment. Returns null (full scan)
+ * unless SAMPLING_FRACTION is set to a value strictly between 0 and 1.
+ */
+export function parseSamplingOptionsFromEnv(
+  env: NodeJS.ProcessEnv = process.env,
+): SamplingOptions | null {
+  const fraction = Number.parseFloat(env.SAMPLING_FRACTION ?? "");
+  if (!Number.isFinite(fraction) || fraction <= 0 || fraction >= 1) {
+    return null;
+  }
+
+  const confidenceLevel = Number.parseFloat(env.SAMPLING_CONFIDENCE ?? "");
+  const minSampledTableRows = Number.parseInt(env.SAMPLING_MIN_ROWS ?? "", 10);
+  const seed = Number.parseFloat(env.SAMPLING_SEED ?? "");
+
+  return {
+    method: env.SAMPLING_METHOD?.trim().toLowerCase() === "system" ? "system" : "bernoulli",
+    fraction,
+    confidenceLevel:
+      Number.isFinite(confidenceLevel) && confidenceLevel > 0 && confidenceLevel < 1
+        ? confidenceLevel
+        : DEFAULT_CONFIDENCE_LEVEL,
+    minSampledTableRows:
+      Number.isFinite(minSampledTableRows) && minSampledTableRows >= 0
+        ? minSampledTableRows
+        : DEFAULT_MIN_SAMPLED_TABLE_ROWS,
+    seed: Number.isFinite(seed) ? seed : DEFAULT_SEED,
+  };
+}
+
+export function createSamplingOptions(
+  overrides: Partial<SamplingOptions> & { fraction: number },
+): SamplingOptions {
+  return {
+    method: "bernoulli",
+    confidenceLevel: DEFAULT_CONFIDENCE_LEVEL,
+    minSampledTableRows: DEFAULT_MIN_SAMPLED_TABLE_ROWS,
+    seed: DEFAULT_SEED,
+    ...overrides,
+  };
+}
@@ -0,0 +1,307 @@
+import type { ModelChunkingStats } from "./chunking.js";
+import type { ModelPricingEntry } from "./pricing.js";
+
+// ---------------------------------------------------------------------------
+// Types
+// ---------------------------------------------------------------------------
+
+/** pgvector column types: 4-byte floats, 2-byte floats, or one bit per dimension. */
+export type VectorType = "vector" | "halfvec" | "bit";
+
+export const VECTOR_TYPES: VectorType[] = ["vector", "halfvec", "bit"];
+
+export type VectorStorageOptions = {
+  vectorType: VectorType;
+  /**
+   * Vector dimension per model, over the one LiteLLM reports. Key: model
+   * name, or "*" for every model.
+   */
+  dimensions: Record<string, number>;
+  /** HNSW `m`: neighbors per element on upper layers (twice that on layer 0). */
+  hnswM: number;
+  /** IVFFlat `lists`; null = pgvector's advice per table (rows / 1000, √rows above 1M rows). */
+  ivfflatLists: number | null;
+};
+
+/** On-disk size of one embeddings table, in bytes. */
+export type StorageSize = {
+  /** Vectors stored: one per row, or one per piece when documents are split. */
+  documentCount: number;
+  /** Heap and TOAST of a `(id bigint, embedding <type>(dims))` table. */
+  tableBytes: number;
+  /** null when the dimension is over pgvector's index limit for the type. */
+  hnswBytes: number | null;
+  ivfflatBytes: number | null;
+};
+
+export type ModelStorageEstimate = StorageSize & {
+  dimensions: number;
+  /** Key: "schema.table" */
+  byTable: Record<string, StorageSize>;
+};
+
+export type VectorStorageSummary = {
+  options: VectorStorageOptions;
+  /** Key: model name */
+  byModel: Record<string, ModelStorageEstimate>;
+  /** Priced models whose vector dimension is unknown; set VECTOR_DIMENSIONS to size them. */
+  modelsWithoutDimensions: string[];
+};
+
+// ---------------------------------------------------------------------------
+// PostgreSQL and pgvector layout constants (8 kB pages)
+// ---------------------------------------------------------------------------
+
+const PAGE_SIZE = 8192;
+const PAGE_HEADER = 24;
+const ITEM_ID = 4;
+const HEAP_TUPLE_HEADER = 24;
+const MAX_HEAP_TUPLES_PER_PAGE = 291;
+/** Rows wider than this move their vector to TOAST (pgvector stores vectors EXTERNAL). */
+const TOAST_TUPLE_THRESHOLD = 2032;
+const TOAST_MAX_CHUNK_SIZE = 1996;
+const TOAST_POINTER = 18;
+/** Leaf pages of a freshly built B-tree are 90% full. */
+const BTREE_FILL = 0.9;
+/** Both index AMs keep 8 bytes of special space per page. */
+const INDEX_PAGE_USABLE = PAGE_SIZE - PAGE_HEADER - 8;
+/** Fixed part of an HNSW element tuple: flags, ten heap TIDs, the neighbor TID. */
+const HNSW_ELEMENT_HEADER = 72;
+const HNSW_NEIGHBOR_HEADER = 4;
+const ITEM_POINTER = 6;
+/** The highest HNSW layer worth summing the level distribution to. */
+const HNSW_MAX_LEVEL = 16;
+
+/** Dimensions pgvector can index (HNSW and IVFFlat alike). */
+const INDEX_DIMENSION_LIMITS: Record<VectorType, number> = {
+  vector: 2000,
+  halfvec: 4000,
+  bit: 64000,
+};
+
+const DEFAULT_HNSW_M = 16;
+
+// ---------------------------------------------------------------------------
+// Size model
+// ---------------------------------------------------------------------------
+
+function maxAlign(bytes: number): number {
+  return Math.ceil(bytes / 8) * 8;
+}
+
+/** Bytes of one stored value, varlena header included. */
+function vectorValueBytes(vectorType: VectorType, dimensions: number): number {
+  switch (vectorType) {
+    case "vector":
+      return 8 + 4 * dimensions;
+    case "halfvec":
+      return 8 + 2 * dimensions;
+    case "bit":
+      return 8 + Math.ceil(dimensions / 8);
+  }
+}
+
+/** Pages for `count` items of `itemBytes` each, packed whole into `usable` bytes per page. */
+function packedPages(count: number, itemBytes: number, usable: number, maxPerPage = Infinity): number {
+  if (count <= 0) return 0;
+  const perPage = Math.min(maxPerPage, Math.floor(usable / itemBytes));
+  return perPage >= 1 ? Math.ceil(count / perPage) : Math.ceil((count * itemBytes) / usable);
+}
+
+function tableBytes(documents: number, valueBytes: number): number {
+  const usable = PAGE_SIZE - PAGE_HEADER;
+  const inlineRow = HEAP_TUPLE_HEADER + 8 + valueBytes;
+
+  if (inlineRow <= TOAST_TUPLE_THRESHOLD) {
+    const rowBytes = maxAlign(inlineRow) + ITEM_ID;
+    return packedPages(documents, rowBytes, usable, MAX_HEAP_TUPLES_PER_PAGE) * PAGE_SIZE;
+  }
+
+  // The row keeps a TOAST pointer; the value is cut into chunks of its own table
+  const heapPages = packedPages(
+    documents,
+    maxAlign(HEAP_TUPLE_HEADER + 8 + TOAST_POINTER) + ITEM_ID,
+    usable,
+    MAX_HEAP_TUPLES_PER_PAGE,
+  );
+  const fullChunks = Math.floor(valueBytes / TOAST_MAX_CHUNK_SIZE);
+  const remainder = valueBytes % TOAST_MAX_CHUNK_SIZE;
+  // chunk_id oid, chunk_seq int4 and the chunk's varlena header
+  const chunkTuple = (dataBytes: number) => maxAlign(HEAP_TUPLE_HEADER + 12 + dataBytes) + ITEM_ID;
+  const chunkBytes = fullChunks * chunkTuple(TOAST_MAX_CHUNK_SIZE) +
+    (remainder > 0 ? chunkTuple(remainder) : 0);
+  const chunks = fullChunks + (remainder > 0 ? 1 : 0);
+  const toastPages = Math.ceil((documents * chunkBytes) / usable);
+  // B-tree on (chunk_id, chunk_seq): 16-byte tuples, plus the meta page
+  const toastIndexPages = 1 + Math.ceil((documents * chunks * (16 + ITEM_ID)) / (usable * BTREE_FILL));
+
+  return (heapPages + toastPages + toastIndexPages) * PAGE_SIZE;
+}
+
+/** Average neighbor tuple: level L holds (L + 2) * m neighbor slots, P(level >= L) = m^-L. */
+function averageHnswNeighborBytes(m: number): number {
+  let bytes = 0;
+  for (let level = 0; level <= HNSW_MAX_LEVEL; level++) {
+    const probability = m ** -level - m ** -(level + 1);
+    bytes += probability * maxAlign(HNSW_NEIGHBOR_HEADER + ITEM_POINTER * (level + 2) * m);
+  }
+  return bytes;
+}
+
+function hnswBytes(documents: number, valueBytes: number, m: number): number {
+  const elementBytes =
+    maxAlign(HNSW_ELEMENT_HEADER + valueBytes) + ITEM_ID + averageHnswNeighborBytes(m) + ITEM_ID;
+  // Meta page, then element and neighbor tuples side by side
+  return (1 + packedPages(documents, elementBytes, INDEX_PAGE_USABLE)) * PAGE_SIZE;
+}
+
+/** pgvector's advice for `lists`: rows / 1000 up to 1M rows, √rows above. */
+function defaultIvfflatLists(documents: number): number {
+  return documents <= 1_000_000
+    ? Math.max(1, Math.round(documents / 1000))
+    : Math.round(Math.sqrt(documents));
+}
+
+function ivfflatBytes(documents: number, valueBytes: number, lists: number | null): number {
+  const listCount = Math.max(1, Math.min(lists ?? defaultIvfflatLists(documents), documents || 1));
+  // Centroid tuples hold two block numbers and the center vector
+  const centroidPages = packedPages(listCount, maxAlign(8 + valueBytes) + ITEM_ID, INDEX_PAGE_USABLE);
+  // Rows are assumed to spread evenly; every list has at least one page
+  const perList = Math.ceil(documents / listCount);
+  const listPages =
+    listCount * Math.max(1, packedPages(perList, maxAlign(8 + valueBytes) + ITEM_ID, INDEX_PAGE_USABLE));
+  return (1 + centroidPages + listPages) * PAGE_SIZE;
+}
+
+function estimateStorageSize(
+  documents: number,
+  dimensions: number,
+  options: VectorStorageOptions,
+): StorageSize {
+  const valueBytes = vectorValueBytes(options.vectorType, dimensions);
+  const indexable = dimensions <= INDEX_DIMENSION_LIMITS[options.vectorType];
+  return {
+    documentCount: documents,
+    tableBytes: tableBytes(documents, valueBytes),
+    hnswBytes: indexable ? hnswBytes(documents, valueBytes, options.hnswM) : null,
+    ivfflatBytes: indexable ? ivfflatBytes(documents, valueBytes, options.ivfflatLists) : null,
+  };
+}
+
+function addNullable(total: number | null, value: number | null): number | null {
+  return total === null || value === null ? null : total + value;
+}
+
+// ---------------------------------------------------------------------------
+// Public API
+// ---------------------------------------------------------------------------
+
+export function defaultVectorStorageOptions(): VectorStorageOptions {
+  return { vectorType: "vector", dimensions: {}, hnswM: DEFAULT_HNSW_M, ivfflatLists: null };
+}
+
+/**
+ * Size a pgvector table and its HNSW and IVFFlat indexes per table and model.
+ * Each table is assumed to get its own embeddings table and indexes; the
+ * document text and metadata are not counted.
+ */
+export function estimateVectorStorage(
+  tables: {
+    schema: string;
+    table: string;
+    rowCount: number;
+    chunkingByModel?: Record<string, ModelChunkingStats>;
+  }[],
+  entries: ModelPricingEntry[],
+  options: VectorStorageOptions,
+): VectorStorageSummary {
+  const byModel: Record<string, ModelStorageEstimate> = {};
+  const modelsWithoutDimensions: string[] = [];
+
+  for (const entry of entries) {
+    const dimensions = options.dimensions[entry.model] ?? options.dimensions["*"] ?? entry.dimensions;
+    if (!dimensions) {
+      modelsWithoutDimensions.push(entry.model);
+      continue;
+    }
+
+    const estimate: ModelStorageEstimate = {
+      dimensions,
+      documentCount: 0,
+      tableBytes: 0,
+      hnswBytes: 0,
+      ivfflatBytes: 0,
+      byTable: {},
+    };
+    for (const table of tables) {
+      const documents = table.chunkingByModel?.[entry.model]?.embeddingCalls ?? table.rowCount;
+      const size = estimateStorageSize(documents, dimensions, options);
+      estimate.byTable[`${table.schema}.${table.table}`] = size;
+      estimate.documentCount += size.documentCount;
+      estimate.tableBytes += size.tableBytes;
+      estimate.hnswBytes = addNullable(estimate.hnswBytes, size.hnswBytes);
+      estimate.ivfflatBytes = addNullable(estimate.ivfflatBytes, size.ivfflatBytes);
+    }
+    byModel[entry.model] = estimate;
+  }
+
+  return { options, byModel, modelsWithoutDimensions };
+}
+
+/**
+ * Read storage settings from the environment: VECTOR_TYPE, VECTOR_DIMENSIONS
+ * ("1024" for every model, or "model=dims,..."), HNSW_M and IVFFLAT_LISTS.
+ */
+export function parseVectorStorageOptionsFromEnv(
+  env: NodeJS.ProcessEnv = process.env,
+): VectorStorageOptions {
+  const defaults = defaultVectorStorageOptions();
+
+  const vectorType = env.VECTOR_TYPE?.trim().toLowerCase();
+  if (vectorType && !VECTOR_TYPES.includes(vectorType as VectorType)) {
+    throw new Error(`Unknown vector type "${env.VECTOR_TYPE}". Use: ${VECTOR_TYPES.join(", ")}.`);
+  }
+
+  const hnswM = Number.parseInt(env.HNSW_M ?? "", 10);
+  const ivfflatLists = Number.parseInt(env.IVFFLAT_LISTS ?? "", 10);
+
+  return {
+    vectorType: (vectorType as VectorType | undefined) || defaults.vectorType,
+    dimensions: parseDimensions(env.VECTOR_DIMENSIONS ?? ""),
+    hnswM: Number.isFinite(hnswM) && hnswM >= 2 ? hnswM : defaults.hnswM,
+    ivfflatLists: Number.isFinite(ivfflatLists) && ivfflatLists > 0 ? ivfflatLists : null,
+  };
+}
+
+function parseDimensions(value: string): Record<string, number> {
+  const dimensions: Record<string, number> = {};
+  for (const raw of value.split(",")) {
+    const item = raw.trim();
+    if (!item) continue;
+    const separator = item.lastIndexOf("=");
+    const model = separator >= 0 ? item.slice(0, separator).trim() : "*";
+    const count = Number.parseInt(separator >= 0 ? item.slice(separator + 1) : item, 10);
+    if (!model || !Number.isFinite(count) || count <= 0) {
+      throw new Error(`Invalid VECTOR_DIMENSIONS entry "${item}". Use 1024 or model=1024.`);
+    }
+    dimensions[model] = count;
+  }
+  return dimensions;
+}
+
+/** Models worth a per-table breakdown in a report; all of them up to `limit`. */
+export function storageBreakdownModels(summary: VectorStorageSummary, limit = 3): string[] {
+  const models = Object.keys(summary.byModel);
+  return models.length <= limit ? models : [];
+}
+
+export function formatBytes(bytes: number): string {
+  const units = ["B", "kB", "MB", "GB", "TB"];
+  let value = bytes;
+  let unit = 0;
+  while (value >= 1024 && unit < units.length - 1) {
+    value /= 1024;
+    unit++;
+  }
+  return unit === 0 ? `${value} B` : `${value.toFixed(1)} ${units[unit]}`;
+}
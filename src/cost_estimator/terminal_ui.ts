@@ -33,6 +33,8 @@ type CompletedEntry = {
   index: number;
   isError: boolean;
   errorMessage?: string;
+  /** Skipped from the dashboard; counts as done. */
+  skipped?: boolean;
 };
 
 export type TerminalUIConfig = {
@@ -52,6 +54,7 @@ export class TerminalUI {
   private completedEntries: CompletedEntry[] = [];
   private completedCount = 0;
   private errorCount = 0;
+  private skippedCount = 0;
   private spinnerIndex = 0;
   private startTime = 0;
   private tickTimer: ReturnType<typeof setInterval> | null = null;
@@ -211,6 +214,30 @@ export class TerminalUI {
     }
   }
 
+  onTableSkipped(schema: string, table: string): void {
+    const name = `${schema}.${table}`;
+    for (const key of this.activeTables.keys()) {
+      if (key.startsWith(name)) {
+        this.activeTables.delete(key);
+      }
+    }
+    this.chunkProgress.delete(name);
+    this.completedCount++;
+    this.skippedCount++;
+    this.completedEntries.push({
+      name,
+      rowCount: 0,
+      tokenCount: 0,
+      index: this.completedCount,
+      isError: false,
+      skipped: true,
+    });
+
+    if (!this.isTTY) {
+      process.stdout.write(`  [SKIPPED] ${name}   [${this.completedCount}/${this.totalTables}]\n`);
+    }
+  }
+
   finishProgress(): void {
     this.stopTick();
 
@@ -227,6 +254,9 @@ export class TerminalUI {
       if (this.errorCount > 0) {
         process.stdout.write(` (${RED}${this.errorCount} error(s)${RESET})`);
       }
+      if (this.skippedCount > 0) {
+        process.stdout.write(` (${YELLOW}${this.skippedCount} skipped${RESET})`);
+      }
       process.stdout.write("\n");
       process.stdout.write(SHOW_CURSOR);
     } else {
@@ -239,6 +269,9 @@ export class TerminalUI {
       if (this.errorCount > 0) {
         process.stdout.write(` (${this.errorCount} error(s))`);
       }
+      if (this.skippedCount > 0) {
+        process.stdout.write(` (${this.skippedCount} skipped)`);
+      }
       process.stdout.write("\n");
     }
   }
@@ -276,6 +309,8 @@ export class TerminalUI {
       this.lastPrintedCompletedIndex++;
       if (entry.isError) {
         buf += `  ${RED}[ERROR] ${entry.name}: ${entry.errorMessage}${RESET}   [${entry.index}/${this.totalTables}]\n`;
+      } else if (entry.skipped) {
+        buf += `  ${YELLOW}[SKIPPED] ${entry.name}${RESET}   [${entry.index}/${this.totalTables}]\n`;
       } else {
         buf += `  ${GREEN}${entry.name.padEnd(32)}${entry.rowCount.toLocaleString().padStart(10)}${entry.tokenCount.toLocaleString().padStart(15)}${RESET}   [${entry.index}/${this.totalTables}]\n`;
       }
@@ -325,6 +360,10 @@ export class TerminalUI {
         process.stdout.write(
           `  ${RED}[ERROR] ${entry.name}: ${entry.errorMessage}${RESET}   [${entry.index}/${this.totalTables}]\n`,
         );
+      } else if (entry.skipped) {
+        process.stdout.write(
+          `  ${YELLOW}[SKIPPED] ${entry.name}${RESET}   [${entry.index}/${this.totalTables}]\n`,
+        );
       } else {
         process.stdout.write(
           `  ${GREEN}${entry.name.padEnd(32)}${entry.rowCount.toLocaleString().padStart(10)}${entry.tokenCount.toLocaleString().padStart(15)}${RESET}   [${entry.index}/${this.totalTables}]\n`,
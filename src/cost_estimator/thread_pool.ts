@@ -1,7 +1,28 @@
 import { Worker } from "node:worker_threads";
 import { cpus } from "node:os";
 import type { TableInfo, TextColumnsMode } from "./db/types.js";
-import type { WorkerRequest, WorkerResponse } from "./estimate_worker.js";
+import type { ChunkBounds } from "./db/postgres.js";
+import type {
+  ColumnTokenStats,
+  DeltaTokenStats,
+  EmbedDocument,
+  PartitionTokenStats,
+  TokenStats,
+  WorkerRequest,
+  WorkerResponse,
+} from "./estimate_worker.js";
+import { countDeletedRows } from "./incremental.js";
+import type { ChangeDetection, TableDeltaEstimate } from "./incremental.js";
+import {
+  extrapolateTableSample,
+  shouldSampleTable,
+  toTableSampleSpec,
+} from "./sampling.js";
+import type { SamplingOptions, TableSamplingStats } from "./sampling.js";
+import type { TokenizerSpec } from "./tokenizers.js";
+import { addChunkingStats, scaleChunkingStats } from "./chunking.js";
+import type { ModelChunkingStats, SplitterOptions } from "./chunking.js";
+import type { RunController } from "./run_control.js";
 
 // ---------------------------------------------------------------------------
 // Types
@@ -11,7 +32,31 @@ export type TableTokenEstimate = {
   schema: string;
   table: string;
   rowCount: number;
+  /** Tokens under the reference (cl100k_base) tokenizer. */
   tokenCount: number;
+  /**
+   * Tokens each priced model embeds under its own tokenizer, including the
+   * overlap between split pieces. Key: model name
+   */
+  tokenCountByModel: Record<string, number>;
+  /** Embedding calls, overlap and input-limit violations per model. */
+  chunkingByModel: Record<string, ModelChunkingStats>;
+  /**
+   * Reference tokens per selected column, `"column: "` label included.
+   * Key: column name ("(whole row)" for rows embedded as JSON)
+   */
+  columnTokens: Record<string, ColumnTokenStats>;
+  /**
+   * Reference tokens per leaf partition of a partitioned table; present with
+   * a partition breakdown. Key: "schema.partition"
+   */
+  partitionTokens?: Record<string, PartitionTokenStats>;
+  /** Present when the counts were extrapolated from a sample. */
+  sampling?: TableSamplingStats;
+  /** Present in incremental mode: the new or changed rows only. */
+  delta?: TableDeltaEstimate;
+  /** Row-hash manifest, for the next incremental run. Key: document id */
+  rowHashes?: Record<string, string>;
 };
 
 /** A queue item is either a whole table or a chunk of a large table. */
@@ -21,17 +66,19 @@ type QueueItem =
       kind: "chunk";
       tableInfo: TableInfo;
       chunkId: string;
-      offsetStart: number;
-      rowLimit: number;
+      bounds: ChunkBounds;
       tableKey: string;
     };
 
+/** Raw totals of one finished chunk, before extrapolation. */
+export type ChunkPartial = Omit<TokenStats, "schema" | "table">;
+
 /** Aggregates partial chunk results until all chunks of a table are done. */
 type ChunkAggregator = {
   schema: string;
   table: string;
   totalChunks: number;
-  received: Map<string, { rowCount: number; tokenCount: number }>;
+  received: Map<string, ChunkPartial>;
 };
 
 export type PoolOptions = {
@@ -47,18 +94,70 @@ export type PoolOptions = {
   textColumnsMode: TextColumnsMode;
   excludedColumns: string[];
   batchSize: number;
+  /** Tokenizer for each priced model. Key: model name */
+  modelTokenizers: Record<string, TokenizerSpec>;
+  /** Input limit per model, in its own tokens. Key: model name */
+  maxInputTokens?: Record<string, number>;
+  /** Simulate splitting each row's document before embedding. */
+  splitter?: SplitterOptions | null;
   /** Row count per table (from fetchTableSnapshot). Key: "schema.table" */
   rowCounts?: Map<string, number>;
   /** Tables with more rows than this are split into chunks. Default: 50000 */
   largeTableThreshold?: number;
   /** Rows per chunk for large tables. Default: 10000 */
   chunkSize?: number;
+  /**
+   * PK range boundaries per large table (from fetchPkBoundaries). Key:
+   * "schema.table". Large tables without an entry are chunked by OFFSET.
+   */
+  pkBoundaries?: Map<string, string[][]>;
+  /**
+   * Tokenize only a sample of tables above `sampling.minSampledTableRows`
+   * and extrapolate using `rowCounts`. Omit for a full scan.
+   */
+  sampling?: SamplingOptions;
+  /**
+   * Chunks finished by a previous run (from a checkpoint). Key: chunk id.
+   * They are not dispatched again; their totals seed the aggregation.
+   */
+  completedChunks?: Map<string, ChunkPartial>;
+  /**
+   * Incremental mode: how to flag changed rows of each table. Key:
+   * "schema.table". Omit for a full estimate only.
+   */
+  changeDetection?: Map<string, ChangeDetection>;
+  /** Collect row-hash manifests of tables that are read in full. */
+  trackRowHashes?: boolean;
+  /** Total rows and tokens per leaf partition of partitioned tables. */
+  partitionBreakdown?: boolean;
+  /**
+   * Once aborted, no more tables or chunks are dispatched; items already on a
+   * worker run to completion.
+   */
+  signal?: AbortSignal;
+  /**
+   * Pause and skip requests (from the dashboard). While paused, idle workers
+   * wait; items of a skipped table are not dispatched and the results of the
+   * ones already on a worker are dropped. Cancel through `signal`.
+   */
+  control?: RunController;
+  /**
+   * Embed mode: workers hand over each page's documents and wait for
+   * `onDocuments` before reading the next page. It resolves true to stop
+   * reading the current table or chunk; a rejection fails it.
+   */
+  embedding?: {
+    tokenizer: TokenizerSpec;
+    onDocuments: (schema: string, table: string, documents: EmbedDocument[]) => Promise<boolean>;
+  };
   /** Called when a table (or chunk) begins processing on a worker. */
   onTableStart?: (schema: string, table: string, chunkLabel?: string) => void;
   /** Called every time a single table finishes (for progressive output). */
   onTableComplete: (result: TableTokenEstimate) => void;
-  /** Called when a table fails. */
+  /** Called once per failed table; a chunked table fails with its first failing chunk. */
   onTableError: (schema: string, table: string, error: string) => void;
+  /** Called once per table skipped through `control`. */
+  onTableSkipped?: (schema: string, table: string) => void;
   /** Called when a chunk of a large table completes (for progressive UI). */
   onChunkComplete?: (
     schema: string,
@@ -66,6 +165,8 @@ export type PoolOptions = {
     completedChunks: number,
     totalChunks: number,
   ) => void;
+  /** Called with the raw totals of every finished chunk (for checkpointing). */
+  onChunkResult?: (tableKey: string, chunkId: string, partial: ChunkPartial) => void;
 };
 
 // ---------------------------------------------------------------------------
@@ -93,37 +194,148 @@ function tableKey(schema: string, table: string): string {
   return `${schema}.${table}`;
 }
 
+function addColumnTokens(
+  target: Record<string, ColumnTokenStats>,
+  source: Record<string, ColumnTokenStats>,
+): void {
+  for (const [column, stats] of Object.entries(source)) {
+    const total = (target[column] ??= { rowCount: 0, tokenCount: 0, labelTokenCount: 0 });
+    total.rowCount += stats.rowCount;
+    total.tokenCount += stats.tokenCount;
+    total.labelTokenCount += stats.labelTokenCount;
+  }
+}
+
+function scaleColumnTokens(
+  columnTokens: Record<string, ColumnTokenStats>,
+  scale: number,
+): Record<string, ColumnTokenStats> {
+  const scaled: Record<string, ColumnTokenStats> = {};
+  for (const [column, stats] of Object.entries(columnTokens)) {
+    scaled[column] = {
+      rowCount: Math.round(stats.rowCount * scale),
+      tokenCount: Math.round(stats.tokenCount * scale),
+      labelTokenCount: Math.round(stats.labelTokenCount * scale),
+    };
+  }
+  return scaled;
+}
+
+function addPartitionTokens(
+  target: Record<string, PartitionTokenStats>,
+  source: Record<string, PartitionTokenStats>,
+): void {
+  for (const [partition, stats] of Object.entries(source)) {
+    const total = (target[partition] ??= { rowCount: 0, tokenCount: 0 });
+    total.rowCount += stats.rowCount;
+    total.tokenCount += stats.tokenCount;
+  }
+}
+
+function scalePartitionTokens(
+  partitionTokens: Record<string, PartitionTokenStats>,
+  scale: number,
+): Record<string, PartitionTokenStats> {
+  const scaled: Record<string, PartitionTokenStats> = {};
+  for (const [partition, stats] of Object.entries(partitionTokens)) {
+    scaled[partition] = {
+      rowCount: Math.round(stats.rowCount * scale),
+      tokenCount: Math.round(stats.tokenCount * scale),
+    };
+  }
+  return scaled;
+}
+
 // ---------------------------------------------------------------------------
 // Build the work queue – split large tables into chunks
 // ---------------------------------------------------------------------------
 
+/**
+ * Number of chunks a table will be split into (1 = processed whole).
+ * Sampled tables are chunked by the number of rows expected in the sample.
+ */
+export function plannedChunkCount(
+  rowCount: number,
+  options: { largeTableThreshold: number; chunkSize: number; sampling?: SamplingOptions },
+): number {
+  const { largeTableThreshold, chunkSize, sampling } = options;
+  const plannedRows =
+    sampling && shouldSampleTable(rowCount, sampling)
+      ? Math.ceil(rowCount * sampling.fraction)
+      : rowCount;
+
+  if (plannedRows >= largeTableThreshold && chunkSize > 0) {
+    return Math.ceil(plannedRows / chunkSize);
+  }
+  return 1;
+}
+
+function planChunkBounds(
+  tableInfo: TableInfo,
+  numChunks: number,
+  chunkSize: number,
+  boundaries: string[][] | undefined,
+): ChunkBounds[] {
+  if (tableInfo.pkColumns.length > 0 && boundaries) {
+    // n boundaries → n + 1 ranges; the first and last are open-ended
+    const bounds: ChunkBounds[] = [];
+    for (let i = 0; i <= boundaries.length; i++) {
+      bounds.push({
+        kind: "key-range",
+        after: i === 0 ? null : boundaries[i - 1],
+        upTo: i === boundaries.length ? null : boundaries[i],
+      });
+    }
+    return bounds;
+  }
+
+  const bounds: ChunkBounds[] = [];
+  for (let i = 0; i < numChunks; i++) {
+    bounds.push({
+      kind: "offset",
+      offsetStart: i * chunkSize,
+      rowLimit: i === numChunks - 1 ? null : chunkSize,
+    });
+  }
+  return bounds;
+}
+
 function buildQueue(
   tables: TableInfo[],
   rowCounts: Map<string, number>,
   largeTableThreshold: number,
   chunkSize: number,
+  sampling: SamplingOptions | undefined,
+  pkBoundaries: Map<string, string[][]>,
 ): { queue: QueueItem[]; chunkCounts: Map<string, number> } {
   const queue: QueueItem[] = [];
   const chunkCounts = new Map<string, number>();
 
   for (const tableInfo of tables) {
     const key = tableKey(tableInfo.schema, tableInfo.table);
-    const rowCount = rowCounts.get(key) ?? 0;
+    const numChunks = plannedChunkCount(rowCounts.get(key) ?? 0, {
+      largeTableThreshold,
+      chunkSize,
+      sampling,
+    });
 
-    if (rowCount >= largeTableThreshold && chunkSize > 0) {
-      const numChunks = Math.ceil(rowCount / chunkSize);
-      chunkCounts.set(key, numChunks);
+    const bounds =
+      numChunks > 1
+        ? planChunkBounds(tableInfo, numChunks, chunkSize, pkBoundaries.get(key))
+        : [];
 
-      for (let i = 0; i < numChunks; i++) {
+    if (bounds.length > 1) {
+      chunkCounts.set(key, bounds.length);
+
+      bounds.forEach((chunkBounds, i) => {
         queue.push({
           kind: "chunk",
           tableInfo,
           chunkId: `${key}#${i}`,
-          offsetStart: i * chunkSize,
-          rowLimit: chunkSize,
+          bounds: chunkBounds,
           tableKey: key,
         });
-      }
+      });
     } else {
       queue.push({ kind: "table", tableInfo });
     }
@@ -147,35 +359,267 @@ export function processTablesInParallel(
     textColumnsMode,
     excludedColumns,
     batchSize,
+    modelTokenizers,
+    maxInputTokens = {},
+    splitter = null,
     rowCounts = new Map(),
     largeTableThreshold = 50_000,
     chunkSize = 10_000,
+    pkBoundaries = new Map(),
+    sampling,
+    completedChunks = new Map(),
+    changeDetection,
+    trackRowHashes = false,
+    partitionBreakdown = false,
+    signal,
+    control,
+    embedding,
     onTableStart,
     onTableComplete,
     onTableError,
+    onTableSkipped,
     onChunkComplete,
+    onChunkResult,
   } = options;
 
   if (tables.length === 0) {
     return Promise.resolve([]);
   }
 
-  const { queue, chunkCounts } = buildQueue(tables, rowCounts, largeTableThreshold, chunkSize);
-  const workerCount = Math.min(maxThreads, Math.ceil(queue.length / tablesPerBatch));
+  const { queue, chunkCounts } = buildQueue(
+    tables,
+    rowCounts,
+    largeTableThreshold,
+    chunkSize,
+    sampling,
+    pkBoundaries,
+  );
   const results: TableTokenEstimate[] = [];
 
   // Chunk aggregation
   const aggregators = new Map<string, ChunkAggregator>();
 
+  function isSampled(key: string): boolean {
+    return sampling !== undefined && shouldSampleTable(rowCounts.get(key) ?? 0, sampling);
+  }
+
+  function toDeltaEstimate(
+    key: string,
+    delta: DeltaTokenStats | undefined,
+    rowHashes: Record<string, string> | undefined,
+    scale: number,
+  ): TableDeltaEstimate | undefined {
+    const detection = changeDetection?.get(key);
+    if (!detection || !delta) {
+      return undefined;
+    }
+
+    const tokenCountByModel: Record<string, number> = {};
+    for (const [model, count] of Object.entries(delta.tokenCountByModel)) {
+      tokenCountByModel[model] = Math.round(count * scale);
+    }
+    return {
+      basis: detection.basis,
+      rowCount: Math.round(delta.rowCount * scale),
+      tokenCount: Math.round(delta.tokenCount * scale),
+      tokenCountByModel,
+      ...(detection.previousRowHashes && rowHashes
+        ? { deletedRowCount: countDeletedRows(detection.previousRowHashes, rowHashes) }
+        : {}),
+    };
+  }
+
+  function toTableEstimate(stats: TokenStats): TableTokenEstimate {
+    const key = tableKey(stats.schema, stats.table);
+    if (!sampling || !isSampled(key)) {
+      const delta = toDeltaEstimate(key, stats.delta, stats.rowHashes, 1);
+      return {
+        schema: stats.schema,
+        table: stats.table,
+        rowCount: stats.rowCount,
+        tokenCount: stats.tokenCount,
+        tokenCountByModel: stats.tokenCountByModel,
+        chunkingByModel: stats.chunkingByModel,
+        columnTokens: stats.columnTokens,
+        ...(stats.partitionTokens ? { partitionTokens: stats.partitionTokens } : {}),
+        ...(delta ? { delta } : {}),
+        ...(stats.rowHashes ? { rowHashes: stats.rowHashes } : {}),
+      };
+    }
+
+    const extrapolated = extrapolateTableSample({
+      populationRows: rowCounts.get(key) ?? 0,
+      sampledRows: stats.rowCount,
+      tokenSum: stats.tokenCount,
+      tokenSumSquares: stats.tokenSumSquares,
+      tokenSumByModel: stats.tokenCountByModel,
+      options: sampling,
+    });
+    // Changed rows in the sample are extrapolated like the totals
+    const scale = stats.rowCount > 0 ? extrapolated.rowCount / stats.rowCount : 0;
+    const delta = toDeltaEstimate(key, stats.delta, undefined, scale);
+    return {
+      schema: stats.schema,
+      table: stats.table,
+      ...extrapolated,
+      chunkingByModel: scaleChunkingStats(stats.chunkingByModel, scale),
+      columnTokens: scaleColumnTokens(stats.columnTokens, scale),
+      ...(stats.partitionTokens
+        ? { partitionTokens: scalePartitionTokens(stats.partitionTokens, scale) }
+        : {}),
+      ...(delta ? { delta } : {}),
+    };
+  }
+
+  // -- aggregate a chunk result until all chunks of its table arrive ----------
+  function aggregateChunk(
+    schema: string,
+    table: string,
+    chunkId: string,
+    partial: ChunkPartial,
+  ): void {
+    const key = tableKey(schema, table);
+    const totalChunks = chunkCounts.get(key) ?? 1;
+
+    let agg = aggregators.get(key);
+    if (!agg) {
+      agg = { schema, table, totalChunks, received: new Map() };
+      aggregators.set(key, agg);
+    }
+
+    agg.received.set(chunkId, partial);
+    onChunkComplete?.(schema, table, agg.received.size, totalChunks);
+
+    // All chunks collected → aggregate and emit
+    if (agg.received.size === agg.totalChunks) {
+      let totalRows = 0;
+      let totalTokens = 0;
+      let totalSumSquares = 0;
+      const totalTokensByModel: Record<string, number> = {};
+      const chunkingByModel: Record<string, ModelChunkingStats> = {};
+      const columnTokens: Record<string, ColumnTokenStats> = {};
+      let partitionTokens: Record<string, PartitionTokenStats> | undefined;
+      let delta: DeltaTokenStats | undefined;
+      let rowHashes: Record<string, string> | undefined;
+      for (const received of agg.received.values()) {
+        totalRows += received.rowCount;
+        totalTokens += received.tokenCount;
+        totalSumSquares += received.tokenSumSquares;
+        for (const [model, count] of Object.entries(received.tokenCountByModel)) {
+          totalTokensByModel[model] = (totalTokensByModel[model] ?? 0) + count;
+        }
+        addChunkingStats(chunkingByModel, received.chunkingByModel);
+        addColumnTokens(columnTokens, received.columnTokens);
+        if (received.partitionTokens) {
+          partitionTokens ??= {};
+          addPartitionTokens(partitionTokens, received.partitionTokens);
+        }
+        if (received.delta) {
+          delta ??= { rowCount: 0, tokenCount: 0, tokenCountByModel: {} };
+          delta.rowCount += received.delta.rowCount;
+          delta.tokenCount += received.delta.tokenCount;
+          for (const [model, count] of Object.entries(received.delta.tokenCountByModel)) {
+            delta.tokenCountByModel[model] = (delta.tokenCountByModel[model] ?? 0) + count;
+          }
+        }
+        if (received.rowHashes) {
+          rowHashes = Object.assign(rowHashes ?? {}, received.rowHashes);
+        }
+      }
+
+      const aggregated = toTableEstimate({
+        schema: agg.schema,
+        table: agg.table,
+        rowCount: totalRows,
+        tokenCount: totalTokens,
+        tokenSumSquares: totalSumSquares,
+        tokenCountByModel: totalTokensByModel,
+        chunkingByModel,
+        columnTokens,
+        ...(partitionTokens ? { partitionTokens } : {}),
+        ...(delta ? { delta } : {}),
+        ...(rowHashes ? { rowHashes } : {}),
+      });
+      results.push(aggregated);
+      control?.markTableDone(key);
+      onTableComplete(aggregated);
+      aggregators.delete(key);
+    }
+  }
+
+  control?.trackTables(tables.map((tableInfo) => tableKey(tableInfo.schema, tableInfo.table)));
+
+  // Chunks already finished by a previous run are restored, not dispatched
+  if (completedChunks.size > 0) {
+    const pending: QueueItem[] = [];
+    for (const item of queue) {
+      const restored = item.kind === "chunk" ? completedChunks.get(item.chunkId) : undefined;
+      if (item.kind === "chunk" && restored) {
+        aggregateChunk(item.tableInfo.schema, item.tableInfo.table, item.chunkId, restored);
+      } else {
+        pending.push(item);
+      }
+    }
+    queue.splice(0, queue.length, ...pending);
+  }
+
+  if (queue.length === 0) {
+    return Promise.resolve(results);
+  }
+
+  const workerCount = Math.min(maxThreads, Math.ceil(queue.length / tablesPerBatch));
+
   return new Promise<TableTokenEstimate[]>((resolve, reject) => {
     let aliveWorkers = 0;
     const workerErrors: Error[] = [];
+    // Workers left idle by a pause, sent work again on resume (or cancel)
+    const parkedWorkers = new Set<Worker>();
+    const reportedSkips = new Set<string>();
+    // Tables with a failed chunk: their other chunks are not dispatched and their results dropped
+    const failedTables = new Set<string>();
+
+    const unsubscribe = control?.subscribe(() => {
+      if (control.isPaused && !signal?.aborted) {
+        return;
+      }
+      for (const worker of [...parkedWorkers]) {
+        // Sending notifies again (table states), which may already have woken this one
+        if (parkedWorkers.delete(worker)) {
+          sendNextFromBatch(worker);
+        }
+      }
+    });
+
+    // -- report a skipped table once and forget its partial chunks -------------
+    // A failed table counts as skipped too: it was already reported through onTableError
+    function isSkippedItem(schema: string, table: string): boolean {
+      const key = tableKey(schema, table);
+      if (failedTables.has(key)) {
+        return true;
+      }
+      if (!control?.isSkipped(key)) {
+        return false;
+      }
+      if (!reportedSkips.has(key)) {
+        reportedSkips.add(key);
+        aggregators.delete(key);
+        onTableSkipped?.(schema, table);
+      }
+      return true;
+    }
 
     // -- dispatch next batch to an idle worker --------------------------------
     function dispatchBatch(worker: Worker): void {
+      if (signal?.aborted) {
+        queue.length = 0;
+      }
+
       const batch: QueueItem[] = [];
-      for (let i = 0; i < tablesPerBatch && queue.length > 0; i++) {
-        batch.push(queue.shift()!);
+      while (batch.length < tablesPerBatch && queue.length > 0) {
+        const item = queue.shift()!;
+        if (!isSkippedItem(item.tableInfo.schema, item.tableInfo.table)) {
+          batch.push(item);
+        }
       }
 
       if (batch.length === 0) {
@@ -189,19 +633,52 @@ export function processTablesInParallel(
 
     // -- send the next item from the worker's current batch -------------------
     function sendNextFromBatch(worker: Worker): void {
+      if (control?.isPaused && !signal?.aborted) {
+        parkedWorkers.add(worker);
+        return;
+      }
+
       const batch: QueueItem[] | undefined = (worker as any).__batch;
-      if (!batch || batch.length === 0) {
+      // Items of a table skipped after the batch was handed out are dropped here
+      while (batch?.length && isSkippedItem(batch[0].tableInfo.schema, batch[0].tableInfo.table)) {
+        batch.shift();
+      }
+      if (!batch || batch.length === 0 || signal?.aborted) {
         dispatchBatch(worker);
         return;
       }
 
       const item = batch.shift()!;
+      const itemKey = tableKey(item.tableInfo.schema, item.tableInfo.table);
+      control?.markTableRunning(itemKey);
+      const itemSampled = isSampled(itemKey);
+      const simulation = {
+        maxInputTokens,
+        splitter,
+        partitionBreakdown,
+        embedTokenizer: embedding?.tokenizer,
+      };
+      const incremental = {
+        changeDetection: changeDetection?.get(itemKey),
+        // A partial manifest would report unsampled rows as deleted next time
+        trackRowHashes: trackRowHashes && !itemSampled,
+      };
 
       if (item.kind === "table") {
         onTableStart?.(item.tableInfo.schema, item.tableInfo.table);
         const msg: WorkerRequest = {
           type: "process",
-          payload: { tableInfo: item.tableInfo, dbUrl, textColumnsMode, excludedColumns, batchSize },
+          payload: {
+            tableInfo: item.tableInfo,
+            dbUrl,
+            textColumnsMode,
+            excludedColumns,
+            batchSize,
+            modelTokenizers,
+            sample: sampling && itemSampled ? toTableSampleSpec(sampling) : undefined,
+            ...simulation,
+            ...incremental,
+          },
         };
         worker.postMessage(msg);
       } else {
@@ -221,60 +698,43 @@ export function processTablesInParallel(
             textColumnsMode,
             excludedColumns,
             batchSize,
+            modelTokenizers,
+            sample: sampling && itemSampled ? toTableSampleSpec(sampling) : undefined,
+            ...simulation,
+            ...incremental,
             chunkId: item.chunkId,
-            offsetStart: item.offsetStart,
-            rowLimit: item.rowLimit,
+            bounds: item.bounds,
           },
         };
         worker.postMessage(msg);
       }
     }
 
-    // -- handle a chunk result: aggregate until all chunks arrive --------------
-    function handleChunkResult(data: {
-      schema: string;
-      table: string;
-      chunkId: string;
-      rowCount: number;
-      tokenCount: number;
-    }): void {
-      const key = tableKey(data.schema, data.table);
-      const totalChunks = chunkCounts.get(key) ?? 1;
-
-      let agg = aggregators.get(key);
-      if (!agg) {
-        agg = { schema: data.schema, table: data.table, totalChunks, received: new Map() };
-        aggregators.set(key, agg);
-      }
-
-      agg.received.set(data.chunkId, { rowCount: data.rowCount, tokenCount: data.tokenCount });
-      onChunkComplete?.(data.schema, data.table, agg.received.size, totalChunks);
-
-      // All chunks collected → aggregate and emit
-      if (agg.received.size === agg.totalChunks) {
-        let totalRows = 0;
-        let totalTokens = 0;
-        for (const partial of agg.received.values()) {
-          totalRows += partial.rowCount;
-          totalTokens += partial.tokenCount;
-        }
-
-        const aggregated: TableTokenEstimate = {
-          schema: agg.schema,
-          table: agg.table,
-          rowCount: totalRows,
-          tokenCount: totalTokens,
-        };
-        results.push(aggregated);
-        onTableComplete(aggregated);
-        aggregators.delete(key);
+    // -- handle a chunk result: checkpoint, then aggregate ---------------------
+    function handleChunkResult(data: TokenStats & { chunkId: string }): void {
+      if (isSkippedItem(data.schema, data.table)) {
+        return;
       }
+      const partial: ChunkPartial = {
+        rowCount: data.rowCount,
+        tokenCount: data.tokenCount,
+        tokenSumSquares: data.tokenSumSquares,
+        tokenCountByModel: data.tokenCountByModel,
+        chunkingByModel: data.chunkingByModel,
+        columnTokens: data.columnTokens,
+        ...(data.partitionTokens ? { partitionTokens: data.partitionTokens } : {}),
+        ...(data.delta ? { delta: data.delta } : {}),
+        ...(data.rowHashes ? { rowHashes: data.rowHashes } : {}),
+      };
+      onChunkResult?.(tableKey(data.schema, data.table), data.chunkId, partial);
+      aggregateChunk(data.schema, data.table, data.chunkId, partial);
     }
 
     // -- called when a worker is gone -----------------------------------------
     function onWorkerDone(): void {
       aliveWorkers--;
       if (aliveWorkers === 0) {
+        unsubscribe?.();
         if (results.length === 0 && workerErrors.length > 0) {
           reject(new AggregateError(workerErrors, "All workers failed"));
         } else {
@@ -294,19 +754,45 @@ export function processTablesInParallel(
             dispatchBatch(worker);
             break;
 
-          case "result":
-            results.push(msg.data);
-            onTableComplete(msg.data);
+          case "result": {
+            if (!isSkippedItem(msg.data.schema, msg.data.table)) {
+              const estimate = toTableEstimate(msg.data);
+              results.push(estimate);
+              control?.markTableDone(tableKey(estimate.schema, estimate.table));
+              onTableComplete(estimate);
+            }
             sendNextFromBatch(worker);
             break;
+          }
 
           case "chunk-result":
             handleChunkResult(msg.data);
             sendNextFromBatch(worker);
             break;
 
+          case "documents":
+            embedding?.onDocuments(msg.schema, msg.table, msg.documents).then(
+              (stop) => {
+                worker.postMessage({ type: "documents-ack", stop } satisfies WorkerRequest);
+              },
+              (err: unknown) => {
+                worker.postMessage({
+                  type: "documents-ack",
+                  stop: true,
+                  error: err instanceof Error ? err.message : String(err),
+                } satisfies WorkerRequest);
+              },
+            );
+            break;
+
           case "error":
-            onTableError(msg.schema, msg.table, msg.error);
+            if (!isSkippedItem(msg.schema, msg.table)) {
+              const key = tableKey(msg.schema, msg.table);
+              failedTables.add(key);
+              aggregators.delete(key);
+              control?.markTableDone(key);
+              onTableError(msg.schema, msg.table, msg.error);
+            }
             sendNextFromBatch(worker);
             break;
         }
@@ -0,0 +1,225 @@
+import type { ModelChunkingStats } from "./chunking.js";
+import type { ModelPricingEntry } from "./pricing.js";
+
+// ---------------------------------------------------------------------------
+// Types
+// ---------------------------------------------------------------------------
+
+/** What a provider lets one API key do. */
+export type ProviderLimits = {
+  /** null = unlimited. */
+  requestsPerMinute: number | null;
+  /** Input tokens per minute; null = unlimited. */
+  tokensPerMinute: number | null;
+  /** Inputs sent per request. */
+  maxBatchSize: number;
+  /** Requests in flight at once. */
+  concurrency: number;
+  /** Round trip of one request; bounds the pace when no rate limit does. */
+  requestLatencyMs: number;
+};
+
+export type ThroughputOptions = {
+  /**
+   * Limits over the provider defaults. Key: provider name, or "*" for every
+   * provider; a provider's own key wins over "*".
+   */
+  limits: Record<string, Partial<ProviderLimits>>;
+};
+
+/** The limit that sets the pace: requests per minute, tokens per minute, or concurrency × latency. */
+export type ThroughputBottleneck = "requests" | "tokens" | "concurrency";
+
+export type ModelDurationProjection = {
+  provider: string;
+  limits: ProviderLimits;
+  /** Inputs to embed: one per row, or one per piece when documents are split. */
+  documentCount: number;
+  tokenCount: number;
+  requestCount: number;
+  /** Wall-clock time of a full embedding job, without retries. */
+  seconds: number;
+  bottleneck: ThroughputBottleneck;
+};
+
+export type DurationProjectionSummary = {
+  options: ThroughputOptions;
+  /** Key: model name */
+  byModel: Record<string, ModelDurationProjection>;
+};
+
+// ---------------------------------------------------------------------------
+// Provider defaults
+// ---------------------------------------------------------------------------
+
+/**
+ * Published limits of an entry-level paid account. Higher usage tiers raise
+ * them a lot, so set PROVIDER_RPM and PROVIDER_TPM to your account's.
+ */
+const DEFAULT_PROVIDER_LIMITS: Record<string, ProviderLimits> = {
+  openai: {
+    requestsPerMinute: 3000,
+    tokensPerMinute: 1_000_000,
+    maxBatchSize: 2048,
+    concurrency: 8,
+    requestLatencyMs: 1000,
+  },
+  cohere: {
+    requestsPerMinute: 2000,
+    tokensPerMinute: null,
+    maxBatchSize: 96,
+    concurrency: 8,
+    requestLatencyMs: 500,
+  },
+  voyage: {
+    requestsPerMinute: 2000,
+    tokensPerMinute: 3_000_000,
+    maxBatchSize: 1000,
+    concurrency: 8,
+    requestLatencyMs: 1000,
+  },
+  // Not a quota: rough local throughput of a mid-range GPU. Measure yours.
+  ollama: {
+    requestsPerMinute: null,
+    tokensPerMinute: 300_000,
+    maxBatchSize: 64,
+    concurrency: 1,
+    requestLatencyMs: 200,
+  },
+};
+
+/** For providers without their own defaults. */
+const GENERIC_PROVIDER_LIMITS: ProviderLimits = {
+  requestsPerMinute: 1000,
+  tokensPerMinute: 1_000_000,
+  maxBatchSize: 96,
+  concurrency: 4,
+  requestLatencyMs: 1000,
+};
+
+// ---------------------------------------------------------------------------
+// Public API
+// ---------------------------------------------------------------------------
+
+export function defaultThroughputOptions(): ThroughputOptions {
+  return { limits: {} };
+}
+
+/** The provider's defaults with the "*" and then the provider's own settings over them. */
+export function resolveProviderLimits(provider: string, options: ThroughputOptions): ProviderLimits {
+  const key = provider.toLowerCase();
+  return {
+    ...(DEFAULT_PROVIDER_LIMITS[key] ?? GENERIC_PROVIDER_LIMITS),
+    ...options.limits["*"],
+    ...options.limits[key],
+  };
+}
+
+/**
+ * Project how long embedding every document would take per model. Requests
+ * are full batches sent back to back; the slowest of the three limits sets
+ * the pace.
+ */
+export function projectEmbeddingDuration(
+  tables: { rowCount: number; chunkingByModel?: Record<string, ModelChunkingStats> }[],
+  entries: ModelPricingEntry[],
+  totalTokensByModel: Record<string, number>,
+  options: ThroughputOptions,
+): DurationProjectionSummary {
+  const byModel: Record<string, ModelDurationProjection> = {};
+
+  for (const entry of entries) {
+    const limits = resolveProviderLimits(entry.provider, options);
+    const documentCount = tables.reduce(
+      (sum, table) => sum + (table.chunkingByModel?.[entry.model]?.embeddingCalls ?? table.rowCount),
+      0,
+    );
+    const tokenCount = totalTokensByModel[entry.model] ?? 0;
+    const requestCount = Math.ceil(documentCount / limits.maxBatchSize);
+
+    const bounds: [ThroughputBottleneck, number][] = [
+      [
+        "requests",
+        limits.requestsPerMinute ? (requestCount / limits.requestsPerMinute) * 60 : 0,
+      ],
+      ["tokens", limits.tokensPerMinute ? (tokenCount / limits.tokensPerMinute) * 60 : 0],
+      ["concurrency", (requestCount * limits.requestLatencyMs) / 1000 / limits.concurrency],
+    ];
+    const [bottleneck, seconds] = bounds.reduce((slowest, bound) =>
+      bound[1] > slowest[1] ? bound : slowest,
+    );
+
+    byModel[entry.model] = {
+      provider: entry.provider,
+      limits,
+      documentCount,
+      tokenCount,
+      requestCount,
+      seconds,
+      bottleneck,
+    };
+  }
+
+  return { options, byModel };
+}
+
+/**
+ * Read provider limits from the environment: PROVIDER_RPM, PROVIDER_TPM,
+ * PROVIDER_BATCH_SIZE, PROVIDER_CONCURRENCY and PROVIDER_LATENCY_MS, each
+ * one number for every provider or "provider=number,...". An RPM or TPM of
+ * 0 means unlimited.
+ */
+export function parseThroughputOptionsFromEnv(
+  env: NodeJS.ProcessEnv = process.env,
+): ThroughputOptions {
+  const limits: ThroughputOptions["limits"] = {};
+  const set = <K extends keyof ProviderLimits>(
+    name: string,
+    field: K,
+    toValue: (count: number) => ProviderLimits[K],
+    allowZero: boolean,
+  ) => {
+    for (const [provider, count] of parseProviderValues(name, env[name] ?? "", allowZero)) {
+      limits[provider] = { ...limits[provider], [field]: toValue(count) };
+    }
+  };
+
+  set("PROVIDER_RPM", "requestsPerMinute", (count) => count || null, true);
+  set("PROVIDER_TPM", "tokensPerMinute", (count) => count || null, true);
+  set("PROVIDER_BATCH_SIZE", "maxBatchSize", wholeCount, false);
+  set("PROVIDER_CONCURRENCY", "concurrency", wholeCount, false);
+  set("PROVIDER_LATENCY_MS", "requestLatencyMs", (count) => count, false);
+
+  return { limits };
+}
+
+function wholeCount(count: number): number {
+  return Math.max(1, Math.round(count));
+}
+
+function parseProviderValues(name: string, value: string, allowZero: boolean): [string, number][] {
+  const values: [string, number][] = [];
+  for (const raw of value.split(",")) {
+    const item = raw.trim();
+    if (!item) continue;
+    const separator = item.lastIndexOf("=");
+    const provider = separator >= 0 ? item.slice(0, separator).trim().toLowerCase() : "*";
+    const count = Number.parseFloat(separator >= 0 ? item.slice(separator + 1) : item);
+    if (!provider || !Number.isFinite(count) || count < 0 || (count === 0 && !allowZero)) {
+      throw new Error(`Invalid ${name} entry "${item}". Use 500 or provider=500.`);
+    }
+    values.push([provider, count]);
+  }
+  return values;
+}
+
+/** "45s", "12m", "3h 20m" or "2d 4h". */
+export function formatProjectedDuration(seconds: number): string {
+  const rounded = Math.ceil(seconds);
+  if (rounded < 60) return `${rounded}s`;
+  const minutes = Math.ceil(rounded / 60);
+  if (minutes < 60) return `${minutes}m`;
+  const hours = Math.floor(minutes / 60);
+  if (hours < 48) return `${hours}h ${minutes % 60}m`;
+  return `${Math.floor(hours / 24)}d ${hours % 24}h`;
+}
@@ -0,0 +1,157 @@
+import { getEncoding } from "js-tiktoken";
+import type { TiktokenEncoding } from "js-tiktoken";
+
+// ---------------------------------------------------------------------------
+// Types
+// ---------------------------------------------------------------------------
+
+/**
+ * How tokens are counted for a model. `tiktoken` encoders are exact;
+ * `approximate` tokenizers scale the reference (cl100k_base) count by a
+ * fixed ratio, for providers whose tokenizers are not available in JS.
+ */
+export type TokenizerSpec =
+  | { id: string; kind: "tiktoken"; encoding: TiktokenEncoding }
+  | { id: string; kind: "approximate"; tokensPerReferenceToken: number };
+
+/** Per-text token counter for a set of tokenizers, keyed by tokenizer id. */
+export type TokenCounter = {
+  count: (text: string) => { reference: number; byTokenizer: Record<string, number> };
+  /** Reference tokens only, for breakdowns that do not need every tokenizer. */
+  countReference: (text: string) => number;
+};
+
+// ---------------------------------------------------------------------------
+// Registry
+// ---------------------------------------------------------------------------
+
+const REFERENCE_ENCODING: TiktokenEncoding = "cl100k_base";
+
+/** Tokenizer of text-embedding-3-* and ada-002; also the basis for approximations. */
+export const REFERENCE_TOKENIZER: TokenizerSpec = {
+  id: `tiktoken:${REFERENCE_ENCODING}`,
+  kind: "tiktoken",
+  encoding: REFERENCE_ENCODING,
+};
+
+function approximate(name: string, tokensPerReferenceToken: number): TokenizerSpec {
+  return { id: `approx:${name}`, kind: "approximate", tokensPerReferenceToken };
+}
+
+// Ratios are average token counts relative to cl100k_base on English-like
+// text. They are good enough for budgeting, not for billing reconciliation.
+const COHERE_TOKENIZER = approximate("cohere", 1.08);
+const VOYAGE_TOKENIZER = approximate("voyage", 1.15);
+const WORDPIECE_TOKENIZER = approximate("bert-wordpiece", 1.2);
+const SENTENCEPIECE_TOKENIZER = approximate("sentencepiece", 1.1);
+
+/** Exact matches, keyed by "provider/model". */
+const MODEL_TOKENIZERS: Record<string, TokenizerSpec> = {
+  "openai/text-embedding-3-small": REFERENCE_TOKENIZER,
+  "openai/text-embedding-3-large": REFERENCE_TOKENIZER,
+  "openai/text-embedding-ada-002": REFERENCE_TOKENIZER,
+  "ollama/nomic-embed-text": WORDPIECE_TOKENIZER,
+  "ollama/mxbai-embed-large": WORDPIECE_TOKENIZER,
+  "ollama/all-minilm": WORDPIECE_TOKENIZER,
+};
+
+/** Fallbacks when only the provider is known. */
+const PROVIDER_TOKENIZERS: Record<string, TokenizerSpec> = {
+  openai: REFERENCE_TOKENIZER,
+  azure: REFERENCE_TOKENIZER,
+  cohere: COHERE_TOKENIZER,
+  voyage: VOYAGE_TOKENIZER,
+  ollama: WORDPIECE_TOKENIZER,
+  huggingface: WORDPIECE_TOKENIZER,
+  mistral: SENTENCEPIECE_TOKENIZER,
+  vertex_ai: SENTENCEPIECE_TOKENIZER,
+  gemini: SENTENCEPIECE_TOKENIZER,
+};
+
+/** Resolve the tokenizer for a model, falling back to the reference encoder. */
+export function resolveTokenizer(provider: string, model: string): TokenizerSpec {
+  const normalizedProvider = provider.toLowerCase();
+  const normalizedModel = model.toLowerCase();
+
+  const exact = MODEL_TOKENIZERS[`${normalizedProvider}/${normalizedModel}`];
+  if (exact) {
+    return exact;
+  }
+
+  // LiteLLM reports e.g. "cohere_chat" or "vertex_ai-embedding-models"
+  for (const [prefix, tokenizer] of Object.entries(PROVIDER_TOKENIZERS)) {
+    if (
+      normalizedProvider === prefix ||
+      normalizedProvider.startsWith(`${prefix}_`) ||
+      normalizedProvider.startsWith(`${prefix}-`)
+    ) {
+      return tokenizer;
+    }
+  }
+
+  return REFERENCE_TOKENIZER;
+}
+
+/** Map every priced model to its tokenizer. Keyed by model name, like `toPricingMap`. */
+export function buildModelTokenizers(
+  entries: { provider: string; model: string }[],
+): Record<string, TokenizerSpec> {
+  const tokenizers: Record<string, TokenizerSpec> = {};
+  for (const entry of entries) {
+    tokenizers[entry.model] = resolveTokenizer(entry.provider, entry.model);
+  }
+  return tokenizers;
+}
+
+// ---------------------------------------------------------------------------
+// Counting
+// ---------------------------------------------------------------------------
+
+const encoderCache = new Map<TiktokenEncoding, ReturnType<typeof getEncoding>>();
+
+function getEncoder(encoding: TiktokenEncoding): ReturnType<typeof getEncoding> {
+  let encoder = encoderCache.get(encoding);
+  if (!encoder) {
+    encoder = getEncoding(encoding);
+    encoderCache.set(encoding, encoder);
+  }
+  return encoder;
+}
+
+/** The cl100k_base encoder the splitter measures token-sized pieces with. */
+export function getReferenceEncoder(): ReturnType<typeof getEncoding> {
+  return getEncoder(REFERENCE_ENCODING);
+}
+
+/**
+ * Build a counter for the distinct tokenizers in `specs`. The reference
+ * encoder always runs, since approximate tokenizers derive from it.
+ */
+export function createTokenCounter(specs: TokenizerSpec[]): TokenCounter {
+  const distinct = new Map<string, TokenizerSpec>();
+  for (const spec of specs) {
+    distinct.set(spec.id, spec);
+  }
+  const referenceEncoder = getEncoder(REFERENCE_ENCODING);
+
+  return {
+    count: (text) => {
+      const reference = referenceEncoder.encode(text).length;
+      const byTokenizer: Record<string, number> = {};
+
+      for (const spec of distinct.values()) {
+        if (spec.id === REFERENCE_TOKENIZER.id) {
+          byTokenizer[spec.id] = reference;
+        } else if (spec.kind === "tiktoken") {
+          byTokenizer[spec.id] = getEncoder(spec.encoding).encode(text).length;
+        } else {
+          // Left fractional so per-row rounding does not bias the totals
+          byTokenizer[spec.id] = reference * spec.tokensPerReferenceToken;
+        }
+      }
+
+      return { reference, byTokenizer };
+    },
+    countReference: (text) => referenceEncoder.encode(text).length,
+  };
+}
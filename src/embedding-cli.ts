@@ -6,60 +6,270 @@ import { checkCancel, checkNodeVersion } from "./helpers.js";
 import { log } from "./logger.js";
 import { REQUIRED_NODE_VERSION } from "./constants.js";
 import { gatherEmbeddingResponses } from "./gather-embedding-responses.js";
+import { loadEmbeddingConfig } from "./embedding-config.js";
 import type { EmbeddingUserAnswers } from "./embedding-types.js";
 import { estimateCost } from "./cost_estimator/estimate.js";
+import { estimateCostFromCatalog } from "./cost_estimator/catalog_estimate.js";
+import { embedTables } from "./cost_estimator/embed.js";
+import type {
+  EmbeddingRunResult,
+  TableEmbeddingStatus,
+} from "./cost_estimator/embed.js";
 import type { CostEstimationResult } from "./cost_estimator/estimate.js";
 import { ProgressFileWriter } from "./cost_estimator/progress_file.js";
 import { startProgressDashboard } from "./cost_estimator/progress_dashboard.js";
 import type { ProgressDashboardHandle } from "./cost_estimator/progress_dashboard.js";
-import { getPricing, toPricingMap } from "./cost_estimator/pricing.js";
-import type { ModelPricingEntry } from "./cost_estimator/pricing.js";
+import { parseDashboardSecurityOptionsFromEnv } from "./cost_estimator/dashboard_security.js";
+import {
+  filterPricingEntries,
+  formatPriceAge,
+  parsePricingSourceOptionsFromEnv,
+  PRICING_ORIGINS,
+  summarizePricingProvenance,
+} from "./cost_estimator/pricing.js";
+import type { ModelPricingEntry, PricingOrigin } from "./cost_estimator/pricing.js";
+import { getPricingWithOverrides } from "./cost_estimator/pricing_overrides.js";
+import { formatBytes, storageBreakdownModels } from "./cost_estimator/storage.js";
+import type { StorageSize } from "./cost_estimator/storage.js";
+import { formatProjectedDuration } from "./cost_estimator/throughput.js";
+import { BUDGET_EXCEEDED_EXIT_CODE } from "./cost_estimator/budget.js";
+import type { ThroughputBottleneck } from "./cost_estimator/throughput.js";
+import {
+  compareRuns,
+  comparisonCostModels,
+  loadRunSnapshot,
+} from "./cost_estimator/compare.js";
+import type { ChangeValue, RunComparison, TableComparison } from "./cost_estimator/compare.js";
+import { readCheckpoint } from "./cost_estimator/checkpoint_file.js";
+import type { CheckpointData } from "./cost_estimator/checkpoint_file.js";
+import { emptyEstimationState, readEstimationState } from "./cost_estimator/incremental.js";
+import type { EstimationState } from "./cost_estimator/incremental.js";
+import {
+  buildCostReport,
+  DEFAULT_COMPARISON_BASE_PATH,
+  describeDatabase,
+  exportComparisonReport,
+  exportCostReport,
+  parseReportExportOptions,
+} from "./cost_estimator/report_exporter.js";
+import type { ReportExportOptions, ReportMetadata } from "./cost_estimator/report_exporter.js";
+import {
+  archiveRun,
+  defaultHistoryDirectory,
+  parseRunHistoryOptionsFromEnv,
+} from "./cost_estimator/run_history.js";
+import type { RunHistoryOptions } from "./cost_estimator/run_history.js";
+import { RunController } from "./cost_estimator/run_control.js";
+import type { RunControlState } from "./cost_estimator/run_control.js";
+import { RunEventBus } from "./cost_estimator/run_events.js";
+import {
+  formatCliHelp,
+  hasFlag,
+  parseCliArgs,
+  parsePositiveInt,
+  resolveCliEnv,
+} from "./cost_estimator/cli_args.js";
+import type { ParsedCliArgs } from "./cost_estimator/cli_args.js";
 
 checkNodeVersion(REQUIRED_NODE_VERSION);
 
 const DEFAULT_PROGRESS_FILE = "./cost_estimation_progress.json";
+const DEFAULT_CHECKPOINT_FILE = "./cost_estimation_checkpoint.json";
+const DEFAULT_STATE_FILE = "./cost_estimation_state.json";
 const DEFAULT_DASHBOARD_HOST = "127.0.0.1";
 const DEFAULT_DASHBOARD_PORT = 4173;
+// Progress lines of an embedding run are printed at most this often
+const EMBED_PROGRESS_INTERVAL_MS = 2_000;
+
+type EstimateRunOptions = {
+  /** Environment with the command-line flags applied. */
+  env: NodeJS.ProcessEnv;
+  reportOptions: ReportExportOptions | null;
+  /** null when archiving is off (`--no-history`). */
+  historyOptions: RunHistoryOptions | null;
+  resume: boolean;
+  incremental: boolean;
+  /** Estimate from catalog statistics only, reading no rows. */
+  quick: boolean;
+};
 
 // ---------------------------------------------------------------------------
 // Entry point
 // ---------------------------------------------------------------------------
 
 async function main(): Promise<void> {
+  const args = parseCliArgs(process.argv.slice(2));
+  if (args.help) {
+    console.log(formatCliHelp("embedding-cli"));
+    return;
+  }
+  const env = resolveCliEnv(args);
+
+  switch (args.command) {
+    case "dashboard":
+      await runDashboard(env);
+      return;
+    case "pricing":
+      await runPricing(args, env);
+      return;
+    case "compare":
+      await runCompare(args, env);
+      return;
+    case "estimate":
+    case "embed":
+      break;
+  }
+
   intro(
     pc.blue(pc.bold("Embedding CLI")) +
-      pc.dim("  —  Estimativa de custo de embedding")
+      pc.dim(
+        args.command === "embed"
+          ? "  —  Geração de embeddings"
+          : "  —  Estimativa de custo de embedding"
+      )
   );
 
-  const answers = await gatherEmbeddingResponses();
+  // Validate export settings before asking anything
+  const reportOptions = parseReportExportOptions(env);
+  const historyOptions = parseRunHistoryOptionsFromEnv(env);
+  const config = await loadEmbeddingConfig(env.EMBEDDING_CONFIG_FILE);
+  const answers = await gatherEmbeddingResponses({ args, config });
 
-  await runEstimate(answers);
+  if (answers.operation === "embed") {
+    await runEmbed(answers);
+    outro(pc.green("Concluído!"));
+    return;
+  }
+
+  await runEstimate(answers, {
+    env,
+    reportOptions,
+    historyOptions,
+    resume: hasFlag(args, "resume"),
+    incremental: hasFlag(args, "incremental"),
+    quick: hasFlag(args, "quick"),
+  });
 
   outro(pc.green("Concluído!"));
 }
 
+// ---------------------------------------------------------------------------
+// Other commands
+// ---------------------------------------------------------------------------
+
+async function runDashboard(env: NodeJS.ProcessEnv): Promise<void> {
+  // The server keeps the process alive until Ctrl+C
+  await startProgressDashboard({
+    progressFilePath: env.COST_PROGRESS_FILE || DEFAULT_PROGRESS_FILE,
+    historyDir: defaultHistoryDirectory(env),
+    host: env.COST_DASHBOARD_HOST || DEFAULT_DASHBOARD_HOST,
+    port: parsePositiveInt(env.COST_DASHBOARD_PORT, DEFAULT_DASHBOARD_PORT),
+    security: parseDashboardSecurityOptionsFromEnv(env),
+  });
+}
+
+async function runPricing(args: ParsedCliArgs, env: NodeJS.ProcessEnv): Promise<void> {
+  const entries = await getPricingWithOverrides(
+    env.PRICING_OVERRIDES_FILE || undefined,
+    parsePricingSourceOptionsFromEnv(env)
+  );
+  if (hasFlag(args, "json")) {
+    console.log(JSON.stringify(entries, null, 2));
+    return;
+  }
+
+  const byProvider = new Map<string, ModelPricingEntry[]>();
+  for (const entry of entries) {
+    const list = byProvider.get(entry.provider) ?? [];
+    list.push(entry);
+    byProvider.set(entry.provider, list);
+  }
+
+  const lines: string[] = [];
+  for (const [provider, providerEntries] of byProvider) {
+    lines.push(pc.bold(provider.toUpperCase()));
+    for (const entry of providerEntries) {
+      const price =
+        entry.pricePerMillion === 0 ? "free/local" : `$${entry.pricePerMillion}/1M tokens`;
+      const limit = entry.maxInputTokens
+        ? pc.dim(`  limite ${entry.maxInputTokens.toLocaleString("pt-BR")} tokens`)
+        : "";
+      const batch =
+        entry.batchPricePerMillion !== undefined
+          ? pc.dim(`  lote $${entry.batchPricePerMillion}/1M`)
+          : "";
+      const discount =
+        entry.discount !== undefined
+          ? pc.dim(`  desconto x${entry.discount.toLocaleString("pt-BR")}`)
+          : "";
+      const tiers = entry.tiers?.length ? pc.dim(`  ${entry.tiers.length} faixa(s) de volume`) : "";
+      lines.push(
+        `  ${pc.yellow(entry.model.padEnd(40))}${price.padStart(20)}${limit}${batch}${discount}${tiers}`
+      );
+    }
+    lines.push("");
+  }
+  console.log(lines.join("\n"));
+}
+
+async function runCompare(args: ParsedCliArgs, env: NodeJS.ProcessEnv): Promise<void> {
+  if (args.positionals.length !== 2) {
+    throw new Error(
+      "Informe dois arquivos: compare <antes> <depois> (arquivos de progresso ou relatórios JSON)."
+    );
+  }
+  const reportOptions = parseReportExportOptions(env, DEFAULT_COMPARISON_BASE_PATH);
+  const [before, after] = await Promise.all(
+    args.positionals.map((filePath) => loadRunSnapshot(filePath))
+  );
+  const comparison = compareRuns(before, after);
+
+  displayComparison(comparison);
+
+  if (reportOptions) {
+    const written = await exportComparisonReport(comparison, reportOptions);
+    log(pc.dim(`Relatório salvo em ${written.join(", ")}`));
+  }
+}
+
 // ---------------------------------------------------------------------------
 // Estimate runner
 // ---------------------------------------------------------------------------
 
-async function runEstimate(answers: EmbeddingUserAnswers): Promise<void> {
+async function runEstimate(
+  answers: EmbeddingUserAnswers,
+  options: EstimateRunOptions,
+): Promise<void> {
   const { common } = answers;
-  const progressFilePath = process.env.COST_PROGRESS_FILE || DEFAULT_PROGRESS_FILE;
-  const dashboardHost = process.env.COST_DASHBOARD_HOST || DEFAULT_DASHBOARD_HOST;
-  const dashboardPort = parsePositiveInt(
-    process.env.COST_DASHBOARD_PORT,
-    DEFAULT_DASHBOARD_PORT,
-  );
+  const { env, reportOptions, historyOptions } = options;
+  if (options.quick && (options.resume || options.incremental)) {
+    throw new Error("--quick não pode ser combinado com --resume ou --incremental.");
+  }
+  const progressFilePath = env.COST_PROGRESS_FILE || DEFAULT_PROGRESS_FILE;
+  const checkpointFilePath = env.COST_CHECKPOINT_FILE || DEFAULT_CHECKPOINT_FILE;
+  const stateFilePath = env.COST_STATE_FILE || DEFAULT_STATE_FILE;
+  const dashboardHost = env.COST_DASHBOARD_HOST || DEFAULT_DASHBOARD_HOST;
+  const dashboardPort = parsePositiveInt(env.COST_DASHBOARD_PORT, DEFAULT_DASHBOARD_PORT);
   const dashboardUrl = `http://${dashboardHost}:${dashboardPort}`;
+  const dashboardSecurity = parseDashboardSecurityOptionsFromEnv(env);
+  // Pause, cancel and skip tables from the dashboard; a --quick estimate reads no rows
+  const control = options.quick ? undefined : new RunController();
+  const unsubscribeControl = control?.subscribe(logControlStateChanges(control));
+  // This run's dashboard gets progress as events instead of reading the file
+  const events = new RunEventBus();
 
   let dashboardHandle: ProgressDashboardHandle | null = null;
 
   try {
     dashboardHandle = await startProgressDashboard({
       progressFilePath,
+      historyDir: defaultHistoryDirectory(env),
       host: dashboardHost,
       port: dashboardPort,
       suppressLogs: true,
+      control,
+      events,
+      security: dashboardSecurity,
     });
   } catch (error: unknown) {
     if (isAddressInUseError(error)) {
@@ -68,6 +278,9 @@ async function runEstimate(answers: EmbeddingUserAnswers): Promise<void> {
           `[progress-dashboard] Porta ${dashboardPort} já está em uso. Usando dashboard existente em ${dashboardUrl}.`,
         ),
       );
+      if (control) {
+        log(pc.dim("[progress-dashboard] Os controles de execução só funcionam no dashboard desta execução."));
+      }
     } else {
       const message = error instanceof Error ? error.message : String(error);
       log(
@@ -81,38 +294,358 @@ async function runEstimate(answers: EmbeddingUserAnswers): Promise<void> {
   try {
     log("", { newline: "before" });
     log(pc.bold(pc.cyan("Estimativa de custo")));
-    log(`Acesse o dashboard: ${dashboardUrl}`);
-    log(pc.dim("Conectando ao banco e escaneando tabelas..."), { newline: "after" });
+    if (dashboardHandle?.loginUrl) {
+      log(`Acesse o dashboard (link de acesso de uso único): ${dashboardHandle.loginUrl}`);
+    } else {
+      log(`Acesse o dashboard: ${dashboardUrl}`);
+    }
+    log(
+      pc.dim(
+        options.quick
+          ? "Conectando ao banco e lendo as estatísticas do catálogo..."
+          : "Conectando ao banco e escaneando tabelas...",
+      ),
+      { newline: "after" },
+    );
 
-    // Fetch pricing (uses cache if fresh, otherwise fetches from internet)
-    const pricingEntries = await getPricing();
+    const resumeFrom = options.resume
+      ? await loadCheckpointToResume(checkpointFilePath)
+      : null;
+    const previousState = options.incremental
+      ? await loadPreviousState(stateFilePath)
+      : null;
+
+    // Fetch pricing (uses cache if fresh, otherwise fetches from internet).
+    // A resumed run keeps the pricing it started with.
+    const pricingEntries =
+      resumeFrom?.pricingEntries ??
+      filterPricingEntries(
+        await getPricingWithOverrides(
+          common.pricingOverridesFile ?? undefined,
+          common.pricingSource
+        ),
+        common.pricingFilter
+      );
+    if (pricingEntries.length === 0) {
+      throw new Error("Nenhum modelo corresponde ao filtro de preços (PRICING_PROVIDERS/PRICING_MODELS).");
+    }
     const progressWriter = new ProgressFileWriter({
       filePath: progressFilePath,
       totalTables: 0,
-      modelPricing: toPricingMap(pricingEntries),
+      pricingEntries,
+      sampling: common.sampling ?? undefined,
+      events,
     });
 
-    const result = await estimateCost({
-      sourceDbUrl: common.sourceDbUrl,
-      sourceSchema: common.sourceSchema,
+    const startedAt = new Date();
+    const result = options.quick
+      ? await estimateCostFromCatalog({
+          sourceDbUrl: common.sourceDbUrl,
+          sourceSchemas: common.sourceSchemas,
+          tableAllowlist: common.tableAllowlist,
+          tableBlocklist: common.tableBlocklist,
+          relationKinds: common.relationKinds,
+          viewKeyColumns: common.viewKeyColumns,
+          textColumnsMode: common.textColumnsMode,
+          excludedColumns: common.excludedColumns,
+          splitter: common.splitter,
+          storage: common.storage,
+          throughput: common.throughput,
+          budget: common.budget,
+          pricingEntries,
+          progressWriter,
+        })
+      : await estimateCost({
+          sourceDbUrl: common.sourceDbUrl,
+          sourceSchemas: common.sourceSchemas,
+          tableAllowlist: common.tableAllowlist,
+          tableBlocklist: common.tableBlocklist,
+          updatedAtCandidates: common.updatedAtCandidates,
+          relationKinds: common.relationKinds,
+          viewKeyColumns: common.viewKeyColumns,
+          partitionBreakdown: common.partitionBreakdown,
+          textColumnsMode: common.textColumnsMode,
+          excludedColumns: common.excludedColumns,
+          batchSize: common.batchSize,
+          maxThreads: common.maxThreads,
+          tablesPerBatch: common.tablesPerBatch,
+          largeTableThreshold: common.largeTableThreshold,
+          chunkSize: common.chunkSize,
+          snapshotConcurrency: common.snapshotConcurrency,
+          sampling: common.sampling ?? undefined,
+          splitter: common.splitter,
+          storage: common.storage,
+          throughput: common.throughput,
+          budget: common.budget,
+          pricingEntries,
+          progressWriter,
+          checkpointFilePath,
+          resumeFrom,
+          stateFilePath,
+          previousState,
+          trackRowHashes: env.INCREMENTAL_ROW_HASHES === "true",
+          control,
+        });
+
+    displayCostResults(result);
+
+    const metadata: ReportMetadata = {
+      generatedAt: new Date().toISOString(),
+      startedAt: startedAt.toISOString(),
+      durationMs: Date.now() - startedAt.getTime(),
+      database: describeDatabase(common.sourceDbUrl),
+      sourceSchemas: common.sourceSchemas,
       tableAllowlist: common.tableAllowlist,
       tableBlocklist: common.tableBlocklist,
-      updatedAtCandidates: common.updatedAtCandidates,
       textColumnsMode: common.textColumnsMode,
       excludedColumns: common.excludedColumns,
-      batchSize: common.batchSize,
-      pricingEntries,
-      progressWriter,
-    });
+      resumed: resumeFrom !== null,
+      incremental: previousState !== null,
+    };
+    if (reportOptions) {
+      const written = await exportCostReport(result, metadata, reportOptions);
+      log(pc.dim(`Relatório salvo em ${written.join(", ")}`));
+    }
+    if (historyOptions) {
+      const run = await archiveRun(
+        historyOptions,
+        buildCostReport(result, metadata),
+        result.pricingEntries
+      );
+      log(pc.dim(`Execução arquivada no histórico como ${run.id} (${dashboardUrl}/#history)`));
+    }
 
-    displayCostResults(result);
+    // CI pipelines tell "over budget" apart from a failure by the exit code
+    if (result.budget && result.budget.violations.length > 0) {
+      process.exitCode = BUDGET_EXCEEDED_EXIT_CODE;
+    }
   } finally {
+    unsubscribeControl?.();
     if (dashboardHandle) {
       await dashboardHandle.close();
     }
   }
 }
 
+const CONTROL_STATE_MESSAGES: Partial<Record<RunControlState, string>> = {
+  paused: "Execução pausada pelo dashboard: as tabelas em andamento terminam, nenhuma nova é iniciada.",
+  running: "Execução retomada pelo dashboard.",
+  cancelled: "Execução cancelada pelo dashboard: as tabelas em andamento terminam e a estimativa é encerrada.",
+};
+
+/** Listener that logs pause, resume and cancel; skipped tables are logged as they are dropped. */
+function logControlStateChanges(control: RunController): () => void {
+  let lastState = control.state;
+  return () => {
+    if (control.state === lastState) {
+      return;
+    }
+    lastState = control.state;
+    const message = CONTROL_STATE_MESSAGES[lastState];
+    if (message) {
+      log(pc.yellow(message));
+    }
+  };
+}
+
+// ---------------------------------------------------------------------------
+// Embed runner
+// ---------------------------------------------------------------------------
+
+async function runEmbed(answers: EmbeddingUserAnswers): Promise<void> {
+  const { common, embed } = answers;
+  if (!embed) {
+    throw new Error("Configuração do provedor de embeddings ausente.");
+  }
+
+  log("", { newline: "before" });
+  log(pc.bold(pc.cyan("Geração de embeddings")));
+  log(`Provedor: ${embed.provider}  Modelo: ${embed.model}`);
+  log(`Arquivo de saída: ${embed.outputFile}`);
+  if (embed.budgetUsd !== null) {
+    log(`Orçamento: $${embed.budgetUsd.toFixed(4)}`);
+  }
+  log(
+    pc.dim("Conectando ao banco e estimando o custo pelas estatísticas do catálogo..."),
+    { newline: "after" },
+  );
+
+  let lastProgressAt = 0;
+  const result = await embedTables({
+    sourceDbUrl: common.sourceDbUrl,
+    sourceSchemas: common.sourceSchemas,
+    tableAllowlist: common.tableAllowlist,
+    tableBlocklist: common.tableBlocklist,
+    relationKinds: common.relationKinds,
+    viewKeyColumns: common.viewKeyColumns,
+    textColumnsMode: common.textColumnsMode,
+    excludedColumns: common.excludedColumns,
+    batchSize: common.batchSize,
+    maxThreads: common.maxThreads,
+    tablesPerBatch: common.tablesPerBatch,
+    largeTableThreshold: common.largeTableThreshold,
+    chunkSize: common.chunkSize,
+    snapshotConcurrency: common.snapshotConcurrency,
+    splitter: common.splitter,
+    options: embed,
+    pricingEntries: await getPricingWithOverrides(
+      common.pricingOverridesFile ?? undefined,
+      common.pricingSource
+    ),
+    onProgress: (progress) => {
+      const now = Date.now();
+      if (now - lastProgressAt < EMBED_PROGRESS_INTERVAL_MS) {
+        return;
+      }
+      lastProgressAt = now;
+      const spend =
+        progress.costUsd === null
+          ? ""
+          : `, $${progress.costUsd.toFixed(4)} de ~$${(progress.estimatedCostUsd ?? 0).toFixed(4)}`;
+      log(
+        pc.dim(
+          `  ${progress.documentCount.toLocaleString("pt-BR")} documentos, ` +
+            `${progress.tokenCount.toLocaleString("pt-BR")} de ~` +
+            `${progress.estimatedTokens.toLocaleString("pt-BR")} tokens${spend}, ` +
+            `${progress.requestCount.toLocaleString("pt-BR")} requisições, ` +
+            `${progress.retryCount.toLocaleString("pt-BR")} novas tentativas`,
+        ),
+      );
+    },
+  });
+
+  displayEmbeddingResults(result);
+  if (result.stoppedByBudget) {
+    process.exitCode = BUDGET_EXCEEDED_EXIT_CODE;
+  }
+}
+
+const EMBEDDING_STATUS_LABELS: Record<TableEmbeddingStatus, string> = {
+  completed: "concluída",
+  stopped: "interrompida",
+  error: "erro",
+  skipped: "não iniciada",
+};
+
+function displayEmbeddingResults(result: EmbeddingRunResult): void {
+  const sep = pc.dim("─".repeat(72));
+  const formatCost = (cost: number | null) => (cost === null ? "?" : `$${cost.toFixed(4)}`);
+  const lines: string[] = [
+    "",
+    sep,
+    pc.bold("  RELATÓRIO DE EMBEDDING"),
+    sep,
+    "",
+    `  Provedor: ${result.provider}  Modelo: ${result.model}`,
+    "",
+    pc.bold("  Tabelas:"),
+    pc.dim("  " + "─".repeat(68)),
+    pc.dim(
+      "  " +
+        "Tabela".padEnd(32) +
+        "Status".padEnd(14) +
+        "Documentos".padStart(11) +
+        "Tokens".padStart(12) +
+        "Estimado".padStart(12)
+    ),
+    pc.dim("  " + "─".repeat(68)),
+  ];
+
+  for (const t of result.tables) {
+    const name = `${t.schema}.${t.table}`;
+    const status = EMBEDDING_STATUS_LABELS[t.status];
+    const statusColor =
+      t.status === "completed" ? pc.green : t.status === "error" ? pc.red : pc.yellow;
+    const estimated =
+      t.estimatedTokens === null ? "?" : `~${t.estimatedTokens.toLocaleString("pt-BR")}`;
+    lines.push(
+      "  " +
+        pc.cyan(name.padEnd(32)) +
+        statusColor(status.padEnd(14)) +
+        pc.white(t.documentCount.toLocaleString("pt-BR").padStart(11)) +
+        pc.white(t.tokenCount.toLocaleString("pt-BR").padStart(12)) +
+        pc.dim(estimated.padStart(12))
+    );
+    if (t.error) {
+      lines.push(pc.red(`      ${t.error}`));
+    }
+  }
+
+  lines.push(pc.dim("  " + "─".repeat(68)));
+  lines.push(
+    "  " +
+      pc.bold("TOTAL".padEnd(46)) +
+      pc.bold(result.documentCount.toLocaleString("pt-BR").padStart(11)) +
+      pc.bold(result.tokenCount.toLocaleString("pt-BR").padStart(12)) +
+      pc.dim(`~${result.estimatedTokens.toLocaleString("pt-BR")}`.padStart(12))
+  );
+  lines.push("");
+
+  const price =
+    result.pricePerMillion === null
+      ? pc.yellow("preço desconhecido")
+      : pc.dim(`$${result.pricePerMillion}/1M tokens`);
+  lines.push(
+    `  Custo real: ${pc.green(pc.bold(formatCost(result.costUsd)))}` +
+      pc.dim(`  (estimado ~${formatCost(result.estimatedCostUsd)})  `) +
+      price
+  );
+  if (result.countedTokenCount !== result.tokenCount) {
+    lines.push(
+      pc.dim(
+        `  Tokens contados localmente: ${result.countedTokenCount.toLocaleString("pt-BR")} ` +
+          `(o provedor cobrou ${result.tokenCount.toLocaleString("pt-BR")})`
+      )
+    );
+  }
+  lines.push(
+    pc.dim(
+      `  ${result.requestCount.toLocaleString("pt-BR")} requisições, ` +
+        `${result.retryCount.toLocaleString("pt-BR")} novas tentativas, ${result.elapsedSeconds}s`
+    )
+  );
+  if (result.stoppedByBudget && result.budgetUsd !== null) {
+    lines.push(
+      pc.yellow(
+        `  Execução interrompida: o próximo lote ultrapassaria o orçamento de $${result.budgetUsd.toFixed(4)}.`
+      )
+    );
+  }
+  lines.push(pc.dim(`  Embeddings salvos em ${result.outputFile}`));
+  lines.push(sep);
+  lines.push("");
+
+  note(lines.join("\n"), pc.green("Embedding concluído"));
+}
+
+async function loadCheckpointToResume(filePath: string): Promise<CheckpointData | null> {
+  const checkpoint = await readCheckpoint(filePath);
+  if (!checkpoint) {
+    log(pc.yellow(`Nenhum checkpoint encontrado em ${filePath}. Iniciando nova execução.`));
+    return null;
+  }
+  if (checkpoint.status === "completed") {
+    log(pc.yellow(`O checkpoint em ${filePath} já foi concluído. Iniciando nova execução.`));
+    return null;
+  }
+  log(pc.dim(`Retomando execução a partir de ${filePath}...`));
+  return checkpoint;
+}
+
+async function loadPreviousState(filePath: string): Promise<EstimationState> {
+  const state = await readEstimationState(filePath);
+  if (!state) {
+    log(
+      pc.yellow(
+        `Nenhum estado anterior encontrado em ${filePath}. Todas as linhas contam como alteradas.`,
+      ),
+    );
+    return emptyEstimationState();
+  }
+  log(pc.dim(`Estimando alterações desde ${state.updatedAt}...`));
+  return state;
+}
+
 // ---------------------------------------------------------------------------
 // Results display
 // ---------------------------------------------------------------------------
@@ -124,9 +657,32 @@ function displayCostResults(result: CostEstimationResult): void {
   const lines: string[] = [
     "",
     sep,
-    pc.bold("  RELATÓRIO DE CUSTO DE EMBEDDING"),
+    pc.bold(
+      result.approximate
+        ? "  RELATÓRIO DE CUSTO DE EMBEDDING (APROXIMADO)"
+        : "  RELATÓRIO DE CUSTO DE EMBEDDING"
+    ),
     sep,
     "",
+  ];
+
+  if (result.approximate) {
+    lines.push(
+      pc.yellow("  Estimado apenas com pg_class e pg_stats; nenhuma linha foi lida."),
+      pc.dim("  A precisão depende de quão recente foi o último ANALYZE."),
+    );
+    if (result.approximate.tablesWithoutStats.length > 0) {
+      lines.push(
+        pc.yellow(
+          `  Sem estatísticas (contadas como vazias, execute ANALYZE): ` +
+            result.approximate.tablesWithoutStats.join(", ")
+        )
+      );
+    }
+    lines.push("");
+  }
+
+  lines.push(
     pc.bold("  Tabelas:"),
     pc.dim("  " + "─".repeat(56)),
     pc.dim(
@@ -136,7 +692,7 @@ function displayCostResults(result: CostEstimationResult): void {
         "Tokens".padStart(15)
     ),
     pc.dim("  " + "─".repeat(56)),
-  ];
+  );
 
   for (const t of result.tables) {
     const name = `${t.schema}.${t.table}`;
@@ -146,6 +702,25 @@ function displayCostResults(result: CostEstimationResult): void {
         pc.white(t.rowCount.toLocaleString("pt-BR").padStart(10)) +
         pc.white(t.tokenCount.toLocaleString("pt-BR").padStart(15))
     );
+    for (const [partition, stats] of Object.entries(t.partitionTokens ?? {})) {
+      lines.push(
+        pc.dim(
+          "  " +
+            `  └ ${partition}`.padEnd(32) +
+            stats.rowCount.toLocaleString("pt-BR").padStart(10) +
+            stats.tokenCount.toLocaleString("pt-BR").padStart(15)
+        )
+      );
+    }
+    if (t.sampling) {
+      lines.push(
+        pc.dim(
+          `      ~ amostra de ${t.sampling.sampledRows.toLocaleString("pt-BR")} linhas, ` +
+            `IC ${t.sampling.tokenCountLow.toLocaleString("pt-BR")} – ` +
+            `${t.sampling.tokenCountHigh.toLocaleString("pt-BR")} tokens`
+        )
+      );
+    }
   }
 
   lines.push(pc.dim("  " + "─".repeat(56)));
@@ -155,8 +730,60 @@ function displayCostResults(result: CostEstimationResult): void {
       pc.bold(totalRows.toLocaleString("pt-BR").padStart(10)) +
       pc.bold(result.totalTokens.toLocaleString("pt-BR").padStart(15))
   );
+  if (result.sampling) {
+    const { sampling } = result;
+    const confidence = Math.round(sampling.confidenceLevel * 100);
+    lines.push("");
+    lines.push(
+      pc.yellow(
+        `  Amostragem ${sampling.method.toUpperCase()} de ${sampling.fraction * 100}% em ` +
+          `${sampling.sampledTables} tabela(s) — totais extrapolados.`
+      )
+    );
+    lines.push(
+      pc.dim(
+        `  Intervalo de confiança de ${confidence}%: ` +
+          `${sampling.totalTokensLow.toLocaleString("pt-BR")} – ` +
+          `${sampling.totalTokensHigh.toLocaleString("pt-BR")} tokens`
+      )
+    );
+  }
+  if (result.delta) {
+    const { delta } = result;
+    lines.push("");
+    lines.push(
+      pc.bold(`  Alterações desde a execução anterior (${delta.previousRunAt || "nenhuma"}):`)
+    );
+    for (const t of result.tables) {
+      if (!t.delta) continue;
+      const name = `${t.schema}.${t.table}`;
+      const deleted = t.delta.deletedRowCount
+        ? `, ${t.delta.deletedRowCount.toLocaleString("pt-BR")} removidas`
+        : "";
+      lines.push(
+        "  " +
+          pc.cyan(name.padEnd(32)) +
+          pc.white(t.delta.rowCount.toLocaleString("pt-BR").padStart(10)) +
+          pc.white(t.delta.tokenCount.toLocaleString("pt-BR").padStart(15)) +
+          pc.dim(`  ${t.delta.basis}${deleted}`)
+      );
+    }
+    lines.push(
+      "  " +
+        pc.bold("TOTAL".padEnd(32)) +
+        pc.bold(delta.rowCount.toLocaleString("pt-BR").padStart(10)) +
+        pc.bold(delta.totalTokens.toLocaleString("pt-BR").padStart(15))
+    );
+  }
   lines.push("");
-  lines.push(pc.bold("  Custo estimado por modelo:"));
+  lines.push(
+    pc.bold(
+      result.delta
+        ? "  Custo estimado por modelo (execução completa | somente alterações):"
+        : "  Custo estimado por modelo:"
+    )
+  );
+  lines.push(pc.dim(`  Preços: ${formatPricingOrigins(result.pricingEntries)}`));
   lines.push(pc.dim("  " + "─".repeat(56)));
 
   // Group entries by provider
@@ -171,34 +798,377 @@ function displayCostResults(result: CostEstimationResult): void {
     lines.push("  " + pc.bold(pc.dim(provider.toUpperCase())));
     for (const entry of entries) {
       const cost = result.costByModel[entry.model] ?? 0;
+      const tokens = result.totalTokensByModel[entry.model] ?? result.totalTokens;
       const costStr = `$${cost.toFixed(4)}`;
       const priceLabel =
         entry.pricePerMillion === 0
           ? pc.dim("  free/local")
-          : pc.dim(`  $${entry.pricePerMillion}/1M tokens`);
+          : pc.dim(
+              `  $${entry.pricePerMillion}/1M tokens${entry.tiers?.length ? " (por faixa)" : ""}`
+            ) +
+            (entry.origin === "override" || entry.origin === "fallback"
+              ? pc.yellow(`  [${PRICING_ORIGIN_LABELS[entry.origin]}]`)
+              : "");
+      const range = result.sampling?.costRangeByModel[entry.model];
+      const rangeLabel =
+        range && entry.pricePerMillion > 0
+          ? pc.dim(`  ($${range.low.toFixed(4)} – $${range.high.toFixed(4)})`)
+          : "";
       lines.push(
         "  " +
           pc.yellow(("  " + entry.model).padEnd(36)) +
+          pc.white(tokens.toLocaleString("pt-BR").padStart(15)) +
           priceLabel +
           "  " +
-          pc.green(pc.bold(costStr))
+          pc.green(pc.bold(costStr)) +
+          rangeLabel +
+          (result.delta
+            ? pc.dim("  |  ") +
+              pc.green(`$${(result.delta.costByModel[entry.model] ?? 0).toFixed(4)}`)
+            : "")
       );
+      const breakdown = result.costBreakdownByModel[entry.model];
+      const breakdownParts: string[] = [];
+      if (breakdown && breakdown.batch !== null) {
+        breakdownParts.push(`lote $${breakdown.batch.toFixed(4)}`);
+      }
+      if (breakdown && breakdown.discount !== 1) {
+        breakdownParts.push(
+          `com desconto (x${breakdown.discount.toLocaleString("pt-BR")}) ` +
+            `$${breakdown.discounted.toFixed(4)}` +
+            (breakdown.discountedBatch !== null
+              ? `, lote $${breakdown.discountedBatch.toFixed(4)}`
+              : "")
+        );
+      }
+      if (breakdownParts.length > 0) {
+        lines.push("  " + "".padEnd(36) + pc.dim(breakdownParts.join("  |  ")));
+      }
+      const projection = result.duration.byModel[entry.model];
+      if (projection && projection.requestCount > 0) {
+        lines.push(
+          "  " +
+            "".padEnd(36) +
+            pc.dim(
+              `~${formatProjectedDuration(projection.seconds)} para gerar, ` +
+                `${projection.requestCount.toLocaleString("pt-BR")} requisições ` +
+                `(limitado por ${BOTTLENECK_LABELS[projection.bottleneck]})`
+            )
+        );
+      }
     }
     lines.push("");
   }
 
+  lines.push(...formatChunkingLines(result));
+  lines.push(...formatStorageLines(result));
+  lines.push(...formatBudgetLines(result));
+
   lines.push(sep);
   lines.push("");
 
   note(lines.join("\n"), pc.green("Estimativa concluída"));
 }
 
-function parsePositiveInt(value: string | undefined, fallback: number): number {
-  const parsed = Number.parseInt(value ?? "", 10);
-  if (!Number.isFinite(parsed) || parsed <= 0) {
-    return fallback;
+const BOTTLENECK_LABELS: Record<ThroughputBottleneck, string> = {
+  requests: "requisições/min",
+  tokens: "tokens/min",
+  concurrency: "concorrência",
+};
+
+const PRICING_ORIGIN_LABELS: Record<PricingOrigin, string> = {
+  live: "da fonte",
+  cache: "do cache",
+  fallback: "tabela embutida",
+  override: "sobrescrito",
+};
+
+/** "da fonte 10, sobrescrito 1 (mais antigo 3h)" */
+function displayComparison(comparison: RunComparison): void {
+  const { before, after, totals } = comparison;
+  const costModels = comparisonCostModels(comparison);
+  const sep = pc.dim("─".repeat(60));
+  const lines: string[] = [];
+
+  for (const [label, run] of [
+    ["Antes ", before],
+    ["Depois", after],
+  ] as const) {
+    const kind = run.kind === "progress" ? "progresso" : "relatório";
+    lines.push(
+      `  ${pc.bold(label)}  ${pc.cyan(run.filePath)}` + pc.dim(`  (${kind}, ${run.runAt})`)
+    );
+    if (!run.completed) {
+      lines.push(pc.yellow("          Execução não concluída — totais parciais."));
+    }
+    if (run.errorTables.length > 0) {
+      lines.push(
+        pc.yellow(`          ${run.errorTables.length} tabela(s) com erro ignorada(s).`)
+      );
+    }
+    if (run.skippedTables.length > 0) {
+      lines.push(pc.yellow(`          ${run.skippedTables.length} tabela(s) pulada(s).`));
+    }
+  }
+  lines.push("");
+  lines.push(`  ${"Linhas".padEnd(14)}${formatChangeValue(totals.rows)}`);
+  lines.push(`  ${"Tokens".padEnd(14)}${formatChangeValue(totals.tokens)}`);
+  lines.push("");
+
+  lines.push(pc.bold("  Custo por modelo:"));
+  for (const [model, cost] of Object.entries(totals.costByModel)) {
+    lines.push(
+      "  " +
+        pc.yellow(("  " + model).padEnd(36)) +
+        pc.white(`$${cost.before.toFixed(4)} → $${cost.after.toFixed(4)}`) +
+        "  " +
+        formatSignedChange(cost, formatSignedUsd(cost.change))
+    );
+  }
+  lines.push("");
+
+  if (comparison.added.length > 0) {
+    lines.push(pc.bold(`  Tabelas adicionadas (${comparison.added.length}):`));
+    comparison.added.forEach((name) => lines.push(pc.green(`    + ${name}`)));
+    lines.push("");
+  }
+  if (comparison.removed.length > 0) {
+    lines.push(pc.bold(`  Tabelas removidas (${comparison.removed.length}):`));
+    comparison.removed.forEach((name) => lines.push(pc.red(`    - ${name}`)));
+    lines.push("");
+  }
+  if (comparison.errored.length > 0) {
+    lines.push(pc.bold(`  Tabelas com erro em uma das execuções (${comparison.errored.length}):`));
+    comparison.errored.forEach((name) => lines.push(pc.yellow(`    ! ${name}`)));
+    lines.push("");
+  }
+  if (comparison.skipped.length > 0) {
+    lines.push(pc.bold(`  Tabelas puladas em uma das execuções (${comparison.skipped.length}):`));
+    comparison.skipped.forEach((name) => lines.push(pc.dim(`    ~ ${name}`)));
+    lines.push("");
+  }
+
+  const tableLines = (tables: TableComparison[]) => {
+    lines.push(
+      pc.dim(
+        "  " +
+          "Tabela".padEnd(32) +
+          "Linhas".padStart(12) +
+          "Tokens".padStart(15) +
+          costModels.map((model) => model.slice(0, 22).padStart(24)).join("")
+      )
+    );
+    for (const table of tables) {
+      lines.push(
+        "  " +
+          pc.cyan(table.table.padEnd(32)) +
+          formatSignedNumber(table.rows.change).padStart(12) +
+          formatSignedNumber(table.tokens.change).padStart(15) +
+          costModels
+            .map((model) => {
+              return formatSignedUsd(table.costByModel[model].change).padStart(24);
+            })
+            .join("")
+      );
+    }
+  };
+
+  if (comparison.topGrowth.length > 0) {
+    lines.push(pc.bold("  Maiores crescimentos:"));
+    tableLines(comparison.topGrowth);
+    lines.push("");
+  }
+
+  const changed = comparison.tables.filter((table) => table.status === "changed");
+  lines.push(pc.bold(`  Tabelas alteradas (${changed.length}):`));
+  if (changed.length === 0) {
+    lines.push(pc.dim("    Nenhuma tabela em comum mudou."));
+  } else {
+    tableLines(changed);
+  }
+  if (costModels.length < Object.keys(totals.costByModel).length && changed.length > 0) {
+    lines.push(
+      pc.dim(
+        `  Custos por tabela dos ${costModels.length} primeiros modelos; ` +
+          "os demais: use --report csv."
+      )
+    );
+  }
+
+  lines.push("");
+  lines.push(sep);
+
+  note(lines.join("\n"), pc.green("Comparação concluída"));
+}
+
+/** "1.000 → 1.200  +200 (+20,0%)" */
+function formatChangeValue(value: ChangeValue): string {
+  return (
+    pc.white(
+      `${value.before.toLocaleString("pt-BR")} → ${value.after.toLocaleString("pt-BR")}`
+    ) +
+    "  " +
+    formatSignedChange(value, formatSignedNumber(value.change))
+  );
+}
+
+/** The change and its percentage, green for growth and red for shrinkage. */
+function formatSignedChange(value: ChangeValue, change: string): string {
+  const percent =
+    value.changePercent === null
+      ? value.after === 0
+        ? ""
+        : " (novo)"
+      : ` (${value.changePercent >= 0 ? "+" : ""}${value.changePercent.toLocaleString("pt-BR", {
+          minimumFractionDigits: 1,
+          maximumFractionDigits: 1,
+        })}%)`;
+  const color = value.change > 0 ? pc.green : value.change < 0 ? pc.red : pc.dim;
+  return color(change + percent);
+}
+
+function formatSignedNumber(value: number): string {
+  return `${value > 0 ? "+" : ""}${value.toLocaleString("pt-BR")}`;
+}
+
+function formatSignedUsd(value: number): string {
+  return `${value < 0 ? "-" : "+"}$${Math.abs(value).toFixed(4)}`;
+}
+
+function formatPricingOrigins(entries: ModelPricingEntry[]): string {
+  const { counts, oldestPricedAt } = summarizePricingProvenance(entries);
+  const origins = PRICING_ORIGINS.filter((origin) => counts[origin] > 0)
+    .map((origin) => `${PRICING_ORIGIN_LABELS[origin]} ${counts[origin]}`)
+    .join(", ");
+  const oldest = oldestPricedAt ? ` (mais antigo ${formatPriceAge(oldestPricedAt)})` : "";
+  return `${origins || "origem desconhecida"}${oldest}`;
+}
+
+function formatBudgetLines(result: CostEstimationResult): string[] {
+  const budget = result.budget;
+  if (!budget) {
+    return [];
+  }
+
+  const lines: string[] = [];
+  const basis =
+    budget.options.basis === "cheapest"
+      ? `modelo mais barato${budget.checkedModels.length > 0 ? `: ${budget.checkedModels[0]}` : ""}`
+      : "todos os modelos";
+  const scope = `${basis}${budget.changesOnly ? ", só alterações" : ""}`;
+  if (budget.violations.length === 0) {
+    lines.push(pc.dim(`  Orçamento (${scope}): `) + pc.green("dentro do limite"));
+  } else {
+    lines.push(
+      pc.dim(`  Orçamento (${scope}): `) +
+        pc.red(pc.bold(`${budget.violations.length} violação(ões)`))
+    );
+    for (const violation of budget.violations) {
+      const target = violation.table ? `tabela ${violation.table}` : "total";
+      lines.push(
+        "  " +
+          pc.yellow(("  " + violation.model).padEnd(36)) +
+          pc.white(target.padEnd(32)) +
+          pc.red(`$${violation.costUsd.toFixed(2)} > $${violation.limitUsd.toFixed(2)}`)
+      );
+    }
   }
-  return parsed;
+  if (budget.aborted) {
+    lines.push(
+      pc.yellow("  Execução interrompida: os custos cobrem só o trabalho concluído (limite inferior).")
+    );
+  }
+  lines.push("");
+  return lines;
+}
+
+function formatChunkingLines(result: CostEstimationResult): string[] {
+  const { splitter, byModel } = result.chunking;
+  const models = Object.entries(byModel).filter(
+    ([, stats]) => splitter !== null || stats.rowsOverLimit > 0
+  );
+  if (models.length === 0) {
+    return [];
+  }
+
+  const unit = splitter?.unit === "characters" ? "caracteres" : "tokens";
+  const lines: string[] = [
+    pc.bold(
+      splitter
+        ? `  Divisão de documentos (pedaços de ${splitter.chunkSize} ${unit}, sobreposição ${splitter.chunkOverlap}):`
+        : "  Limites de entrada (um documento por linha):"
+    ),
+    pc.dim("  " + "─".repeat(56)),
+  ];
+
+  for (const [model, stats] of models) {
+    const limit =
+      stats.maxInputTokens === null ? "?" : stats.maxInputTokens.toLocaleString("pt-BR");
+    const warnings =
+      stats.rowsOverLimit > 0
+        ? pc.yellow(
+            `  ${stats.rowsOverLimit.toLocaleString("pt-BR")} acima do limite de ${limit}` +
+              (stats.truncatedRows > 0
+                ? `, ${stats.truncatedRows.toLocaleString("pt-BR")} truncadas`
+                : "")
+          )
+        : "";
+    lines.push(
+      "  " +
+        pc.yellow(("  " + model).padEnd(36)) +
+        pc.white(`${stats.embeddingCalls.toLocaleString("pt-BR")} chamadas`.padStart(18)) +
+        pc.dim(`  +${stats.overlapTokens.toLocaleString("pt-BR")} tokens de sobreposição`) +
+        warnings
+    );
+  }
+  lines.push("");
+  return lines;
+}
+
+function formatStorageLines(result: CostEstimationResult): string[] {
+  const { options, byModel, modelsWithoutDimensions } = result.storage;
+  const models = Object.entries(byModel);
+  if (models.length === 0 && modelsWithoutDimensions.length === 0) {
+    return [];
+  }
+
+  const sizes = (size: StorageSize) =>
+    pc.white(`tabela ${formatBytes(size.tableBytes)}`.padStart(16)) +
+    pc.dim(
+      `  HNSW ${size.hnswBytes === null ? "n/d" : formatBytes(size.hnswBytes)}` +
+        `  IVFFlat ${size.ivfflatBytes === null ? "n/d" : formatBytes(size.ivfflatBytes)}`
+    );
+
+  const lines: string[] = [
+    pc.bold(
+      `  Armazenamento pgvector (${options.vectorType}; HNSW m=${options.hnswM}, ` +
+        `IVFFlat lists=${options.ivfflatLists ?? "auto"}):`
+    ),
+    pc.dim("  " + "─".repeat(56)),
+  ];
+  for (const [model, estimate] of models) {
+    lines.push(
+      "  " +
+        pc.yellow(("  " + model).padEnd(36)) +
+        pc.dim(`${estimate.dimensions} dims, ${estimate.documentCount.toLocaleString("pt-BR")} vetores  `) +
+        sizes(estimate)
+    );
+  }
+  for (const model of storageBreakdownModels(result.storage)) {
+    lines.push(pc.dim(`  ${model} por tabela:`));
+    for (const [table, size] of Object.entries(byModel[model].byTable)) {
+      lines.push("  " + pc.cyan(("  " + table).padEnd(36)) + sizes(size));
+    }
+  }
+  if (modelsWithoutDimensions.length > 0) {
+    lines.push(
+      pc.yellow(
+        `  Dimensão desconhecida (defina VECTOR_DIMENSIONS): ${modelsWithoutDimensions.join(", ")}`
+      )
+    );
+  }
+  lines.push("");
+  return lines;
 }
 
 function isAddressInUseError(error: unknown): boolean {
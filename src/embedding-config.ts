@@ -0,0 +1,533 @@
+import { access, readFile, rename, writeFile } from "node:fs/promises";
+import { extname, resolve } from "node:path";
+import yaml from "js-yaml";
+import { RELATION_KINDS } from "./cost_estimator/db/types.js";
+import type { RelationKind, TextColumnsMode } from "./cost_estimator/db/types.js";
+import type { CommonEmbeddingParams } from "./embedding-types.js";
+
+// ---------------------------------------------------------------------------
+// Types
+// ---------------------------------------------------------------------------
+
+export type ProfileConnection = {
+  url?: string;
+  host?: string;
+  port?: number;
+  database?: string;
+  user?: string;
+  password?: string;
+  /** Environment variable holding the password, to keep it out of the file. */
+  passwordEnv?: string;
+};
+
+export type EmbeddingProfile = {
+  connection?: ProfileConnection;
+  /** One schema; use `schemas` for several. */
+  schema?: string;
+  /** Schema names or patterns (globs, `/regex/`). */
+  schemas?: string[];
+  tableAllowlist?: string[];
+  tableBlocklist?: string[];
+  /** Kinds of relation to read; tables and partitioned tables by default. */
+  relationKinds?: RelationKind[];
+  /** Key: relation without a primary key ("view" or "schema.view"); value: its key columns. */
+  viewKeys?: Record<string, string[]>;
+  partitionBreakdown?: boolean;
+  updatedAtCandidates?: string[];
+  textColumnsMode?: TextColumnsMode;
+  /** Excluded in every table. */
+  excludedColumns?: string[];
+  /** Key: table ("users" or "public.users"); value: columns excluded in that table only. */
+  tableExcludedColumns?: Record<string, string[]>;
+  batchSize?: number;
+  threads?: {
+    maxThreads?: number;
+    tablesPerBatch?: number;
+    largeTableThreshold?: number;
+    chunkSize?: number;
+    snapshotConcurrency?: number;
+  };
+  pricing?: {
+    providers?: string[];
+    models?: string[];
+  };
+};
+
+export type EmbeddingConfig = {
+  defaultProfile?: string;
+  profiles: Record<string, EmbeddingProfile>;
+};
+
+export type LoadedEmbeddingConfig = {
+  filePath: string;
+  config: EmbeddingConfig;
+};
+
+/** Looked up in the working directory when no file is given. */
+const DEFAULT_CONFIG_FILES = [
+  "embedding-cli.config.yaml",
+  "embedding-cli.config.yml",
+  "embedding-cli.config.json",
+];
+
+// ---------------------------------------------------------------------------
+// Loading and saving
+// ---------------------------------------------------------------------------
+
+/**
+ * Load and validate the config file. An explicit path must exist; without
+ * one, the default file names are tried and null is returned if none exists.
+ */
+export async function loadEmbeddingConfig(
+  filePath?: string,
+): Promise<LoadedEmbeddingConfig | null> {
+  const resolvedPath = filePath ? resolve(filePath) : await findDefaultConfigFile();
+  if (!resolvedPath) {
+    return null;
+  }
+
+  let raw: string;
+  try {
+    raw = await readFile(resolvedPath, "utf-8");
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === "ENOENT") {
+      throw new Error(`Arquivo de configuração não encontrado: ${resolvedPath}`);
+    }
+    throw error;
+  }
+
+  let data: unknown;
+  try {
+    data = isYamlFile(resolvedPath) ? yaml.load(raw) : JSON.parse(raw);
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    throw new Error(`Não foi possível ler ${resolvedPath}: ${message}`);
+  }
+
+  const problems = validateEmbeddingConfig(data);
+  if (problems.length > 0) {
+    throw new Error(
+      `Arquivo de configuração inválido (${resolvedPath}):\n` +
+        problems.map((problem) => `  - ${problem}`).join("\n"),
+    );
+  }
+
+  return { filePath: resolvedPath, config: data as EmbeddingConfig };
+}
+
+/** Add (or replace) a profile and write the file back in its own format. */
+export async function saveEmbeddingProfile(
+  filePath: string,
+  name: string,
+  profile: EmbeddingProfile,
+): Promise<void> {
+  // Only a missing file starts empty; one that does not parse or validate is left to fix
+  const existing = (await fileExists(filePath)) ? await loadEmbeddingConfig(filePath) : null;
+  const config: EmbeddingConfig = existing?.config ?? { profiles: {} };
+  config.profiles = { ...config.profiles, [name]: profile };
+  config.defaultProfile ??= name;
+
+  const content = isYamlFile(filePath)
+    ? yaml.dump(config, { noRefs: true })
+    : JSON.stringify(config, null, 2) + "\n";
+
+  // Write then rename, so an interrupted write never leaves a torn file
+  const tempPath = `${filePath}.tmp`;
+  await writeFile(tempPath, content, "utf-8");
+  await rename(tempPath, filePath);
+}
+
+export function defaultConfigFilePath(): string {
+  return resolve(DEFAULT_CONFIG_FILES[0]);
+}
+
+// ---------------------------------------------------------------------------
+// Profiles
+// ---------------------------------------------------------------------------
+
+/**
+ * The environment with a profile's values written over it. The command-line
+ * flags are applied on top of the result, so they still win.
+ */
+export function applyProfileToEnv(
+  env: NodeJS.ProcessEnv,
+  profile: EmbeddingProfile,
+): NodeJS.ProcessEnv {
+  const resolved: NodeJS.ProcessEnv = { ...env };
+  const set = (name: string, value: string | number | boolean | undefined) => {
+    if (value !== undefined) {
+      resolved[name] = String(value);
+    }
+  };
+
+  const connection = profile.connection;
+  if (connection?.url) {
+    const password = connection.passwordEnv ? env[connection.passwordEnv] : connection.password;
+    set("SOURCE_DB_URL", password ? withPassword(connection.url, password) : connection.url);
+  } else if (connection) {
+    // Individual fields only apply when no URL takes precedence
+    delete resolved.SOURCE_DB_URL;
+    set("DB_HOST", connection.host);
+    set("DB_PORT", connection.port);
+    set("DB_NAME", connection.database);
+    set("DB_USERNAME", connection.user);
+    set(
+      "DB_PASSWORD",
+      connection.passwordEnv ? env[connection.passwordEnv] : connection.password,
+    );
+  }
+
+  const schemas = profile.schemas?.join(",") ?? profile.schema;
+  if (schemas) {
+    set("SOURCE_SCHEMA", schemas);
+    set("DB_SCHEMA", schemas);
+  }
+  set("SOURCE_TABLE_ALLOWLIST", profile.tableAllowlist?.join(","));
+  set("SOURCE_TABLE_BLOCKLIST", profile.tableBlocklist?.join(","));
+  set("SOURCE_RELATION_KINDS", profile.relationKinds?.join(","));
+  if (profile.viewKeys) {
+    set(
+      "SOURCE_VIEW_KEYS",
+      Object.entries(profile.viewKeys)
+        .flatMap(([relation, columns]) => columns.map((column) => `${relation}.${column}`))
+        .join(","),
+    );
+  }
+  set("PARTITION_BREAKDOWN", profile.partitionBreakdown);
+  set("SOURCE_UPDATED_AT_CANDIDATES", profile.updatedAtCandidates?.join(","));
+  set("TEXT_COLUMNS_MODE", profile.textColumnsMode);
+
+  // Per-table exclusions become "table.column" entries
+  const excludedColumns = [
+    ...(profile.excludedColumns ?? []),
+    ...Object.entries(profile.tableExcludedColumns ?? {}).flatMap(([table, columns]) =>
+      columns.map((column) => `${table}.${column}`),
+    ),
+  ];
+  if (profile.excludedColumns || profile.tableExcludedColumns) {
+    set("EXCLUDED_COLUMNS", excludedColumns.join(","));
+  }
+
+  set("SOURCE_BATCH_SIZE", profile.batchSize);
+  set("MAX_THREADS", profile.threads?.maxThreads);
+  set("TABLES_PER_BATCH", profile.threads?.tablesPerBatch);
+  set("LARGE_TABLE_THRESHOLD", profile.threads?.largeTableThreshold);
+  set("CHUNK_SIZE", profile.threads?.chunkSize);
+  set("SNAPSHOT_CONCURRENCY", profile.threads?.snapshotConcurrency);
+  set("PRICING_PROVIDERS", profile.pricing?.providers?.join(","));
+  set("PRICING_MODELS", profile.pricing?.models?.join(","));
+
+  return resolved;
+}
+
+/**
+ * A profile holding the given answers. The connection is only stored when it
+ * was typed in a prompt; one that came from the environment stays there. Its
+ * password is never stored: the profile reads it from DB_PASSWORD.
+ */
+export function profileFromAnswers(
+  common: CommonEmbeddingParams,
+  options: { includeConnection: boolean },
+): EmbeddingProfile {
+  const tableExcludedColumns: Record<string, string[]> = {};
+  const excludedColumns: string[] = [];
+  for (const entry of common.excludedColumns) {
+    const dot = entry.lastIndexOf(".");
+    if (dot === -1) {
+      excludedColumns.push(entry);
+    } else {
+      const table = entry.slice(0, dot);
+      (tableExcludedColumns[table] ??= []).push(entry.slice(dot + 1));
+    }
+  }
+
+  const viewKeys: Record<string, string[]> = {};
+  for (const entry of common.viewKeyColumns) {
+    const dot = entry.lastIndexOf(".");
+    if (dot > 0) {
+      (viewKeys[entry.slice(0, dot)] ??= []).push(entry.slice(dot + 1));
+    }
+  }
+
+  return {
+    ...(options.includeConnection
+      ? { connection: connectionWithoutPassword(common.sourceDbUrl) }
+      : {}),
+    ...(common.sourceSchemas.length === 1
+      ? { schema: common.sourceSchemas[0] }
+      : { schemas: common.sourceSchemas }),
+    tableAllowlist: common.tableAllowlist,
+    tableBlocklist: common.tableBlocklist,
+    relationKinds: common.relationKinds,
+    ...(Object.keys(viewKeys).length > 0 ? { viewKeys } : {}),
+    ...(common.partitionBreakdown ? { partitionBreakdown: true } : {}),
+    updatedAtCandidates: common.updatedAtCandidates,
+    textColumnsMode: common.textColumnsMode,
+    excludedColumns,
+    ...(Object.keys(tableExcludedColumns).length > 0 ? { tableExcludedColumns } : {}),
+    batchSize: common.batchSize,
+    threads: {
+      maxThreads: common.maxThreads,
+      tablesPerBatch: common.tablesPerBatch,
+      largeTableThreshold: common.largeTableThreshold,
+      chunkSize: common.chunkSize,
+      snapshotConcurrency: common.snapshotConcurrency,
+    },
+    ...(common.pricingFilter.providers.length > 0 || common.pricingFilter.models.length > 0
+      ? {
+          pricing: {
+            providers: common.pricingFilter.providers,
+            models: common.pricingFilter.models,
+          },
+        }
+      : {}),
+  };
+}
+
+/** Variable a saved profile reads the connection password from. */
+const SAVED_PASSWORD_ENV = "DB_PASSWORD";
+
+function connectionWithoutPassword(url: string): ProfileConnection {
+  const parsed = new URL(url);
+  if (!parsed.password) {
+    return { url };
+  }
+  parsed.password = "";
+  return { url: parsed.toString(), passwordEnv: SAVED_PASSWORD_ENV };
+}
+
+function withPassword(url: string, password: string): string {
+  try {
+    const parsed = new URL(url);
+    parsed.password = encodeURIComponent(password);
+    return parsed.toString();
+  } catch {
+    return url;
+  }
+}
+
+// ---------------------------------------------------------------------------
+// Validation
+// ---------------------------------------------------------------------------
+
+/** Every problem found, as "path: message"; empty when the config is valid. */
+export function validateEmbeddingConfig(data: unknown): string[] {
+  const problems: string[] = [];
+
+  if (!isPlainObject(data)) {
+    return ["o arquivo deve conter um objeto com a chave \"profiles\""];
+  }
+  checkKeys(data, ["defaultProfile", "profiles"], "", problems);
+
+  if (!isPlainObject(data.profiles)) {
+    problems.push("profiles: deve ser um objeto com um perfil por nome");
+    return problems;
+  }
+  if (data.defaultProfile !== undefined) {
+    if (typeof data.defaultProfile !== "string") {
+      problems.push("defaultProfile: deve ser um texto");
+    } else if (!(data.defaultProfile in data.profiles)) {
+      problems.push(`defaultProfile: o perfil "${data.defaultProfile}" não existe`);
+    }
+  }
+
+  for (const [name, profile] of Object.entries(data.profiles)) {
+    validateProfile(profile, `profiles.${name}`, problems);
+  }
+  return problems;
+}
+
+function validateProfile(profile: unknown, path: string, problems: string[]): void {
+  if (!isPlainObject(profile)) {
+    problems.push(`${path}: deve ser um objeto`);
+    return;
+  }
+  checkKeys(
+    profile,
+    [
+      "connection",
+      "schema",
+      "schemas",
+      "tableAllowlist",
+      "tableBlocklist",
+      "relationKinds",
+      "viewKeys",
+      "partitionBreakdown",
+      "updatedAtCandidates",
+      "textColumnsMode",
+      "excludedColumns",
+      "tableExcludedColumns",
+      "batchSize",
+      "threads",
+      "pricing",
+    ],
+    path,
+    problems,
+  );
+
+  if (profile.connection !== undefined) {
+    const connection = profile.connection;
+    const connectionPath = `${path}.connection`;
+    if (!isPlainObject(connection)) {
+      problems.push(`${connectionPath}: deve ser um objeto`);
+    } else {
+      checkKeys(
+        connection,
+        ["url", "host", "port", "database", "user", "password", "passwordEnv"],
+        connectionPath,
+        problems,
+      );
+      for (const key of ["url", "host", "database", "user", "password", "passwordEnv"]) {
+        checkString(connection[key], `${connectionPath}.${key}`, problems);
+      }
+      checkPositiveInt(connection.port, `${connectionPath}.port`, problems);
+      if (connection.url === undefined && (!connection.host || !connection.database)) {
+        problems.push(`${connectionPath}: informe "url" ou "host" e "database"`);
+      }
+      if (connection.password !== undefined && connection.passwordEnv !== undefined) {
+        problems.push(`${connectionPath}: use "password" ou "passwordEnv", não ambos`);
+      }
+    }
+  }
+
+  checkString(profile.schema, `${path}.schema`, problems);
+  if (profile.schema !== undefined && profile.schemas !== undefined) {
+    problems.push(`${path}: use "schema" ou "schemas", não ambos`);
+  }
+  for (const key of ["schemas", "tableAllowlist", "tableBlocklist", "updatedAtCandidates", "excludedColumns"]) {
+    checkStringList(profile[key], `${path}.${key}`, problems);
+  }
+  if (profile.textColumnsMode !== undefined && profile.textColumnsMode !== "auto" && profile.textColumnsMode !== "all") {
+    problems.push(`${path}.textColumnsMode: deve ser "auto" ou "all"`);
+  }
+  checkStringList(profile.relationKinds, `${path}.relationKinds`, problems);
+  if (Array.isArray(profile.relationKinds)) {
+    for (const kind of profile.relationKinds) {
+      if (typeof kind === "string" && !(RELATION_KINDS as string[]).includes(kind)) {
+        problems.push(`${path}.relationKinds: "${kind}" inválido (use ${RELATION_KINDS.join(", ")})`);
+      }
+    }
+  }
+  if (profile.viewKeys !== undefined) {
+    if (!isPlainObject(profile.viewKeys)) {
+      problems.push(`${path}.viewKeys: deve ser um objeto { view: [colunas] }`);
+    } else {
+      for (const [relation, columns] of Object.entries(profile.viewKeys)) {
+        checkStringList(columns, `${path}.viewKeys.${relation}`, problems);
+      }
+    }
+  }
+  if (profile.partitionBreakdown !== undefined && typeof profile.partitionBreakdown !== "boolean") {
+    problems.push(`${path}.partitionBreakdown: deve ser true ou false`);
+  }
+  if (profile.tableExcludedColumns !== undefined) {
+    if (!isPlainObject(profile.tableExcludedColumns)) {
+      problems.push(`${path}.tableExcludedColumns: deve ser um objeto { tabela: [colunas] }`);
+    } else {
+      for (const [table, columns] of Object.entries(profile.tableExcludedColumns)) {
+        checkStringList(columns, `${path}.tableExcludedColumns.${table}`, problems);
+      }
+    }
+  }
+  checkPositiveInt(profile.batchSize, `${path}.batchSize`, problems);
+
+  if (profile.threads !== undefined) {
+    const threadsPath = `${path}.threads`;
+    if (!isPlainObject(profile.threads)) {
+      problems.push(`${threadsPath}: deve ser um objeto`);
+    } else {
+      const keys = [
+        "maxThreads",
+        "tablesPerBatch",
+        "largeTableThreshold",
+        "chunkSize",
+        "snapshotConcurrency",
+      ];
+      checkKeys(profile.threads, keys, threadsPath, problems);
+      for (const key of keys) {
+        checkPositiveInt(profile.threads[key], `${threadsPath}.${key}`, problems);
+      }
+    }
+  }
+
+  if (profile.pricing !== undefined) {
+    const pricingPath = `${path}.pricing`;
+    if (!isPlainObject(profile.pricing)) {
+      problems.push(`${pricingPath}: deve ser um objeto`);
+    } else {
+      checkKeys(profile.pricing, ["providers", "models"], pricingPath, problems);
+      checkStringList(profile.pricing.providers, `${pricingPath}.providers`, problems);
+      checkStringList(profile.pricing.models, `${pricingPath}.models`, problems);
+    }
+  }
+}
+
+// ---------------------------------------------------------------------------
+// Internal helpers
+// ---------------------------------------------------------------------------
+
+async function findDefaultConfigFile(): Promise<string | null> {
+  for (const name of DEFAULT_CONFIG_FILES) {
+    const candidate = resolve(name);
+    try {
+      await access(candidate);
+      return candidate;
+    } catch {
+      // Try the next name
+    }
+  }
+  return null;
+}
+
+/** False only when the file does not exist; other access errors are thrown. */
+async function fileExists(filePath: string): Promise<boolean> {
+  try {
+    await access(filePath);
+    return true;
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === "ENOENT") {
+      return false;
+    }
+    throw error;
+  }
+}
+
+function isYamlFile(filePath: string): boolean {
+  const extension = extname(filePath).toLowerCase();
+  return extension === ".yaml" || extension === ".yml";
+}
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+function checkKeys(
+  value: Record<string, unknown>,
+  allowed: string[],
+  path: string,
+  problems: string[],
+): void {
+  for (const key of Object.keys(value)) {
+    if (!allowed.includes(key)) {
+      problems.push(`${path ? `${path}.` : ""}${key}: chave desconhecida`);
+    }
+  }
+}
+
+function checkString(value: unknown, path: string, problems: string[]): void {
+  if (value !== undefined && (typeof value !== "string" || value.trim() === "")) {
+    problems.push(`${path}: deve ser um texto não vazio`);
+  }
+}
+
+function checkStringList(value: unknown, path: string, problems: string[]): void {
+  if (value !== undefined && (!Array.isArray(value) || value.some((v) => typeof v !== "string"))) {
+    problems.push(`${path}: deve ser uma lista de textos`);
+  }
+}
+
+function checkPositiveInt(value: unknown, path: string, problems: string[]): void {
+  if (value !== undefined && (!Number.isInteger(value) || (value as number) <= 0)) {
+    problems.push(`${path}: deve ser um inteiro positivo`);
+  }
+}
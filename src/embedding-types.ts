@@ -1,19 +1,61 @@
-import type { TextColumnsMode } from "./cost_estimator/db/types.js";
+import type { RelationKind, TextColumnsMode } from "./cost_estimator/db/types.js";
+import type { SamplingOptions } from "./cost_estimator/sampling.js";
+import type { SplitterOptions } from "./cost_estimator/chunking.js";
+import type { VectorStorageOptions } from "./cost_estimator/storage.js";
+import type { ThroughputOptions } from "./cost_estimator/throughput.js";
+import type { BudgetOptions } from "./cost_estimator/budget.js";
+import type { PricingFilter, PricingSourceOptions } from "./cost_estimator/pricing.js";
+import type { EmbedOptions } from "./cost_estimator/embed.js";
 
-export type EmbeddingOperation = "estimate";
+export type EmbeddingOperation = "estimate" | "embed";
 
 export interface CommonEmbeddingParams {
   sourceDbUrl: string;
-  sourceSchema: string;
+  /** Schema names or patterns (globs, `/regex/`). */
+  sourceSchemas: string[];
   tableAllowlist: string[];
   tableBlocklist: string[];
+  /** Kinds of relation to read. */
+  relationKinds: RelationKind[];
+  /** Row keys of relations without a primary key ("view.column" entries). */
+  viewKeyColumns: string[];
+  /** Report rows and tokens per partition of partitioned tables. */
+  partitionBreakdown: boolean;
   textColumnsMode: TextColumnsMode;
   excludedColumns: string[];
   batchSize: number;
   updatedAtCandidates: string[];
+  /** null = read every row. */
+  sampling: SamplingOptions | null;
+  /** null = one document per row, no splitting. */
+  splitter: SplitterOptions | null;
+  /** Vector type and index parameters for the pgvector size estimate. */
+  storage: VectorStorageOptions;
+  /** Provider rate limits for the embedding time projection. */
+  throughput: ThroughputOptions;
+  /** Cost limits the estimate is checked against. */
+  budget: BudgetOptions;
+  /** Worker thread limit. */
+  maxThreads: number;
+  /** Work items assigned per worker turn. */
+  tablesPerBatch: number;
+  /** Row count above which a table is split into chunks. */
+  largeTableThreshold: number;
+  /** Rows per chunk of a large table. */
+  chunkSize: number;
+  /** Row count queries run at once while planning. */
+  snapshotConcurrency: number;
+  /** Providers and models to price; empty lists price every entry. */
+  pricingFilter: PricingFilter;
+  /** Negotiated prices, tiers and discounts; null = look for the default file names. */
+  pricingOverridesFile: string | null;
+  /** Where prices are fetched from, the cache, and whether the network may be used. */
+  pricingSource: PricingSourceOptions;
 }
 
 export interface EmbeddingUserAnswers {
   operation: EmbeddingOperation;
   common: CommonEmbeddingParams;
+  /** Present for the "embed" operation. */
+  embed?: EmbedOptions;
 }
@@ -1,4 +1,4 @@
-import { confirm, select, text } from "@clack/prompts";
+import { confirm, log, password, select, text } from "@clack/prompts";
 import { checkCancel } from "./helpers.js";
 import type {
   EmbeddingUserAnswers,
@@ -6,73 +6,180 @@ import type {
   CommonEmbeddingParams,
 } from "./embedding-types.js";
 import type { TextColumnsMode } from "./cost_estimator/db/types.js";
+import {
+  createSamplingOptions,
+  parseSamplingOptionsFromEnv,
+} from "./cost_estimator/sampling.js";
+import { parseSplitterOptionsFromEnv } from "./cost_estimator/chunking.js";
+import { parseVectorStorageOptionsFromEnv } from "./cost_estimator/storage.js";
+import { parseThroughputOptionsFromEnv } from "./cost_estimator/throughput.js";
+import { parseBudgetOptionsFromEnv } from "./cost_estimator/budget.js";
+import { parsePricingSourceOptionsFromEnv } from "./cost_estimator/pricing.js";
+import { parseEmbedSettingsFromEnv, resolveEmbedApiKey } from "./cost_estimator/embed.js";
+import type { EmbedOptions } from "./cost_estimator/embed.js";
+import { EMBEDDING_PROVIDERS } from "./cost_estimator/providers/types.js";
+import type { EmbeddingProviderKind } from "./cost_estimator/providers/types.js";
+import {
+  buildDbUrlFromParts,
+  describeSetting,
+  isEnvSet,
+  parseCommaSeparated,
+  parsePositiveInt,
+  resolveCliEnv,
+  resolveDbUrlFromEnv,
+  resolvePricingFilterFromEnv,
+  resolveRelationKindsFromEnv,
+  resolveSchemasFromEnv,
+  resolveTextColumnsMode,
+  resolveTuningFromEnv,
+  resolveUpdatedAtCandidates,
+} from "./cost_estimator/cli_args.js";
+import type { ParsedCliArgs } from "./cost_estimator/cli_args.js";
+import {
+  applyProfileToEnv,
+  defaultConfigFilePath,
+  profileFromAnswers,
+  saveEmbeddingProfile,
+} from "./embedding-config.js";
+import type { EmbeddingProfile, LoadedEmbeddingConfig } from "./embedding-config.js";
+
+export type GatherOptions = {
+  /** Parsed command line; flags win over the profile, the profile over the env. */
+  args?: ParsedCliArgs;
+  /** Config file to pick a profile from and to save new profiles to. */
+  config?: LoadedEmbeddingConfig | null;
+};
+
+/** Settings under "opções avançadas"; set by flag or env, they are not asked again. */
+const ADVANCED_SETTINGS = [
+  "TEXT_COLUMNS_MODE",
+  "EXCLUDED_COLUMNS",
+  "SOURCE_BATCH_SIZE",
+  "SAMPLING_FRACTION",
+  "SPLITTER_CHUNK_SIZE",
+];
 
 // ---------------------------------------------------------------------------
 // Public API
 // ---------------------------------------------------------------------------
 
-export async function gatherEmbeddingResponses(): Promise<EmbeddingUserAnswers> {
+export async function gatherEmbeddingResponses(
+  options: GatherOptions = {},
+): Promise<EmbeddingUserAnswers> {
+  const args = options.args;
+  const config = options.config ?? null;
+  const interactive = args?.interactive ?? true;
+
   // ── Step 1: Operation ────────────────────────────────────────────────────
-  const op: EmbeddingOperation = "estimate";
+  const op: EmbeddingOperation = args?.command === "embed" ? "embed" : "estimate";
+
+  // ── Step 1b: Profile ─────────────────────────────────────────────────────
+  const requestedProfile = args
+    ? resolveCliEnv(args).EMBEDDING_PROFILE
+    : process.env.EMBEDDING_PROFILE;
+  const profile = await pickProfile(config, requestedProfile, interactive);
+  const baseEnv = profile ? applyProfileToEnv(process.env, profile) : process.env;
+  const env = args ? resolveCliEnv(args, baseEnv) : baseEnv;
+  // Whether anything was answered in a prompt, to offer saving a profile
+  let prompted = false;
+
+  // Without prompts, report every missing value at once
+  if (!interactive) {
+    const missing: string[] = [];
+    if (!resolveDbUrlFromEnv(env)) {
+      missing.push(`${describeSetting("SOURCE_DB_URL")} ou DB_HOST/DB_NAME/DB_USERNAME/DB_PASSWORD`);
+    }
+    if (parseCommaSeparated(env.SOURCE_TABLE_ALLOWLIST).length === 0) {
+      missing.push(describeSetting("SOURCE_TABLE_ALLOWLIST"));
+    }
+    if (op === "embed") {
+      const settings = parseEmbedSettingsFromEnv(env);
+      if (!settings.provider) missing.push(describeSetting("EMBED_PROVIDER"));
+      if (!settings.model) missing.push(describeSetting("EMBED_MODEL"));
+      if (settings.provider === "openai-compatible" && !settings.baseUrl) {
+        missing.push(describeSetting("EMBED_BASE_URL"));
+      }
+      if (settings.provider && !settings.apiKey && needsApiKey(settings.provider)) {
+        missing.push("EMBED_API_KEY");
+      }
+    }
+    if (missing.length > 0) {
+      throw new Error(`Valores obrigatórios ausentes com --no-interactive: ${missing.join("; ")}`);
+    }
+  }
 
   // ── Step 2: Database connection ──────────────────────────────────────────
-  const sourceDbUrl = await resolveDbUrl();
+  const connectionPrompted = !resolveDbUrlFromEnv(env);
+  const sourceDbUrl = await resolveDbUrl(env);
+  prompted ||= connectionPrompted;
 
-  // ── Step 3: Schema ───────────────────────────────────────────────────────
-  const envSchema =
-    process.env.DB_SCHEMA?.trim() || process.env.SOURCE_SCHEMA?.trim() || "";
-  let sourceSchema: string;
+  // ── Step 3: Schemas ──────────────────────────────────────────────────────
+  let sourceSchemas: string[];
 
-  if (envSchema) {
-    sourceSchema = envSchema;
+  if (isEnvSet(env, "SOURCE_SCHEMA") || isEnvSet(env, "DB_SCHEMA") || !interactive) {
+    sourceSchemas = resolveSchemasFromEnv(env);
   } else {
     const schemaInput = await text({
-      message: "Schema de origem?",
+      message: "Schemas de origem (separados por vírgula)?",
+      placeholder: "public, sales  ou  tenant_*  ou  /^tenant_\\d+$/",
       initialValue: "public",
     });
     checkCancel(schemaInput);
-    sourceSchema = ((schemaInput as string) || "public").trim() || "public";
+    const schemas = parseCommaSeparated(schemaInput as string);
+    sourceSchemas = schemas.length > 0 ? schemas : ["public"];
+    prompted = true;
   }
 
   // ── Step 4: Table allowlist ──────────────────────────────────────────────
-  const envAllowlist = parseCommaSeparated(process.env.SOURCE_TABLE_ALLOWLIST);
+  const envAllowlist = parseCommaSeparated(env.SOURCE_TABLE_ALLOWLIST);
   let tableAllowlist: string[];
 
   if (envAllowlist.length > 0) {
     tableAllowlist = envAllowlist;
   } else {
     const allowlistInput = await text({
-      message: "Tabelas a incluir (separadas por vírgula)?",
-      placeholder: "users, orders, products  ou  *  para todas",
+      message: "Tabelas a incluir (separadas por vírgula, aceita padrões)?",
+      placeholder: "users, sales.orders, tenant_*_events  ou  *  para todas",
       validate: (v) =>
         !v?.trim() ? "Informe ao menos uma tabela" : undefined,
     });
     checkCancel(allowlistInput);
     tableAllowlist = parseCommaSeparated(allowlistInput as string);
+    prompted = true;
   }
 
   // ── Step 5: Advanced options ─────────────────────────────────────────────
-  const tableBlocklist = parseCommaSeparated(process.env.SOURCE_TABLE_BLOCKLIST);
-  const defaultTextMode: TextColumnsMode =
-    process.env.TEXT_COLUMNS_MODE === "all" ? "all" : "auto";
-  const defaultExcludedColumns = parseCommaSeparated(process.env.EXCLUDED_COLUMNS);
-  const defaultBatchSize = parseInt(process.env.SOURCE_BATCH_SIZE || "1000", 10);
-  const updatedAtCandidates = parseCommaSeparated(
-    process.env.SOURCE_UPDATED_AT_CANDIDATES ||
-      "updated_at,modified_at,updatedon"
-  );
+  const tableBlocklist = parseCommaSeparated(env.SOURCE_TABLE_BLOCKLIST);
+  const defaultTextMode: TextColumnsMode = resolveTextColumnsMode(env);
+  const defaultExcludedColumns = parseCommaSeparated(env.EXCLUDED_COLUMNS);
+  const defaultBatchSize = parsePositiveInt(env.SOURCE_BATCH_SIZE, 1000);
+  const updatedAtCandidates = resolveUpdatedAtCandidates(env);
+  const defaultSampling = parseSamplingOptionsFromEnv(env);
+  const defaultSplitter = parseSplitterOptionsFromEnv(env);
+  const tuning = resolveTuningFromEnv(env);
 
-  const customizeAdvanced = await confirm({
-    message: "Personalizar opções avançadas (modo de colunas, exclusões, batch size)?",
-    initialValue: false,
-  });
-  checkCancel(customizeAdvanced);
+  // Flags and env win over prompts: only what is still unset is asked
+  const askable = new Set(ADVANCED_SETTINGS.filter((name) => !isEnvSet(env, name)));
+
+  let customizeAdvanced = false;
+  if (interactive && askable.size > 0) {
+    const customizeInput = await confirm({
+      message:
+        "Personalizar opções avançadas (modo de colunas, exclusões, batch size, amostragem, divisão de documentos)?",
+      initialValue: false,
+    });
+    checkCancel(customizeInput);
+    customizeAdvanced = customizeInput as boolean;
+    prompted ||= customizeAdvanced;
+  }
 
   let textColumnsMode = defaultTextMode;
   let excludedColumns = defaultExcludedColumns;
   let batchSize = defaultBatchSize;
+  let sampling = defaultSampling;
+  let splitter = defaultSplitter;
 
-  if (customizeAdvanced) {
+  if (customizeAdvanced && askable.has("TEXT_COLUMNS_MODE")) {
     const modeInput = await select({
       message: "Modo de colunas de texto?",
       options: [
@@ -90,14 +197,18 @@ export async function gatherEmbeddingResponses(): Promise<EmbeddingUserAnswers>
     });
     checkCancel(modeInput);
     textColumnsMode = modeInput as TextColumnsMode;
+  }
 
+  if (customizeAdvanced && askable.has("EXCLUDED_COLUMNS")) {
     const excludedInput = await text({
       message: "Colunas a excluir (separadas por vírgula, deixe em branco para nenhuma)?",
       initialValue: defaultExcludedColumns.join(", "),
     });
     checkCancel(excludedInput);
     excludedColumns = parseCommaSeparated(excludedInput as string);
+  }
 
+  if (customizeAdvanced && askable.has("SOURCE_BATCH_SIZE")) {
     const batchSizeInput = await text({
       message: "Batch size (linhas por busca no DB)?",
       initialValue: String(defaultBatchSize),
@@ -108,28 +219,252 @@ export async function gatherEmbeddingResponses(): Promise<EmbeddingUserAnswers>
     batchSize = parseInt(batchSizeInput as string, 10);
   }
 
+  if (customizeAdvanced && askable.has("SAMPLING_FRACTION")) {
+    const samplingInput = await text({
+      message: "Fração de amostragem por tabela (0–1, 1 = ler todas as linhas)?",
+      initialValue: String(defaultSampling?.fraction ?? 1),
+      validate: (v) => {
+        const fraction = Number.parseFloat(v || "");
+        return !Number.isFinite(fraction) || fraction <= 0 || fraction > 1
+          ? "Informe um número entre 0 e 1"
+          : undefined;
+      },
+    });
+    checkCancel(samplingInput);
+    const fraction = Number.parseFloat(samplingInput as string);
+    sampling =
+      fraction < 1
+        ? { ...(defaultSampling ?? createSamplingOptions({ fraction })), fraction }
+        : null;
+  }
+
+  if (customizeAdvanced && askable.has("SPLITTER_CHUNK_SIZE")) {
+    const unit = defaultSplitter?.unit ?? "tokens";
+    const chunkSizeInput = await text({
+      message: `Tamanho de cada pedaço ao dividir documentos, em ${unit === "tokens" ? "tokens" : "caracteres"} (0 = sem divisão)?`,
+      initialValue: String(defaultSplitter?.chunkSize ?? 0),
+      validate: (v) => {
+        const size = Number.parseInt(v || "", 10);
+        return !Number.isFinite(size) || size < 0 ? "Informe um número maior ou igual a 0" : undefined;
+      },
+    });
+    checkCancel(chunkSizeInput);
+    const chunkSize = Number.parseInt(chunkSizeInput as string, 10);
+    splitter = null;
+
+    if (chunkSize > 0) {
+      const overlapInput = await text({
+        message: "Sobreposição entre pedaços?",
+        initialValue: String(Math.min(defaultSplitter?.chunkOverlap ?? 0, chunkSize - 1)),
+        validate: (v) => {
+          const overlap = Number.parseInt(v || "", 10);
+          return !Number.isFinite(overlap) || overlap < 0 || overlap >= chunkSize
+            ? `Informe um número entre 0 e ${chunkSize - 1}`
+            : undefined;
+        },
+      });
+      checkCancel(overlapInput);
+      splitter = {
+        unit,
+        chunkSize,
+        chunkOverlap: Number.parseInt(overlapInput as string, 10),
+      };
+    }
+  }
+
   const common: CommonEmbeddingParams = {
     sourceDbUrl,
-    sourceSchema,
+    sourceSchemas,
     tableAllowlist,
     tableBlocklist,
+    relationKinds: resolveRelationKindsFromEnv(env),
+    viewKeyColumns: parseCommaSeparated(env.SOURCE_VIEW_KEYS),
+    partitionBreakdown: env.PARTITION_BREAKDOWN === "true",
     textColumnsMode,
     excludedColumns,
     batchSize,
     updatedAtCandidates,
+    sampling,
+    splitter,
+    storage: parseVectorStorageOptionsFromEnv(env),
+    throughput: parseThroughputOptionsFromEnv(env),
+    budget: parseBudgetOptionsFromEnv(env),
+    ...tuning,
+    pricingFilter: resolvePricingFilterFromEnv(env),
+    pricingOverridesFile: env.PRICING_OVERRIDES_FILE || null,
+    pricingSource: parsePricingSourceOptionsFromEnv(env),
   };
 
-  return { operation: op, common };
+  // ── Step 6: Embedding provider ───────────────────────────────────────────
+  const embed = op === "embed" ? await resolveEmbedOptions(env, interactive) : undefined;
+
+  if (interactive && prompted) {
+    await offerToSaveProfile(config, common, connectionPrompted);
+  }
+
+  return { operation: op, common, ...(embed ? { embed } : {}) };
+}
+
+// ---------------------------------------------------------------------------
+// Embedding provider
+// ---------------------------------------------------------------------------
+
+/** Self-hosted servers usually run without a key; the hosted APIs never do. */
+function needsApiKey(provider: EmbeddingProviderKind): boolean {
+  return provider !== "ollama" && provider !== "openai-compatible";
+}
+
+async function resolveEmbedOptions(
+  env: NodeJS.ProcessEnv,
+  interactive: boolean,
+): Promise<EmbedOptions> {
+  const settings = parseEmbedSettingsFromEnv(env);
+
+  let provider = settings.provider;
+  if (!provider) {
+    const providerInput = await select({
+      message: "Provedor de embeddings?",
+      options: EMBEDDING_PROVIDERS.map((value) => ({ label: value, value })),
+      initialValue: "openai" as EmbeddingProviderKind,
+    });
+    checkCancel(providerInput);
+    provider = providerInput as EmbeddingProviderKind;
+  }
+
+  let model = settings.model;
+  if (!model) {
+    const modelInput = await text({
+      message: "Modelo de embeddings?",
+      placeholder: "text-embedding-3-small, nomic-embed-text, embed-english-v3.0, voyage-3...",
+      validate: required,
+    });
+    checkCancel(modelInput);
+    model = (modelInput as string).trim();
+  }
+
+  let baseUrl = settings.baseUrl;
+  if (!baseUrl && provider === "openai-compatible") {
+    const baseUrlInput = await text({
+      message: "URL base da API compatível com OpenAI?",
+      placeholder: "http://localhost:8000/v1",
+      validate: required,
+    });
+    checkCancel(baseUrlInput);
+    baseUrl = (baseUrlInput as string).trim();
+  }
+
+  // A provider picked in the prompt may have its key in its own variable
+  let apiKey = settings.apiKey ?? resolveEmbedApiKey(provider, env);
+  if (!apiKey && needsApiKey(provider)) {
+    const apiKeyInput = await password({
+      message: `Chave de API (${provider})?`,
+      validate: required,
+    });
+    checkCancel(apiKeyInput);
+    apiKey = (apiKeyInput as string).trim();
+  }
+
+  let budgetUsd = settings.budgetUsd;
+  if (budgetUsd === null && interactive && !isEnvSet(env, "EMBED_BUDGET_USD")) {
+    const budgetInput = await text({
+      message: "Orçamento máximo em USD (deixe em branco para nenhum)?",
+      validate: (v) => {
+        if (!v?.trim()) return undefined;
+        const budget = Number.parseFloat(v);
+        return !Number.isFinite(budget) || budget <= 0 ? "Informe um número maior que 0" : undefined;
+      },
+    });
+    checkCancel(budgetInput);
+    const budget = Number.parseFloat((budgetInput as string | undefined) ?? "");
+    budgetUsd = Number.isFinite(budget) && budget > 0 ? budget : null;
+  }
+
+  return { ...settings, provider, model, baseUrl, apiKey, budgetUsd };
+}
+
+// ---------------------------------------------------------------------------
+// Profiles
+// ---------------------------------------------------------------------------
+
+async function pickProfile(
+  config: LoadedEmbeddingConfig | null,
+  requested: string | undefined,
+  interactive: boolean,
+): Promise<EmbeddingProfile | null> {
+  const profiles = config?.config.profiles ?? {};
+
+  if (requested) {
+    const profile = profiles[requested];
+    if (!profile) {
+      const available = Object.keys(profiles).join(", ") || "nenhum";
+      throw new Error(`Perfil "${requested}" não encontrado. Perfis disponíveis: ${available}`);
+    }
+    return profile;
+  }
+
+  const names = Object.keys(profiles);
+  if (!config || names.length === 0) {
+    return null;
+  }
+  if (!interactive) {
+    return config.config.defaultProfile ? profiles[config.config.defaultProfile] : null;
+  }
+
+  const choice = await select({
+    message: `Usar um perfil de ${config.filePath}?`,
+    options: [
+      ...names.map((name) => ({ label: name, value: name })),
+      { label: "Nenhum (usar .env e perguntas)", value: "" },
+    ],
+    initialValue: config.config.defaultProfile ?? names[0],
+  });
+  checkCancel(choice);
+  return choice ? profiles[choice as string] : null;
+}
+
+async function offerToSaveProfile(
+  config: LoadedEmbeddingConfig | null,
+  common: CommonEmbeddingParams,
+  includeConnection: boolean,
+): Promise<void> {
+  const filePath = config?.filePath ?? defaultConfigFilePath();
+
+  const save = await confirm({
+    message: `Salvar estas respostas como um novo perfil em ${filePath}?`,
+    initialValue: false,
+  });
+  checkCancel(save);
+  if (!save) {
+    return;
+  }
+
+  const existing = Object.keys(config?.config.profiles ?? {});
+  const nameInput = await text({
+    message: "Nome do perfil?",
+    validate: (v) => {
+      if (!v?.trim()) return "Informe um nome";
+      return existing.includes(v.trim()) ? "Já existe um perfil com esse nome" : undefined;
+    },
+  });
+  checkCancel(nameInput);
+
+  const profile = profileFromAnswers(common, { includeConnection });
+  await saveEmbeddingProfile(filePath, (nameInput as string).trim(), profile);
+  if (profile.connection?.passwordEnv) {
+    log.info(
+      `A senha do banco não foi salva em ${filePath}; defina ${profile.connection.passwordEnv} ` +
+        "ao usar este perfil.",
+    );
+  }
 }
 
 // ---------------------------------------------------------------------------
 // DB URL resolution
 // ---------------------------------------------------------------------------
 
-async function resolveDbUrl(): Promise<string> {
+async function resolveDbUrl(env: NodeJS.ProcessEnv): Promise<string> {
   // Try explicit URL first
-  const envUrl =
-    process.env.SOURCE_DB_URL?.trim() || buildDbUrlFromEnv() || "";
+  const envUrl = resolveDbUrlFromEnv(env) || "";
   if (envUrl) {
     return envUrl;
   }
@@ -210,45 +545,3 @@ async function resolveDbUrl(): Promise<string> {
 function required(value: string | undefined): string | undefined {
   return !value?.trim() ? "Este campo é obrigatório" : undefined;
 }
-
-function parseCommaSeparated(input: string | undefined): string[] {
-  if (!input) return [];
-  return input
-    .split(",")
-    .map((s) => s.trim())
-    .filter((s) => s.length > 0);
-}
-
-function buildDbUrlFromEnv(): string | undefined {
-  const host = stripQuotes(process.env.DB_HOST);
-  const port = stripQuotes(process.env.DB_PORT) || "5432";
-  const dbName = stripQuotes(process.env.DB_NAME);
-  const username = stripQuotes(process.env.DB_USERNAME);
-  const password = stripQuotes(process.env.DB_PASSWORD);
-  if (!host || !dbName || !username || !password) return undefined;
-  return buildDbUrlFromParts(host, port, dbName, username, password);
-}
-
-function buildDbUrlFromParts(
-  host: string,
-  port: string,
-  dbName: string,
-  username: string,
-  password: string
-): string {
-  return `postgres://${encodeURIComponent(username)}:${encodeURIComponent(
-    password
-  )}@${host}:${port}/${encodeURIComponent(dbName)}`;
-}
-
-function stripQuotes(value: string | undefined): string | undefined {
-  if (!value) return undefined;
-  const trimmed = value.trim();
-  if (
-    (trimmed.startsWith('"') && trimmed.endsWith('"')) ||
-    (trimmed.startsWith("'") && trimmed.endsWith("'"))
-  ) {
-    return trimmed.slice(1, -1).trim();
-  }
-  return trimmed;
-}